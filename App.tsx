@@ -8,14 +8,21 @@ import * as NotificationService from './services/NotificationService';
 import * as ThemeService from './services/themeService';
 import { initializeApp } from './services/systemService';
 import * as OfflineService from './services/offlineService';
+import * as SyncService from './services/syncService';
+import * as BillService from './services/BillService';
+import * as DebtService from './services/DebtService';
+import * as PushService from './services/PushService';
+import * as ChatService from './services/ChatService';
 import { ToastProvider } from './contexts/ToastContext';
 import { supabase } from './services/supabaseClient';
-import { User, Group } from './types';
+import { User, Group, ChatMessage } from './types';
+import { useRealtimeTable } from './hooks/useRealtimeTable';
 
 // PWA Components
 import { InstallPrompt } from './components/InstallPrompt';
 import { OfflineBanner } from './components/OfflineBanner';
 import { useIOSInstallPrompt } from './components/ui/IOSInstallGuide';
+import { GroupSwitcher } from './components/GroupSwitcher';
 
 // =============================================================================
 // LAZY LOADING WITH RETRY - Handles network failures gracefully
@@ -69,6 +76,9 @@ const AuthPage = lazyWithRetry(() => import('./pages/AuthPage'));
 const GroupSetupPage = lazyWithRetry(() => import('./pages/GroupSetupPage'));
 const BillsPage = lazyWithRetry(() => import('./pages/BillsPage'));
 const StatsPage = lazyWithRetry(() => import('./pages/StatsPage'));
+const DebtsPage = lazyWithRetry(() => import('./pages/DebtsPage'));
+const ActivityPage = lazyWithRetry(() => import('./pages/ActivityPage'));
+const ImportPage = lazyWithRetry(() => import('./pages/ImportPage'));
 
 // Page loading fallback
 const PageLoader = () => (
@@ -80,6 +90,19 @@ const PageLoader = () => (
   </div>
 );
 
+// A tapped push opens the app as /?group=<id>#/route (public/push-sw.js);
+// saving the group as active makes the route open inside it
+const PUSH_GROUP_PARAM = 'group';
+
+const applyGroupFromUrl = (userId: string) => {
+  const url = new URL(window.location.href);
+  const groupId = url.searchParams.get(PUSH_GROUP_PARAM);
+  if (!groupId) return;
+  GroupService.setActiveGroupId(userId, groupId);
+  url.searchParams.delete(PUSH_GROUP_PARAM);
+  window.history.replaceState(null, '', url.href);
+};
+
 // Global Context
 interface AppContextType {
   currentUser: User | null;
@@ -88,11 +111,18 @@ interface AppContextType {
   logout: () => void;
   users: User[];
   group: Group;
+  groups: Group[];
   setGroup: (group: Group) => void;
+  switchGroup: (groupId: string) => void;
   refreshData: () => Promise<void>;
   theme: 'light' | 'dark';
   toggleTheme: () => void;
   unreadNotifications: number;
+  /** Unread notifications per group id ('' holds account-level ones) */
+  unreadByGroup: Record<string, number>;
+  /** Chat messages in the current group newer than the user's last read */
+  unreadChat: number;
+  refreshUnreadChat: () => void;
 }
 
 const AppContext = createContext<AppContextType | null>(null);
@@ -108,7 +138,7 @@ const EMPTY_GROUP: Group = { id: '', name: '', code: '', members: [] };
 // Navbar Component
 const Navbar = () => {
   const location = useLocation();
-  const { unreadNotifications } = useApp();
+  const { unreadNotifications, unreadChat } = useApp();
   
   const navItems = [
     { path: '/', icon: <Home size={22} />, label: 'الرئيسية' },
@@ -140,6 +170,11 @@ const Navbar = () => {
                     {unreadNotifications > 9 ? '9+' : unreadNotifications}
                   </span>
                 )}
+                {item.path === '/chat' && !isActive && unreadChat > 0 && (
+                  <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-[10px] rounded-full flex items-center justify-center">
+                    {unreadChat > 9 ? '9+' : unreadChat}
+                  </span>
+                )}
               </div>
               <span className="text-[10px] font-medium">{item.label}</span>
             </Link>
@@ -157,17 +192,19 @@ const Header = () => {
   return (
     <header className="sticky top-0 z-40 bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg border-b border-gray-100 dark:border-gray-800 px-4 py-3">
       <div className="flex items-center justify-between">
-        <Link to="/profile" className="flex items-center gap-3">
-          <img 
-            src={currentUser?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${currentUser?.name}`} 
-            alt="Avatar" 
-            className="w-10 h-10 rounded-full border-2 border-primary/20"
-          />
-          <div>
-            <p className="text-sm text-gray-500 dark:text-gray-400">أهلاً</p>
-            <p className="font-bold text-gray-900 dark:text-white">{currentUser?.name}</p>
+        <div className="flex items-center gap-3 min-w-0">
+          <Link to="/profile" className="flex-shrink-0">
+            <img 
+              src={currentUser?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${currentUser?.name}`} 
+              alt="Avatar" 
+              className="w-10 h-10 rounded-full border-2 border-primary/20"
+            />
+          </Link>
+          <div className="min-w-0">
+            <p className="text-sm text-gray-500 dark:text-gray-400">أهلاً {currentUser?.name}</p>
+            <GroupSwitcher />
           </div>
-        </Link>
+        </div>
         
         <div className="flex items-center gap-2">
           <button
@@ -200,7 +237,8 @@ const ProtectedRoute = ({ children, showHeader = true }: { children?: React.Reac
   return (
     <div className="min-h-screen min-h-[100svh] bg-gray-50 dark:bg-gray-900 font-sans transition-colors" dir="rtl">
       {showHeader && <Header />}
-      <div className="pb-navbar">
+      {/* Keyed by group so switching groups remounts the page with fresh state */}
+      <div className="pb-navbar" key={group.id}>
         {children}
       </div>
       <Navbar />
@@ -212,47 +250,55 @@ const App = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [group, setGroup] = useState<Group>(EMPTY_GROUP);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [unreadByGroup, setUnreadByGroup] = useState<Record<string, number>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [theme, setThemeState] = useState<'light' | 'dark'>('light');
   const [unreadNotifications, setUnreadNotifications] = useState(0);
+  const [unreadChat, setUnreadChat] = useState(0);
   
   // iOS PWA Install Guide
   const { GuideComponent: IOSGuide } = useIOSInstallPrompt();
   
   const loadUserContext = useCallback(async (user: User) => {
     try {
-      const [fetchedUsers, userGroups, unread] = await Promise.all([
+      const [fetchedUsers, userGroups, unread, unreadCounts] = await Promise.all([
         UserService.getUsers(),
         GroupService.getUserGroups(user.id),
-        NotificationService.getUnreadNotificationCount(user.id)
+        NotificationService.getUnreadNotificationCount(user.id),
+        NotificationService.getUnreadCountsByGroup(user.id)
       ]);
 
       setUsers(fetchedUsers);
-      const currentGroupData = userGroups.length > 0 ? userGroups[0] : EMPTY_GROUP;
+      setGroups(userGroups);
+      const currentGroupData = GroupService.pickActiveGroup(user.id, userGroups) || EMPTY_GROUP;
       setGroup(currentGroupData);
       setUnreadNotifications(unread);
+      setUnreadByGroup(unreadCounts);
       
       // Cache data for offline use
       if (OfflineService.isOnline()) {
         await Promise.all([
           OfflineService.cacheUsers(fetchedUsers),
-          currentGroupData.id ? OfflineService.cacheGroup(currentGroupData) : Promise.resolve()
+          OfflineService.cacheGroups(userGroups)
         ]);
       }
     } catch (error) {
       // If offline, try to load from cache
       if (!OfflineService.isOnline()) {
         console.log('Offline: loading from cache');
-        const [cachedUsers, cachedGroup] = await Promise.all([
+        const [cachedUsers, cachedGroups] = await Promise.all([
           OfflineService.getCachedUsers(),
-          OfflineService.getCachedGroup()
+          OfflineService.getCachedGroups()
         ]);
         
         if (cachedUsers.length > 0) {
           setUsers(cachedUsers as User[]);
         }
-        if (cachedGroup) {
-          setGroup(cachedGroup as Group);
+        const activeGroup = GroupService.pickActiveGroup(user.id, cachedGroups as Group[]);
+        setGroups(cachedGroups as Group[]);
+        if (activeGroup) {
+          setGroup(activeGroup);
         }
       } else {
         throw error;
@@ -263,15 +309,56 @@ const App = () => {
   const handleAuthenticatedUser = useCallback(async (profile: User) => {
     setCurrentUser(profile);
     AuthService.setCachedProfile(profile);
+    applyGroupFromUrl(profile.id);
     await loadUserContext(profile);
     setIsLoading(false);
   }, [loadUserContext]);
 
+  // Every group change goes through here so the choice survives reloads
+  const selectGroup = useCallback((nextGroup: Group) => {
+    setGroup(nextGroup);
+    if (!nextGroup.id) return;
+    setGroups(prev => (prev.some(g => g.id === nextGroup.id) ? prev : [...prev, nextGroup]));
+    if (currentUser) {
+      GroupService.setActiveGroupId(currentUser.id, nextGroup.id);
+    }
+  }, [currentUser]);
+
+  const switchGroup = useCallback((groupId: string) => {
+    const nextGroup = groups.find(g => g.id === groupId);
+    if (nextGroup && nextGroup.id !== group.id) {
+      selectGroup(nextGroup);
+    }
+  }, [groups, group.id, selectGroup]);
+
   const refreshData = useCallback(async () => {
     if (!currentUser) return;
     await loadUserContext(currentUser);
   }, [currentUser, loadUserContext]);
 
+  const refreshUnreadChat = useCallback(() => {
+    if (!currentUser || !group.id || !OfflineService.isOnline()) return;
+    ChatService.getUnreadChatCount(group.id, currentUser.id)
+      .then(setUnreadChat)
+      .catch(() => {
+        // The badge just keeps its last value
+      });
+  }, [currentUser, group.id]);
+
+  useEffect(() => {
+    setUnreadChat(0);
+    refreshUnreadChat();
+  }, [refreshUnreadChat]);
+
+  // Roommates' messages bump the chat badge straight away
+  useRealtimeTable<ChatMessage>('chat_messages', group.id || undefined, {
+    onChange: change => {
+      // Deleted for everyone no longer counts as unread
+      if (change.type === 'delete' || change.record.userId !== currentUser?.id) refreshUnreadChat();
+    },
+    onResync: refreshUnreadChat
+  });
+
   useEffect(() => {
     let unsubscribe: (() => void) | undefined;
 
@@ -298,7 +385,9 @@ const App = () => {
           setCurrentUser(null);
           AuthService.setCachedProfile(null);
           setGroup(EMPTY_GROUP);
+          setGroups([]);
           setUnreadNotifications(0);
+          setUnreadByGroup({});
           setIsLoading(false);
         }
       });
@@ -363,43 +452,106 @@ const App = () => {
     };
   }, [currentUser?.id, refreshData]);
 
-  // Refresh notifications periodically (every 60 seconds instead of 30)
+  // Refresh notifications periodically (every 60 seconds instead of 30),
+  // and straight away when a push arrives while the app is open
   useEffect(() => {
     if (!currentUser) return;
     
-    const interval = setInterval(async () => {
+    const refreshUnread = async () => {
       try {
-        const unread = await NotificationService.getUnreadNotificationCount(currentUser.id);
+        const [unread, unreadCounts] = await Promise.all([
+          NotificationService.getUnreadNotificationCount(currentUser.id),
+          NotificationService.getUnreadCountsByGroup(currentUser.id)
+        ]);
         setUnreadNotifications(unread);
+        setUnreadByGroup(unreadCounts);
+        refreshUnreadChat();
       } catch {
         // Silently fail - don't spam errors
       }
-    }, 60000); // Every 60 seconds
+    };
+    const interval = setInterval(refreshUnread, 60000); // Every 60 seconds
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'PUSH_RECEIVED') {
+        void refreshUnread();
+      } else if (event.data?.type === 'OPEN_ROUTE' && typeof event.data.route === 'string') {
+        // The route belongs to the notification's group, not whichever one is open
+        if (typeof event.data.groupId === 'string') switchGroup(event.data.groupId);
+        window.location.hash = event.data.route;
+      }
+    };
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
     
-    return () => clearInterval(interval);
-  }, [currentUser]);
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [currentUser, refreshUnreadChat, switchGroup]);
+
+  // Keep this browser's push subscription pointed at whoever is signed in
+  useEffect(() => {
+    if (!currentUser || !OfflineService.isOnline()) return;
+
+    PushService.refreshPushSubscription(currentUser.id)
+      .catch(error => console.error('Push subscription refresh failed:', error));
+  }, [currentUser?.id]);
 
-  // Process sync queue when coming back online
+  // Flag overdue bills and send due reminders once per session and group
+  useEffect(() => {
+    if (!currentUser || !group.id || !OfflineService.isOnline()) return;
+
+    BillService.processBillReminders(group.id)
+      .then(async ({ reminders }) => {
+        if (reminders > 0) {
+          setUnreadNotifications(await NotificationService.getUnreadNotificationCount(currentUser.id));
+        }
+      })
+      .catch(error => console.error('Bill reminders failed:', error));
+  }, [currentUser?.id, group.id]);
+
+  // Debts aren't tied to one group, so they're processed once per user
+  useEffect(() => {
+    if (!currentUser || !OfflineService.isOnline()) return;
+
+    DebtService.processDebtReminders(currentUser.id)
+      .then(async ({ reminders }) => {
+        if (reminders > 0) {
+          setUnreadNotifications(await NotificationService.getUnreadNotificationCount(currentUser.id));
+        }
+      })
+      .catch(error => console.error('Debt reminders failed:', error));
+  }, [currentUser?.id]);
+
+  // The scheduler sends digests too; this covers databases without pg_cron
+  useEffect(() => {
+    if (!currentUser || !OfflineService.isOnline()) return;
+
+    NotificationService.processNotificationDigests()
+      .then(async ({ digests }) => {
+        if (digests > 0) {
+          setUnreadNotifications(await NotificationService.getUnreadNotificationCount(currentUser.id));
+        }
+      })
+      .catch(error => console.error('Notification digest failed:', error));
+  }, [currentUser?.id]);
+
+  // Replay the offline sync queue on start-up and whenever we come back online
   useEffect(() => {
     const handleOnline = async () => {
       try {
-        console.log('Back online - processing sync queue');
-        const result = await OfflineService.processSyncQueue(async (item) => {
-          // Here we would sync each queued item based on its type
-          // For now, just log and mark as processed
-          console.log('Syncing:', item);
-          // TODO: Implement actual sync logic per table
-          return true;
-        });
-        
-        if (result.success > 0) {
-          console.log(`Synced ${result.success} items`);
-        }
+        await SyncService.syncPendingChanges();
       } catch (error) {
         console.error('Sync failed:', error);
       }
     };
 
+    if (OfflineService.isOnline()) {
+      void handleOnline();
+    } else {
+      SyncService.refreshSyncCounts().catch(() => {});
+    }
+
     window.addEventListener('online', handleOnline);
     return () => window.removeEventListener('online', handleOnline);
   }, []);
@@ -411,8 +563,13 @@ const App = () => {
   const logout = () => {
     setCurrentUser(null);
     setGroup(EMPTY_GROUP);
+    setGroups([]);
+    setUnreadByGroup({});
     AuthService.setCachedProfile(null);
-    AuthService.signOut().catch(() => {});
+    // Stop pushes to this browser while the session can still update its device row
+    PushService.detachPushDevice()
+      .catch(() => {})
+      .finally(() => AuthService.signOut().catch(() => {}));
   };
 
   const toggleTheme = () => {
@@ -443,11 +600,16 @@ const App = () => {
       logout, 
       users, 
       group, 
-      setGroup,
+      groups,
+      setGroup: selectGroup,
+      switchGroup,
       refreshData,
       theme,
       toggleTheme,
-      unreadNotifications
+      unreadNotifications,
+      unreadByGroup,
+      unreadChat,
+      refreshUnreadChat
     }}>
         {/* PWA: Offline status banner */}
         <OfflineBanner />
@@ -475,6 +637,9 @@ const App = () => {
           <Route path="/profile" element={<ProtectedRoute showHeader={false}><ProfilePage /></ProtectedRoute>} />
           <Route path="/bills" element={<ProtectedRoute><BillsPage /></ProtectedRoute>} />
           <Route path="/stats" element={<ProtectedRoute><StatsPage /></ProtectedRoute>} />
+          <Route path="/debts" element={<ProtectedRoute><DebtsPage /></ProtectedRoute>} />
+          <Route path="/activity" element={<ProtectedRoute><ActivityPage /></ProtectedRoute>} />
+          <Route path="/import" element={<ProtectedRoute><ImportPage /></ProtectedRoute>} />
           
           {/* Fallback */}
           <Route path="*" element={<Navigate to="/" replace />} />
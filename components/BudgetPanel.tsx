@@ -0,0 +1,188 @@
+// =============================================================================
+// 🎯 BudgetPanel Component
+// =============================================================================
+// This month's spending against each category budget, with progress bars that
+// turn amber at 80% and red past 100%. Members can add, change or remove
+// budgets inline.
+// =============================================================================
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, Target, Trash2, X } from 'lucide-react';
+import * as BudgetService from '../services/BudgetService';
+import { BudgetProgress, ExpenseCategory } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+import { translateCategory } from '../utils/categoryUtils';
+import { formatAmount } from '../utils/currencyUtils';
+
+interface BudgetPanelProps {
+  groupId: string;
+  currency?: string;
+  currencyLabel: string;
+}
+
+const barColor = (percentage: number) => {
+  if (percentage >= 100) return 'bg-rose-500';
+  if (percentage >= 80) return 'bg-amber-500';
+  return 'bg-primary';
+};
+
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({ groupId, currency, currencyLabel }) => {
+  const { showToast } = useToast();
+  const [progress, setProgress] = useState<BudgetProgress[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [category, setCategory] = useState<ExpenseCategory>(ExpenseCategory.GROCERIES);
+  const [amount, setAmount] = useState('');
+
+  const loadProgress = useCallback(async () => {
+    try {
+      setProgress(await BudgetService.getBudgetProgress(groupId));
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, showToast]);
+
+  useEffect(() => {
+    loadProgress();
+  }, [loadProgress]);
+
+  const startEditing = (item?: BudgetProgress) => {
+    setCategory(item?.budget.category ?? ExpenseCategory.GROCERIES);
+    setAmount(item ? String(item.budget.amount) : '');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(amount);
+    if (!Number.isFinite(value) || value <= 0) {
+      showToast('أدخل مبلغ الميزانية', 'error');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await BudgetService.setBudget(groupId, category, value);
+      setIsEditing(false);
+      await loadProgress();
+      showToast('تم حفظ الميزانية', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: BudgetProgress) => {
+    try {
+      await BudgetService.deleteBudget(item.budget.id);
+      setProgress(prev => prev.filter(entry => entry.budget.id !== item.budget.id));
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const inputClass = 'w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-900 dark:text-white flex items-center gap-2">
+          <Target size={18} className="text-primary" /> ميزانية الشهر
+        </h3>
+        {!isEditing && (
+          <button
+            onClick={() => startEditing()}
+            className="p-1.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+            aria-label="إضافة ميزانية"
+          >
+            <Plus size={16} />
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="flex gap-2 mb-4">
+          <select
+            value={category}
+            onChange={e => setCategory(e.target.value as ExpenseCategory)}
+            className={inputClass}
+          >
+            {Object.values(ExpenseCategory).map(value => (
+              <option key={value} value={value}>{translateCategory(value)}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            placeholder={currencyLabel}
+            className={inputClass}
+          />
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 rounded-lg bg-primary text-white text-sm font-medium disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : 'حفظ'}
+          </button>
+          <button
+            onClick={() => setIsEditing(false)}
+            className="px-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-500"
+            aria-label="إلغاء"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="animate-spin text-primary" size={20} />
+        </div>
+      ) : progress.length === 0 ? (
+        <p className="text-center text-sm text-gray-400 py-4">
+          حدد ميزانية شهرية لأي تصنيف وسننبهكم عند 80% و100%
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {progress.map(item => (
+            <div key={item.budget.id}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="text-gray-700 dark:text-gray-300">{translateCategory(item.budget.category)}</span>
+                <div className="flex items-center gap-2">
+                  <span className={`font-medium ${item.percentage >= 100 ? 'text-rose-500' : 'text-gray-900 dark:text-white'}`}>
+                    {formatAmount(item.spent, currency)} / {formatAmount(item.budget.amount, currency)} {currencyLabel}
+                  </span>
+                  <button onClick={() => startEditing(item)} className="text-gray-400" aria-label="تعديل">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(item)} className="text-gray-400" aria-label="حذف">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${barColor(item.percentage)}`}
+                  style={{ width: `${Math.min(item.percentage, 100)}%` }}
+                />
+              </div>
+              <p className="text-[11px] text-gray-400 mt-1">
+                {item.percentage >= 100
+                  ? `تجاوز الميزانية بـ ${formatAmount(item.spent - item.budget.amount, currency)} ${currencyLabel}`
+                  : `متبقي ${formatAmount(item.budget.amount - item.spent, currency)} ${currencyLabel} (${Math.round(item.percentage)}%)`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
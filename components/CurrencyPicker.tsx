@@ -0,0 +1,83 @@
+// =============================================================================
+// 💱 CurrencyPicker Component
+// =============================================================================
+// Currency selector for the expense form. For anything other than the group's
+// base currency it asks for the exchange rate (prefilled from the group's
+// saved rates) and previews the converted amount.
+// =============================================================================
+
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { CURRENCIES, formatCurrency, getCurrencyLabel, toBaseAmount } from '../utils/currencyUtils';
+
+interface CurrencyPickerProps {
+  baseCurrency: string;
+  currency: string;
+  amount: number;
+  /** Raw text so a half-typed rate isn't lost */
+  exchangeRate: string;
+  isLoadingRate?: boolean;
+  onCurrencyChange: (currency: string) => void;
+  onExchangeRateChange: (value: string) => void;
+}
+
+export const CurrencyPicker: React.FC<CurrencyPickerProps> = ({
+  baseCurrency,
+  currency,
+  amount,
+  exchangeRate,
+  isLoadingRate = false,
+  onCurrencyChange,
+  onExchangeRateChange
+}) => {
+  const isForeign = currency !== baseCurrency;
+  const rate = parseFloat(exchangeRate);
+  const hasRate = Number.isFinite(rate) && rate > 0;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">العملة</label>
+      <div className="flex gap-2">
+        <select
+          value={currency}
+          onChange={e => onCurrencyChange(e.target.value)}
+          className="flex-1 border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-primary focus:outline-none"
+        >
+          {Object.values(CURRENCIES).map(option => (
+            <option key={option.code} value={option.code}>
+              {option.code} ({option.label})
+            </option>
+          ))}
+        </select>
+        {isForeign && (
+          <div className="flex items-center gap-1.5 flex-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              1 {getCurrencyLabel(currency)} =
+            </span>
+            <input
+              type="number"
+              inputMode="decimal"
+              step="any"
+              value={exchangeRate}
+              onChange={e => onExchangeRateChange(e.target.value)}
+              placeholder="سعر الصرف"
+              className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-primary focus:outline-none"
+            />
+            {isLoadingRate
+              ? <Loader2 size={14} className="animate-spin text-gray-400" />
+              : <span className="text-xs text-gray-500 dark:text-gray-400">{getCurrencyLabel(baseCurrency)}</span>}
+          </div>
+        )}
+      </div>
+      {isForeign && (
+        <p className={`text-[11px] mt-1.5 ${hasRate ? 'text-gray-500 dark:text-gray-400' : 'text-rose-500'}`}>
+          {hasRate
+            ? `يعادل ${formatCurrency(toBaseAmount(amount || 0, rate, baseCurrency), baseCurrency)} بسعر اليوم، ولن يتغير لاحقاً`
+            : 'أدخل سعر الصرف لهذه العملة'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CurrencyPicker;
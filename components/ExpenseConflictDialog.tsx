@@ -0,0 +1,141 @@
+// =============================================================================
+// ⚠️ ExpenseConflictDialog Component
+// =============================================================================
+// Shown when saving an expense edit fails because another member changed the
+// same expense first. Lists both versions side by side and lets the user
+// decide which one to keep.
+// =============================================================================
+
+import React from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { User } from '../types';
+import type { ExpenseConflictError } from '../services/ExpenseService';
+
+interface ExpenseConflictDialogProps {
+  conflict: ExpenseConflictError;
+  users: User[];
+  isResolving?: boolean;
+  /** Re-apply the user's edit on top of the server version */
+  onKeepMine: () => void;
+  /** Discard the user's edit and take the server version */
+  onKeepTheirs: () => void;
+}
+
+interface VersionSummary {
+  amount: number;
+  description: string;
+  participants: string[];
+}
+
+const formatNames = (ids: string[], users: User[]) =>
+  ids.map(id => users.find(u => u.id === id)?.name || 'عضو').join('، ');
+
+const VersionCard: React.FC<{
+  title: string;
+  version: VersionSummary;
+  other: VersionSummary;
+  users: User[];
+  accent: string;
+}> = ({ title, version, other, users, accent }) => {
+  const differs = {
+    amount: version.amount !== other.amount,
+    description: version.description !== other.description,
+    participants: [...version.participants].sort().join() !== [...other.participants].sort().join()
+  };
+  const highlight = (changed: boolean) => (changed ? 'font-bold text-amber-700 dark:text-amber-400' : 'text-gray-700 dark:text-gray-200');
+
+  return (
+    <div className={`rounded-xl border p-3 space-y-2 text-sm ${accent}`}>
+      <p className="font-bold text-gray-800 dark:text-white">{title}</p>
+      <div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">المبلغ</p>
+        <p className={highlight(differs.amount)}>{version.amount.toFixed(2)}</p>
+      </div>
+      <div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">الوصف</p>
+        <p className={highlight(differs.description)}>{version.description}</p>
+      </div>
+      <div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">المشاركون</p>
+        <p className={highlight(differs.participants)}>{formatNames(version.participants, users)}</p>
+      </div>
+    </div>
+  );
+};
+
+export const ExpenseConflictDialog: React.FC<ExpenseConflictDialogProps> = ({
+  conflict,
+  users,
+  isResolving = false,
+  onKeepMine,
+  onKeepTheirs
+}) => {
+  const { current, attempted } = conflict;
+
+  const mine: VersionSummary = {
+    amount: attempted.amount,
+    description: attempted.description ?? current.description,
+    participants: attempted.participants
+  };
+  const theirs: VersionSummary = {
+    amount: current.amount,
+    description: current.description,
+    participants: current.splitBetween || []
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-[70] flex items-end sm:items-center justify-center backdrop-blur-sm">
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-md rounded-t-3xl sm:rounded-2xl flex flex-col shadow-2xl"
+        style={{ marginBottom: 'calc(3.5rem + env(safe-area-inset-bottom, 0px))' }}
+      >
+        <div className="flex items-center gap-2 px-5 py-4 border-b border-gray-100 dark:border-gray-700">
+          <AlertTriangle size={20} className="text-amber-500" />
+          <h2 className="text-lg font-bold dark:text-white">تعارض في التعديل</h2>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-300">{conflict.message}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <VersionCard
+              title="تعديلك"
+              version={mine}
+              other={theirs}
+              users={users}
+              accent="border-primary/40 bg-primary/5 dark:bg-primary/10"
+            />
+            <VersionCard
+              title="النسخة المحفوظة"
+              version={theirs}
+              other={mine}
+              users={users}
+              accent="border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 px-5 py-4 border-t border-gray-100 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={onKeepMine}
+            disabled={isResolving}
+            className="flex-1 bg-primary text-white font-bold py-3 rounded-xl hover:bg-emerald-600 active:scale-[0.98] disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+          >
+            {isResolving && <Loader2 size={16} className="animate-spin" />}
+            الاحتفاظ بتعديلي
+          </button>
+          <button
+            type="button"
+            onClick={onKeepTheirs}
+            disabled={isResolving}
+            className="flex-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 font-bold py-3 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-all"
+          >
+            الاحتفاظ بالمحفوظ
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseConflictDialog;
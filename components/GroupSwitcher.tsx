@@ -0,0 +1,101 @@
+// =============================================================================
+// 🏘️ GroupSwitcher Component
+// =============================================================================
+// Shows the active group's name in the header and opens a menu listing every
+// group the user belongs to, with unread notification badges per group and a
+// shortcut to create or join another one.
+// =============================================================================
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, ChevronDown, Plus } from 'lucide-react';
+import { useApp } from '../App';
+
+export const GroupSwitcher: React.FC = () => {
+  const { group, groups, switchGroup, unreadByGroup } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Unread notifications waiting in groups other than the active one
+  const otherUnread = groups
+    .filter(g => g.id !== group.id)
+    .reduce((sum, g) => sum + (unreadByGroup[g.id] || 0), 0);
+
+  const handleSelect = (groupId: string) => {
+    setIsOpen(false);
+    switchGroup(groupId);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 font-bold text-gray-900 dark:text-white max-w-[11rem]"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="truncate">{group.name || 'مجموعتي'}</span>
+        <ChevronDown size={16} className={`flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        {otherUnread > 0 && (
+          <span className="w-2 h-2 rounded-full bg-red-500 flex-shrink-0" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-60 bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-100 dark:border-gray-700 z-50 overflow-hidden">
+          <ul role="listbox" className="max-h-64 overflow-y-auto py-1">
+            {groups.map(g => {
+              const isActive = g.id === group.id;
+              const unread = unreadByGroup[g.id] || 0;
+              return (
+                <li key={g.id}>
+                  <button
+                    type="button"
+                    role="option"
+                    aria-selected={isActive}
+                    onClick={() => handleSelect(g.id)}
+                    className={`w-full flex items-center gap-2 px-4 py-2.5 text-sm text-right transition-colors ${
+                      isActive
+                        ? 'bg-primary/10 text-primary font-bold'
+                        : 'text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <span className="flex-1 truncate">{g.name}</span>
+                    {unread > 0 && (
+                      <span className="min-w-[20px] h-5 px-1.5 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                        {unread > 9 ? '9+' : unread}
+                      </span>
+                    )}
+                    {isActive && <Check size={16} />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <Link
+            to="/group-setup"
+            onClick={() => setIsOpen(false)}
+            className="flex items-center gap-2 px-4 py-3 text-sm font-medium text-primary border-t border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <Plus size={16} />
+            إنشاء أو الانضمام لمجموعة
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupSwitcher;
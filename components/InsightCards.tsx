@@ -0,0 +1,133 @@
+// =============================================================================
+// 💡 InsightCards Component
+// =============================================================================
+// Where this month is heading (whole group and per category) and recent
+// expenses that are unusually large for their category.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2, TrendingDown, TrendingUp } from 'lucide-react';
+import * as StatsService from '../services/StatsService';
+import { SpendingInsights } from '../types';
+import { translateCategory } from '../utils/categoryUtils';
+import { formatAmount } from '../utils/currencyUtils';
+
+/** Categories are called out once the forecast is this far above their usual month */
+const CATEGORY_WARNING_PERCENT = 20;
+const MAX_CATEGORY_CARDS = 3;
+
+interface InsightCardsProps {
+  groupId: string;
+  currency?: string;
+  currencyLabel: string;
+}
+
+const percentChange = (value: number, baseline: number) =>
+  baseline > 0 ? Math.round(((value - baseline) / baseline) * 100) : null;
+
+export const InsightCards: React.FC<InsightCardsProps> = ({ groupId, currency, currencyLabel }) => {
+  const [insights, setInsights] = useState<SpendingInsights | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    StatsService.getSpendingInsights(groupId)
+      .then(result => {
+        if (!cancelled) setInsights(result);
+      })
+      .catch(() => {
+        // Insights are extra; the rest of the page still works without them
+        if (!cancelled) setInsights(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="animate-spin text-primary" size={20} />
+      </div>
+    );
+  }
+  if (!insights || (insights.forecast.projected === 0 && insights.anomalies.length === 0)) return null;
+
+  const { forecast, anomalies } = insights;
+  const amount = (value: number) => `${formatAmount(value, currency)} ${currencyLabel}`;
+  const totalChange = percentChange(forecast.projected, forecast.baseline);
+  const risingCategories = forecast.categories
+    .filter(category => (percentChange(category.projected, category.baseline) ?? 0) >= CATEGORY_WARNING_PERCENT)
+    .slice(0, MAX_CATEGORY_CARDS);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-bold text-gray-900 dark:text-white">نظرة على الشهر</h3>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">المتوقع بنهاية الشهر</p>
+            <p className="text-xl font-bold text-gray-900 dark:text-white">{amount(forecast.projected)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">صرفتم حتى الآن {amount(forecast.spent)}</p>
+          </div>
+          {totalChange !== null && (
+            <span
+              className={`flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-full ${
+                totalChange > 0
+                  ? 'bg-rose-50 text-rose-600 dark:bg-rose-900/30 dark:text-rose-300'
+                  : 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-300'
+              }`}
+            >
+              {totalChange > 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+              {Math.abs(totalChange)}% {totalChange > 0 ? 'أعلى' : 'أقل'} من المعتاد
+            </span>
+          )}
+        </div>
+        <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden mt-3">
+          <div
+            className="h-full bg-primary rounded-full"
+            style={{ width: `${forecast.projected > 0 ? Math.min((forecast.spent / forecast.projected) * 100, 100) : 0}%` }}
+          />
+        </div>
+      </div>
+
+      {risingCategories.map(category => (
+        <div
+          key={category.category}
+          className="bg-amber-50 dark:bg-amber-900/20 rounded-xl p-3 border border-amber-100 dark:border-amber-900/40 flex items-center gap-3"
+        >
+          <TrendingUp size={18} className="text-amber-600 shrink-0" />
+          <p className="text-sm text-amber-800 dark:text-amber-200">
+            {translateCategory(category.category)} في طريقها لـ {amount(category.projected)}، أعلى{' '}
+            {percentChange(category.projected, category.baseline)}% من متوسط {amount(category.baseline)}
+          </p>
+        </div>
+      ))}
+
+      {anomalies.map(anomaly => (
+        <div
+          key={anomaly.expenseId}
+          className="bg-rose-50 dark:bg-rose-900/20 rounded-xl p-3 border border-rose-100 dark:border-rose-900/40 flex items-center gap-3"
+        >
+          <AlertTriangle size={18} className="text-rose-500 shrink-0" />
+          <div className="text-sm text-rose-800 dark:text-rose-200">
+            <p className="font-medium">
+              {anomaly.description || translateCategory(anomaly.category)}: {amount(anomaly.amount)}
+            </p>
+            <p className="text-xs opacity-80">
+              {anomaly.ratio}× متوسط {translateCategory(anomaly.category)} المعتاد ({amount(anomaly.average)}) ·{' '}
+              {new Date(anomaly.date).toLocaleDateString('ar-EG', { day: 'numeric', month: 'short' })}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InsightCards;
@@ -0,0 +1,117 @@
+// =============================================================================
+// 📤 LedgerExportPanel Component
+// =============================================================================
+// Download the group's expenses, payments, bills and balances as CSV or Excel,
+// for a date range and optionally one category or member.
+// =============================================================================
+
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import * as ExportService from '../services/ExportService';
+import { ExpenseCategory, User } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+import { translateCategory } from '../utils/categoryUtils';
+import { ExportFormat, downloadFile } from '../utils/exportUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LedgerExportPanelProps {
+  groupId: string;
+  members: User[];
+}
+
+const toInputDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const LedgerExportPanel: React.FC<LedgerExportPanelProps> = ({ groupId, members }) => {
+  const { showToast } = useToast();
+  const [from, setFrom] = useState(() => {
+    const now = new Date();
+    return toInputDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+  });
+  const [to, setTo] = useState(() => toInputDate(new Date()));
+  const [category, setCategory] = useState('');
+  const [memberId, setMemberId] = useState('');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (exporting) return;
+    setExporting(format);
+    try {
+      // Date inputs are whole days, so the end is the start of the day after
+      const file = await ExportService.exportLedger(groupId, {
+        from: from ? new Date(from).toISOString() : undefined,
+        to: to ? new Date(new Date(to).getTime() + DAY_MS).toISOString() : undefined,
+        category: category || undefined,
+        memberId: memberId || undefined
+      }, format);
+      downloadFile(file.content, file.filename, file.format);
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const inputClass = 'mt-1 w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
+      <h3 className="font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <FileSpreadsheet size={18} className="text-primary" /> تصدير الحسابات
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        المصروفات بحصة كل عضو، المدفوعات، الفواتير وملخص الأرصدة
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="text-xs text-gray-500 dark:text-gray-400">
+          من
+          <input type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-500 dark:text-gray-400">
+          إلى
+          <input type="date" value={to} min={from} onChange={e => setTo(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-xs text-gray-500 dark:text-gray-400">
+          التصنيف
+          <select value={category} onChange={e => setCategory(e.target.value)} className={inputClass}>
+            <option value="">كل التصنيفات</option>
+            {Object.values(ExpenseCategory).map(value => (
+              <option key={value} value={value}>{translateCategory(value)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500 dark:text-gray-400">
+          العضو
+          <select value={memberId} onChange={e => setMemberId(e.target.value)} className={inputClass}>
+            <option value="">كل الأعضاء</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        {(['xlsx', 'csv'] as ExportFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-medium disabled:opacity-50 ${
+              format === 'xlsx'
+                ? 'bg-primary text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200'
+            }`}
+          >
+            {exporting === format ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {format === 'xlsx' ? 'Excel' : 'CSV'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LedgerExportPanel;
@@ -0,0 +1,211 @@
+// =============================================================================
+// 🔕 NotificationSettingsPanel Component
+// =============================================================================
+// Per-type choice between push, in-app only and off, quiet hours that hold
+// pushes back, and the daily digest. Saved per user, on every device.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Moon, Newspaper } from 'lucide-react';
+import * as NotificationService from '../services/NotificationService';
+import { NotificationChannel, NotificationPreferences, NotificationType } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+
+const TYPE_LABELS: Record<Exclude<NotificationType, NotificationType.DAILY_DIGEST>, string> = {
+  [NotificationType.EXPENSE_ADDED]: 'المصروفات الجديدة',
+  [NotificationType.PAYMENT_RECEIVED]: 'المبالغ المرسلة لك',
+  [NotificationType.PAYMENT_CONFIRMED]: 'تأكيد المدفوعات',
+  [NotificationType.DEBT_REMINDER]: 'تذكير الديون',
+  [NotificationType.BILL_DUE]: 'الفواتير القادمة',
+  [NotificationType.NEW_MEMBER]: 'الأعضاء',
+  [NotificationType.CHAT_MESSAGE]: 'رسائل الدردشة',
+  [NotificationType.BUDGET_ALERT]: 'تنبيهات الميزانية'
+};
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: 'push', label: 'إشعار' },
+  { value: 'in_app', label: 'بالتطبيق' },
+  { value: 'off', label: 'إيقاف' }
+];
+
+const DEFAULT_QUIET_START = 23 * 60;
+const DEFAULT_QUIET_END = 7 * 60;
+
+const toTimeValue = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const fromTimeValue = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+interface NotificationSettingsPanelProps {
+  userId: string;
+}
+
+export const NotificationSettingsPanel: React.FC<NotificationSettingsPanelProps> = ({ userId }) => {
+  const { showToast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    NotificationService.getNotificationPreferences(userId)
+      .then(result => {
+        if (!cancelled) setPreferences(result);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          showToast(getErrorMessage(error), 'error');
+          setPreferences(NotificationService.getDefaultNotificationPreferences(userId));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, showToast]);
+
+  if (!preferences) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="animate-spin text-primary" size={20} />
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<NotificationPreferences>) =>
+    setPreferences(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel) =>
+    update({ channels: { ...preferences.channels, [type]: channel } });
+
+  const hasQuietHours = preferences.quietHoursStart !== null && preferences.quietHoursEnd !== null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Quiet hours and the digest hour follow this device's clock
+      await NotificationService.saveNotificationPreferences({
+        ...preferences,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || preferences.timeZone
+      });
+      showToast('تم حفظ إعدادات التنبيهات', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'border dark:border-gray-600 rounded-lg p-1.5 text-sm bg-white dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-xl border border-gray-100 dark:border-gray-700 shadow-sm space-y-4">
+      <div className="space-y-3">
+        {(Object.keys(TYPE_LABELS) as (keyof typeof TYPE_LABELS)[]).map(type => {
+          const current = NotificationService.getNotificationChannel(preferences, type);
+          return (
+            <div key={type} className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-700 dark:text-gray-300">{TYPE_LABELS[type]}</span>
+              <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-0.5">
+                {CHANNEL_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setChannel(type, option.value)}
+                    className={`px-2.5 py-1 text-xs rounded-md ${
+                      current === option.value
+                        ? 'bg-white dark:bg-gray-800 text-primary font-medium shadow-sm'
+                        : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="pt-4 border-t border-gray-100 dark:border-gray-700 space-y-2">
+        <label className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-white">
+            <Moon size={16} className="text-gray-500" /> ساعات الهدوء
+          </span>
+          <input
+            type="checkbox"
+            checked={hasQuietHours}
+            onChange={e =>
+              update(
+                e.target.checked
+                  ? { quietHoursStart: DEFAULT_QUIET_START, quietHoursEnd: DEFAULT_QUIET_END }
+                  : { quietHoursStart: null, quietHoursEnd: null }
+              )
+            }
+            className="w-4 h-4 accent-primary"
+          />
+        </label>
+        {hasQuietHours && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <span>من</span>
+            <input
+              type="time"
+              value={toTimeValue(preferences.quietHoursStart ?? DEFAULT_QUIET_START)}
+              onChange={e => update({ quietHoursStart: fromTimeValue(e.target.value) })}
+              className={inputClass}
+            />
+            <span>إلى</span>
+            <input
+              type="time"
+              value={toTimeValue(preferences.quietHoursEnd ?? DEFAULT_QUIET_END)}
+              onChange={e => update({ quietHoursEnd: fromTimeValue(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-400">التنبيهات بتتحفظ في التطبيق من غير إشعار على الجهاز</p>
+      </div>
+
+      <div className="pt-4 border-t border-gray-100 dark:border-gray-700 space-y-2">
+        <label className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-800 dark:text-white">
+            <Newspaper size={16} className="text-gray-500" /> ملخص يومي
+          </span>
+          <input
+            type="checkbox"
+            checked={preferences.dailyDigest}
+            onChange={e => update({ dailyDigest: e.target.checked })}
+            className="w-4 h-4 accent-primary"
+          />
+        </label>
+        {preferences.dailyDigest && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <span>يوصلك الساعة</span>
+            <select
+              value={preferences.digestHour}
+              onChange={e => update({ digestHour: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <option key={hour} value={hour}>{toTimeValue(hour * 60)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <p className="text-xs text-gray-400">بدل إشعار لكل حاجة، ملخص واحد في اليوم</p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full py-2.5 rounded-xl bg-primary text-white text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isSaving && <Loader2 size={16} className="animate-spin" />}
+        حفظ الإعدادات
+      </button>
+    </div>
+  );
+};
+
+export default NotificationSettingsPanel;
@@ -6,8 +6,9 @@
 // =============================================================================
 
 import React from 'react';
-import { WifiOff, Wifi } from 'lucide-react';
+import { WifiOff, Wifi, RefreshCw, AlertTriangle } from 'lucide-react';
 import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import * as SyncService from '../services/syncService';
 
 interface OfflineBannerProps {
   /** Custom class name */
@@ -30,6 +31,16 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({ className = '' })
   const { isOffline, isOnline, timeSinceChange } = useNetworkStatus();
   const [showReconnected, setShowReconnected] = React.useState(false);
   const [wasOffline, setWasOffline] = React.useState(false);
+  const [syncStatus, setSyncStatus] = React.useState<SyncService.SyncStatus>(SyncService.getSyncStatus);
+
+  React.useEffect(() => SyncService.subscribeToSyncStatus(setSyncStatus), []);
+
+  // Hide the sync result a few seconds after the queue finishes
+  React.useEffect(() => {
+    if (syncStatus.phase !== 'done') return;
+    const timer = setTimeout(() => SyncService.acknowledgeSyncResult(), 4000);
+    return () => clearTimeout(timer);
+  }, [syncStatus.phase]);
 
   // Track if we were offline to show "reconnected" message
   React.useEffect(() => {
@@ -56,6 +67,56 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({ className = '' })
     return `${hours} ساعة`;
   };
 
+  // Show sync progress while the offline queue is replayed
+  if (isOnline && syncStatus.phase === 'syncing') {
+    return (
+      <div 
+        className={`fixed top-0 left-0 right-0 z-50 ${className}`}
+        role="status"
+        aria-live="polite"
+      >
+        <div className="bg-sky-600 text-white px-4 py-2 shadow-lg animate-slide-down">
+          <div className="max-w-screen-xl mx-auto flex items-center justify-center gap-2">
+            <RefreshCw className="w-4 h-4 animate-spin" />
+            <span className="text-sm font-medium">جاري مزامنة {syncStatus.pending} من التغييرات المحفوظة...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Show the outcome of the last sync run
+  if (isOnline && syncStatus.phase === 'done' && syncStatus.lastResult) {
+    const { success, failed } = syncStatus.lastResult;
+    const hasFailures = failed > 0 || syncStatus.deadLetter > 0;
+    return (
+      <div 
+        className={`fixed top-0 left-0 right-0 z-50 ${className}`}
+        role="status"
+        aria-live="polite"
+      >
+        <div className={`${hasFailures ? 'bg-rose-600' : 'bg-emerald-600'} text-white px-4 py-2 shadow-lg animate-slide-down`}>
+          <div className="max-w-screen-xl mx-auto flex items-center justify-center gap-2">
+            {hasFailures ? <AlertTriangle className="w-4 h-4" /> : <Wifi className="w-4 h-4" />}
+            <span className="text-sm font-medium">
+              {success > 0 && `تمت مزامنة ${success} من التغييرات`}
+              {success > 0 && hasFailures && ' • '}
+              {hasFailures && `تعذرت مزامنة ${syncStatus.deadLetter || failed} وتم الاحتفاظ بها`}
+            </span>
+            {hasFailures && (
+              <button
+                onClick={() => { void SyncService.retryDeadLetter().catch(() => {}); }}
+                className="text-xs underline underline-offset-2 mr-2"
+              >
+                إعادة المحاولة
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Show reconnected banner
   if (showReconnected) {
     return (
@@ -90,6 +151,11 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({ className = '' })
           <WifiOff className="w-4 h-4 animate-pulse" />
           <span className="text-sm font-medium">
             أنت غير متصل بالإنترنت
+            {syncStatus.pending > 0 && (
+              <span className="text-amber-100 mr-2">
+                • {syncStatus.pending} تغييرات بانتظار المزامنة
+              </span>
+            )}
             {timeSinceChange && timeSinceChange > 5 && (
               <span className="text-amber-100 mr-2">
                 ({formatTime(timeSinceChange)})
@@ -0,0 +1,93 @@
+// =============================================================================
+// 🧾 ReceiptItemsClaimer Component
+// =============================================================================
+// Lists the line items read from a scanned receipt and lets each roommate
+// claim what they ordered. Items claimed by several people are shared.
+// =============================================================================
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { User } from '../types';
+import type { ItemizedReceipt } from '../services/geminiService';
+
+interface ReceiptItemsClaimerProps {
+  receipt: ItemizedReceipt;
+  memberIds: string[];
+  users: User[];
+  claims: Record<number, string[]>;
+  onToggleClaim: (itemIndex: number, memberId: string) => void;
+  onClear: () => void;
+}
+
+export const ReceiptItemsClaimer: React.FC<ReceiptItemsClaimerProps> = ({
+  receipt,
+  memberIds,
+  users,
+  claims,
+  onToggleClaim,
+  onClear
+}) => {
+  const extras = receipt.tax + receipt.serviceCharge + receipt.tip;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">أصناف الفاتورة</label>
+        <button
+          type="button"
+          onClick={onClear}
+          className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 flex items-center gap-1"
+        >
+          <X size={12} />
+          إلغاء التقسيم بالأصناف
+        </button>
+      </div>
+      <p className="text-[11px] text-gray-500 dark:text-gray-400 mb-1.5">
+        اختر من طلب كل صنف. الضريبة والخدمة تتوزع حسب نسبة كل شخص.
+      </p>
+      <div className="max-h-56 overflow-y-auto space-y-2 border dark:border-gray-600 rounded-xl p-3 bg-gray-50 dark:bg-gray-700/50">
+        {receipt.items.map((item, index) => {
+          const owners = claims[index] || [];
+          return (
+            <div key={index} className={`rounded-lg p-2 ${owners.length ? 'bg-white dark:bg-gray-800' : 'bg-amber-50 dark:bg-amber-900/20'}`}>
+              <div className="flex justify-between text-sm text-gray-700 dark:text-gray-200 mb-1.5">
+                <span className="truncate">
+                  {item.name}
+                  {item.quantity && item.quantity > 1 ? ` ×${item.quantity}` : ''}
+                </span>
+                <span className="font-medium">{item.price.toFixed(2)}</span>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {memberIds.map(memberId => {
+                  const isOwner = owners.includes(memberId);
+                  return (
+                    <button
+                      key={memberId}
+                      type="button"
+                      onClick={() => onToggleClaim(index, memberId)}
+                      className={`px-2 py-0.5 rounded-full text-[11px] transition-colors ${
+                        isOwner
+                          ? 'bg-primary text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {users.find(u => u.id === memberId)?.name || 'عضو'}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {extras > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1.5 px-1">
+          <span>ضريبة وخدمة وإكرامية</span>
+          <span>{extras.toFixed(2)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptItemsClaimer;
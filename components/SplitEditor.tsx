@@ -0,0 +1,135 @@
+// =============================================================================
+// ➗ SplitEditor Component
+// =============================================================================
+// Participant picker for the expense form with a per-member input for each
+// split mode (exact amounts, percentages, shares, adjustments) and a live
+// preview of what everyone will owe.
+// =============================================================================
+
+import React, { useMemo } from 'react';
+import { SplitMode, User } from '../types';
+import { SPLIT_MODE_LABELS, calculateSplitShares, getSplitValidationError } from '../utils/splitUtils';
+import { formatAmount, getCurrencyLabel } from '../utils/currencyUtils';
+
+interface SplitEditorProps {
+  memberIds: string[];
+  users: User[];
+  amount: number;
+  currency?: string;
+  mode: SplitMode;
+  selected: string[];
+  /** Raw text typed per member, kept as strings so partial input isn't lost */
+  inputs: Record<string, string>;
+  onModeChange: (mode: SplitMode) => void;
+  onToggle: (memberId: string) => void;
+  onInputChange: (memberId: string, value: string) => void;
+}
+
+const INPUT_HINTS: Partial<Record<SplitMode, { placeholder: string; suffix: string; help: string }>> = {
+  [SplitMode.EXACT]: { placeholder: '0.00', suffix: '', help: 'اكتب المبلغ المطلوب من كل شخص' },
+  [SplitMode.PERCENTAGE]: { placeholder: '0', suffix: '%', help: 'مجموع النسب يجب أن يكون 100%' },
+  [SplitMode.SHARES]: { placeholder: '1', suffix: 'حصة', help: 'مثلاً مساحة غرفة كل شخص بالمتر لتقسيم الإيجار' },
+  [SplitMode.ADJUSTMENT]: { placeholder: '0', suffix: '±', help: 'مبلغ زائد أو ناقص عن القسمة المتساوية' }
+};
+
+/** Converts the typed strings into numbers for the split calculation */
+export const parseSplitInputs = (inputs: Record<string, string>, memberIds: string[]): Record<string, number> =>
+  memberIds.reduce<Record<string, number>>((parsed, memberId) => {
+    const value = parseFloat(inputs[memberId] ?? '');
+    parsed[memberId] = Number.isFinite(value) ? value : 0;
+    return parsed;
+  }, {});
+
+export const SplitEditor: React.FC<SplitEditorProps> = ({
+  memberIds,
+  users,
+  amount,
+  currency,
+  mode,
+  selected,
+  inputs,
+  onModeChange,
+  onToggle,
+  onInputChange
+}) => {
+  const hint = INPUT_HINTS[mode];
+  const parsedInputs = useMemo(() => parseSplitInputs(inputs, selected), [inputs, selected]);
+
+  const { error, shares } = useMemo(() => {
+    if (!amount || amount <= 0 || selected.length === 0) {
+      return { error: null, shares: {} as Record<string, number> };
+    }
+    const validationError = getSplitValidationError(amount, selected, mode, parsedInputs, currency);
+    return {
+      error: validationError,
+      shares: validationError ? {} : calculateSplitShares(amount, selected, mode, parsedInputs, currency)
+    };
+  }, [amount, selected, mode, parsedInputs, currency]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">طريقة التقسيم</label>
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {Object.values(SplitMode).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onModeChange(option)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              mode === option
+                ? 'bg-primary text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {SPLIT_MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">المشاركون</label>
+      {hint && <p className="text-[11px] text-gray-500 dark:text-gray-400 mb-1.5">{hint.help}</p>}
+      <div className="max-h-44 overflow-y-auto space-y-2 border dark:border-gray-600 rounded-xl p-3 bg-gray-50 dark:bg-gray-700/50">
+        {memberIds.map(memberId => {
+          const member = users.find(u => u.id === memberId);
+          const isSelected = selected.includes(memberId);
+          return (
+            <div key={memberId} className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-200">
+              <label className="flex items-center gap-3 flex-1 cursor-pointer min-w-0">
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => onToggle(memberId)}
+                  className="w-4 h-4 rounded text-primary focus:ring-primary"
+                />
+                <span className="truncate">{member?.name || 'عضو'}</span>
+              </label>
+              {hint && isSelected && (
+                <div className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    value={inputs[memberId] ?? ''}
+                    onChange={e => onInputChange(memberId, e.target.value)}
+                    placeholder={hint.placeholder}
+                    className="w-20 border dark:border-gray-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-gray-700 dark:text-white focus:ring-2 focus:ring-primary focus:outline-none"
+                  />
+                  <span className="text-[10px] text-gray-400 w-6">
+                    {mode === SplitMode.EXACT ? getCurrencyLabel(currency) : hint.suffix}
+                  </span>
+                </div>
+              )}
+              {isSelected && shares[memberId] !== undefined && (
+                <span className="text-xs font-medium text-gray-500 dark:text-gray-400 w-14 text-left">
+                  {formatAmount(shares[memberId], currency)}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-xs text-rose-500 mt-1.5">{error}</p>}
+    </div>
+  );
+};
+
+export default SplitEditor;
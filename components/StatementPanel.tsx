@@ -0,0 +1,116 @@
+// =============================================================================
+// 🧾 StatementPanel Component
+// =============================================================================
+// Monthly PDF statement for one member, or every member in one file. Shared
+// through the Web Share API where the browser can share files, downloaded
+// otherwise.
+// =============================================================================
+
+import React, { useState } from 'react';
+import { FileText, Loader2, Share2 } from 'lucide-react';
+import * as StatementService from '../services/StatementService';
+import { User } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+import { renderStatementsPdf } from '../utils/statementPdf';
+
+const ALL_MEMBERS = 'all';
+
+interface StatementPanelProps {
+  groupId: string;
+  members: User[];
+  currentUserId: string;
+}
+
+export const StatementPanel: React.FC<StatementPanelProps> = ({ groupId, members, currentUserId }) => {
+  const { showToast } = useToast();
+  const [month, setMonth] = useState(() => StatementService.toStatementMonth());
+  const [memberId, setMemberId] = useState(currentUserId);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const nameOf = (id: string) => members.find(member => member.id === id)?.name || 'عضو سابق';
+
+  const handleGenerate = async () => {
+    if (isGenerating || !month) return;
+    setIsGenerating(true);
+    try {
+      const statements = memberId === ALL_MEMBERS
+        ? await StatementService.getGroupStatements(groupId, month)
+        : [await StatementService.getMemberStatement(groupId, memberId, month)];
+      const pdf = await renderStatementsPdf(statements, nameOf);
+      const label = memberId === ALL_MEMBERS ? 'الكل' : nameOf(memberId);
+      const file = new File([pdf], `كشف_حساب_${label.replace(/\s+/g, '_')}_${month}.pdf`, { type: 'application/pdf' });
+
+      if (navigator.canShare?.({ files: [file] })) {
+        try {
+          await navigator.share({
+            title: 'كشف حساب شهري',
+            text: `كشف حساب ${label} لشهر ${month}`,
+            files: [file]
+          });
+        } catch {
+          // User cancelled share
+        }
+      } else {
+        const url = URL.createObjectURL(file);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.name;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      }
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const inputClass = 'mt-1 w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
+      <h3 className="font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <FileText size={18} className="text-primary" /> كشف الحساب الشهري
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+        رصيد أول الشهر، الحصة من كل مصروف، الدفعات المرسلة والمستلمة ورصيد آخر الشهر
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="text-xs text-gray-500 dark:text-gray-400">
+          الشهر
+          <input
+            type="month"
+            value={month}
+            max={StatementService.toStatementMonth()}
+            onChange={e => setMonth(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-500 dark:text-gray-400">
+          العضو
+          <select value={memberId} onChange={e => setMemberId(e.target.value)} className={inputClass}>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+            <option value={ALL_MEMBERS}>كل الأعضاء (ملف واحد)</option>
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={handleGenerate}
+        disabled={isGenerating || !month}
+        className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-medium bg-primary text-white disabled:opacity-50"
+      >
+        {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Share2 size={16} />}
+        تنزيل / مشاركة PDF
+      </button>
+    </div>
+  );
+};
+
+export default StatementPanel;
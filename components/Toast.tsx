@@ -1,8 +1,14 @@
 import React from 'react';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: ToastAction;
 }
 
 const typeStyles: Record<ToastProps['type'], string> = {
@@ -11,12 +17,20 @@ const typeStyles: Record<ToastProps['type'], string> = {
   info: 'bg-sky-500 text-white shadow-sky-500/40'
 };
 
-const Toast: React.FC<ToastProps> = ({ message, type }) => {
+const Toast: React.FC<ToastProps> = ({ message, type, action }) => {
   return (
     <div
-      className={`pointer-events-auto w-full max-w-sm rounded-2xl px-4 py-3 text-sm font-medium shadow-lg ring-1 ring-white/20 transition transform ${typeStyles[type]}`}
+      className={`pointer-events-auto w-full max-w-sm rounded-2xl px-4 py-3 text-sm font-medium shadow-lg ring-1 ring-white/20 transition transform flex items-center justify-between gap-3 ${typeStyles[type]}`}
     >
-      {message}
+      <span>{message}</span>
+      {action && (
+        <button
+          onClick={action.onClick}
+          className="shrink-0 rounded-lg bg-white/20 hover:bg-white/30 px-3 py-1 text-xs font-bold"
+        >
+          {action.label}
+        </button>
+      )}
     </div>
   );
 };
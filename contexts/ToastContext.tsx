@@ -1,5 +1,5 @@
 import React, { createContext, useCallback, useContext, useState } from 'react';
-import Toast from '../components/Toast';
+import Toast, { ToastAction } from '../components/Toast';
 
 type ToastType = 'success' | 'error' | 'info';
 
@@ -7,12 +7,24 @@ interface ToastMessage {
   id: string;
   message: string;
   type: ToastType;
+  action?: ToastAction;
+}
+
+interface ToastOptions {
+  action?: ToastAction;
+  /** How long the toast stays up, in ms */
+  duration?: number;
 }
 
 interface ToastContextValue {
-  showToast: (message: string, type?: ToastType) => void;
+  showToast: (message: string, type?: ToastType, options?: ToastOptions) => void;
+  /** Info toast with an "undo" button that stays up for UNDO_TOAST_DURATION */
+  showUndoToast: (message: string, onUndo: () => void) => void;
 }
 
+const DEFAULT_TOAST_DURATION = 3000;
+export const UNDO_TOAST_DURATION = 10000;
+
 const ToastContext = createContext<ToastContextValue | undefined>(undefined);
 
 export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
@@ -22,21 +34,36 @@ export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
     setToasts(prev => prev.filter(toast => toast.id !== id));
   }, []);
 
-  const showToast = useCallback((message: string, type: ToastType = 'info') => {
+  const showToast = useCallback((message: string, type: ToastType = 'info', options: ToastOptions = {}) => {
     const id = `toast_${Math.random().toString(36).slice(2, 8)}${Date.now().toString(36)}`;
-    setToasts(prev => [...prev, { id, message, type }]);
+    // The action closes its toast so it can't be triggered twice
+    const action = options.action && {
+      label: options.action.label,
+      onClick: () => {
+        removeToast(id);
+        options.action?.onClick();
+      }
+    };
+    setToasts(prev => [...prev, { id, message, type, action }]);
 
     setTimeout(() => {
       removeToast(id);
-    }, 3000);
+    }, options.duration ?? DEFAULT_TOAST_DURATION);
   }, [removeToast]);
 
+  const showUndoToast = useCallback((message: string, onUndo: () => void) => {
+    showToast(message, 'info', {
+      duration: UNDO_TOAST_DURATION,
+      action: { label: 'تراجع', onClick: onUndo }
+    });
+  }, [showToast]);
+
   return (
-    <ToastContext.Provider value={{ showToast }}>
+    <ToastContext.Provider value={{ showToast, showUndoToast }}>
       {children}
       <div className="fixed top-4 inset-x-0 z-[9999] flex flex-col items-center gap-2 pointer-events-none px-4">
         {toasts.map(toast => (
-          <Toast key={toast.id} message={toast.message} type={toast.type} />
+          <Toast key={toast.id} message={toast.message} type={toast.type} action={toast.action} />
         ))}
       </div>
     </ToastContext.Provider>
@@ -0,0 +1,61 @@
+// =============================================================================
+// 📡 useRealtimeTable Hook
+// =============================================================================
+// Keeps a page in step with roommates' changes to one table of the current
+// group. The channel is closed while offline and reopened when the
+// connection returns, followed by onResync since changes made in between
+// never arrive.
+// =============================================================================
+
+import { useEffect, useRef } from 'react';
+import { useNetworkStatus } from './useNetworkStatus';
+import * as RealtimeService from '../services/RealtimeService';
+
+/**
+ * Hook to subscribe a page to realtime changes.
+ *
+ * @example
+ * ```tsx
+ * useRealtimeTable<ShoppingItem>('shopping_items', group.id, {
+ *   onChange: change => setItems(prev => RealtimeService.applyRealtimeChange(prev, change)),
+ *   onResync: loadItems
+ * });
+ * ```
+ */
+export function useRealtimeTable<T extends { id: string }>(
+  table: RealtimeService.RealtimeTable,
+  groupId: string | undefined,
+  options: RealtimeService.RealtimeSubscriptionOptions<T>
+): void {
+  const { isOnline } = useNetworkStatus();
+  // Latest callbacks without reopening the channel on every render
+  const optionsRef = useRef(options);
+  const wasOfflineRef = useRef(false);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!groupId || !isOnline) return;
+
+    return RealtimeService.subscribeToGroupTable<T>(table, groupId, {
+      onChange: change => optionsRef.current.onChange(change),
+      onResync: () => optionsRef.current.onResync?.(),
+      map: row => (optionsRef.current.map ? optionsRef.current.map(row) : (row as unknown as T))
+    });
+  }, [table, groupId, isOnline]);
+
+  useEffect(() => {
+    if (!isOnline) {
+      wasOfflineRef.current = true;
+      return;
+    }
+    if (wasOfflineRef.current) {
+      wasOfflineRef.current = false;
+      optionsRef.current.onResync?.();
+    }
+  }, [isOnline]);
+}
+
+export default useRealtimeTable;
@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp } from '../App';
+import * as ActivityService from '../services/ActivityService';
+import { ActivityCursor, ActivityEntry, ActivityFieldChange, ActivityTargetType, SplitMode } from '../types';
+import { ArrowLeft, History, Loader2 } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+import { translateCategory } from '../utils/categoryUtils';
+import { SPLIT_MODE_LABELS } from '../utils/splitUtils';
+
+const TYPE_FILTERS: { value: ActivityTargetType | 'all'; label: string }[] = [
+  { value: 'all', label: 'الكل' },
+  { value: 'expense', label: 'المصروفات' },
+  { value: 'payment', label: 'المدفوعات' },
+  { value: 'bill', label: 'الفواتير' },
+  { value: 'member', label: 'الأعضاء' },
+  { value: 'group', label: 'كود الدعوة' }
+];
+
+const ACTION_LABELS: Record<string, string> = {
+  expense_added: 'أضاف مصروف',
+  expense_updated: 'عدّل مصروف',
+  expense_deleted: 'حذف مصروف',
+  expense_restored: 'استرجع مصروف',
+  payment_initiated: 'سجّل دفعة',
+  payment_confirmed: 'أكد دفعة',
+  payment_rejected: 'رفض دفعة',
+  payment_updated: 'عدّل دفعة',
+  payment_deleted: 'حذف دفعة',
+  payment_restored: 'استرجع دفعة',
+  bill_added: 'أضاف فاتورة',
+  bill_updated: 'عدّل فاتورة',
+  bill_paid: 'دفع فاتورة',
+  bill_deleted: 'حذف فاتورة',
+  member_joined: 'انضم إلى المجموعة',
+  member_added: 'أضاف',
+  member_left: 'غادر المجموعة',
+  member_removed: 'أزال',
+  invite_code_regenerated: 'غيّر كود الدعوة',
+  ownership_transferred: 'نقل ملكية المجموعة',
+  group_deleted: 'حذف المجموعة'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  amount: 'المبلغ',
+  currency: 'العملة',
+  exchangeRate: 'سعر الصرف',
+  description: 'الوصف',
+  category: 'التصنيف',
+  payerId: 'الدافع',
+  date: 'التاريخ',
+  splitBetween: 'المشاركون',
+  splitAmounts: 'الحصص',
+  splitMode: 'طريقة التقسيم',
+  notes: 'ملاحظات',
+  from: 'من',
+  to: 'إلى',
+  name: 'الاسم',
+  dueDate: 'تاريخ الاستحقاق',
+  recurring: 'متكررة',
+  recurringPeriod: 'التكرار',
+  status: 'الحالة',
+  code: 'الكود'
+};
+
+const USER_FIELDS = new Set(['payerId', 'from', 'to']);
+const DATE_FIELDS = new Set(['date', 'dueDate']);
+
+const ActivityPage: React.FC = () => {
+  const { group, users } = useApp();
+  const { showToast } = useToast();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [cursor, setCursor] = useState<ActivityCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<ActivityTargetType | 'all'>('all');
+  const [memberFilter, setMemberFilter] = useState('');
+  const [editsOnly, setEditsOnly] = useState(false);
+
+  const getUserName = useCallback(
+    (id: string) => users.find(u => u.id === id)?.name || 'عضو',
+    [users]
+  );
+
+  const loadPage = useCallback(async (from: ActivityCursor | null) => {
+    const page = await ActivityService.getActivity(group.id, {
+      targetType: typeFilter === 'all' ? undefined : typeFilter,
+      userId: memberFilter || undefined,
+      editsOnly,
+      cursor: from
+    });
+    setCursor(page.nextCursor ?? null);
+    setHasMore(page.hasMore);
+    return page.items;
+  }, [group.id, typeFilter, memberFilter, editsOnly]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    loadPage(null)
+      .then(items => {
+        if (!cancelled) setEntries(items);
+      })
+      .catch(error => showToast(getErrorMessage(error), 'error'))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadPage, showToast]);
+
+  const handleLoadMore = async () => {
+    if (!cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const items = await loadPage(cursor);
+      setEntries(prev => [...prev, ...items]);
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (USER_FIELDS.has(field)) return getUserName(String(value));
+    if (DATE_FIELDS.has(field)) return new Date(String(value)).toLocaleDateString('ar-EG');
+    if (field === 'category') return translateCategory(String(value));
+    if (field === 'splitMode') return SPLIT_MODE_LABELS[value as SplitMode] || String(value);
+    if (field === 'splitBetween' && Array.isArray(value)) return value.map(id => getUserName(String(id))).join('، ');
+    if (field === 'splitAmounts' && typeof value === 'object') {
+      return Object.entries(value as Record<string, number>)
+        .map(([id, amount]) => `${getUserName(id)}: ${amount}`)
+        .join('، ');
+    }
+    if (typeof value === 'boolean') return value ? 'نعم' : 'لا';
+    return String(value);
+  };
+
+  const describeEntry = (entry: ActivityEntry): string => {
+    const action = ACTION_LABELS[entry.action] || entry.action;
+    const { details } = entry;
+
+    switch (entry.targetType) {
+      case 'member':
+        return entry.action === 'member_added' || entry.action === 'member_removed'
+          ? `${action} ${getUserName(entry.targetId || '')}`
+          : action;
+      case 'payment': {
+        const parties = details.from && details.to
+          ? ` من ${getUserName(String(details.from))} إلى ${getUserName(String(details.to))}`
+          : '';
+        return `${action} بقيمة ${details.amount ?? ''}${parties}`;
+      }
+      case 'expense':
+      case 'bill': {
+        const title = details.description || details.name;
+        return title ? `${action} "${title}"` : action;
+      }
+      default:
+        return action;
+    }
+  };
+
+  // Newest day first, entries already come newest first
+  const days = entries.reduce<{ day: string; items: ActivityEntry[] }[]>((acc, entry) => {
+    const day = new Date(entry.createdAt).toLocaleDateString('ar-EG', { weekday: 'long', day: 'numeric', month: 'long' });
+    const last = acc[acc.length - 1];
+    if (last && last.day === day) {
+      last.items.push(entry);
+    } else {
+      acc.push({ day, items: [entry] });
+    }
+    return acc;
+  }, []);
+
+  const members = users.filter(u => group.members.includes(u.id));
+
+  return (
+    <div className="p-5 min-h-screen pb-24">
+      <div className="flex items-center gap-4 mb-6">
+        <Link to="/" className="p-2 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+          <ArrowLeft size={20} />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">سجل النشاط</h1>
+          <p className="text-gray-500 dark:text-gray-400 text-sm">مين أضاف أو عدّل أو حذف إيه</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-3 mb-6">
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {TYPE_FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setTypeFilter(option.value)}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
+                typeFilter === option.value
+                  ? 'bg-primary text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={memberFilter}
+            onChange={e => setMemberFilter(e.target.value)}
+            className="flex-1 border dark:border-gray-600 rounded-xl p-2.5 text-sm bg-white dark:bg-gray-700 dark:text-white"
+          >
+            <option value="">كل الأعضاء</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={editsOnly}
+              onChange={e => setEditsOnly(e.target.checked)}
+              className="rounded text-primary focus:ring-primary"
+            />
+            التعديلات فقط
+          </label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="animate-spin text-primary" size={28} />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-16 text-gray-400">
+          <History size={40} className="mx-auto mb-3 opacity-50" />
+          <p>لا يوجد نشاط مطابق</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {days.map(({ day, items }) => (
+            <div key={day}>
+              <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-3">{day}</h3>
+              <div className="space-y-3 border-r-2 border-gray-100 dark:border-gray-700 pr-4">
+                {items.map(entry => {
+                  const changes: [string, ActivityFieldChange][] = Object.entries(entry.details.changes ?? {});
+                  const actor = users.find(u => u.id === entry.userId);
+                  return (
+                    <div key={entry.id} className="bg-white dark:bg-gray-800 rounded-xl p-3 shadow-sm border border-gray-100 dark:border-gray-700">
+                      <div className="flex items-start gap-3">
+                        <img
+                          src={actor?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${entry.userId}`}
+                          alt=""
+                          className="w-8 h-8 rounded-full"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-gray-900 dark:text-white">
+                            <span className="font-semibold">{getUserName(entry.userId)}</span> {describeEntry(entry)}
+                          </p>
+                          <p className="text-[11px] text-gray-400 mt-0.5">
+                            {new Date(entry.createdAt).toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit' })}
+                          </p>
+                          {changes.length > 0 && (
+                            <div className="mt-2 space-y-1 bg-gray-50 dark:bg-gray-900/40 rounded-lg p-2">
+                              {changes.map(([field, change]) => (
+                                <div key={field} className="text-xs flex flex-wrap gap-1 items-center">
+                                  <span className="text-gray-500 dark:text-gray-400">{FIELD_LABELS[field] || field}:</span>
+                                  <span className="line-through text-rose-500">{formatValue(field, change.before)}</span>
+                                  <span className="text-gray-400">←</span>
+                                  <span className="text-emerald-600 dark:text-emerald-400">{formatValue(field, change.after)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full py-3 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 text-sm font-medium flex items-center justify-center gap-2"
+            >
+              {isLoadingMore && <Loader2 size={16} className="animate-spin" />}
+              عرض المزيد
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityPage;
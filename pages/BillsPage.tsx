@@ -1,19 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { useApp } from '../App';
 import * as BillService from '../services/BillService';
-import { Bill, ExpenseCategory } from '../types';
-import { Plus, Calendar, Bell, Check, Clock, AlertTriangle, X, Loader2 } from 'lucide-react';
+import * as RealtimeService from '../services/RealtimeService';
+import { Bill, BillPayment, ExpenseCategory } from '../types';
+import { Plus, Calendar, Bell, Check, Clock, AlertTriangle, X, Loader2, History } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
+import { useRealtimeTable } from '../hooks/useRealtimeTable';
 import { getErrorMessage } from '../utils/errorHandler';
+import { getCurrencyLabel } from '../utils/currencyUtils';
+
+const compareBills = (a: Bill, b: Bill) => a.dueDate.localeCompare(b.dueDate);
 
 const BillsPage: React.FC = () => {
-  const { group, currentUser } = useApp();
+  const { group, currentUser, users } = useApp();
+  const currencyLabel = getCurrencyLabel(group.baseCurrency);
   const { showToast } = useToast();
   const [bills, setBills] = useState<Bill[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [processingBillId, setProcessingBillId] = useState<string | null>(null);
+
+  // Pay flow state
+  const [payingBill, setPayingBill] = useState<Bill | null>(null);
+  const [payAmount, setPayAmount] = useState('');
+  const [payerId, setPayerId] = useState('');
+  const [payParticipants, setPayParticipants] = useState<string[]>([]);
+
+  // Payment history per bill, loaded when expanded
+  const [historyBillId, setHistoryBillId] = useState<string | null>(null);
+  const [billPayments, setBillPayments] = useState<Record<string, BillPayment[]>>({});
   
   // Form state
   const [name, setName] = useState('');
@@ -42,6 +58,12 @@ const BillsPage: React.FC = () => {
     loadBills();
   }, [loadBills]);
 
+  // New bills, payments moving the due date and status changes from roommates
+  useRealtimeTable<Bill>('bills', group.id, {
+    onChange: change => setBills(prev => RealtimeService.applyRealtimeChange(prev, change, compareBills)),
+    onResync: loadBills
+  });
+
   const handleAddBill = async (e?: React.FormEvent | React.MouseEvent) => {
     e?.preventDefault();
     if (!group.id || isSaving) return;
@@ -73,13 +95,43 @@ const BillsPage: React.FC = () => {
     }
   };
 
-  const handleMarkPaid = async (billId: string) => {
-    if (processingBillId) return;
-    setProcessingBillId(billId);
+  const openPayModal = (bill: Bill) => {
+    setPayingBill(bill);
+    setPayAmount(bill.amount.toString());
+    setPayerId(currentUser?.id || '');
+    setPayParticipants(group.members || []);
+  };
+
+  const togglePayParticipant = (memberId: string) => {
+    setPayParticipants(prev =>
+      prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]
+    );
+  };
+
+  const handlePayBill = async () => {
+    if (!payingBill || !payerId || processingBillId) return;
+    setProcessingBillId(payingBill.id);
     try {
-      await BillService.markBillAsPaid(billId);
+      const { bill } = await BillService.payBill({
+        bill: payingBill,
+        payerId,
+        participants: payParticipants,
+        amount: parseFloat(payAmount)
+      });
+      setBillPayments(prev => {
+        const next = { ...prev };
+        delete next[bill.id];
+        return next;
+      });
+      if (historyBillId === bill.id) setHistoryBillId(null);
       await loadBills();
-      showToast('تم تسجيل الدفع', 'success');
+      setPayingBill(null);
+      showToast(
+        bill.status === 'paid'
+          ? 'تم تسجيل الدفع وإضافته للمصاريف'
+          : `تم تسجيل الدفع، الموعد القادم ${new Date(bill.dueDate).toLocaleDateString('ar-EG')}`,
+        'success'
+      );
     } catch (error) {
       showToast(getErrorMessage(error), 'error');
     } finally {
@@ -87,6 +139,23 @@ const BillsPage: React.FC = () => {
     }
   };
 
+  const toggleHistory = async (billId: string) => {
+    if (historyBillId === billId) {
+      setHistoryBillId(null);
+      return;
+    }
+    setHistoryBillId(billId);
+    if (billPayments[billId]) return;
+    try {
+      const payments = await BillService.getBillPayments(billId);
+      setBillPayments(prev => ({ ...prev, [billId]: payments }));
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const getUserName = (id: string) => users.find(u => u.id === id)?.name || 'عضو';
+
   const resetForm = () => {
     setName('');
     setAmount('');
@@ -202,10 +271,10 @@ const BillsPage: React.FC = () => {
                   </div>
                   <div className="text-left">
                     <p className="font-bold text-xl text-gray-900 dark:text-white">{bill.amount}</p>
-                    <p className="text-xs text-gray-400">ج.م</p>
+                    <p className="text-xs text-gray-400">{currencyLabel}</p>
                     {bill.status !== 'paid' && (
                       <button
-                        onClick={() => handleMarkPaid(bill.id)}
+                        onClick={() => openPayModal(bill)}
                         className="mt-2 text-xs bg-primary text-white px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors"
                       >
                         تم الدفع
@@ -213,12 +282,121 @@ const BillsPage: React.FC = () => {
                     )}
                   </div>
                 </div>
+                {bill.lastPaid && (
+                  <button
+                    onClick={() => toggleHistory(bill.id)}
+                    className="mt-3 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-primary"
+                  >
+                    <History size={14} />
+                    سجل الدفع
+                  </button>
+                )}
+                {historyBillId === bill.id && (
+                  <div className="mt-2 space-y-1.5 border-t border-gray-100 dark:border-gray-700 pt-2">
+                    {!billPayments[bill.id] ? (
+                      <Loader2 size={16} className="animate-spin text-gray-400 mx-auto" />
+                    ) : billPayments[bill.id].length === 0 ? (
+                      <p className="text-xs text-gray-400 text-center">لا توجد مدفوعات مسجلة</p>
+                    ) : (
+                      billPayments[bill.id].map(payment => (
+                        <div key={payment.id} className="flex justify-between text-xs text-gray-600 dark:text-gray-300">
+                          <span>
+                            {new Date(payment.periodDueDate).toLocaleDateString('ar-EG', { month: 'long', year: 'numeric' })}
+                            {' · '}
+                            دفعها {getUserName(payment.payerId)}
+                          </span>
+                          <span className="font-medium">{payment.amount} {currencyLabel}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
               </div>
             );
           })
         )}
       </div>
 
+      {/* Pay Bill Modal */}
+      {payingBill && (
+        <div className="fixed inset-0 bg-black/60 z-[60] flex items-end sm:items-center justify-center backdrop-blur-sm" onClick={(e) => e.target === e.currentTarget && setPayingBill(null)}>
+          <div
+            className="bg-white dark:bg-gray-800 w-full max-w-md rounded-t-3xl sm:rounded-2xl flex flex-col shadow-2xl animate-in slide-in-from-bottom duration-300"
+            style={{
+              maxHeight: 'calc(100dvh - 100px)',
+              marginBottom: 'calc(3.5rem + env(safe-area-inset-bottom, 0px))'
+            }}
+          >
+            <div className="flex justify-between items-center px-5 py-4 border-b border-gray-100 dark:border-gray-700 flex-shrink-0">
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white">دفع {payingBill.name}</h2>
+              <button onClick={() => setPayingBill(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-2 -m-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X size={22} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto overscroll-contain px-5 py-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">المبلغ المدفوع</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={payAmount}
+                  onChange={e => setPayAmount(e.target.value)}
+                  className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary focus:outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">من دفع؟</label>
+                <select
+                  value={payerId}
+                  onChange={e => setPayerId(e.target.value)}
+                  className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary focus:outline-none"
+                >
+                  {(group.members || []).map(memberId => (
+                    <option key={memberId} value={memberId}>{getUserName(memberId)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">تقسم على</label>
+                <div className="max-h-32 overflow-y-auto space-y-2 border dark:border-gray-600 rounded-xl p-3 bg-gray-50 dark:bg-gray-700/50">
+                  {(group.members || []).map(memberId => (
+                    <label key={memberId} className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={payParticipants.includes(memberId)}
+                        onChange={() => togglePayParticipant(memberId)}
+                        className="w-4 h-4 rounded text-primary focus:ring-primary"
+                      />
+                      <span>{getUserName(memberId)}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {payingBill.recurring && payingBill.recurringPeriod && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  الموعد القادم: {new Date(BillService.getNextDueDate(payingBill.dueDate, payingBill.recurringPeriod)).toLocaleDateString('ar-EG')}
+                </p>
+              )}
+            </div>
+
+            <div className="flex-shrink-0 px-5 py-4 border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800 rounded-b-none sm:rounded-b-2xl">
+              <button
+                type="button"
+                onClick={handlePayBill}
+                disabled={processingBillId !== null || !payerId || !parseFloat(payAmount) || payParticipants.length === 0}
+                className="w-full bg-primary text-white font-bold py-4 rounded-xl shadow-lg hover:bg-emerald-600 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {processingBillId ? 'جاري التسجيل...' : 'تسجيل الدفع وإضافته للمصاريف'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add Bill Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 bg-black/60 z-[60] flex items-end sm:items-center justify-center backdrop-blur-sm" onClick={(e) => e.target === e.currentTarget && setIsModalOpen(false)}>
@@ -2,13 +2,19 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useApp } from '../App';
 import * as ChatService from '../services/ChatService';
 import * as HapticService from '../services/hapticService';
-import { ChatMessage } from '../types';
-import { Send, Mic, Square, Loader2, MessageCircle } from 'lucide-react';
+import { ChatMessage, ChatPresenceMember } from '../types';
+import { Send, Mic, Square, Loader2, MessageCircle, Reply, Pencil, Trash2, X } from 'lucide-react';
 import { getErrorMessage } from '../utils/errorHandler';
 import { useToast } from '../contexts/ToastContext';
 
+// New messages are appended; edits, reactions and deletes replace the old copy
+const mergeMessage = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] =>
+  messages.some(m => m.id === message.id)
+    ? messages.map(m => (m.id === message.id ? message : m))
+    : [...messages, message].sort((a, b) => a.timestamp - b.timestamp);
+
 const ChatPage: React.FC = () => {
-  const { currentUser, group, users } = useApp();
+  const { currentUser, group, users, refreshUnreadChat } = useApp();
   const { showToast } = useToast();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
@@ -20,6 +26,14 @@ const ChatPage: React.FC = () => {
   const cursorRef = useRef<number | null>(null);
   const loadingRef = useRef(false);
   const autoScrollRef = useRef(true);
+  const channelRef = useRef<ChatService.ChatChannel | null>(null);
+  const lastMarkedReadRef = useRef(0);
+  const [presence, setPresence] = useState<ChatPresenceMember[]>([]);
+  // Last read message timestamp per member
+  const [reads, setReads] = useState<Record<string, number>>({});
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
 
   useEffect(() => {
     cursorRef.current = cursor;
@@ -68,26 +82,72 @@ const ChatPage: React.FC = () => {
     setCursor(null);
     cursorRef.current = null;
     setHasMore(true);
+    setReplyingTo(null);
+    setEditingMessage(null);
     loadMessages(true);
   }, [group?.id, loadMessages]);
 
   useEffect(() => {
-    if (!group?.id) return;
-    const subscription = ChatService.subscribeToMessages(group.id, message => {
-      setMessages(prev => {
-        if (prev.some(m => m.id === message.id)) {
-          return prev;
-        }
-        autoScrollRef.current = true;
-        return [...prev, message].sort((a, b) => a.timestamp - b.timestamp);
-      });
+    if (!group?.id || !currentUser) return;
+    const channel = ChatService.joinChatChannel(group.id, currentUser.id, {
+      onMessage: message => {
+        setMessages(prev => {
+          if (!prev.some(m => m.id === message.id)) {
+            autoScrollRef.current = true;
+          }
+          return mergeMessage(prev, message);
+        });
+      },
+      onRead: receipt => {
+        setReads(prev => ({ ...prev, [receipt.userId]: Math.max(prev[receipt.userId] ?? 0, receipt.lastReadAt) }));
+      },
+      onPresence: setPresence
     });
+    channelRef.current = channel;
 
     return () => {
-      subscription.unsubscribe();
+      channel.unsubscribe();
+      channelRef.current = null;
+      setPresence([]);
+    };
+  }, [group?.id, currentUser?.id]);
+
+  // Receipts as of opening the chat; the channel keeps them current
+  useEffect(() => {
+    if (!group?.id) return;
+    let cancelled = false;
+    lastMarkedReadRef.current = 0;
+    ChatService.getChatReads(group.id)
+      .then(receipts => {
+        if (!cancelled) setReads(Object.fromEntries(receipts.map(receipt => [receipt.userId, receipt.lastReadAt])));
+      })
+      .catch(() => {
+        // "Seen by" just stays empty
+      });
+    return () => {
+      cancelled = true;
     };
   }, [group?.id]);
 
+  // Whatever has arrived counts as read while the chat is on screen
+  useEffect(() => {
+    if (!group?.id || !currentUser) return;
+    const markRead = () => {
+      const latest = messages[messages.length - 1];
+      if (!latest || latest.timestamp <= lastMarkedReadRef.current || document.visibilityState !== 'visible') return;
+      lastMarkedReadRef.current = latest.timestamp;
+      ChatService.markChatRead(group.id, currentUser.id, latest.timestamp)
+        .then(refreshUnreadChat)
+        .catch(() => {
+          // Try again with the next message
+          lastMarkedReadRef.current = 0;
+        });
+    };
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [messages, group?.id, currentUser?.id, refreshUnreadChat]);
+
   useEffect(() => {
     if (autoScrollRef.current) {
       bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -101,15 +161,27 @@ const ChatPage: React.FC = () => {
     if (!inputText.trim() || !currentUser || !group.id || isSending) return;
 
     const messageText = inputText.trim();
+    const replyTarget = replyingTo;
+    const editTarget = editingMessage;
     setInputText(''); // Clear immediately for better UX
+    setReplyingTo(null);
+    setEditingMessage(null);
+    channelRef.current?.setTyping(false);
     setIsSending(true);
     HapticService.lightTap();
     
     try {
+      if (editTarget) {
+        const updated = await ChatService.editMessage(editTarget.id, messageText);
+        setMessages(prev => mergeMessage(prev, updated));
+        return;
+      }
+
       const created = await ChatService.sendMessage({
         groupId: group.id,
         userId: currentUser.id,
-        text: messageText
+        text: messageText,
+        replyTo: replyTarget?.id
       });
 
       setMessages(prev => {
@@ -122,6 +194,8 @@ const ChatPage: React.FC = () => {
     } catch (error) {
       setErrorMessage(getErrorMessage(error));
       setInputText(messageText); // Restore text on error
+      setReplyingTo(replyTarget);
+      setEditingMessage(editTarget);
       HapticService.errorFeedback();
     } finally {
       setIsSending(false);
@@ -182,11 +256,80 @@ const ChatPage: React.FC = () => {
     setIsRecording(false);
   };
 
+  const handleReact = async (message: ChatMessage, emoji: string) => {
+    if (!currentUser) return;
+    setActiveMessageId(null);
+    HapticService.lightTap();
+    try {
+      const reactions = await ChatService.toggleReaction(message, currentUser.id, emoji);
+      setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, reactions } : m)));
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const handleReply = (message: ChatMessage) => {
+    setActiveMessageId(null);
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const handleStartEdit = (message: ChatMessage) => {
+    setActiveMessageId(null);
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInputText(message.text);
+  };
+
+  const cancelComposerMode = () => {
+    if (editingMessage) setInputText('');
+    setReplyingTo(null);
+    setEditingMessage(null);
+  };
+
+  const handleDelete = async (message: ChatMessage) => {
+    setActiveMessageId(null);
+    if (!confirm('هل تريد حذف الرسالة لدى الجميع؟')) return;
+    try {
+      const deleted = await ChatService.deleteMessage(message.id);
+      setMessages(prev => mergeMessage(prev, deleted));
+      if (editingMessage?.id === message.id) cancelComposerMode();
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const memberName = (userId: string) => users.find(u => u.id === userId)?.name || 'عضو';
+  const othersOnline = presence.filter(member => member.userId !== currentUser?.id);
+  const typingNames = othersOnline.filter(member => member.typing).map(member => memberName(member.userId));
+  const lastOwnMessage = [...messages].reverse().find(msg => msg.userId === currentUser?.id);
+  const otherMemberIds = (group.members || []).filter(memberId => memberId !== currentUser?.id);
+  const seenByCount = lastOwnMessage
+    ? otherMemberIds.filter(memberId => (reads[memberId] ?? 0) >= lastOwnMessage.timestamp).length
+    : 0;
+
+  const composerTarget = editingMessage || replyingTo;
+
+  // Quotes of messages further back than what's loaded can't show their text
+  const quotedPreview = (messageId: string) => {
+    const quoted = messages.find(m => m.id === messageId);
+    if (!quoted) return { name: '', text: 'رسالة سابقة' };
+    return {
+      name: memberName(quoted.userId),
+      text: quoted.deleted_at ? 'تم حذف هذه الرسالة' : quoted.text
+    };
+  };
+
   return (
     <div className="flex flex-col min-h-[100svh] bg-gray-50 dark:bg-gray-900" dir="rtl">
       <div className="bg-white dark:bg-gray-800 border-b dark:border-gray-700 p-4 sticky top-0 z-10">
         <h1 className="text-lg font-bold text-slate-800 dark:text-white">محادثة {group.name}</h1>
-        <p className="text-xs text-gray-500 dark:text-gray-400">{group.members?.length || 0} أعضاء</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {group.members?.length || 0} أعضاء
+          {othersOnline.length > 0 && (
+            <span className="text-primary"> · متصل الآن: {othersOnline.map(member => memberName(member.userId)).join('، ')}</span>
+          )}
+        </p>
       </div>
 
       {errorMessage && (
@@ -236,6 +379,10 @@ const ChatPage: React.FC = () => {
           const isMe = msg.userId === currentUser?.id;
           const sender = users.find(u => u.id === msg.userId);
           const senderAvatar = sender?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${msg.userId}`;
+          const isDeleted = !!msg.deleted_at;
+          const isActive = activeMessageId === msg.id;
+          const quote = msg.reply_to ? quotedPreview(msg.reply_to) : null;
+          const reactions = Object.entries<string[]>(msg.reactions || {}).filter(([, userIds]) => userIds.length > 0);
 
           return (
             <div key={msg.id} className={`flex gap-2 ${isMe ? 'flex-row-reverse' : ''}`}>
@@ -246,20 +393,102 @@ const ChatPage: React.FC = () => {
                   className="w-8 h-8 rounded-full self-end object-cover"
                 />
               )}
-              <div
-                className={`max-w-[75%] p-3 rounded-2xl ${
-                  isMe
-                    ? 'bg-primary text-white rounded-br-none'
-                    : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-800 dark:text-white rounded-bl-none'
-                }`}
-              >
-                {!isMe && (
-                  <p className="text-[10px] font-bold text-gray-400 mb-1">{sender?.name || 'عضو'}</p>
+              <div className={`max-w-[75%] flex flex-col ${isMe ? 'items-end' : 'items-start'}`}>
+                <div
+                  onClick={() => !isDeleted && msg.type !== 'system' && setActiveMessageId(isActive ? null : msg.id)}
+                  className={`p-3 rounded-2xl cursor-pointer ${
+                    isMe
+                      ? 'bg-primary text-white rounded-br-none'
+                      : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-800 dark:text-white rounded-bl-none'
+                  }`}
+                >
+                  {!isMe && (
+                    <p className="text-[10px] font-bold text-gray-400 mb-1">{sender?.name || 'عضو'}</p>
+                  )}
+                  {quote && !isDeleted && (
+                    <div
+                      className={`mb-2 px-2 py-1 rounded-lg border-r-2 text-xs ${
+                        isMe ? 'bg-white/15 border-white/60' : 'bg-gray-100 dark:bg-gray-700 border-primary'
+                      }`}
+                    >
+                      {quote.name && <p className="font-bold">{quote.name}</p>}
+                      <p className="truncate opacity-80">{quote.text}</p>
+                    </div>
+                  )}
+                  {isDeleted ? (
+                    <p className="text-sm italic opacity-70">تم حذف هذه الرسالة</p>
+                  ) : (
+                    <p className="text-sm break-words">{msg.text}</p>
+                  )}
+                  <p className={`text-[9px] mt-1 ${isMe ? 'text-emerald-100' : 'text-gray-400'}`}>
+                      {new Date(msg.timestamp).toLocaleTimeString('ar-SA', {hour: '2-digit', minute:'2-digit'})}
+                      {msg.edited_at && !isDeleted && <> · معدلة</>}
+                      {msg.id === lastOwnMessage?.id && seenByCount > 0 && (
+                        <> · {seenByCount === otherMemberIds.length ? 'شاهدها الجميع' : `شاهدها ${seenByCount}`}</>
+                      )}
+                  </p>
+                </div>
+
+                {reactions.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {reactions.map(([emoji, userIds]) => {
+                      const reacted = !!currentUser && userIds.includes(currentUser.id);
+                      return (
+                        <button
+                          key={emoji}
+                          onClick={() => handleReact(msg, emoji)}
+                          title={userIds.map(memberName).join('، ')}
+                          className={`text-xs px-2 py-0.5 rounded-full border ${
+                            reacted
+                              ? 'bg-primary/10 border-primary text-primary'
+                              : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300'
+                          }`}
+                        >
+                          {emoji} {userIds.length}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {isActive && currentUser && (
+                  <div className="flex flex-wrap items-center gap-1 mt-1 p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-sm">
+                    {ChatService.CHAT_REACTIONS.map(emoji => (
+                      <button
+                        key={emoji}
+                        onClick={() => handleReact(msg, emoji)}
+                        className="text-lg px-1 hover:scale-110 transition-transform"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => handleReply(msg)}
+                      className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-primary"
+                      aria-label="رد"
+                    >
+                      <Reply size={16} />
+                    </button>
+                    {ChatService.canEditMessage(msg, currentUser.id) && (
+                      <button
+                        onClick={() => handleStartEdit(msg)}
+                        className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-primary"
+                        aria-label="تعديل"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                    )}
+                    {ChatService.canDeleteMessage(msg, currentUser.id) && (
+                      <button
+                        onClick={() => handleDelete(msg)}
+                        className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-red-500"
+                        aria-label="حذف للجميع"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
                 )}
-                <p className="text-sm break-words">{msg.text}</p>
-                <p className={`text-[9px] mt-1 ${isMe ? 'text-emerald-100' : 'text-gray-400'}`}>
-                    {new Date(msg.timestamp).toLocaleTimeString('ar-SA', {hour: '2-digit', minute:'2-digit'})}
-                </p>
               </div>
             </div>
           );
@@ -267,6 +496,30 @@ const ChatPage: React.FC = () => {
         <div ref={bottomRef} />
       </div>
 
+      {typingNames.length > 0 && (
+        <p className="px-4 pb-1 text-xs text-gray-500 dark:text-gray-400 animate-pulse">
+          {typingNames.join(' و')} {typingNames.length > 1 ? 'يكتبون...' : 'يكتب...'}
+        </p>
+      )}
+
+      {composerTarget && (
+        <div className="px-4 py-2 bg-white dark:bg-gray-800 border-t dark:border-gray-700 flex items-center gap-2">
+          <div className="flex-1 min-w-0 border-r-2 border-primary pr-2">
+            <p className="text-xs font-bold text-primary">
+              {editingMessage ? 'تعديل الرسالة' : `رد على ${memberName(composerTarget.userId)}`}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{composerTarget.text}</p>
+          </div>
+          <button
+            onClick={cancelComposerMode}
+            className="p-1.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="إلغاء"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       <div
         className="p-4 bg-white dark:bg-gray-800 border-t dark:border-gray-700 flex gap-2 items-center"
         style={{ paddingBottom: 'calc(1rem + env(safe-area-inset-bottom))' }}
@@ -285,7 +538,10 @@ const ChatPage: React.FC = () => {
         <input 
             type="text" 
             value={inputText}
-            onChange={e => setInputText(e.target.value)}
+            onChange={e => {
+              setInputText(e.target.value);
+              channelRef.current?.setTyping(e.target.value.trim().length > 0);
+            }}
             onKeyDown={e => e.key === 'Enter' && !isSending && handleSend()}
             placeholder="اكتب رسالة..."
             disabled={isSending}
@@ -1,15 +1,22 @@
 
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { useApp } from '../App';
 import * as ExpenseService from '../services/ExpenseService';
 import * as PaymentService from '../services/PaymentService';
 import * as BillService from '../services/BillService';
-import { Expense, TransactionStatus, Bill } from '../types';
-import { TrendingUp, TrendingDown, PieChart, Calendar, Receipt, ArrowUpDown } from 'lucide-react';
+import * as LedgerService from '../services/LedgerService';
+import * as StatsService from '../services/StatsService';
+import { Expense, ExpenseWithSplits, TransactionStatus, Bill, Payment, StatsTrendPoint } from '../types';
+import { TrendingUp, TrendingDown, PieChart, Calendar, Receipt, ArrowUpDown, History } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useToast } from '../contexts/ToastContext';
+import { useRealtimeTable } from '../hooks/useRealtimeTable';
 import Skeleton from '../components/ui/Skeleton';
 import { translateCategory } from '../utils/categoryUtils';
+import { DEFAULT_CURRENCY, getCurrencyLabel } from '../utils/currencyUtils';
+
+/** Bursts of roommates' changes reload the summary once */
+const REALTIME_REFRESH_DELAY_MS = 1000;
 
 const DashboardSkeleton = () => (
   <div className="p-5 pb-24 space-y-6">
@@ -36,31 +43,18 @@ const Dashboard: React.FC = () => {
   const { currentUser, group, users } = useApp();
   const { showToast } = useToast();
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [monthTrend, setMonthTrend] = useState<StatsTrendPoint[]>([]);
   const [myBalance, setMyBalance] = useState(0);
   const [nextBill, setNextBill] = useState<Bill | null>(null);
   const [pendingSettlementsCount, setPendingSettlementsCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Calculate monthly expenses
   const { currentMonthTotal, lastMonthTotal, monthlyChange } = useMemo(() => {
-    const now = new Date();
-    const currentMonth = now.getMonth();
-    const currentYear = now.getFullYear();
-    const lastMonth = currentMonth === 0 ? 11 : currentMonth - 1;
-    const lastMonthYear = currentMonth === 0 ? currentYear - 1 : currentYear;
-
-    let currentTotal = 0;
-    let lastTotal = 0;
-
-    expenses.forEach(exp => {
-      const expDate = new Date(exp.date);
-      if (expDate.getMonth() === currentMonth && expDate.getFullYear() === currentYear) {
-        currentTotal += exp.amount;
-      } else if (expDate.getMonth() === lastMonth && expDate.getFullYear() === lastMonthYear) {
-        lastTotal += exp.amount;
-      }
-    });
-
+    // Trend is [last month, this month]
+    const currentTotal = monthTrend[monthTrend.length - 1]?.amount || 0;
+    const lastTotal = monthTrend.length > 1 ? monthTrend[0].amount : 0;
     const change = lastTotal > 0 ? ((currentTotal - lastTotal) / lastTotal) * 100 : 0;
 
     return {
@@ -68,7 +62,7 @@ const Dashboard: React.FC = () => {
       lastMonthTotal: lastTotal,
       monthlyChange: change
     };
-  }, [expenses]);
+  }, [monthTrend]);
 
   useEffect(() => {
     const loadData = async () => {
@@ -78,15 +72,18 @@ const Dashboard: React.FC = () => {
       }
 
       try {
-      const [{ items: allExpenses }, allPayments, bills] = await Promise.all([
-        ExpenseService.getExpenses({ groupId: group.id, limit: 250 }),
+      const now = new Date();
+      const lastMonthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+      const [{ items: recentExpenses }, trend, allPayments, bills] = await Promise.all([
+        ExpenseService.getExpenses({ groupId: group.id, limit: 5 }),
+        StatsService.getExpenseTrend(group.id, { from: lastMonthStart.toISOString(), bucket: 'month' }),
         PaymentService.getPayments({ groupId: group.id }),
         BillService.getBills(group.id)
       ]);
-      setExpenses(allExpenses);
+      setExpenses(recentExpenses);
+      setMonthTrend(trend);
 
       // Find next unpaid bill
-      const now = new Date();
       const upcomingBills = bills
         .filter(b => b.status === 'pending' && new Date(b.dueDate) >= now)
         .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
@@ -101,43 +98,9 @@ const Dashboard: React.FC = () => {
         return;
       }
 
-      // Calculate balance from expense_splits (not dynamic group.members.length)
-      // This ensures new members don't get retroactively charged for old expenses
-      let paidByMe = 0;
-      let myShareTotal = 0;
-
-      allExpenses.forEach(exp => {
-        if (exp.payerId === currentUser.id) {
-          paidByMe += exp.amount;
-        }
-        // Use splitAmounts if available (precise per-user share from expense_splits)
-        if (exp.splitAmounts && exp.splitAmounts[currentUser.id] !== undefined) {
-          myShareTotal += exp.splitAmounts[currentUser.id];
-        } else if (exp.splitBetween.includes(currentUser.id)) {
-          // Fallback: only if user is explicitly in splitBetween
-          const splitCount = exp.splitBetween.length;
-          myShareTotal += exp.amount / splitCount;
-        }
-        // Note: If user is NOT in splitBetween, they don't owe anything for this expense
-      });
-
-      let received = 0;
-      let sent = 0;
-      allPayments.forEach(pay => {
-        if (pay.status === TransactionStatus.COMPLETED || pay.status === TransactionStatus.CONFIRMED) {
-          if (pay.to === currentUser.id) received += pay.amount;
-          if (pay.from === currentUser.id) sent += pay.amount;
-        }
-      });
-
-      // Correct formula:
-      // - paidByMe: total I paid for the group (creates credit for me)
-      // - myShareTotal: my share of all expenses (creates debt for me)
-      // - sent: money I transferred to others (INCREASES my credit - I paid out more)
-      // - received: money I received from others (DECREASES my credit - debt settled)
-      // Net = (paidByMe - myShareTotal) + sent - received
-      const net = (paidByMe - myShareTotal) + sent - received;
-      setMyBalance(net);
+      // Same ledger as Stats and Settlements, so the numbers always agree
+      const myLedger = await LedgerService.getUserBalance(group.id, currentUser.id);
+      setMyBalance(myLedger.balance);
       } catch (error) {
         showToast('حدث خطأ أثناء تحميل البيانات', 'error');
       } finally {
@@ -145,7 +108,28 @@ const Dashboard: React.FC = () => {
       }
     };
     loadData();
-  }, [currentUser, group, showToast]);
+  }, [currentUser, group, showToast, refreshKey]);
+
+  // Everything here is a summary, so changes reload it instead of patching
+  const scheduleRefresh = () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null;
+      setRefreshKey(key => key + 1);
+    }, REALTIME_REFRESH_DELAY_MS);
+  };
+
+  useEffect(() => () => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+  }, []);
+
+  useRealtimeTable<ExpenseWithSplits>('expenses', group.id, {
+    map: row => ExpenseService.getExpenseById(String(row.id)),
+    onChange: scheduleRefresh,
+    onResync: scheduleRefresh
+  });
+  useRealtimeTable<Payment>('payments', group.id, { onChange: scheduleRefresh, onResync: scheduleRefresh });
+  useRealtimeTable<Bill>('bills', group.id, { onChange: scheduleRefresh, onResync: scheduleRefresh });
 
   const memberDetails = (group.members || []).map(memberId => {
     const user = users.find(u => u.id === memberId);
@@ -233,7 +217,7 @@ const Dashboard: React.FC = () => {
       <div className="bg-gradient-to-br from-secondary to-slate-800 rounded-2xl p-6 text-white shadow-xl mb-6">
         <p className="text-slate-300 text-sm font-medium mb-1">رصيدك الحالي</p>
         <h2 className={`text-4xl font-bold mb-4 ${myBalance >= 0 ? 'text-primary' : 'text-red-400'}`} dir="ltr">
-          {myBalance >= 0 ? '+' : ''}{myBalance.toFixed(2)} ج.م
+          {myBalance >= 0 ? '+' : ''}{myBalance.toFixed(2)} {getCurrencyLabel(group.baseCurrency)}
         </h2>
         <div className="flex gap-4">
           <div className="flex items-center gap-2 bg-white/10 px-3 py-2 rounded-lg flex-1">
@@ -268,7 +252,7 @@ const Dashboard: React.FC = () => {
           </div>
           <p className="text-[11px] text-gray-500 dark:text-gray-400 mb-1">مصاريف الشهر</p>
           <p className="font-bold text-lg text-gray-800 dark:text-white" dir="ltr">
-            {currentMonthTotal.toFixed(0)} ج.م
+            {currentMonthTotal.toFixed(0)} {getCurrencyLabel(group.baseCurrency)}
           </p>
           {lastMonthTotal > 0 && (
             <p className={`text-[10px] mt-1 ${monthlyChange >= 0 ? 'text-red-500' : 'text-green-500'}`}>
@@ -345,13 +329,25 @@ const Dashboard: React.FC = () => {
             <p className="text-[11px] text-gray-500 dark:text-gray-400">إحصائيات مفصلة</p>
           </div>
         </Link>
+        <Link 
+          to="/activity" 
+          className="col-span-2 bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-100 dark:border-gray-700 flex items-center gap-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+        >
+          <div className="w-10 h-10 bg-teal-100 dark:bg-teal-900/30 rounded-full flex items-center justify-center">
+            <History size={20} className="text-teal-600 dark:text-teal-400" />
+          </div>
+          <div>
+            <p className="font-semibold text-gray-800 dark:text-white text-sm">سجل النشاط</p>
+            <p className="text-[11px] text-gray-500 dark:text-gray-400">مين عدّل إيه ومتى</p>
+          </div>
+        </Link>
       </div>
 
       {/* Recent Activity */}
       <div>
         <h3 className="font-semibold text-gray-800 dark:text-gray-100 mb-3">آخر العمليات</h3>
         <div className="space-y-3">
-          {expenses.slice().reverse().slice(0, 5).map(exp => (
+          {expenses.map(exp => (
             <div key={exp.id} className="flex items-center justify-between bg-white dark:bg-gray-800 p-3 rounded-xl border border-gray-50 dark:border-gray-700 shadow-sm">
                 <div className="flex items-center gap-3">
                     <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold text-white
@@ -365,7 +361,10 @@ const Dashboard: React.FC = () => {
                         <p className="text-xs text-gray-500 dark:text-gray-400">{translateCategory(exp.category)} • {new Date(exp.date).toLocaleDateString('ar-EG')}</p>
                     </div>
                 </div>
-                <span className="font-bold text-gray-800 dark:text-gray-200" dir="ltr">-{exp.amount}</span>
+                <span className="font-bold text-gray-800 dark:text-gray-200" dir="ltr">
+                  -{exp.amount}
+                  {exp.currency && exp.currency !== (group.baseCurrency || DEFAULT_CURRENCY) && ` ${getCurrencyLabel(exp.currency)}`}
+                </span>
             </div>
           ))}
           {expenses.length === 0 && <p className="text-center text-gray-400 text-sm py-4">لا توجد مصاريف حتى الآن.</p>}
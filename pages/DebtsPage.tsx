@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useApp } from '../App';
+import * as DebtService from '../services/DebtService';
+import * as PaymentService from '../services/PaymentService';
+import { Debt } from '../types';
+import { Plus, HandCoins, Check, Clock, AlertTriangle, X, Loader2, Trash2, Users } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+import { getCurrencyLabel } from '../utils/currencyUtils';
+
+type Direction = 'lent' | 'borrowed';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const DebtsPage: React.FC = () => {
+  const { group, currentUser, users } = useApp();
+  const currencyLabel = getCurrencyLabel(group.baseCurrency);
+  const { showToast } = useToast();
+  const [debts, setDebts] = useState<Debt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showPaid, setShowPaid] = useState(false);
+  const [processingDebtId, setProcessingDebtId] = useState<string | null>(null);
+
+  // Form state
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [direction, setDirection] = useState<Direction>('lent');
+  const [otherUserId, setOtherUserId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [inGroup, setInGroup] = useState(false);
+
+  const loadDebts = useCallback(async () => {
+    if (!currentUser) return;
+    setIsLoading(true);
+    try {
+      setDebts(await DebtService.getDebts(currentUser.id));
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentUser, showToast]);
+
+  useEffect(() => {
+    loadDebts();
+  }, [loadDebts]);
+
+  const getUserName = (id: string) => users.find(u => u.id === id)?.name || 'عضو';
+
+  // Group debts are limited to members; personal ones can be with anyone we know
+  const candidates = useMemo(() => {
+    const pool = inGroup ? users.filter(u => group.members.includes(u.id)) : users;
+    return pool.filter(u => u.id !== currentUser?.id);
+  }, [users, group.members, inGroup, currentUser?.id]);
+
+  const openDebts = debts.filter(d => d.status !== 'paid');
+  const visibleDebts = showPaid ? debts.filter(d => d.status === 'paid') : openDebts;
+
+  const { owedToMe, iOwe } = openDebts.reduce(
+    (totals, debt) => {
+      if (debt.to === currentUser?.id) totals.owedToMe += debt.amount;
+      else totals.iOwe += debt.amount;
+      return totals;
+    },
+    { owedToMe: 0, iOwe: 0 }
+  );
+
+  const resetForm = () => {
+    setDirection('lent');
+    setOtherUserId('');
+    setAmount('');
+    setDescription('');
+    setDueDate('');
+    setInGroup(false);
+  };
+
+  const handleAddDebt = async () => {
+    if (!currentUser || !otherUserId || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await DebtService.addDebt({
+        from: direction === 'lent' ? otherUserId : currentUser.id,
+        to: direction === 'lent' ? currentUser.id : otherUserId,
+        amount: parseFloat(amount),
+        description: description.trim() || undefined,
+        dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
+        groupId: inGroup ? group.id : undefined,
+        isPersonal: !inGroup,
+        createdBy: currentUser.id
+      });
+      await loadDebts();
+      resetForm();
+      setIsModalOpen(false);
+      showToast('تم تسجيل الدين', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runDebtAction = async (debtId: string, action: () => Promise<unknown>, successMessage: string) => {
+    if (processingDebtId) return;
+    setProcessingDebtId(debtId);
+    try {
+      await action();
+      await loadDebts();
+      showToast(successMessage, 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setProcessingDebtId(null);
+    }
+  };
+
+  const getDueLabel = (debt: Debt) => {
+    if (debt.status === 'paid') {
+      return { text: 'تم السداد', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400', icon: <Check size={14} /> };
+    }
+    if (!debt.dueDate) {
+      return { text: 'بدون موعد', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300', icon: <Clock size={14} /> };
+    }
+    const daysUntil = Math.ceil((new Date(debt.dueDate).getTime() - Date.now()) / DAY_MS);
+    if (daysUntil < 0) {
+      return { text: `متأخر ${Math.abs(daysUntil)} يوم`, className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400', icon: <AlertTriangle size={14} /> };
+    }
+    return {
+      text: daysUntil === 0 ? 'اليوم!' : `خلال ${daysUntil} يوم`,
+      className: daysUntil <= 3
+        ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+        : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+      icon: <Clock size={14} />
+    };
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="animate-spin text-primary" size={32} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-5 min-h-screen">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">الديون الشخصية</h1>
+          <p className="text-gray-500 dark:text-gray-400 text-sm">سلف بينك وبين شخص واحد</p>
+        </div>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="bg-primary hover:bg-emerald-600 text-white rounded-full p-3 shadow-lg transition-transform active:scale-95"
+        >
+          <Plus size={24} />
+        </button>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-3 mb-6">
+        <div className="bg-emerald-50 dark:bg-emerald-900/20 rounded-xl p-4">
+          <p className="text-xs text-emerald-700 dark:text-emerald-400">لك عند الآخرين</p>
+          <p className="text-xl font-bold text-emerald-700 dark:text-emerald-300">{owedToMe.toFixed(2)} {currencyLabel}</p>
+        </div>
+        <div className="bg-rose-50 dark:bg-rose-900/20 rounded-xl p-4">
+          <p className="text-xs text-rose-700 dark:text-rose-400">عليك للآخرين</p>
+          <p className="text-xl font-bold text-rose-700 dark:text-rose-300">{iOwe.toFixed(2)} {currencyLabel}</p>
+        </div>
+      </div>
+
+      <div className="flex bg-gray-100 dark:bg-gray-800 rounded-lg p-0.5 text-xs mb-4 w-fit">
+        {([[false, 'مفتوحة'], [true, 'مسددة']] as const).map(([value, label]) => (
+          <button
+            key={label}
+            onClick={() => setShowPaid(value)}
+            className={`px-3 py-1.5 rounded-md font-medium transition-colors ${showPaid === value ? 'bg-white dark:bg-gray-700 text-primary shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Debts List */}
+      <div className="space-y-4">
+        {visibleDebts.length === 0 ? (
+          <div className="text-center py-12">
+            <HandCoins size={48} className="mx-auto text-gray-300 dark:text-gray-600 mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">{showPaid ? 'لا توجد ديون مسددة' : 'لا توجد ديون مفتوحة'}</p>
+          </div>
+        ) : (
+          visibleDebts.map(debt => {
+            const isLender = debt.to === currentUser?.id;
+            const otherId = isLender ? debt.from : debt.to;
+            const due = getDueLabel(debt);
+            const awaitingConfirmation = debt.status !== 'paid' && !!debt.paymentId;
+            const isProcessing = processingDebtId === debt.id;
+
+            return (
+              <div key={debt.id} className="bg-white dark:bg-gray-800 rounded-xl p-4 shadow-sm border border-gray-100 dark:border-gray-700">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-bold text-gray-900 dark:text-white">
+                      {isLender ? `أقرضت ${getUserName(otherId)}` : `اقترضت من ${getUserName(otherId)}`}
+                    </h3>
+                    {debt.description && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{debt.description}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      <span className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full ${due.className}`}>
+                        {due.icon}
+                        {due.text}
+                      </span>
+                      {!debt.isPersonal && debt.groupId && (
+                        <span className="inline-flex items-center gap-1 text-[10px] bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400 px-2 py-0.5 rounded-full">
+                          <Users size={10} /> ضمن المجموعة
+                        </span>
+                      )}
+                      {awaitingConfirmation && (
+                        <span className="text-[10px] bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded-full">
+                          بانتظار تأكيد السداد
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-left">
+                    <p className={`font-bold text-xl ${isLender ? 'text-emerald-600' : 'text-rose-600'}`}>{debt.amount}</p>
+                    <p className="text-xs text-gray-400">{currencyLabel}</p>
+                  </div>
+                </div>
+
+                {debt.status !== 'paid' && debt.id && (
+                  <div className="flex items-center gap-2 mt-3">
+                    {!awaitingConfirmation && (
+                      <button
+                        onClick={() => runDebtAction(
+                          debt.id!,
+                          () => DebtService.settleDebt(debt, currentUser!.id),
+                          isLender ? 'تم تسجيل السداد' : 'تم إرسال السداد وبانتظار التأكيد'
+                        )}
+                        disabled={isProcessing}
+                        className="text-xs bg-primary text-white px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                      >
+                        {isProcessing ? '...' : isLender ? 'استلمت المبلغ' : 'سددت الدين'}
+                      </button>
+                    )}
+                    {awaitingConfirmation && isLender && (
+                      <>
+                        <button
+                          onClick={() => runDebtAction(debt.id!, () => PaymentService.confirmPayment(debt.paymentId!), 'تم تأكيد السداد')}
+                          disabled={isProcessing}
+                          className="text-xs bg-primary text-white px-3 py-1.5 rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                        >
+                          تأكيد الاستلام
+                        </button>
+                        <button
+                          onClick={() => runDebtAction(debt.id!, () => PaymentService.rejectPayment(debt.paymentId!), 'تم رفض السداد')}
+                          disabled={isProcessing}
+                          className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-200 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                        >
+                          لم أستلم
+                        </button>
+                      </>
+                    )}
+                    {!awaitingConfirmation && debt.createdBy === currentUser?.id && (
+                      <button
+                        onClick={() => runDebtAction(debt.id!, () => DebtService.deleteDebt(debt.id!), 'تم حذف الدين')}
+                        disabled={isProcessing}
+                        className="text-xs flex items-center gap-1 px-2 py-1.5 rounded-lg text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 disabled:opacity-50"
+                      >
+                        <Trash2 size={14} /> حذف
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Add Debt Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/60 z-[60] flex items-end sm:items-center justify-center backdrop-blur-sm" onClick={(e) => e.target === e.currentTarget && setIsModalOpen(false)}>
+          <div
+            className="bg-white dark:bg-gray-800 w-full max-w-md rounded-t-3xl sm:rounded-2xl flex flex-col shadow-2xl animate-in slide-in-from-bottom duration-300"
+            style={{
+              maxHeight: 'calc(100dvh - 100px)',
+              marginBottom: 'calc(3.5rem + env(safe-area-inset-bottom, 0px))'
+            }}
+          >
+            <div className="flex justify-between items-center px-5 py-4 border-b border-gray-100 dark:border-gray-700 flex-shrink-0">
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white">تسجيل دين</h2>
+              <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-2 -m-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700">
+                <X size={22} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto overscroll-contain px-5 py-4 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {([['lent', 'أقرضت'], ['borrowed', 'اقترضت']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setDirection(value)}
+                    className={`py-2.5 rounded-xl text-sm font-medium transition-colors ${
+                      direction === value
+                        ? 'bg-primary text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={inGroup}
+                  onChange={e => { setInGroup(e.target.checked); setOtherUserId(''); }}
+                  className="w-4 h-4 rounded text-primary focus:ring-primary"
+                />
+                <span>ضمن مجموعة {group.name} (يمكن احتسابه في أرصدة المجموعة)</span>
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  {direction === 'lent' ? 'لمن؟' : 'من مين؟'}
+                </label>
+                <select
+                  value={otherUserId}
+                  onChange={e => setOtherUserId(e.target.value)}
+                  className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary focus:outline-none"
+                >
+                  <option value="">اختر شخصاً</option>
+                  {candidates.map(user => (
+                    <option key={user.id} value={user.id}>{user.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">المبلغ</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={e => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary focus:outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">الوصف (اختياري)</label>
+                <input
+                  type="text"
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  placeholder="مثال: سلفة لحد يوم الجمعة"
+                  className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary focus:outline-none"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">موعد السداد (اختياري)</label>
+                <input
+                  type="date"
+                  value={dueDate}
+                  onChange={e => setDueDate(e.target.value)}
+                  className="w-full border dark:border-gray-600 rounded-xl p-3 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-primary focus:outline-none"
+                />
+              </div>
+            </div>
+
+            <div className="flex-shrink-0 px-5 py-4 border-t border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-800 rounded-b-none sm:rounded-b-2xl">
+              <button
+                type="button"
+                onClick={handleAddDebt}
+                disabled={isSaving || !otherUserId || !parseFloat(amount)}
+                className="w-full bg-primary text-white font-bold py-4 rounded-xl shadow-lg hover:bg-emerald-600 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {isSaving ? 'جاري الحفظ...' : 'تسجيل الدين'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebtsPage;
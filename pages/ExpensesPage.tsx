@@ -1,24 +1,40 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { useApp } from '../App';
 import * as ExpenseService from '../services/ExpenseService';
 import * as HapticService from '../services/hapticService';
-import { ExpenseCategory, ExpenseCursor, ExpenseWithSplits } from '../types';
-import { Plus, Camera, Loader2, X, Mic, Square, Edit3, Trash2 } from 'lucide-react';
-import { getErrorMessage } from '../utils/errorHandler';
+import * as SyncService from '../services/syncService';
+import * as CurrencyService from '../services/CurrencyService';
+import * as RealtimeService from '../services/RealtimeService';
+import { ExpenseCategory, ExpenseCursor, ExpenseWithSplits, SplitMode } from '../types';
+import { Plus, Camera, Loader2, X, Mic, Square, Edit3, Trash2, CloudOff, ListChecks, Upload } from 'lucide-react';
+import { getErrorMessage, isConflictError } from '../utils/errorHandler';
 import { useToast } from '../contexts/ToastContext';
+import { useRealtimeTable } from '../hooks/useRealtimeTable';
 import Skeleton from '../components/ui/Skeleton';
 import EmptyState from '../components/ui/EmptyState';
 import { translateCategory } from '../utils/categoryUtils';
 import { useSuccessCheckmark } from '../components/ui/SuccessCheckmark';
+import ExpenseConflictDialog from '../components/ExpenseConflictDialog';
+import SplitEditor, { parseSplitInputs } from '../components/SplitEditor';
+import ReceiptItemsClaimer from '../components/ReceiptItemsClaimer';
+import CurrencyPicker from '../components/CurrencyPicker';
+import { allocateReceiptItems, getSplitValidationError } from '../utils/splitUtils';
+import { DEFAULT_CURRENCY, formatAmount, formatCurrency, getCurrencyLabel, toBaseAmount } from '../utils/currencyUtils';
+import type { ItemizedReceipt } from '../services/geminiService';
 
 // Lazy load GeminiService to reduce initial bundle size (saves ~220KB)
 const loadGeminiService = () => import('../services/geminiService');
 
 const PAGE_SIZE = 20;
 
+// Newest first, the same order the server pages in
+const compareExpenses = (a: ExpenseWithSplits, b: ExpenseWithSplits) =>
+  b.date.localeCompare(a.date) || b.id.localeCompare(a.id);
+
 const ExpensesPage: React.FC = () => {
   const { currentUser, group, users } = useApp();
-  const { showToast } = useToast();
+  const { showToast, showUndoToast } = useToast();
   const { showSuccess, SuccessCheckmarkComponent } = useSuccessCheckmark();
   const [expenses, setExpenses] = useState<ExpenseWithSplits[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -71,15 +87,52 @@ const ExpensesPage: React.FC = () => {
     loadExpenses(true);
   }, [group?.id, loadExpenses]);
 
+  // Swap pending offline expenses for their server rows once the queue syncs
+  useEffect(() => {
+    return SyncService.subscribeToSyncStatus(status => {
+      if (status.phase === 'done' && status.lastResult?.success) {
+        void loadExpenses(true);
+      }
+    });
+  }, [loadExpenses]);
+
+  // Roommates' expenses are patched in; rows past the loaded pages arrive when paging
+  useRealtimeTable<ExpenseWithSplits>('expenses', group?.id, {
+    map: row => ExpenseService.getExpenseById(String(row.id)),
+    onChange: change =>
+      setExpenses(prev => {
+        const lastLoaded = cursorRef.current;
+        const isPastLoadedPages =
+          change.type === 'upsert'
+          && !!lastLoaded
+          && (change.record.date < lastLoaded.date
+            || (change.record.date === lastLoaded.date && change.record.id < lastLoaded.id));
+        if (isPastLoadedPages && !prev.some(e => e.id === change.record.id)) return prev;
+        return RealtimeService.applyRealtimeChange(prev, change, compareExpenses);
+      }),
+    onResync: () => loadExpenses(true)
+  });
+
   // Form State
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState<ExpenseCategory>(ExpenseCategory.GROCERIES);
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
+  const [splitMode, setSplitMode] = useState<SplitMode>(SplitMode.EQUAL);
+  const [splitInputs, setSplitInputs] = useState<Record<string, string>>({});
+  const [itemizedReceipt, setItemizedReceipt] = useState<ItemizedReceipt | null>(null);
+  const [itemClaims, setItemClaims] = useState<Record<number, string[]>>({});
+  const baseCurrency = group?.baseCurrency || DEFAULT_CURRENCY;
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [exchangeRate, setExchangeRate] = useState('1');
+  const [isLoadingRate, setIsLoadingRate] = useState(false);
+  const scanItemsRef = useRef(false);
   const [modalMode, setModalMode] = useState<'create' | 'edit'>('create');
   const [editingExpense, setEditingExpense] = useState<ExpenseWithSplits | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [conflict, setConflict] = useState<ExpenseService.ExpenseConflictError | null>(null);
+  const [isResolvingConflict, setIsResolvingConflict] = useState(false);
   
   // Audio Recording
   const [isRecording, setIsRecording] = useState(false);
@@ -96,6 +149,12 @@ const ExpensesPage: React.FC = () => {
     setDescription('');
     setCategory(ExpenseCategory.GROCERIES);
     setSelectedParticipants(group?.members || []);
+    setSplitMode(SplitMode.EQUAL);
+    setSplitInputs({});
+    setItemizedReceipt(null);
+    setItemClaims({});
+    setCurrency(baseCurrency);
+    setExchangeRate('1');
     setEditingExpense(null);
     setModalMode('create');
     setIsProcessing(false);
@@ -116,38 +175,128 @@ const ExpensesPage: React.FC = () => {
     setSelectedParticipants(
       expense.splitBetween?.length ? expense.splitBetween : group?.members || []
     );
+    setSplitMode(expense.splitMode || SplitMode.EQUAL);
+    setSplitInputs(
+      Object.fromEntries(
+        Object.entries(expense.splitInputs || {}).map(([memberId, value]) => [memberId, String(value)])
+      )
+    );
+    setCurrency(expense.currency || baseCurrency);
+    setExchangeRate(String(expense.exchangeRate ?? 1));
     setIsModalOpen(true);
   };
 
+  // Start from the rate the group used last time for this currency
+  const handleCurrencyChange = async (nextCurrency: string) => {
+    setCurrency(nextCurrency);
+    if (nextCurrency === baseCurrency || !group?.id) {
+      setExchangeRate('1');
+      return;
+    }
+    setExchangeRate('');
+    setIsLoadingRate(true);
+    try {
+      const savedRate = await CurrencyService.getExchangeRate(group.id, baseCurrency, nextCurrency);
+      if (savedRate) {
+        setExchangeRate(String(savedRate));
+      }
+    } catch {
+      // No saved rate available (e.g. offline) - the user types it in
+    } finally {
+      setIsLoadingRate(false);
+    }
+  };
+
   const toggleParticipant = (memberId: string) => {
     setSelectedParticipants(prev =>
       prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]
     );
   };
 
+  // An itemized receipt replaces the split editor: claims decide the exact shares
+  const receiptSplit = (() => {
+    if (!itemizedReceipt) return null;
+    try {
+      // Spread whatever total is in the form, in case the scanned total was corrected
+      const total = parseFloat(amount) || itemizedReceipt.amount;
+      return { shares: allocateReceiptItems({ ...itemizedReceipt, amount: total }, itemClaims, currency), error: null };
+    } catch (error) {
+      return { shares: {} as Record<string, number>, error: getErrorMessage(error) };
+    }
+  })();
+
+  const parsedRate = currency === baseCurrency ? 1 : parseFloat(exchangeRate);
+  const rateError = Number.isFinite(parsedRate) && parsedRate > 0 ? null : 'أدخل سعر الصرف لهذه العملة';
+
+  const splitError = receiptSplit
+    ? receiptSplit.error
+    : splitMode === SplitMode.EQUAL || !parseFloat(amount)
+      ? null
+      : getSplitValidationError(
+          parseFloat(amount),
+          selectedParticipants,
+          splitMode,
+          parseSplitInputs(splitInputs, selectedParticipants),
+          currency
+        );
+
+  const toggleItemClaim = (itemIndex: number, memberId: string) => {
+    setItemClaims(prev => {
+      const owners = prev[itemIndex] || [];
+      return {
+        ...prev,
+        [itemIndex]: owners.includes(memberId) ? owners.filter(id => id !== memberId) : [...owners, memberId]
+      };
+    });
+  };
+
   const handleSubmitExpense = async (e?: React.FormEvent | React.MouseEvent) => {
     e?.preventDefault();
     if (!currentUser || !amount || !group?.id) return;
 
     const participants = (selectedParticipants.length ? selectedParticipants : group.members) || [];
-    if (participants.length === 0) {
+    if (participants.length === 0 && !itemizedReceipt) {
       const message = 'اختر مشاركاً واحداً على الأقل';
       setErrorMessage(message);
       showToast(message, 'error');
       return;
     }
 
-    const payload = {
-      amount: parseFloat(amount),
-      description: description || 'بدون وصف',
-      category,
-      participants: Array.from(new Set([...participants, currentUser.id]))
-    };
+    const formError = splitError || rateError;
+    if (formError) {
+      setErrorMessage(formError);
+      showToast(formError, 'error');
+      return;
+    }
+
+    // Equal splits always include the payer; other modes follow the entered parts
+    const isEqualSplit = !receiptSplit && splitMode === SplitMode.EQUAL;
+    const payload = receiptSplit
+      ? {
+          amount: parseFloat(amount),
+          description: description || 'بدون وصف',
+          category,
+          participants: Object.keys(receiptSplit.shares),
+          splitMode: SplitMode.EXACT,
+          splitInputs: receiptSplit.shares,
+          currency,
+          exchangeRate: parsedRate
+        }
+      : {
+          amount: parseFloat(amount),
+          description: description || 'بدون وصف',
+          category,
+          participants: isEqualSplit ? Array.from(new Set([...participants, currentUser.id])) : participants,
+          splitMode,
+          splitInputs: isEqualSplit ? undefined : parseSplitInputs(splitInputs, participants),
+          currency,
+          exchangeRate: parsedRate
+        };
 
     setIsSaving(true);
     try {
       if (modalMode === 'create') {
-        await ExpenseService.addExpense({
+        const created = await ExpenseService.addExpense({
           id: Date.now().toString(),
           groupId: group.id,
           payerId: currentUser.id,
@@ -155,22 +304,39 @@ const ExpensesPage: React.FC = () => {
           ...payload
         });
         HapticService.successFeedback();
-        showSuccess('تمت إضافة المصروف');
-        showToast('تمت إضافة المصروف بنجاح', 'success');
+        if (created.pendingSync) {
+          // Can't reload from the server while offline - show the local copy
+          setExpenses(prev => [created, ...prev]);
+          showToast('تم حفظ المصروف وسيتم رفعه عند عودة الاتصال', 'info');
+        } else {
+          showSuccess('تمت إضافة المصروف');
+          showToast('تمت إضافة المصروف بنجاح', 'success');
+          await loadExpenses(true);
+        }
       } else if (editingExpense) {
         await ExpenseService.updateExpense({
           id: editingExpense.id,
           ...payload,
-          participants: Array.from(new Set(participants))
+          participants: isEqualSplit ? Array.from(new Set(participants)) : payload.participants,
+          expectedVersion: editingExpense.version
         });
         HapticService.mediumTap();
         showToast('تم تحديث المصروف', 'success');
+        await loadExpenses(true);
+      }
+
+      if (currency !== baseCurrency) {
+        CurrencyService.saveExchangeRate(group.id, baseCurrency, currency, parsedRate).catch(() => {});
       }
 
-      await loadExpenses(true);
       setIsModalOpen(false);
       resetModal();
     } catch (error) {
+      if (isConflictError<ExpenseWithSplits, ExpenseService.UpdateExpenseInput>(error)) {
+        HapticService.warningFeedback();
+        setConflict(error);
+        return;
+      }
       const message = getErrorMessage(error);
       setErrorMessage(message);
       showToast(message, 'error');
@@ -179,13 +345,63 @@ const ExpensesPage: React.FC = () => {
     }
   };
 
+  const replaceExpense = (updated: ExpenseWithSplits) => {
+    setExpenses(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+  };
+
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+    setIsResolvingConflict(true);
+    try {
+      // Re-apply our edit on top of the version the other member saved
+      const updated = await ExpenseService.updateExpense({
+        ...conflict.attempted,
+        expectedVersion: conflict.current.version
+      });
+      replaceExpense(updated);
+      setConflict(null);
+      setIsModalOpen(false);
+      resetModal();
+      showToast('تم حفظ تعديلك', 'success');
+    } catch (error) {
+      if (isConflictError<ExpenseWithSplits, ExpenseService.UpdateExpenseInput>(error)) {
+        // Someone saved yet again - show the newest server copy
+        setConflict(error);
+        return;
+      }
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsResolvingConflict(false);
+    }
+  };
+
+  const handleKeepTheirs = () => {
+    if (!conflict) return;
+    replaceExpense(conflict.current);
+    setConflict(null);
+    setIsModalOpen(false);
+    resetModal();
+    showToast('تم الاحتفاظ بالنسخة المحفوظة', 'info');
+  };
+
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
 
+  const handleRestoreExpense = async (expenseId: string) => {
+    try {
+      const restored = await ExpenseService.restoreExpense(expenseId);
+      // Put it back where the date ordering says it belongs
+      setExpenses(prev => [restored, ...prev.filter(e => e.id !== restored.id)].sort(compareExpenses));
+      showToast('تم استرجاع المصروف', 'success');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
   const handleDeleteExpense = async (expense: ExpenseWithSplits) => {
     try {
       await ExpenseService.deleteExpense(expense.id);
       setExpenses(prev => prev.filter(e => e.id !== expense.id));
-      showToast('تم حذف المصروف', 'success');
+      showUndoToast('تم حذف المصروف', () => handleRestoreExpense(expense.id));
       setDeleteConfirmId(null);
     } catch (error) {
       const message = getErrorMessage(error);
@@ -206,7 +422,15 @@ const ExpensesPage: React.FC = () => {
           
           // Dynamic import - only loads when needed
           const GeminiService = await loadGeminiService();
-          const data = await GeminiService.scanReceipt(base64Data);
+          const itemized = scanItemsRef.current ? await GeminiService.scanReceiptItems(base64Data) : null;
+          if (scanItemsRef.current && !itemized) {
+            showToast('تعذر قراءة أصناف الفاتورة، سيتم استخدام الإجمالي فقط', 'info');
+          }
+          if (itemized) {
+            setItemizedReceipt(itemized);
+            setItemClaims({});
+          }
+          const data = itemized ?? await GeminiService.scanReceipt(base64Data);
           if (data) {
             setAmount(data.amount.toString());
             setDescription(`${data.vendor} - ${data.category}`);
@@ -222,6 +446,8 @@ const ExpensesPage: React.FC = () => {
           showToast('حدث خطأ أثناء تحليل الفاتورة', 'error');
         } finally {
           setIsProcessing(false);
+          scanItemsRef.current = false;
+          e.target.value = '';
         }
       };
       reader.onerror = () => {
@@ -301,12 +527,21 @@ const ExpensesPage: React.FC = () => {
       <SuccessCheckmarkComponent />
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-slate-800 dark:text-white">المصاريف المشتركة</h1>
-        <button 
-          onClick={openCreateModal}
-          className="bg-primary hover:bg-emerald-700 text-white rounded-full p-3 shadow-lg transition-transform active:scale-95"
-        >
-          <Plus size={24} />
-        </button>
+        <div className="flex items-center gap-2">
+          <Link
+            to="/import"
+            aria-label="استيراد مصروفات"
+            className="p-3 rounded-full bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-700"
+          >
+            <Upload size={20} />
+          </Link>
+          <button 
+            onClick={openCreateModal}
+            className="bg-primary hover:bg-emerald-700 text-white rounded-full p-3 shadow-lg transition-transform active:scale-95"
+          >
+            <Plus size={24} />
+          </button>
+        </div>
       </div>
 
       {errorMessage && (
@@ -332,12 +567,23 @@ const ExpensesPage: React.FC = () => {
                     <span className="inline-block bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 text-[10px] px-2 py-0.5 rounded-full mt-1">
                         {translateCategory(exp.category)}
                     </span>
+                    {exp.pendingSync && (
+                      <span className="inline-flex items-center gap-1 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 text-[10px] px-2 py-0.5 rounded-full mt-1 mr-1">
+                        <CloudOff size={10} /> بانتظار المزامنة
+                      </span>
+                    )}
                 </div>
                 <div className="text-left">
-                    <span className="block font-bold text-lg text-primary">{exp.amount}</span>
-                    <span className="text-[10px] text-gray-400">ج.م</span>
+                    <span className="block font-bold text-lg text-primary">{formatAmount(exp.amount, exp.currency)}</span>
+                    <span className="text-[10px] text-gray-400">{getCurrencyLabel(exp.currency || baseCurrency)}</span>
+                    {exp.currency && exp.currency !== baseCurrency && (
+                      <span className="block text-[10px] text-gray-400">
+                        ≈ {formatCurrency(toBaseAmount(exp.amount, exp.exchangeRate, baseCurrency), baseCurrency)}
+                      </span>
+                    )}
                 </div>
             </div>
+            {!exp.pendingSync && (
             <div className="flex items-center gap-2 mb-3">
               <button
                 onClick={() => openEditModal(exp)}
@@ -369,6 +615,7 @@ const ExpensesPage: React.FC = () => {
                 </button>
               )}
             </div>
+            )}
             <div className="flex justify-between items-center text-xs text-gray-500 dark:text-gray-400 pt-3 border-t border-gray-50 dark:border-gray-700 mt-2">
                 <div className="flex items-center gap-1">
                     <span>دفع بواسطة</span>
@@ -433,13 +680,22 @@ const ExpensesPage: React.FC = () => {
                     className="hidden" 
                 />
                 <button 
-                    onClick={() => fileInputRef.current?.click()}
+                    onClick={() => { scanItemsRef.current = false; fileInputRef.current?.click(); }}
                     disabled={isProcessing}
                     className="w-full py-2.5 border-2 border-dashed border-primary/40 bg-primary/5 dark:bg-primary/10 rounded-xl text-primary font-medium flex items-center justify-center gap-2 hover:bg-primary/10 dark:hover:bg-primary/20 transition-colors text-sm"
                 >
                     {isProcessing ? <Loader2 className="animate-spin" size={18} /> : <Camera size={18} />}
                     {isProcessing ? "جاري التحليل..." : "مسح الفاتورة بالذكاء الاصطناعي"}
                 </button>
+                {modalMode === 'create' && !isProcessing && (
+                  <button
+                      onClick={() => { scanItemsRef.current = true; fileInputRef.current?.click(); }}
+                      className="w-full mt-2 py-2 rounded-xl text-primary text-xs font-medium flex items-center justify-center gap-1.5 hover:bg-primary/5 dark:hover:bg-primary/10 transition-colors"
+                  >
+                      <ListChecks size={16} />
+                      مسح وتقسيم حسب الأصناف
+                  </button>
+                )}
             </div>
 
             <div className="space-y-4">
@@ -454,6 +710,15 @@ const ExpensesPage: React.FC = () => {
                         placeholder="0.00"
                     />
                 </div>
+                <CurrencyPicker
+                  baseCurrency={baseCurrency}
+                  currency={currency}
+                  amount={parseFloat(amount) || 0}
+                  exchangeRate={exchangeRate}
+                  isLoadingRate={isLoadingRate}
+                  onCurrencyChange={handleCurrencyChange}
+                  onExchangeRateChange={setExchangeRate}
+                />
                 <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">الوصف</label>
                     <div className="relative">
@@ -485,25 +750,30 @@ const ExpensesPage: React.FC = () => {
                         ))}
                     </select>
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">المشاركون</label>
-                  <div className="max-h-28 overflow-y-auto space-y-2 border dark:border-gray-600 rounded-xl p-3 bg-gray-50 dark:bg-gray-700/50">
-                    {(group?.members || []).map(memberId => {
-                      const member = users.find(u => u.id === memberId);
-                      return (
-                        <label key={memberId} className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-200 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            checked={selectedParticipants.includes(memberId)}
-                            onChange={() => toggleParticipant(memberId)}
-                            className="w-4 h-4 rounded text-primary focus:ring-primary"
-                          />
-                          <span>{member?.name || 'عضو'}</span>
-                        </label>
-                      );
-                    })}
-                  </div>
-                </div>
+                {itemizedReceipt ? (
+                  <ReceiptItemsClaimer
+                    receipt={itemizedReceipt}
+                    memberIds={group?.members || []}
+                    users={users}
+                    claims={itemClaims}
+                    onToggleClaim={toggleItemClaim}
+                    onClear={() => { setItemizedReceipt(null); setItemClaims({}); }}
+                  />
+                ) : (
+                <SplitEditor
+                  memberIds={group?.members || []}
+                  users={users}
+                  amount={parseFloat(amount) || 0}
+                  currency={currency}
+                  mode={splitMode}
+                  selected={selectedParticipants}
+                  inputs={splitInputs}
+                  onModeChange={setSplitMode}
+                  onToggle={toggleParticipant}
+                  onInputChange={(memberId, value) => setSplitInputs(prev => ({ ...prev, [memberId]: value }))}
+                />
+                )}
+                {receiptSplit?.error && <p className="text-xs text-rose-500 -mt-2">{receiptSplit.error}</p>}
             </div>
             </div>
             
@@ -512,7 +782,7 @@ const ExpensesPage: React.FC = () => {
                 <button 
                   type="button"
                   onClick={handleSubmitExpense}
-                  disabled={isProcessing || isSaving || !amount || !description}
+                  disabled={isProcessing || isSaving || !amount || !description || !!splitError || !!rateError}
                   className="w-full bg-primary text-white font-bold py-4 rounded-xl shadow-lg hover:bg-emerald-600 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                 >
                   {isSaving ? 'جاري الحفظ...' : (modalMode === 'create' ? 'حفظ المصروف' : 'تحديث المصروف')}
@@ -521,6 +791,16 @@ const ExpensesPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ExpenseConflictDialog
+          conflict={conflict}
+          users={users}
+          isResolving={isResolvingConflict}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,425 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useApp } from '../App';
+import * as ImportService from '../services/ImportService';
+import { ArrowLeft, Upload, Loader2, AlertTriangle, Copy, CheckCircle } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { getErrorMessage } from '../utils/errorHandler';
+import { translateCategory } from '../utils/categoryUtils';
+import { CURRENCIES, DEFAULT_CURRENCY, formatAmount } from '../utils/currencyUtils';
+import { DateOrder } from '../utils/importUtils';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const SOURCE_OPTIONS: { value: ImportService.ImportSource; label: string; hint: string }[] = [
+  { value: 'splitwise', label: 'Splitwise', hint: 'ملف CSV من "Export as spreadsheet"' },
+  { value: 'bank', label: 'كشف حساب بنكي', hint: 'أي ملف CSV، وتختار الأعمدة بنفسك' }
+];
+
+const DATE_ORDER_OPTIONS: { value: DateOrder; label: string }[] = [
+  { value: 'dmy', label: 'يوم/شهر/سنة' },
+  { value: 'mdy', label: 'شهر/يوم/سنة' },
+  { value: 'ymd', label: 'سنة-شهر-يوم' }
+];
+
+const ImportPage: React.FC = () => {
+  const { currentUser, group, users } = useApp();
+  const { showToast } = useToast();
+  const baseCurrency = group.baseCurrency || DEFAULT_CURRENCY;
+  const members = users.filter(u => group.members.includes(u.id));
+
+  const [step, setStep] = useState<Step>('upload');
+  const [source, setSource] = useState<ImportService.ImportSource>('splitwise');
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Splitwise
+  const [splitwiseFile, setSplitwiseFile] = useState<ImportService.SplitwiseFile | null>(null);
+  const [nameMap, setNameMap] = useState<Record<string, string | null>>({});
+
+  // Bank
+  const [bankRows, setBankRows] = useState<string[][]>([]);
+  const [bankOptions, setBankOptions] = useState<ImportService.BankImportOptions>({
+    mapping: { date: 0, description: 1, amount: 2, category: null },
+    hasHeader: true,
+    dateOrder: 'dmy',
+    currency: baseCurrency,
+    payerId: currentUser?.id || '',
+    participants: group.members,
+    debitsOnly: true
+  });
+
+  const [drafts, setDrafts] = useState<ImportService.ImportDraft[]>([]);
+  const [dryRunResult, setDryRunResult] = useState<ImportService.ImportResult | null>(null);
+  const [result, setResult] = useState<ImportService.ImportResult | null>(null);
+
+  const getUserName = (id: string | null) => users.find(u => u.id === id)?.name || '—';
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      if (source === 'splitwise') {
+        const parsed = ImportService.parseSplitwiseCsv(text);
+        setSplitwiseFile(parsed);
+        setNameMap(ImportService.matchMembers(parsed.people, members));
+      } else {
+        const rows = ImportService.parseBankCsv(text);
+        setBankRows(rows);
+        setBankOptions(prev => ({ ...prev, mapping: ImportService.guessBankMapping(rows[0]) }));
+      }
+      setStep('map');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const buildPreview = async () => {
+    setIsWorking(true);
+    try {
+      const built = source === 'splitwise' && splitwiseFile
+        ? ImportService.splitwiseToDrafts(splitwiseFile, nameMap, baseCurrency)
+        : ImportService.bankToDrafts(bankRows, bankOptions);
+      setDrafts(await ImportService.flagDuplicates(group.id, built));
+      setDryRunResult(null);
+      setStep('preview');
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsWorking(true);
+    try {
+      const outcome = await ImportService.importExpenses(group.id, drafts, { dryRun, baseCurrency });
+      if (dryRun) {
+        setDryRunResult(outcome);
+      } else {
+        setResult(outcome);
+        setStep('done');
+      }
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleDraft = (line: number) => {
+    setDryRunResult(null);
+    setDrafts(prev => prev.map(d => (d.line === line ? { ...d, selected: !d.selected } : d)));
+  };
+
+  const updateMapping = (key: keyof ImportService.BankColumnMapping, value: string) => {
+    setBankOptions(prev => ({
+      ...prev,
+      mapping: { ...prev.mapping, [key]: value === '' ? null : Number(value) }
+    }));
+  };
+
+  const selectedCount = drafts.filter(d => d.selected).length;
+  const failedLines = new Map((dryRunResult?.failed || []).map(f => [f.line, f.message]));
+  const selectClass = 'mt-1 w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white';
+  const bankHeader = bankRows[0] || [];
+
+  return (
+    <div className="p-5 min-h-screen pb-24">
+      <div className="flex items-center gap-4 mb-6">
+        <Link to="/expenses" className="p-2 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300">
+          <ArrowLeft size={20} />
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">استيراد مصروفات</h1>
+          <p className="text-gray-500 dark:text-gray-400 text-sm">من Splitwise أو كشف حساب البنك</p>
+        </div>
+      </div>
+
+      {step === 'upload' && (
+        <div className="space-y-4">
+          {SOURCE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setSource(option.value)}
+              className={`w-full text-right p-4 rounded-xl border transition-colors ${
+                source === option.value
+                  ? 'border-primary bg-primary/5'
+                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+              }`}
+            >
+              <p className="font-semibold text-gray-900 dark:text-white">{option.label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{option.hint}</p>
+            </button>
+          ))}
+          <label className="flex items-center justify-center gap-2 w-full py-3 rounded-xl bg-primary text-white font-medium cursor-pointer">
+            <Upload size={18} /> اختر ملف CSV
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      {step === 'map' && source === 'splitwise' && splitwiseFile && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {splitwiseFile.entries.length} سطر. طابق الأسماء في الملف مع أعضاء المجموعة:
+          </p>
+          {splitwiseFile.people.map(person => (
+            <label key={person} className="block text-xs text-gray-500 dark:text-gray-400">
+              {person}
+              <select
+                value={nameMap[person] || ''}
+                onChange={e => setNameMap(prev => ({ ...prev, [person]: e.target.value || null }))}
+                className={selectClass}
+              >
+                <option value="">— غير موجود —</option>
+                {members.map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {step === 'map' && source === 'bank' && (
+        <div className="space-y-4">
+          <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700">
+            <table className="text-xs w-full">
+              <tbody>
+                {bankRows.slice(0, 4).map((row, i) => (
+                  <tr key={i} className={i === 0 && bankOptions.hasHeader ? 'font-semibold' : ''}>
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-2 py-1 border-b border-gray-100 dark:border-gray-700 whitespace-nowrap dark:text-gray-200">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={bankOptions.hasHeader}
+              onChange={e => setBankOptions(prev => ({ ...prev, hasHeader: e.target.checked }))}
+            />
+            السطر الأول عناوين الأعمدة
+          </label>
+
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ['date', 'التاريخ'],
+              ['description', 'الوصف'],
+              ['amount', 'المبلغ'],
+              ['category', 'التصنيف (اختياري)']
+            ] as [keyof ImportService.BankColumnMapping, string][]).map(([key, label]) => (
+              <label key={key} className="text-xs text-gray-500 dark:text-gray-400">
+                {label}
+                <select
+                  value={bankOptions.mapping[key] ?? ''}
+                  onChange={e => updateMapping(key, e.target.value)}
+                  className={selectClass}
+                >
+                  {key === 'category' && <option value="">— بدون —</option>}
+                  {bankHeader.map((cell, index) => (
+                    <option key={index} value={index}>
+                      {bankOptions.hasHeader ? cell || `عمود ${index + 1}` : `عمود ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              صيغة التاريخ
+              <select
+                value={bankOptions.dateOrder}
+                onChange={e => setBankOptions(prev => ({ ...prev, dateOrder: e.target.value as DateOrder }))}
+                className={selectClass}
+              >
+                {DATE_ORDER_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              العملة
+              <select
+                value={bankOptions.currency}
+                onChange={e => setBankOptions(prev => ({ ...prev, currency: e.target.value }))}
+                className={selectClass}
+              >
+                {Object.values(CURRENCIES).map(option => (
+                  <option key={option.code} value={option.code}>{option.code}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500 dark:text-gray-400 col-span-2">
+              الدافع
+              <select
+                value={bankOptions.payerId}
+                onChange={e => setBankOptions(prev => ({ ...prev, payerId: e.target.value }))}
+                className={selectClass}
+              >
+                {members.map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">يُقسم بالتساوي بين</p>
+            <div className="flex flex-wrap gap-2">
+              {members.map(member => {
+                const active = bankOptions.participants.includes(member.id);
+                return (
+                  <button
+                    key={member.id}
+                    onClick={() => setBankOptions(prev => ({
+                      ...prev,
+                      participants: active
+                        ? prev.participants.filter(id => id !== member.id)
+                        : [...prev.participants, member.id]
+                    }))}
+                    className={`px-3 py-1.5 rounded-full text-sm ${
+                      active ? 'bg-primary text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+                    }`}
+                  >
+                    {member.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={bankOptions.debitsOnly}
+              onChange={e => setBankOptions(prev => ({ ...prev, debitsOnly: e.target.checked }))}
+            />
+            المبالغ السالبة فقط (المسحوبات)
+          </label>
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div className="flex gap-2 mt-6">
+          <button
+            onClick={() => setStep('upload')}
+            className="flex-1 py-3 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 text-sm font-medium"
+          >
+            رجوع
+          </button>
+          <button
+            onClick={buildPreview}
+            disabled={isWorking}
+            className="flex-1 py-3 rounded-xl bg-primary text-white text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isWorking && <Loader2 size={16} className="animate-spin" />}
+            معاينة
+          </button>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            تم اختيار {selectedCount} من {drafts.length}. الأسطر المكررة أو التي بها مشاكل غير محددة تلقائيًا.
+          </p>
+
+          {dryRunResult && (
+            <div className="bg-sky-50 dark:bg-sky-900/30 text-sky-700 dark:text-sky-200 rounded-xl p-3 text-sm">
+              تجربة: سيتم استيراد {dryRunResult.imported} مصروف
+              {dryRunResult.failed.length > 0 && ` وسيفشل ${dryRunResult.failed.length}`}
+            </div>
+          )}
+
+          {drafts.map(draft => {
+            const failure = failedLines.get(draft.line);
+            return (
+              <label
+                key={draft.line}
+                className={`flex items-start gap-3 bg-white dark:bg-gray-800 rounded-xl p-3 border ${
+                  failure ? 'border-rose-300' : 'border-gray-100 dark:border-gray-700'
+                } ${draft.selected ? '' : 'opacity-60'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={draft.selected}
+                  onChange={() => toggleDraft(draft.line)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{draft.description || '—'}</span>
+                    <span className="text-sm font-bold text-gray-900 dark:text-white whitespace-nowrap">
+                      {formatAmount(draft.amount, draft.currency)} {draft.currency}
+                    </span>
+                  </div>
+                  <p className="text-[11px] text-gray-400">
+                    {draft.date ? new Date(draft.date).toLocaleDateString('ar-EG') : '—'} · {translateCategory(draft.category)} · دفع {getUserName(draft.payerId)}
+                  </p>
+                  {draft.issues.map(issue => (
+                    <p key={issue} className="text-[11px] text-rose-500 flex items-center gap-1 mt-1">
+                      <AlertTriangle size={12} /> {issue}
+                    </p>
+                  ))}
+                  {(draft.duplicateOf || draft.duplicateOfLine) && (
+                    <p className="text-[11px] text-amber-600 flex items-center gap-1 mt-1">
+                      <Copy size={12} />
+                      {draft.duplicateOf ? 'مسجل بالفعل في المجموعة' : `مكرر مع السطر ${draft.duplicateOfLine}`}
+                    </p>
+                  )}
+                  {failure && <p className="text-[11px] text-rose-500 mt-1">{failure}</p>}
+                </div>
+              </label>
+            );
+          })}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={() => runImport(true)}
+              disabled={isWorking || selectedCount === 0}
+              className="flex-1 py-3 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 text-sm font-medium disabled:opacity-50"
+            >
+              تجربة بدون حفظ
+            </button>
+            <button
+              onClick={() => runImport(false)}
+              disabled={isWorking || selectedCount === 0}
+              className="flex-1 py-3 rounded-xl bg-primary text-white text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {isWorking && <Loader2 size={16} className="animate-spin" />}
+              استيراد {selectedCount}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="text-center py-10 space-y-4">
+          <CheckCircle size={48} className="mx-auto text-primary" />
+          <p className="text-lg font-bold text-gray-900 dark:text-white">تم استيراد {result.imported} مصروف</p>
+          {result.failed.length > 0 && (
+            <div className="text-right bg-rose-50 dark:bg-rose-900/30 rounded-xl p-3 space-y-1">
+              {result.failed.map(failure => (
+                <p key={failure.line} className="text-xs text-rose-600 dark:text-rose-300">
+                  السطر {failure.line}: {failure.message}
+                </p>
+              ))}
+            </div>
+          )}
+          <Link to="/expenses" className="inline-block px-6 py-3 rounded-xl bg-primary text-white text-sm font-medium">
+            عرض المصروفات
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPage;
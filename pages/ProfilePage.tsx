@@ -3,15 +3,28 @@ import { useApp } from '../App';
 import * as NotificationService from '../services/NotificationService';
 import * as GroupService from '../services/GroupService';
 import * as UserService from '../services/UserService';
-import { Notification, Group, User } from '../types';
+import * as TrashService from '../services/TrashService';
+import * as ExpenseService from '../services/ExpenseService';
+import * as PaymentService from '../services/PaymentService';
+import * as ShoppingService from '../services/ShoppingService';
+import * as PushService from '../services/PushService';
+import { Notification, Group, User, DeletedItem, DeletedItemType } from '../types';
 import { 
   LogOut, Bell, Settings, Users, Crown, Trash2, UserMinus, 
   RefreshCw, Edit3, Copy, Check, ChevronDown, ChevronUp,
-  Link as LinkIcon, CreditCard, Share2
+  Link as LinkIcon, CreditCard, Share2, RotateCcw, Smartphone
 } from 'lucide-react';
 import Skeleton from '../components/ui/Skeleton';
+import NotificationSettingsPanel from '../components/NotificationSettingsPanel';
 import { useToast } from '../contexts/ToastContext';
 import { getErrorMessage } from '../utils/errorHandler';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../utils/currencyUtils';
+
+const DELETED_TYPE_LABELS: Record<DeletedItemType, string> = {
+  expense: 'مصروف',
+  payment: 'دفعة',
+  shopping_item: 'عنصر تسوق'
+};
 
 const ProfilePage: React.FC = () => {
   const { currentUser, currentGroup, logout, refreshData } = useApp();
@@ -28,8 +41,18 @@ const ProfilePage: React.FC = () => {
   const [newGroupName, setNewGroupName] = useState('');
   const [codeCopied, setCodeCopied] = useState(false);
   const [processing, setProcessing] = useState<string | null>(null);
+
+  // Recently deleted bin (admins only)
+  const [showDeletedBin, setShowDeletedBin] = useState(false);
+  const [deletedItems, setDeletedItems] = useState<DeletedItem[]>([]);
+  const [isLoadingDeleted, setIsLoadingDeleted] = useState(false);
   
   // InstaPay state
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false);
+  const pushSupported = PushService.isPushSupported();
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
+
   const [instaPayLink, setInstaPayLink] = useState('');
   const [isEditingInstaPay, setIsEditingInstaPay] = useState(false);
   const [tempInstaPayLink, setTempInstaPayLink] = useState('');
@@ -95,6 +118,32 @@ const ProfilePage: React.FC = () => {
     loadGroupData();
   }, [currentUser, showToast, loadGroupData]);
 
+  useEffect(() => {
+    if (!pushSupported) return;
+    PushService.isPushEnabled().then(setPushEnabled).catch(() => setPushEnabled(false));
+  }, [pushSupported]);
+
+  const handleTogglePush = async () => {
+    if (!currentUser || isUpdatingPush) return;
+    setIsUpdatingPush(true);
+    try {
+      if (pushEnabled) {
+        await PushService.disablePush();
+        setPushEnabled(false);
+      } else {
+        const enabled = await PushService.enablePush(currentUser.id);
+        setPushEnabled(enabled);
+        if (!enabled) {
+          showToast('اسمح بالإشعارات من إعدادات المتصفح أولاً', 'info');
+        }
+      }
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsUpdatingPush(false);
+    }
+  };
+
   // Group Management Actions
   const handleUpdateGroupName = async () => {
     if (!group || !newGroupName.trim() || processing) return;
@@ -113,6 +162,22 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const handleBaseCurrencyChange = async (baseCurrency: string) => {
+    if (!group || processing) return;
+
+    setProcessing('currency');
+    try {
+      await GroupService.updateGroupBaseCurrency(group.id, baseCurrency);
+      showToast('تم تغيير العملة الأساسية', 'success');
+      await loadGroupData();
+      refreshData?.();
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
   const handleRegenerateCode = async () => {
     if (!group || !currentUser || processing) return;
     
@@ -128,6 +193,55 @@ const ProfilePage: React.FC = () => {
     }
   };
 
+  const loadDeletedItems = useCallback(async () => {
+    if (!currentGroup) return;
+    setIsLoadingDeleted(true);
+    try {
+      setDeletedItems(await TrashService.getRecentlyDeleted(currentGroup.id));
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setIsLoadingDeleted(false);
+    }
+  }, [currentGroup, showToast]);
+
+  useEffect(() => {
+    if (showDeletedBin && isAdmin) {
+      loadDeletedItems();
+    }
+  }, [showDeletedBin, isAdmin, loadDeletedItems]);
+
+  const handleRestoreItem = async (item: DeletedItem) => {
+    if (processing) return;
+
+    setProcessing(`restore_${item.id}`);
+    try {
+      if (item.type === 'expense') {
+        await ExpenseService.restoreExpense(item.id);
+      } else if (item.type === 'payment') {
+        await PaymentService.restorePayment(item.id);
+      } else {
+        await ShoppingService.restoreShoppingItem(item.id);
+      }
+      setDeletedItems(prev => prev.filter(i => i.id !== item.id || i.type !== item.type));
+      showToast('تم الاسترجاع', 'success');
+      refreshData?.();
+    } catch (error) {
+      showToast(getErrorMessage(error), 'error');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const getMemberName = (id?: string | null) => members.find(m => m.id === id)?.name || 'عضو';
+
+  const describeDeletedItem = (item: DeletedItem) => {
+    if (item.type === 'payment') {
+      return `${getMemberName(item.from)} ← ${getMemberName(item.to)}`;
+    }
+    return item.title;
+  };
+
   const handleCopyCode = async () => {
     if (!group?.code) return;
     
@@ -385,6 +499,24 @@ const ProfilePage: React.FC = () => {
                   )}
                 </div>
 
+                {/* Base Currency */}
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">العملة الأساسية</label>
+                  <select
+                    value={group.baseCurrency || DEFAULT_CURRENCY}
+                    onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                    disabled={!isAdmin || !!processing}
+                    className="w-full p-3 rounded-lg bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-sm text-slate-800 dark:text-white disabled:opacity-70"
+                  >
+                    {Object.values(CURRENCIES).map(option => (
+                      <option key={option.code} value={option.code}>
+                        {option.code} ({option.label})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-[11px] text-gray-400 mt-1">الأرصدة والإحصائيات تُحسب بهذه العملة، ويمكن تغييرها فقط قبل تسجيل أي مصروف</p>
+                </div>
+
                 {/* Invite Code */}
                 <div>
                   <label className="text-xs text-gray-500 mb-1 block">كود الدعوة</label>
@@ -465,6 +597,59 @@ const ProfilePage: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Recently Deleted */}
+                {isAdmin && (
+                  <div>
+                    <button
+                      onClick={() => setShowDeletedBin(prev => !prev)}
+                      className="w-full flex items-center justify-between text-xs text-gray-500"
+                    >
+                      <span className="flex items-center gap-1">
+                        <Trash2 size={14} /> المحذوفات مؤخراً (آخر {TrashService.RECENTLY_DELETED_DAYS} يوم)
+                      </span>
+                      {showDeletedBin ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                    </button>
+
+                    {showDeletedBin && (
+                      <div className="space-y-2 mt-2">
+                        {isLoadingDeleted && <Skeleton className="h-14" />}
+                        {!isLoadingDeleted && deletedItems.length === 0 && (
+                          <p className="text-xs text-gray-400 text-center py-3">لا توجد عناصر محذوفة</p>
+                        )}
+                        {!isLoadingDeleted && deletedItems.map(item => (
+                          <div
+                            key={`${item.type}_${item.id}`}
+                            className="flex items-center justify-between bg-gray-50 dark:bg-gray-700 p-3 rounded-lg"
+                          >
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="text-[10px] text-gray-500 bg-gray-200 dark:bg-gray-600 px-2 py-0.5 rounded-full">
+                                  {DELETED_TYPE_LABELS[item.type]}
+                                </span>
+                                <span className="text-sm font-medium text-slate-800 dark:text-white truncate">
+                                  {describeDeletedItem(item)}
+                                </span>
+                              </div>
+                              <span className="text-[11px] text-gray-400">
+                                {item.amount !== undefined && `${item.amount} ${item.currency || group.baseCurrency || DEFAULT_CURRENCY} · `}
+                                حذفه {getMemberName(item.deletedBy)} في {new Date(item.deletedAt).toLocaleDateString('ar-EG')}
+                              </span>
+                            </div>
+                            <button
+                              onClick={() => handleRestoreItem(item)}
+                              disabled={!!processing}
+                              className="p-2 text-primary hover:bg-primary/10 rounded-lg disabled:opacity-50"
+                              title="استرجاع"
+                            >
+                              {processing === `restore_${item.id}` ? '...' : <RotateCcw size={16} />}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Danger Zone */}
                 <div className="pt-4 border-t border-gray-200 dark:border-gray-600 space-y-2">
                   {!isAdmin && (
@@ -496,9 +681,43 @@ const ProfilePage: React.FC = () => {
 
         {/* Notifications */}
         <div className="mb-6">
-            <h3 className="font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-2">
-                <Bell size={20} className="text-primary" /> التنبيهات
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-bold text-slate-800 dark:text-white flex items-center gap-2">
+                  <Bell size={20} className="text-primary" /> التنبيهات
+              </h3>
+              <button
+                onClick={() => setShowNotificationSettings(prev => !prev)}
+                className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400"
+              >
+                <Settings size={14} /> الإعدادات
+                {showNotificationSettings ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+              </button>
+            </div>
+            {showNotificationSettings && currentUser && (
+              <div className="mb-3">
+                <NotificationSettingsPanel userId={currentUser.id} />
+              </div>
+            )}
+            {pushSupported && (
+              <div className="bg-white dark:bg-gray-800 p-4 rounded-xl border border-gray-100 dark:border-gray-700 shadow-sm mb-3 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Smartphone size={18} className="text-gray-500 dark:text-gray-400" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-800 dark:text-white">إشعارات هذا الجهاز</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">توصلك التنبيهات حتى والتطبيق مقفول</p>
+                  </div>
+                </div>
+                <button
+                  onClick={handleTogglePush}
+                  disabled={isUpdatingPush}
+                  role="switch"
+                  aria-checked={pushEnabled}
+                  className={`relative w-11 h-6 rounded-full transition-colors disabled:opacity-50 ${pushEnabled ? 'bg-primary' : 'bg-gray-300 dark:bg-gray-600'}`}
+                >
+                  <span className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow transition-all ${pushEnabled ? 'left-0.5' : 'left-[1.375rem]'}`} />
+                </button>
+              </div>
+            )}
             <div className="space-y-3">
                 {isLoading && (
                   <>
@@ -1,79 +1,53 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useApp } from '../App';
 import * as PaymentService from '../services/PaymentService';
 import * as SettlementService from '../services/SettlementService';
 import * as HapticService from '../services/hapticService';
-import { Payment, TransactionStatus, UserBalance } from '../types';
-import { ArrowLeft, CheckCircle, Clock, ChevronDown, ChevronUp, Loader2, CreditCard } from 'lucide-react';
+import * as ExpenseService from '../services/ExpenseService';
+import * as RealtimeService from '../services/RealtimeService';
+import { ExpenseWithSplits, Payment, TransactionStatus } from '../types';
+import { ArrowLeft, CheckCircle, Clock, ChevronDown, ChevronUp, Loader2, CreditCard, HandCoins, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { useToast } from '../contexts/ToastContext';
+import { useRealtimeTable } from '../hooks/useRealtimeTable';
 import EmptyState from '../components/ui/EmptyState';
 import Skeleton from '../components/ui/Skeleton';
 import { getErrorMessage } from '../utils/errorHandler';
 import { useConfetti } from '../components/ui/Confetti';
+import { getCurrencyLabel } from '../utils/currencyUtils';
 
-interface DebtLine {
-  from: string;
-  to: string;
-  amount: number;
-}
+/** Bursts of changes (an expense and its splits) only reload the plan once */
+const PLAN_REFRESH_DELAY_MS = 1000;
 
-const buildDebtLines = (balances: UserBalance[]): DebtLine[] => {
-  const debtors = balances
-    .filter(balance => balance.balance < -0.01)
-    .map(balance => ({ id: balance.userId, amount: Math.abs(balance.balance) }));
-  const creditors = balances
-    .filter(balance => balance.balance > 0.01)
-    .map(balance => ({ id: balance.userId, amount: balance.balance }));
-
-  const result: DebtLine[] = [];
-  let debtorIndex = 0;
-  let creditorIndex = 0;
-
-  while (debtorIndex < debtors.length && creditorIndex < creditors.length) {
-    const debtor = debtors[debtorIndex];
-    const creditor = creditors[creditorIndex];
-    const amount = Math.min(debtor.amount, creditor.amount);
-
-    if (amount > 0.01) {
-      result.push({ from: debtor.id, to: creditor.id, amount: Number(amount.toFixed(2)) });
-    }
-
-    debtor.amount -= amount;
-    creditor.amount -= amount;
-
-    if (debtor.amount <= 0.01) {
-      debtorIndex++;
-    }
-    if (creditor.amount <= 0.01) {
-      creditorIndex++;
-    }
-  }
-
-  return result;
-};
+const comparePayments = (a: Payment, b: Payment) => b.date.localeCompare(a.date);
 
 const SettlementsPage: React.FC = () => {
   const { currentUser, group, users } = useApp();
-  const { showToast: pushToast } = useToast();
+  const currencyLabel = getCurrencyLabel(group.baseCurrency);
+  const { showToast: pushToast, showUndoToast } = useToast();
   const { triggerConfetti, ConfettiComponent } = useConfetti();
-  const [debts, setDebts] = useState<DebtLine[]>([]);
+  const [debts, setDebts] = useState<SettlementService.SettlementTransfer[]>([]);
+  const [strategy, setStrategy] = useState<SettlementService.SettlementStrategy>('exact');
+  const [includeDebts, setIncludeDebts] = useState(false);
+  const [expandedDebtIndex, setExpandedDebtIndex] = useState<number | null>(null);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [expandedPaymentId, setExpandedPaymentId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [processingPaymentTo, setProcessingPaymentTo] = useState<string | null>(null);
   const [confirmingPaymentId, setConfirmingPaymentId] = useState<string | null>(null);
+  const [deletingPaymentId, setDeletingPaymentId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!group.id) return;
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const [balances, paymentRows] = await Promise.all([
-          SettlementService.calculateGroupBalances(group.id),
+        const [plan, paymentRows] = await Promise.all([
+          SettlementService.getSettlementPlan(group.id, strategy, { includeDebts }),
           PaymentService.getPayments({ groupId: group.id })
         ]);
-        setDebts(buildDebtLines(balances));
+        setDebts(plan.transfers);
         setPayments(paymentRows);
       } catch (error) {
         pushToast(getErrorMessage(error), 'error');
@@ -82,18 +56,56 @@ const SettlementsPage: React.FC = () => {
       }
     };
     loadData();
-  }, [group.id, pushToast]);
+  }, [group.id, strategy, includeDebts, pushToast]);
 
   const refreshSettlements = async () => {
     if (!group.id) return;
-    const [balances, paymentRows] = await Promise.all([
-      SettlementService.calculateGroupBalances(group.id),
+    const [plan, paymentRows] = await Promise.all([
+      SettlementService.getSettlementPlan(group.id, strategy, { includeDebts }),
       PaymentService.getPayments({ groupId: group.id })
     ]);
-    setDebts(buildDebtLines(balances));
+    setDebts(plan.transfers);
     setPayments(paymentRows);
   };
 
+  // The plan comes from the whole ledger, so it's reloaded instead of patched
+  const planRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const schedulePlanRefresh = () => {
+    if (planRefreshTimer.current) clearTimeout(planRefreshTimer.current);
+    planRefreshTimer.current = setTimeout(async () => {
+      planRefreshTimer.current = null;
+      if (!group.id) return;
+      try {
+        const plan = await SettlementService.getSettlementPlan(group.id, strategy, { includeDebts });
+        setDebts(plan.transfers);
+      } catch (error) {
+        pushToast(getErrorMessage(error), 'error');
+      }
+    }, PLAN_REFRESH_DELAY_MS);
+  };
+
+  useEffect(() => () => {
+    if (planRefreshTimer.current) clearTimeout(planRefreshTimer.current);
+  }, []);
+
+  const resyncSettlements = () => {
+    refreshSettlements().catch(error => pushToast(getErrorMessage(error), 'error'));
+  };
+
+  useRealtimeTable<Payment>('payments', group.id, {
+    onChange: change => {
+      setPayments(prev => RealtimeService.applyRealtimeChange(prev, change, comparePayments));
+      schedulePlanRefresh();
+    },
+    onResync: resyncSettlements
+  });
+
+  useRealtimeTable<ExpenseWithSplits>('expenses', group.id, {
+    map: row => ExpenseService.getExpenseById(String(row.id)),
+    onChange: schedulePlanRefresh,
+    onResync: resyncSettlements
+  });
+
   const handlePay = async (toUserId: string, amount: number) => {
     if (!currentUser || !group.id || processingPaymentTo) return;
     
@@ -131,7 +143,7 @@ const SettlementsPage: React.FC = () => {
       HapticService.paymentConfirmed();
       
       // Check if all debts are settled
-      const balances = await SettlementService.calculateGroupBalances(group!.id);
+      const balances = await SettlementService.calculateGroupBalances(group!.id, { includeDebts });
       const hasRemainingDebts = balances.some(b => Math.abs(b.balance) > 0.01);
       
       if (!hasRemainingDebts) {
@@ -148,6 +160,32 @@ const SettlementsPage: React.FC = () => {
     }
   };
 
+  const restorePayment = async (paymentId: string) => {
+    try {
+      await PaymentService.restorePayment(paymentId);
+      await refreshSettlements();
+      pushToast('تم استرجاع الدفعة', 'success');
+    } catch (error) {
+      pushToast(getErrorMessage(error), 'error');
+    }
+  };
+
+  const deletePayment = async (payment: Payment) => {
+    if (deletingPaymentId) return;
+
+    setDeletingPaymentId(payment.id);
+    try {
+      await PaymentService.deletePayment(payment.id);
+      setExpandedPaymentId(null);
+      await refreshSettlements();
+      showUndoToast('تم حذف الدفعة', () => restorePayment(payment.id));
+    } catch (error) {
+      pushToast(getErrorMessage(error), 'error');
+    } finally {
+      setDeletingPaymentId(null);
+    }
+  };
+
   const getUserName = (id: string) => users.find(u => u.id === id)?.name;
   const getUserAvatar = (id: string) => users.find(u => u.id === id)?.avatar;
 
@@ -178,11 +216,42 @@ const SettlementsPage: React.FC = () => {
   return (
     <div className="p-5 pb-24 bg-gray-50 dark:bg-gray-900 min-h-screen">
       <ConfettiComponent />
-      <h1 className="text-2xl font-bold text-slate-800 dark:text-white mb-6">التسويات والديون</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-slate-800 dark:text-white">التسويات والديون</h1>
+        <Link
+          to="/debts"
+          className="flex items-center gap-1.5 text-xs font-medium text-primary bg-primary/10 px-3 py-1.5 rounded-full"
+        >
+          <HandCoins size={14} />
+          الديون الشخصية
+        </Link>
+      </div>
 
       {/* Suggested Settlements */}
       <div className="mb-8">
-        <h2 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">مقترحات السداد</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">مقترحات السداد</h2>
+          <div className="flex bg-gray-100 dark:bg-gray-800 rounded-lg p-0.5 text-xs">
+            {([['exact', 'أقل عدد تحويلات'], ['greedy', 'سريع']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setStrategy(value)}
+                className={`px-3 py-1.5 rounded-md font-medium transition-colors ${strategy === value ? 'bg-white dark:bg-gray-700 text-primary shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 mb-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeDebts}
+            onChange={e => setIncludeDebts(e.target.checked)}
+            className="w-4 h-4 rounded text-primary focus:ring-primary"
+          />
+          احسب ديون المجموعة (القروض بين الأعضاء) ضمن الأرصدة
+        </label>
         <div className="space-y-3">
           {debts.length === 0 ? (
             <EmptyState
@@ -205,8 +274,12 @@ const SettlementsPage: React.FC = () => {
               const fromAvatar = fromUser?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${debt.from}`;
               const toAvatar = toUser?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${debt.to}`;
               
+              const explanationShares = [...debt.explanation.direct, ...debt.explanation.indirect];
+              const isDebtExpanded = expandedDebtIndex === idx;
+
               return (
-              <div key={idx} className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 flex items-center justify-between">
+              <div key={idx} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
+              <div className="p-4 flex items-center justify-between">
                 <div className="flex items-center gap-3">
                     <img src={fromAvatar} alt="" className="w-8 h-8 rounded-full opacity-70" />
                     <ArrowLeft size={16} className="text-gray-400" />
@@ -216,7 +289,7 @@ const SettlementsPage: React.FC = () => {
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                         {debt.from === currentUser?.id ? 'عليك' : `على ${getUserName(debt.from)}`}
                     </p>
-                    <p className="font-bold text-lg dark:text-white">{debt.amount} ج.م</p>
+                    <p className="font-bold text-lg dark:text-white">{debt.amount} {currencyLabel}</p>
                     
                     {debt.from === currentUser?.id && (
                         <div className="flex gap-2 mt-2">
@@ -252,6 +325,41 @@ const SettlementsPage: React.FC = () => {
                     )}
                 </div>
               </div>
+              {explanationShares.length > 0 && (
+                <>
+                  <button
+                    onClick={() => setExpandedDebtIndex(isDebtExpanded ? null : idx)}
+                    className="w-full flex items-center justify-center gap-1 text-[11px] text-gray-500 dark:text-gray-400 py-2 border-t border-gray-50 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  >
+                    لماذا هذا المبلغ؟
+                    {isDebtExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                  </button>
+                  {isDebtExpanded && (
+                    <div className="px-4 pb-3 space-y-1.5 text-xs bg-gray-50/50 dark:bg-gray-900/30">
+                      {debt.explanation.direct.map(share => (
+                        <div key={`d-${share.expenseId}`} className="flex justify-between pt-1.5">
+                          <span className="text-gray-600 dark:text-gray-300">{share.description}</span>
+                          <span className="font-medium dark:text-white">{share.amount}</span>
+                        </div>
+                      ))}
+                      {debt.explanation.indirect.map(share => (
+                        <div key={`i-${share.expenseId}`} className="flex justify-between pt-1.5">
+                          <span className="text-gray-500 dark:text-gray-400">
+                            {share.description} · دفعها {getUserName(share.payerId) || 'عضو'}
+                          </span>
+                          <span className="font-medium dark:text-white">{share.amount}</span>
+                        </div>
+                      ))}
+                      {debt.explanation.indirect.length > 0 && (
+                        <p className="text-[10px] text-gray-400 pt-1">
+                          تم دمج بعض الديون لتقليل عدد التحويلات
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+              </div>
             );})
           )}
         </div>
@@ -318,7 +426,7 @@ const SettlementsPage: React.FC = () => {
                     
                     {/* Expanded Content */}
                     <div 
-                        className={`bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-700 transition-all duration-500 ease-in-out ${isExpanded ? 'max-h-64 opacity-100' : 'max-h-0 opacity-0'}`}
+                        className={`bg-gray-50 dark:bg-gray-900 border-t border-gray-100 dark:border-gray-700 transition-all duration-500 ease-in-out ${isExpanded ? 'max-h-80 opacity-100' : 'max-h-0 opacity-0'}`}
                     >
                         <div className="p-4">
                             <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm p-4 relative overflow-hidden">
@@ -340,7 +448,7 @@ const SettlementsPage: React.FC = () => {
                                                 <ArrowLeft size={12} className="text-gray-400" />
                                              </div>
                                         </div>
-                                        <span className="text-xs font-bold text-primary dir-ltr">{pay.amount} ج.م</span>
+                                        <span className="text-xs font-bold text-primary dir-ltr">{pay.amount} {currencyLabel}</span>
                                     </div>
 
                                     {/* Receiver */}
@@ -367,6 +475,17 @@ const SettlementsPage: React.FC = () => {
                                         </span>
                                      </div>
                                 </div>
+
+                                {pay.from === currentUser?.id && (
+                                    <button
+                                        onClick={() => deletePayment(pay)}
+                                        disabled={deletingPaymentId !== null}
+                                        className="mt-3 w-full flex items-center justify-center gap-1.5 text-xs text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 py-2 rounded-lg disabled:opacity-50"
+                                    >
+                                        {deletingPaymentId === pay.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                                        حذف الدفعة
+                                    </button>
+                                )}
                             </div>
                         </div>
                     </div>
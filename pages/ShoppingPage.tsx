@@ -2,14 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { useApp } from '../App';
 import * as ShoppingService from '../services/ShoppingService';
 import * as HapticService from '../services/hapticService';
+import * as SyncService from '../services/syncService';
+import * as RealtimeService from '../services/RealtimeService';
 import { ShoppingItem } from '../types';
-import { Check, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Check, Plus, Trash2, Loader2, CloudOff } from 'lucide-react';
 import { getErrorMessage } from '../utils/errorHandler';
 import Skeleton from '../components/ui/Skeleton';
 import EmptyState from '../components/ui/EmptyState';
+import { useToast } from '../contexts/ToastContext';
+import { useRealtimeTable } from '../hooks/useRealtimeTable';
 
 const ShoppingPage: React.FC = () => {
   const { currentUser, group } = useApp();
+  const { showUndoToast } = useToast();
   const [items, setItems] = useState<ShoppingItem[]>([]);
   const [newItemText, setNewItemText] = useState('');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -17,23 +22,39 @@ const ShoppingPage: React.FC = () => {
   const [isAdding, setIsAdding] = useState(false);
   const [processingItemId, setProcessingItemId] = useState<string | null>(null);
 
-  useEffect(() => {
+  const loadItems = React.useCallback(async () => {
     if (!group?.id) return;
-    const loadItems = async () => {
-      setIsLoading(true);
-      setErrorMessage(null);
-      try {
-        const data = await ShoppingService.getShoppingList(group.id);
-        setItems(data);
-      } catch (error) {
-        setErrorMessage(getErrorMessage(error));
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    loadItems();
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const data = await ShoppingService.getShoppingList(group.id);
+      setItems(data);
+    } catch (error) {
+      setErrorMessage(getErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
   }, [group?.id]);
 
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  // Reload once offline additions have been pushed to the server
+  useEffect(() => {
+    return SyncService.subscribeToSyncStatus(status => {
+      if (status.phase === 'done' && status.lastResult?.success) {
+        void loadItems();
+      }
+    });
+  }, [loadItems]);
+
+  // Roommates' additions, ticks and removals show up without a refresh
+  useRealtimeTable<ShoppingItem>('shopping_items', group?.id, {
+    onChange: change => setItems(prev => RealtimeService.applyRealtimeChange(prev, change)),
+    onResync: loadItems
+  });
+
   const add = async () => {
     if(!newItemText.trim() || !currentUser || !group.id || isAdding) return;
     setIsAdding(true);
@@ -46,7 +67,8 @@ const ShoppingPage: React.FC = () => {
     };
     try {
       const created = await ShoppingService.addShoppingItem(newItem);
-      setItems(prev => [created, ...prev]);
+      // The realtime echo may have added it already
+      setItems(prev => [created, ...prev.filter(i => i.id !== created.id)]);
       setNewItemText('');
       HapticService.lightTap();
     } catch (error) {
@@ -75,6 +97,15 @@ const ShoppingPage: React.FC = () => {
     }
   };
 
+  const undoRemove = async (item: ShoppingItem) => {
+    try {
+      await ShoppingService.restoreShoppingItem(item.id);
+      setItems(prev => (prev.some(i => i.id === item.id) ? prev : [item, ...prev]));
+    } catch (error) {
+      setErrorMessage(getErrorMessage(error));
+    }
+  };
+
   const remove = async (id: string) => {
     if (processingItemId) return;
     setProcessingItemId(id);
@@ -82,6 +113,9 @@ const ShoppingPage: React.FC = () => {
     setItems(prev => prev.filter(i => i.id !== id));
     try {
       await ShoppingService.deleteShoppingItem(id);
+      if (itemToRemove) {
+        showUndoToast('تم حذف العنصر', () => undoRemove(itemToRemove));
+      }
     } catch (error) {
       setErrorMessage(getErrorMessage(error));
       // Revert on error
@@ -128,7 +162,7 @@ const ShoppingPage: React.FC = () => {
                     <div className="flex items-center gap-3">
                         <button 
                             onClick={() => toggle(item.id)}
-                            disabled={processingItemId !== null}
+                            disabled={processingItemId !== null || item.pendingSync}
                             className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-colors disabled:cursor-not-allowed ${
                                 item.completed ? 'bg-primary border-primary text-white' : 'border-gray-300 dark:border-gray-600'
                             }`}
@@ -138,10 +172,15 @@ const ShoppingPage: React.FC = () => {
                         <span className={`${item.completed ? 'line-through text-gray-400' : 'text-slate-800 dark:text-white font-medium'}`}>
                             {item.text}
                         </span>
+                        {item.pendingSync && (
+                          <span className="inline-flex items-center gap-1 text-[10px] text-amber-600 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 px-2 py-0.5 rounded-full">
+                            <CloudOff size={10} /> بانتظار المزامنة
+                          </span>
+                        )}
                     </div>
                     <button 
                         onClick={() => remove(item.id)} 
-                        disabled={processingItemId !== null}
+                        disabled={processingItemId !== null || item.pendingSync}
                         className="text-red-400 p-2 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-full disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <Trash2 size={18} />
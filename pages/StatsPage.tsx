@@ -7,16 +7,49 @@ import { TrendingUp, Users, Wallet, PieChart as PieIcon, Loader2, ArrowLeft } fr
 import { Link } from 'react-router-dom';
 import { useToast } from '../contexts/ToastContext';
 import { getErrorMessage } from '../utils/errorHandler';
+import { getCurrencyLabel } from '../utils/currencyUtils';
+import LedgerExportPanel from '../components/LedgerExportPanel';
+import StatementPanel from '../components/StatementPanel';
+import BudgetPanel from '../components/BudgetPanel';
+import InsightCards from '../components/InsightCards';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUCKET_OPTIONS: { value: StatsService.StatsBucket; label: string }[] = [
+  { value: 'month', label: 'شهري' },
+  { value: 'week', label: 'أسبوعي' },
+  { value: 'custom', label: 'مخصص' }
+];
+
+const daysAgoIso = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+const daysAgoInput = (days: number) => daysAgoIso(days).slice(0, 10);
 
 const COLORS = ['#059669', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
 
 const StatsPage: React.FC = () => {
   const { currentUser, group, users } = useApp();
+  const currencyLabel = getCurrencyLabel(group.baseCurrency);
   const { showToast } = useToast();
   const [groupStats, setGroupStats] = useState<GroupStats | null>(null);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'group' | 'personal'>('group');
+  const [bucket, setBucket] = useState<StatsService.StatsBucket>('month');
+  const [customFrom, setCustomFrom] = useState(() => daysAgoInput(30));
+  const [customTo, setCustomTo] = useState(() => daysAgoInput(0));
+  const [customDays, setCustomDays] = useState('7');
+
+  const query = React.useMemo<StatsService.StatsQuery>(() => {
+    if (bucket === 'month') return { bucket };
+    if (bucket === 'week') return { bucket, from: daysAgoIso(12 * 7) };
+    // Date inputs are whole days, so the end is the start of the day after
+    return {
+      bucket,
+      from: new Date(customFrom).toISOString(),
+      to: new Date(new Date(customTo).getTime() + DAY_MS).toISOString(),
+      bucketDays: parseInt(customDays, 10)
+    };
+  }, [bucket, customFrom, customTo, customDays]);
 
   const loadStats = React.useCallback(async () => {
     if (!currentUser || !group.id) return;
@@ -24,8 +57,8 @@ const StatsPage: React.FC = () => {
     
     try {
       const [gStats, uStats] = await Promise.all([
-        StatsService.getGroupStats(group.id),
-        StatsService.getUserStats(currentUser.id, group.id)
+        StatsService.getGroupStats(group.id, query),
+        StatsService.getUserStats(currentUser.id, group.id, query)
       ]);
       
       setGroupStats(gStats);
@@ -35,7 +68,7 @@ const StatsPage: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [currentUser, group.id, showToast]);
+  }, [currentUser, group.id, query, showToast]);
 
   useEffect(() => {
     loadStats();
@@ -53,7 +86,8 @@ const StatsPage: React.FC = () => {
 
   const getUserName = (id: string) => users.find(u => u.id === id)?.name || 'غير معروف';
 
-  if (isLoading) {
+  // Keep the page (and the range controls) mounted while a new range loads
+  if (isLoading && !groupStats) {
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="animate-spin text-primary" size={32} />
@@ -97,24 +131,83 @@ const StatsPage: React.FC = () => {
         </button>
       </div>
 
+      {/* Range */}
+      <div className="mb-6 space-y-3">
+        <div className="flex gap-2">
+          {BUCKET_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setBucket(option.value)}
+              className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                bucket === option.value
+                  ? 'bg-primary text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {bucket === 'custom' && (
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              من
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo}
+                onChange={e => setCustomFrom(e.target.value)}
+                className="mt-1 w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              إلى
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom}
+                onChange={e => setCustomTo(e.target.value)}
+                className="mt-1 w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+            <label className="text-xs text-gray-500 dark:text-gray-400">
+              كل (يوم)
+              <input
+                type="number"
+                min={1}
+                value={customDays}
+                onChange={e => setCustomDays(e.target.value)}
+                className="mt-1 w-full border dark:border-gray-600 rounded-lg p-2 text-sm bg-white dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
       {activeTab === 'group' && groupStats && (
         <div className="space-y-6">
           {/* Summary Cards */}
           <div className="grid grid-cols-2 gap-4">
             <div className="bg-gradient-to-br from-primary to-emerald-600 rounded-xl p-4 text-white">
               <Wallet size={24} className="opacity-80 mb-2" />
-              <p className="text-emerald-100 text-xs">إجمالي المصروفات</p>
+              <p className="text-emerald-100 text-xs">مصروفات الفترة</p>
               <p className="text-2xl font-bold">{groupStats.totalExpenses.toLocaleString()}</p>
-              <p className="text-xs text-emerald-100">ج.م</p>
+              <p className="text-xs text-emerald-100">{currencyLabel} • {groupStats.expenseCount} مصروف</p>
             </div>
             <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-4 text-white">
               <TrendingUp size={24} className="opacity-80 mb-2" />
               <p className="text-blue-100 text-xs">هذا الشهر</p>
               <p className="text-2xl font-bold">{groupStats.monthlyTotal.toLocaleString()}</p>
-              <p className="text-xs text-blue-100">ج.م</p>
+              <p className="text-xs text-blue-100">{currencyLabel}</p>
             </div>
           </div>
 
+          {/* Insights */}
+          <InsightCards groupId={group.id} currency={group.baseCurrency} currencyLabel={currencyLabel} />
+
+          {/* Budgets */}
+          <BudgetPanel groupId={group.id} currency={group.baseCurrency} currencyLabel={currencyLabel} />
+
           {/* Highest Spender */}
           {groupStats.highestSpender.userId && (
             <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
@@ -125,7 +218,7 @@ const StatsPage: React.FC = () => {
                 <div>
                   <p className="text-gray-500 dark:text-gray-400 text-sm">أكثر المنفقين</p>
                   <p className="font-bold text-gray-900 dark:text-white">{getUserName(groupStats.highestSpender.userId)}</p>
-                  <p className="text-primary font-medium">{groupStats.highestSpender.amount.toLocaleString()} ج.م</p>
+                  <p className="text-primary font-medium">{groupStats.highestSpender.amount.toLocaleString()} {currencyLabel}</p>
                 </div>
               </div>
             </div>
@@ -133,15 +226,15 @@ const StatsPage: React.FC = () => {
 
           {/* Monthly Trend Chart */}
           <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
-            <h3 className="font-bold text-gray-900 dark:text-white mb-4">الاتجاه الشهري</h3>
+            <h3 className="font-bold text-gray-900 dark:text-white mb-4">الاتجاه خلال الفترة</h3>
             <div style={{ width: '100%', height: 200 }} dir="ltr">
               <ResponsiveContainer>
-                <LineChart data={groupStats.monthlyTrend}>
-                  <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#9ca3af', fontSize: 12 }} />
+                <LineChart data={groupStats.trend}>
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#9ca3af', fontSize: 12 }} />
                   <YAxis hide />
                   <Tooltip 
                     contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                    formatter={(value: number) => [`${value} ج.م`, 'المصروفات']}
+                    formatter={(value: number) => [`${value} ${currencyLabel}`, 'المصروفات']}
                   />
                   <Line type="monotone" dataKey="amount" stroke="#059669" strokeWidth={3} dot={{ fill: '#059669', strokeWidth: 2 }} />
                 </LineChart>
@@ -169,7 +262,7 @@ const StatsPage: React.FC = () => {
                     ))}
                   </Pie>
                   <Tooltip 
-                    formatter={(value: number, name: string) => [`${value} ج.م`, translateCategory(name)]}
+                    formatter={(value: number, name: string) => [`${value} ${currencyLabel}`, translateCategory(name)]}
                   />
                 </PieChart>
               </ResponsiveContainer>
@@ -199,7 +292,10 @@ const StatsPage: React.FC = () => {
                   <div className="flex-1">
                     <div className="flex justify-between mb-1">
                       <span className="text-sm font-medium text-gray-900 dark:text-white">{getUserName(member.userId)}</span>
-                      <span className="text-sm text-gray-500 dark:text-gray-400">{member.amount.toLocaleString()} ج.م</span>
+                      <span className="text-sm text-gray-500 dark:text-gray-400">
+                        {member.amount.toLocaleString()} {currencyLabel}
+                        <span className="text-xs text-gray-400"> • نصيبه {member.share.toLocaleString()}</span>
+                      </span>
                     </div>
                     <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                       <div 
@@ -222,38 +318,38 @@ const StatsPage: React.FC = () => {
             <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
               <p className="text-gray-500 dark:text-gray-400 text-xs mb-1">دفعت</p>
               <p className="text-2xl font-bold text-gray-900 dark:text-white">{userStats.totalPaid.toLocaleString()}</p>
-              <p className="text-xs text-gray-400">ج.م</p>
+              <p className="text-xs text-gray-400">{currencyLabel}</p>
             </div>
             <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
               <p className="text-gray-500 dark:text-gray-400 text-xs mb-1">لك عند الآخرين</p>
               <p className="text-2xl font-bold text-green-600">{userStats.totalOwed.toLocaleString()}</p>
-              <p className="text-xs text-gray-400">ج.م</p>
+              <p className="text-xs text-gray-400">{currencyLabel}</p>
             </div>
             <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
               <p className="text-gray-500 dark:text-gray-400 text-xs mb-1">عليك للآخرين</p>
               <p className="text-2xl font-bold text-red-500">{userStats.totalOwing.toLocaleString()}</p>
-              <p className="text-xs text-gray-400">ج.م</p>
+              <p className="text-xs text-gray-400">{currencyLabel}</p>
             </div>
             <div className={`rounded-xl p-4 border ${userStats.balance >= 0 ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'}`}>
               <p className="text-gray-500 dark:text-gray-400 text-xs mb-1">الرصيد</p>
               <p className={`text-2xl font-bold ${userStats.balance >= 0 ? 'text-green-600' : 'text-red-500'}`}>
                 {userStats.balance >= 0 ? '+' : ''}{userStats.balance.toLocaleString()}
               </p>
-              <p className="text-xs text-gray-400">ج.م</p>
+              <p className="text-xs text-gray-400">{currencyLabel}</p>
             </div>
           </div>
 
           {/* Personal Monthly Expenses */}
           <div className="bg-white dark:bg-gray-800 rounded-xl p-4 border border-gray-100 dark:border-gray-700">
-            <h3 className="font-bold text-gray-900 dark:text-white mb-4">مصروفاتي الشهرية</h3>
+            <h3 className="font-bold text-gray-900 dark:text-white mb-4">نصيبي من المصروفات</h3>
             <div style={{ width: '100%', height: 200 }} dir="ltr">
               <ResponsiveContainer>
-                <BarChart data={userStats.monthlyExpenses}>
-                  <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#9ca3af', fontSize: 12 }} />
+                <BarChart data={userStats.trend}>
+                  <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#9ca3af', fontSize: 12 }} />
                   <YAxis hide />
                   <Tooltip 
                     contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-                    formatter={(value: number) => [`${value} ج.م`, 'المصروفات']}
+                    formatter={(value: number) => [`${value} ${currencyLabel}`, 'المصروفات']}
                   />
                   <Bar dataKey="amount" fill="#059669" radius={[4, 4, 0, 0]} />
                 </BarChart>
@@ -272,7 +368,7 @@ const StatsPage: React.FC = () => {
                       <div className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
                       <span className="text-gray-700 dark:text-gray-300">{translateCategory(cat.category)}</span>
                     </div>
-                    <span className="font-medium text-gray-900 dark:text-white">{cat.amount.toLocaleString()} ج.م</span>
+                    <span className="font-medium text-gray-900 dark:text-white">{cat.amount.toLocaleString()} {currencyLabel}</span>
                   </div>
                 ))}
               </div>
@@ -282,6 +378,17 @@ const StatsPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      <div className="mt-6 space-y-4">
+        {currentUser && (
+          <StatementPanel
+            groupId={group.id}
+            members={users.filter(u => group.members.includes(u.id))}
+            currentUserId={currentUser.id}
+          />
+        )}
+        <LedgerExportPanel groupId={group.id} members={users.filter(u => group.members.includes(u.id))} />
+      </div>
     </div>
   );
 };
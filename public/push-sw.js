@@ -0,0 +1,64 @@
+// =============================================================================
+// 🔔 Web Push handlers
+// =============================================================================
+// Loaded into the Workbox service worker through `importScripts` (see
+// vite.config.ts). Shows pushes sent by PushService's senders and opens the
+// notification's actionUrl when it's tapped. The app uses a HashRouter, so
+// "/bills" becomes "/#/bills"; the notification's group goes along as
+// "?group=<id>" so the route opens inside that group.
+// =============================================================================
+
+const DEFAULT_TITLE = 'شقتنا';
+const ICON = '/manifest-icon-192.png';
+const BADGE = '/manifest-icon-192.maskable.png';
+
+const toAppUrl = (route, groupId) => {
+  const path = route && route.startsWith('/') ? route : '/';
+  const url = new URL(`/#${path}`, self.location.origin);
+  if (groupId) url.searchParams.set('group', groupId);
+  return url.href;
+};
+
+self.addEventListener('push', event => {
+  let payload = {};
+  if (event.data) {
+    try {
+      payload = event.data.json();
+    } catch {
+      payload = { body: event.data.text() };
+    }
+  }
+
+  const show = self.registration.showNotification(payload.title || DEFAULT_TITLE, {
+    body: payload.body || '',
+    icon: ICON,
+    badge: BADGE,
+    tag: payload.tag,
+    dir: 'rtl',
+    lang: 'ar',
+    data: { url: payload.url || '/', notificationId: payload.notificationId, groupId: payload.groupId }
+  });
+
+  // Open tabs refresh their unread badge straight away instead of on the next poll
+  const notifyClients = self.clients
+    .matchAll({ type: 'window', includeUncontrolled: true })
+    .then(clients => clients.forEach(client => client.postMessage({ type: 'PUSH_RECEIVED', payload })));
+
+  event.waitUntil(Promise.all([show, notifyClients]));
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  const route = data.url || '/';
+
+  // An open tab moves to the route itself, so it keeps its state and doesn't reload
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(candidate => new URL(candidate.url).origin === self.location.origin);
+      if (!client) return self.clients.openWindow(toAppUrl(route, data.groupId));
+      client.postMessage({ type: 'OPEN_ROUTE', route, groupId: data.groupId });
+      return client.focus();
+    })
+  );
+});
@@ -0,0 +1,103 @@
+import { supabase } from './supabaseClient';
+import { ActivityCursor, ActivityDetails, ActivityEntry, ActivityTargetType, PaginatedResult } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+
+// ============================================================
+// ACTIVITY FEED
+// ============================================================
+// Read side of activity_log. Entries are written by database
+// triggers (migration 012), never from the app, so the feed can't
+// be edited by the people it's about.
+// ============================================================
+
+export interface ActivityFilter {
+  targetType?: ActivityTargetType;
+  /** Only entries by this member */
+  userId?: string;
+  /** History of a single expense, payment or bill */
+  targetId?: string;
+  /** Only edits (actions ending in _updated) */
+  editsOnly?: boolean;
+}
+
+export interface GetActivityParams extends ActivityFilter {
+  limit?: number;
+  cursor?: ActivityCursor | null;
+}
+
+interface ActivityRow {
+  id: string;
+  group_id: string;
+  user_id: string;
+  action: string;
+  target_type: ActivityTargetType;
+  target_id: string | null;
+  details: ActivityDetails | null;
+  created_at: string;
+}
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+const mapActivityRow = (row: ActivityRow): ActivityEntry => ({
+  id: row.id,
+  groupId: row.group_id,
+  userId: row.user_id,
+  action: row.action,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  details: row.details || {},
+  createdAt: row.created_at
+});
+
+/** Newest first, paged with a (created_at, id) cursor like getExpenses */
+export const getActivity = async (
+  groupId: string,
+  params: GetActivityParams = {}
+): Promise<PaginatedResult<ActivityEntry, ActivityCursor>> => {
+  try {
+    const limit = Math.min(Math.max(params.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let query = supabase
+      .from('activity_log')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
+
+    if (params.targetType) {
+      query = query.eq('target_type', params.targetType);
+    }
+    if (params.userId) {
+      query = query.eq('user_id', params.userId);
+    }
+    if (params.targetId) {
+      query = query.eq('target_id', params.targetId);
+    }
+    if (params.editsOnly) {
+      query = query.like('action', '%\\_updated');
+    }
+    if (params.cursor) {
+      query = query.or(
+        `created_at.lt.${params.cursor.createdAt},and(created_at.eq.${params.cursor.createdAt},id.lt.${params.cursor.id})`
+      );
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data || []) as ActivityRow[];
+    const hasMore = rows.length > limit;
+    const items = (hasMore ? rows.slice(0, limit) : rows).map(mapActivityRow);
+    const lastItem = items[items.length - 1];
+
+    return {
+      items,
+      hasMore,
+      nextCursor: hasMore && lastItem ? { id: lastItem.id, createdAt: lastItem.createdAt } : null
+    };
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل سجل النشاط');
+  }
+};
@@ -1,6 +1,60 @@
 import { supabase } from './supabaseClient';
-import { Bill } from '../types';
+import { Bill, BillPayment, ExpenseWithSplits, NotificationType } from '../types';
 import { createServiceError } from '../utils/errorHandler';
+import { formatCurrency } from '../utils/currencyUtils';
+import * as ExpenseService from './ExpenseService';
+import * as LedgerService from './LedgerService';
+import * as OfflineService from './offlineService';
+import * as NotificationService from './NotificationService';
+
+export interface PayBillInput {
+  bill: Bill;
+  payerId: string;
+  participants: string[];
+  /** Actual amount on this cycle's bill; defaults to the bill amount */
+  amount?: number;
+}
+
+export interface PayBillResult {
+  bill: Bill;
+  expense: ExpenseWithSplits;
+  payment: BillPayment;
+}
+
+interface BillPaymentRow {
+  id: string;
+  bill_id: string;
+  group_id: string;
+  payer_id: string;
+  expense_id: string | null;
+  amount: number | string;
+  period_due_date: string;
+  paid_at: string;
+}
+
+export interface BillReminderResult {
+  overdue: number;
+  reminders: number;
+}
+
+// Postgres unique_violation on (bill_id, period_due_date)
+const DUPLICATE_CYCLE_CODE = '23505';
+
+// A failed payment whose undo failed too leaves these behind
+const UNDO_EXPENSE_FAILED = 'تعذر دفع الفاتورة وبقي مصروفها مسجلاً، احذفه من المصروفات ثم أعد المحاولة';
+const UNDO_CLAIM_FAILED = 'تعذر دفع الفاتورة وبقيت هذه الدورة مسجلة كمدفوعة، حدّث الصفحة وتحقق من سجل الفاتورة';
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+const DEFAULT_REMINDER_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_MONTHS: Record<NonNullable<Bill['recurringPeriod']>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
 
 const withId = (bill: Omit<Bill, 'id'>): Bill => ({
   id: 'b' + Date.now(),
@@ -9,13 +63,25 @@ const withId = (bill: Omit<Bill, 'id'>): Bill => ({
 
 export const getBills = async (groupId: string): Promise<Bill[]> => {
   try {
+    if (!OfflineService.isOnline()) {
+      const cached = (await OfflineService.getCachedBills(groupId)) as Bill[];
+      return [...cached].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    }
+
     const { data, error } = await supabase
       .from('bills')
       .select('*')
       .eq('groupId', groupId)
       .order('dueDate', { ascending: true });
     if (error) throw error;
-    return (data || []) as Bill[];
+
+    const bills = (data || []) as Bill[];
+    try {
+      await OfflineService.cacheBills(groupId, bills);
+    } catch {
+      // Cache is best-effort
+    }
+    return bills;
   } catch (error) {
     throw createServiceError(error, 'فشل تحميل الفواتير');
   }
@@ -42,16 +108,143 @@ export const updateBill = async (id: string, updates: Partial<Bill>): Promise<bo
   }
 };
 
-export const markBillAsPaid = async (id: string): Promise<boolean> => {
+const mapBillPaymentRow = (row: BillPaymentRow): BillPayment => ({
+  id: row.id,
+  billId: row.bill_id,
+  groupId: row.group_id,
+  payerId: row.payer_id,
+  expenseId: row.expense_id,
+  amount: Number(row.amount),
+  periodDueDate: row.period_due_date,
+  paidAt: row.paid_at
+});
+
+/**
+ * Next due date for a recurring bill. Days past the end of the target month
+ * are clamped, and a bill due on the last day of a month stays on month-end
+ * (Jan 31 -> Feb 28 -> Mar 31).
+ */
+export const getNextDueDate = (dueDate: string, period: NonNullable<Bill['recurringPeriod']>): string => {
+  const current = new Date(dueDate);
+  const day = current.getDate();
+  const isMonthEnd = new Date(current.getFullYear(), current.getMonth() + 1, 0).getDate() === day;
+
+  const next = new Date(current);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + PERIOD_MONTHS[period]);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(isMonthEnd ? lastDay : Math.min(day, lastDay));
+  return next.toISOString();
+};
+
+const describeBillCycle = (bill: Bill) =>
+  `${bill.name} - ${new Date(bill.dueDate).toLocaleDateString('ar-EG', { month: 'long', year: 'numeric' })}`;
+
+/**
+ * Pays the current cycle of a bill: records who paid in bill_payments,
+ * books the amount as a group expense and rolls a recurring bill forward
+ * to its next due date (one-off bills are marked paid).
+ */
+export const payBill = async ({ bill, payerId, participants, amount }: PayBillInput): Promise<PayBillResult> => {
+  const paidAt = new Date().toISOString();
+  const paymentId = 'bp' + Date.now();
+  const paidAmount = amount ?? bill.amount;
+
+  // Any step after the claim failing puts the cycle back as it was,
+  // otherwise the claim blocks every retry while the bill never rolls.
+  // Nobody has been notified about the expense yet, so it can go for good.
+  // An undo that fails is reported instead, since something is left over.
+  const undoPayment = async (expenseId?: string) => {
+    if (expenseId) {
+      const { error } = await supabase.from('expenses').delete().eq('id', expenseId);
+      if (error) throw new Error(UNDO_EXPENSE_FAILED);
+    }
+    const { error } = await supabase.from('bill_payments').delete().eq('id', paymentId);
+    if (error) throw new Error(UNDO_CLAIM_FAILED);
+  };
+
   try {
-    const { error } = await supabase
-      .from('bills')
-      .update({ status: 'paid', lastPaid: new Date().toISOString() })
-      .eq('id', id);
+    // Claim the cycle first so two members can't pay the same bill twice
+    const { error: claimError } = await supabase.from('bill_payments').insert({
+      id: paymentId,
+      bill_id: bill.id,
+      group_id: bill.groupId,
+      payer_id: payerId,
+      amount: paidAmount,
+      period_due_date: bill.dueDate,
+      paid_at: paidAt
+    });
+    if (claimError) {
+      if (claimError.code === DUPLICATE_CYCLE_CODE) {
+        throw new Error('تم دفع هذه الفاتورة لهذه الدورة بالفعل');
+      }
+      throw claimError;
+    }
+
+    let expense: ExpenseWithSplits;
+    try {
+      expense = await ExpenseService.addExpense({
+        groupId: bill.groupId,
+        payerId,
+        amount: paidAmount,
+        description: describeBillCycle(bill),
+        category: bill.category,
+        participants,
+        date: paidAt,
+        notify: false
+      });
+    } catch (error) {
+      await undoPayment();
+      throw error;
+    }
+
+    try {
+      const { data: paymentRow, error: linkError } = await supabase
+        .from('bill_payments')
+        .update({ expense_id: expense.id })
+        .eq('id', paymentId)
+        .select('*')
+        .single();
+      if (linkError) throw linkError;
+
+      const billUpdates: Partial<Bill> = bill.recurring && bill.recurringPeriod
+        ? { status: 'pending', lastPaid: paidAt, dueDate: getNextDueDate(bill.dueDate, bill.recurringPeriod) }
+        : { status: 'paid', lastPaid: paidAt };
+
+      const { data: billRow, error: billError } = await supabase
+        .from('bills')
+        .update(billUpdates)
+        .eq('id', bill.id)
+        .select('*')
+        .single();
+      if (billError) throw billError;
+
+      await ExpenseService.notifyExpenseAdded(expense);
+      return {
+        bill: billRow as Bill,
+        expense,
+        payment: mapBillPaymentRow(paymentRow as BillPaymentRow)
+      };
+    } catch (error) {
+      await undoPayment(expense.id);
+      throw error;
+    }
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تسجيل دفع الفاتورة');
+  }
+};
+
+export const getBillPayments = async (billId: string): Promise<BillPayment[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('bill_payments')
+      .select('*')
+      .eq('bill_id', billId)
+      .order('paid_at', { ascending: false });
     if (error) throw error;
-    return true;
+    return ((data || []) as BillPaymentRow[]).map(mapBillPaymentRow);
   } catch (error) {
-    throw createServiceError(error, 'تعذر تحديث حالة الفاتورة');
+    throw createServiceError(error, 'تعذر تحميل سجل دفع الفاتورة');
   }
 };
 
@@ -74,3 +267,61 @@ export const getUpcomingBills = async (groupId: string, days = 7): Promise<Bill[
     throw createServiceError(error, 'تعذر تحميل الفواتير القادمة');
   }
 };
+
+// Bills are kept in the group's base currency
+const buildBillReminderMessage = (bill: Bill, now: number, baseCurrency: string) =>
+  new Date(bill.dueDate).getTime() < now
+    ? `فاتورة ${bill.name} متأخرة عن موعدها (${formatCurrency(bill.amount, baseCurrency)})`
+    : `موعد فاتورة ${bill.name} يوم ${bill.dueDate.slice(0, 10)} (${formatCurrency(bill.amount, baseCurrency)})`;
+
+// Same rules as process_bill_reminders, for databases without the function
+const processBillRemindersLocally = async (groupId: string): Promise<BillReminderResult> => {
+  const now = Date.now();
+  const [bills, baseCurrency] = await Promise.all([getBills(groupId), LedgerService.getGroupBaseCurrency(groupId)]);
+  const result: BillReminderResult = { overdue: 0, reminders: 0 };
+
+  for (const bill of bills) {
+    const dueTime = new Date(bill.dueDate).getTime();
+
+    if (bill.status === 'pending' && dueTime < now) {
+      await updateBill(bill.id, { status: 'overdue' });
+      result.overdue += 1;
+    }
+
+    const remindFrom = dueTime - (bill.reminderDays ?? DEFAULT_REMINDER_DAYS) * DAY_MS;
+    if (!bill.reminder || bill.status === 'paid' || remindFrom > now) continue;
+
+    const { error } = await supabase
+      .from('bill_reminders')
+      .insert({ bill_id: bill.id, period_due_date: bill.dueDate, kind: 'reminder' });
+    if (error) {
+      if (error.code === DUPLICATE_CYCLE_CODE) continue;
+      throw error;
+    }
+
+    await NotificationService.addNotification(groupId, buildBillReminderMessage(bill, now, baseCurrency), NotificationType.BILL_DUE, {
+      data: { billId: bill.id, dueDate: bill.dueDate },
+      actionUrl: '/bills'
+    });
+    result.reminders += 1;
+  }
+
+  return result;
+};
+
+/**
+ * Marks overdue bills and sends due reminders for one group. The database
+ * job normally does this on a schedule; the app also runs it on start-up
+ * so reminders still go out where the scheduler isn't set up.
+ */
+export const processBillReminders = async (groupId: string): Promise<BillReminderResult> => {
+  try {
+    const { data, error } = await supabase.rpc('process_bill_reminders', { p_group_id: groupId });
+    if (!error) return data as BillReminderResult;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw error;
+
+    return await processBillRemindersLocally(groupId);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر معالجة تذكيرات الفواتير');
+  }
+};
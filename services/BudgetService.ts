@@ -0,0 +1,259 @@
+import { supabase } from './supabaseClient';
+import { BudgetProgress, CategoryBudget, ExpenseCategory, NotificationType } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, formatCurrency, roundCurrency } from '../utils/currencyUtils';
+import { translateCategory } from '../utils/categoryUtils';
+import * as NotificationService from './NotificationService';
+
+// ============================================================
+// CATEGORY BUDGETS
+// ============================================================
+// Monthly spending targets per category (migration 014). After
+// an expense is added, check_budget_alerts notifies the group the
+// first time the category reaches 80% and then 100% of its budget
+// that month; budget_alerts keeps each alert to once per month.
+// The local version below follows the same rules for databases
+// without the function. Months are UTC, like the stats.
+// ============================================================
+
+/** Percentages of the budget that send an alert, lowest first */
+export const BUDGET_ALERT_THRESHOLDS = [80, 100] as const;
+
+interface BudgetRow {
+  id: string;
+  group_id: string;
+  category: ExpenseCategory;
+  amount: number | string;
+  updated_at?: string | null;
+}
+
+interface SpendingRow {
+  category: string;
+  amount: number | string;
+  exchangeRate?: number | string | null;
+}
+
+const DUPLICATE_ALERT_CODE = '23505';
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+const toNumber = (value: number | string | null | undefined): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return 0;
+};
+
+const mapBudgetRow = (row: BudgetRow): CategoryBudget => ({
+  id: row.id,
+  groupId: row.group_id,
+  category: row.category,
+  amount: toNumber(row.amount),
+  updatedAt: row.updated_at || undefined
+});
+
+const monthRange = (date: Date) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  return { start, end };
+};
+
+// Base-currency spending per category for the month containing `date`
+const fetchMonthSpending = async (
+  groupId: string,
+  date: Date,
+  categories?: string[]
+): Promise<Map<string, number>> => {
+  const { start, end } = monthRange(date);
+  let query = supabase
+    .from('expenses')
+    .select('category, amount, "exchangeRate"')
+    .eq('groupId', groupId)
+    .is('deleted_at', null)
+    .gte('date', start.toISOString())
+    .lt('date', end.toISOString());
+  if (categories) query = query.in('category', categories);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const totals = new Map<string, number>();
+  ((data || []) as SpendingRow[]).forEach(row => {
+    const rate = row.exchangeRate == null ? 1 : toNumber(row.exchangeRate);
+    totals.set(row.category, (totals.get(row.category) || 0) + toNumber(row.amount) * rate);
+  });
+  return totals;
+};
+
+const fetchBaseCurrency = async (groupId: string): Promise<string> => {
+  const { data, error } = await supabase.from('groups').select('"baseCurrency"').eq('id', groupId).maybeSingle();
+  if (error) throw error;
+  return (data as { baseCurrency?: string | null } | null)?.baseCurrency || DEFAULT_CURRENCY;
+};
+
+export const getBudgets = async (groupId: string): Promise<CategoryBudget[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('category_budgets')
+      .select('id, group_id, category, amount, updated_at')
+      .eq('group_id', groupId)
+      .order('category', { ascending: true });
+    if (error) throw error;
+    return ((data || []) as BudgetRow[]).map(mapBudgetRow);
+  } catch (error) {
+    throw createServiceError(error, 'فشل تحميل الميزانيات');
+  }
+};
+
+/**
+ * Creates or changes the monthly budget of a category. This month's
+ * alerts are cleared so a raised budget can warn again.
+ */
+export const setBudget = async (
+  groupId: string,
+  category: ExpenseCategory,
+  amount: number
+): Promise<CategoryBudget> => {
+  try {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('قيمة الميزانية يجب أن تكون أكبر من صفر');
+    }
+
+    const { data, error } = await supabase
+      .from('category_budgets')
+      .upsert({ group_id: groupId, category, amount }, { onConflict: 'group_id,category' })
+      .select('id, group_id, category, amount, updated_at')
+      .single();
+    if (error) throw error;
+
+    const budget = mapBudgetRow(data as BudgetRow);
+    const { start } = monthRange(new Date());
+    const { error: resetError } = await supabase
+      .from('budget_alerts')
+      .delete()
+      .eq('budget_id', budget.id)
+      .eq('period_start', start.toISOString().slice(0, 10));
+    if (resetError) throw resetError;
+
+    return budget;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر حفظ الميزانية');
+  }
+};
+
+export const deleteBudget = async (budgetId: string): Promise<void> => {
+  try {
+    const { error } = await supabase.from('category_budgets').delete().eq('id', budgetId);
+    if (error) throw error;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر حذف الميزانية');
+  }
+};
+
+/** Each budget with this month's spending, most used first */
+export const getBudgetProgress = async (groupId: string, date: Date = new Date()): Promise<BudgetProgress[]> => {
+  try {
+    const [budgets, baseCurrency] = await Promise.all([getBudgets(groupId), fetchBaseCurrency(groupId)]);
+    if (budgets.length === 0) return [];
+
+    const spending = await fetchMonthSpending(groupId, date, budgets.map(budget => budget.category));
+    return budgets
+      .map(budget => {
+        const spent = roundCurrency(spending.get(budget.category) || 0, baseCurrency);
+        return { budget, spent, percentage: (spent / budget.amount) * 100 };
+      })
+      .sort((a, b) => b.percentage - a.percentage);
+  } catch (error) {
+    throw createServiceError(error, 'فشل تحميل الميزانيات');
+  }
+};
+
+const buildBudgetAlertMessage = (
+  category: string,
+  threshold: number,
+  spent: number,
+  budget: number,
+  currency: string
+) => {
+  const label = translateCategory(category);
+  const figures = `(${formatCurrency(spent, currency)} من ${formatCurrency(budget, currency)})`;
+  return threshold >= 100
+    ? `تجاوزت مصروفات ${label} ميزانية الشهر ${figures}`
+    : `مصروفات ${label} وصلت ${threshold}% من ميزانية الشهر ${figures}`;
+};
+
+// Same rules as check_budget_alerts, for databases without it
+const checkBudgetAlertsLocally = async (groupId: string, category: string, date: Date): Promise<number> => {
+  const { data, error } = await supabase
+    .from('category_budgets')
+    .select('id, group_id, category, amount, updated_at')
+    .eq('group_id', groupId)
+    .eq('category', category)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return 0;
+
+  const budget = mapBudgetRow(data as BudgetRow);
+  const [spending, baseCurrency] = await Promise.all([
+    fetchMonthSpending(groupId, date, [category]),
+    fetchBaseCurrency(groupId)
+  ]);
+  const spent = roundCurrency(spending.get(category) || 0, baseCurrency);
+  const periodStart = monthRange(date).start.toISOString().slice(0, 10);
+
+  // Claim each reached threshold; a duplicate means it went out before
+  const claimed: number[] = [];
+  for (const threshold of BUDGET_ALERT_THRESHOLDS) {
+    if (spent < (budget.amount * threshold) / 100) continue;
+    const { error: claimError } = await supabase
+      .from('budget_alerts')
+      .insert({ budget_id: budget.id, period_start: periodStart, threshold });
+    if (claimError) {
+      if (claimError.code === DUPLICATE_ALERT_CODE) continue;
+      throw claimError;
+    }
+    claimed.push(threshold);
+  }
+  if (claimed.length === 0) return 0;
+
+  // Crossing both at once only sends the 100% alert
+  const threshold = Math.max(...claimed);
+  await NotificationService.addNotification(
+    groupId,
+    buildBudgetAlertMessage(category, threshold, spent, budget.amount, baseCurrency),
+    NotificationType.BUDGET_ALERT,
+    {
+      data: { budgetId: budget.id, category, threshold, spent, budget: budget.amount },
+      actionUrl: '/stats'
+    }
+  );
+  return 1;
+};
+
+/**
+ * Notifies the group if spending in `category` for the month of `date`
+ * has just reached one of BUDGET_ALERT_THRESHOLDS. Only the current
+ * (UTC) month alerts; back-dated expenses don't. Returns the number
+ * of alerts sent (0 or 1).
+ */
+export const checkBudgetAlerts = async (
+  groupId: string,
+  category: string,
+  date: string = new Date().toISOString()
+): Promise<number> => {
+  if (monthRange(new Date(date)).start.getTime() !== monthRange(new Date()).start.getTime()) return 0;
+
+  try {
+    const { data, error } = await supabase.rpc('check_budget_alerts', {
+      p_group_id: groupId,
+      p_category: category,
+      p_date: date
+    });
+    if (!error) return (data as { alerts: number }).alerts;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw error;
+
+    return await checkBudgetAlertsLocally(groupId, category, new Date(date));
+  } catch (error) {
+    throw createServiceError(error, 'تعذر التحقق من الميزانية');
+  }
+};
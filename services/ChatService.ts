@@ -1,6 +1,7 @@
 import { supabase } from './supabaseClient';
-import { ChatMessage, PaginatedResult } from '../types';
+import { ChatMessage, ChatPresenceMember, ChatReadReceipt, PaginatedResult } from '../types';
 import { createServiceError } from '../utils/errorHandler';
+import * as OfflineService from './offlineService';
 
 export interface GetChatMessagesParams {
   groupId: string;
@@ -13,6 +14,10 @@ export type ChatMessagesPage = PaginatedResult<ChatMessage, number | null>;
 const DEFAULT_LIMIT = 30;
 const MAX_LIMIT = 100;
 
+// PostgREST / Postgres codes for a table or function that isn't deployed yet
+const MISSING_TABLE_CODES = new Set(['PGRST205', '42P01']);
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
 export const getMessages = async ({
   groupId,
   limit = DEFAULT_LIMIT,
@@ -24,6 +29,14 @@ export const getMessages = async ({
 
   try {
     const normalizedLimit = Math.min(Math.max(limit, 1), MAX_LIMIT);
+
+    if (!OfflineService.isOnline()) {
+      if (cursor) return { items: [], hasMore: false, nextCursor: null };
+      // Offline the chat shows every message cached for the group
+      const cached = (await OfflineService.getCachedChatMessages(groupId)) as ChatMessage[];
+      return { items: [...cached].sort((a, b) => a.timestamp - b.timestamp), hasMore: false, nextCursor: null };
+    }
+
     let query = supabase
       .from('chat_messages')
       .select('*')
@@ -43,6 +56,11 @@ export const getMessages = async ({
     const trimmedDesc = hasMore ? rows.slice(0, normalizedLimit) : rows;
     const nextCursor = hasMore ? trimmedDesc[trimmedDesc.length - 1]?.timestamp ?? null : null;
     const sorted = [...trimmedDesc].sort((a, b) => a.timestamp - b.timestamp);
+    try {
+      await OfflineService.cacheChatMessages(groupId, sorted);
+    } catch {
+      // Cache is best-effort
+    }
 
     return {
       items: sorted as ChatMessage[],
@@ -61,6 +79,8 @@ export interface SendMessageInput {
   type?: ChatMessage['type'];
   id?: string;
   timestamp?: number;
+  /** Id of the message being replied to */
+  replyTo?: string;
 }
 
 export const sendMessage = async (input: SendMessageInput): Promise<ChatMessage> => {
@@ -71,7 +91,8 @@ export const sendMessage = async (input: SendMessageInput): Promise<ChatMessage>
       userId: input.userId,
       text: input.text,
       type: input.type ?? 'text',
-      timestamp: input.timestamp ?? Date.now()
+      timestamp: input.timestamp ?? Date.now(),
+      ...(input.replyTo ? { reply_to: input.replyTo } : {})
     };
 
     const { data, error } = await supabase.from('chat_messages').insert(payload).select('*').single();
@@ -82,16 +103,282 @@ export const sendMessage = async (input: SendMessageInput): Promise<ChatMessage>
   }
 };
 
-export const subscribeToMessages = (groupId: string, callback: (message: ChatMessage) => void) => {
-  return supabase
-    .channel(`chat:${groupId}`)
+// ============================================================
+// REACTIONS, EDIT & DELETE
+// ============================================================
+// Go through the functions in migration 019, which check the
+// author and the delete window. Before it's deployed the row is
+// updated directly.
+// ============================================================
+
+/** How long after sending a message can still be deleted for everyone */
+export const CHAT_DELETE_WINDOW_MINUTES = 15;
+
+/** Emoji offered in the reaction picker */
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+const CHAT_ERROR_MESSAGES: Record<string, string> = {
+  NOT_FOUND: 'الرسالة غير موجودة أو تم حذفها',
+  NOT_AUTHORIZED: 'يمكنك تعديل أو حذف رسائلك فقط',
+  NOT_GROUP_MEMBER: 'أنت لست عضواً في هذه المجموعة',
+  DELETE_WINDOW_PASSED: `يمكن حذف الرسالة للجميع خلال ${CHAT_DELETE_WINDOW_MINUTES} دقيقة من إرسالها فقط`,
+  EMPTY_MESSAGE: 'لا يمكن أن تكون الرسالة فارغة',
+  INVALID_REACTION: 'تفاعل غير صالح'
+};
+
+const toChatError = (error: { message?: string }) => {
+  const code = Object.keys(CHAT_ERROR_MESSAGES).find(key => (error.message || '').includes(key));
+  return code ? new Error(CHAT_ERROR_MESSAGES[code]) : error;
+};
+
+export const canEditMessage = (message: ChatMessage, userId: string): boolean =>
+  message.userId === userId && !message.deleted_at && (message.type ?? 'text') === 'text';
+
+export const canDeleteMessage = (message: ChatMessage, userId: string, now = Date.now()): boolean =>
+  message.userId === userId &&
+  !message.deleted_at &&
+  message.type !== 'system' &&
+  now - message.timestamp <= CHAT_DELETE_WINDOW_MINUTES * 60 * 1000;
+
+/** Adds the member's reaction, or takes it back if already there */
+export const toggleReaction = async (
+  message: ChatMessage,
+  userId: string,
+  emoji: string
+): Promise<Record<string, string[]>> => {
+  try {
+    const { data, error } = await supabase.rpc('toggle_chat_reaction', { p_message_id: message.id, p_emoji: emoji });
+    if (!error) return (data || {}) as Record<string, string[]>;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw toChatError(error);
+
+    // Without 019 two members reacting at once can overwrite each other
+    const reactions = { ...(message.reactions || {}) };
+    const users = reactions[emoji] || [];
+    const next = users.includes(userId) ? users.filter(id => id !== userId) : [...users, userId];
+    if (next.length > 0) {
+      reactions[emoji] = next;
+    } else {
+      delete reactions[emoji];
+    }
+
+    const { error: updateError } = await supabase.from('chat_messages').update({ reactions }).eq('id', message.id);
+    if (updateError) throw updateError;
+    return reactions;
+  } catch (error) {
+    throw createServiceError(error, 'إضافة التفاعل');
+  }
+};
+
+export const editMessage = async (messageId: string, text: string): Promise<ChatMessage> => {
+  try {
+    const { data, error } = await supabase.rpc('edit_chat_message', { p_message_id: messageId, p_text: text });
+    if (!error) return data as ChatMessage;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw toChatError(error);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('chat_messages')
+      .update({ text: text.trim(), edited_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .is('deleted_at', null)
+      .select('*')
+      .single();
+    if (updateError) throw updateError;
+    return updated as ChatMessage;
+  } catch (error) {
+    throw createServiceError(error, 'تعديل الرسالة');
+  }
+};
+
+/** Deletes for everyone: the message stays as a placeholder with no content */
+export const deleteMessage = async (messageId: string): Promise<ChatMessage> => {
+  try {
+    const { data, error } = await supabase.rpc('delete_chat_message', { p_message_id: messageId });
+    if (!error) return data as ChatMessage;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw toChatError(error);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('chat_messages')
+      .update({ deleted_at: new Date().toISOString(), text: '', imageUrl: null, reactions: {} })
+      .eq('id', messageId)
+      .is('deleted_at', null)
+      .select('*')
+      .single();
+    if (updateError) throw updateError;
+    return updated as ChatMessage;
+  } catch (error) {
+    throw createServiceError(error, 'حذف الرسالة');
+  }
+};
+
+// ============================================================
+// READ RECEIPTS
+// ============================================================
+// chat_reads (migration 018) keeps the newest message each member
+// has seen, for "seen by" and the unread count on the navigation.
+// ============================================================
+
+interface ChatReadRow {
+  group_id: string;
+  user_id: string;
+  last_read_at: number | string;
+}
+
+const mapReadRow = (row: ChatReadRow): ChatReadReceipt => ({
+  groupId: row.group_id,
+  userId: row.user_id,
+  lastReadAt: Number(row.last_read_at)
+});
+
+export const getChatReads = async (groupId: string): Promise<ChatReadReceipt[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('chat_reads')
+      .select('group_id, user_id, last_read_at')
+      .eq('group_id', groupId);
+    if (error) {
+      if (MISSING_TABLE_CODES.has(error.code)) return [];
+      throw error;
+    }
+    return ((data || []) as ChatReadRow[]).map(mapReadRow);
+  } catch (error) {
+    throw createServiceError(error, 'تحميل حالة قراءة الرسائل');
+  }
+};
+
+/** Marks the chat read up to a message; never moves an existing mark back */
+export const markChatRead = async (groupId: string, userId: string, lastReadAt: number): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('mark_chat_read', { p_group_id: groupId, p_last_read_at: lastReadAt });
+    if (!error) return;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw error;
+
+    // Without the function an older tab could move the mark back
+    const { error: upsertError } = await supabase
+      .from('chat_reads')
+      .upsert({ group_id: groupId, user_id: userId, last_read_at: lastReadAt }, { onConflict: 'group_id,user_id' });
+    if (upsertError && !MISSING_TABLE_CODES.has(upsertError.code)) throw upsertError;
+  } catch (error) {
+    throw createServiceError(error, 'تحديث حالة قراءة الرسائل');
+  }
+};
+
+/** Messages from others newer than the member's last read */
+export const getUnreadChatCount = async (groupId: string, userId: string): Promise<number> => {
+  try {
+    const { data: read, error: readError } = await supabase
+      .from('chat_reads')
+      .select('last_read_at')
+      .eq('group_id', groupId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (readError) {
+      // Without read receipts there's nothing to count against
+      if (MISSING_TABLE_CODES.has(readError.code)) return 0;
+      throw readError;
+    }
+
+    const { count, error } = await supabase
+      .from('chat_messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('groupId', groupId)
+      .neq('userId', userId)
+      .is('deleted_at', null)
+      .gt('timestamp', Number(read?.last_read_at ?? 0));
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    throw createServiceError(error, 'حساب الرسائل غير المقروءة');
+  }
+};
+
+// ============================================================
+// GROUP CHANNEL
+// ============================================================
+// One Realtime channel per open chat: new and changed messages
+// (edits, reactions, deletes) and read receipts from Postgres, and
+// presence for who has the chat open and who is typing.
+// ============================================================
+
+/** Typing clears itself after this long without a keystroke */
+const TYPING_IDLE_MS = 4000;
+
+export interface ChatChannelHandlers {
+  /** A new message, or a newer version of one already shown */
+  onMessage: (message: ChatMessage) => void;
+  onRead?: (receipt: ChatReadReceipt) => void;
+  onPresence?: (members: ChatPresenceMember[]) => void;
+}
+
+export interface ChatChannel {
+  /** Call on every keystroke with whether there's text to send */
+  setTyping: (typing: boolean) => void;
+  unsubscribe: () => void;
+}
+
+type PresencePayload = ChatPresenceMember;
+
+// Presence is keyed by user, with one entry per open tab
+const toPresenceMembers = (state: Record<string, PresencePayload[]>): ChatPresenceMember[] =>
+  Object.entries(state).map(([userId, entries]) => ({
+    userId,
+    typing: entries.some(entry => entry.typing),
+    onlineAt: Math.min(...entries.map(entry => entry.onlineAt))
+  }));
+
+export const joinChatChannel = (groupId: string, userId: string, handlers: ChatChannelHandlers): ChatChannel => {
+  const onlineAt = Date.now();
+  let typing = false;
+  let typingTimer: ReturnType<typeof setTimeout> | null = null;
+  let joined = false;
+
+  const channel = supabase.channel(`chat:${groupId}`, { config: { presence: { key: userId } } });
+
+  const track = () => {
+    if (joined) void channel.track({ userId, typing, onlineAt } satisfies PresencePayload);
+  };
+
+  channel
     .on('postgres_changes', {
-      event: 'INSERT',
+      event: '*',
       schema: 'public',
       table: 'chat_messages',
       filter: `groupId=eq.${groupId}`
     }, payload => {
-      callback(payload.new as ChatMessage);
+      // Deleting for everyone is an update; rows only go with the group
+      if (payload.eventType !== 'DELETE') handlers.onMessage(payload.new as ChatMessage);
+    })
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'chat_reads',
+      filter: `group_id=eq.${groupId}`
+    }, payload => {
+      const row = payload.new as Partial<ChatReadRow>;
+      if (row.user_id) handlers.onRead?.(mapReadRow(row as ChatReadRow));
+    })
+    .on('presence', { event: 'sync' }, () => {
+      handlers.onPresence?.(toPresenceMembers(channel.presenceState<PresencePayload>()));
     })
-    .subscribe();
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        joined = true;
+        track();
+      }
+    });
+
+  const setTyping = (next: boolean) => {
+    if (typingTimer) clearTimeout(typingTimer);
+    typingTimer = next ? setTimeout(() => setTyping(false), TYPING_IDLE_MS) : null;
+    if (next === typing) return;
+    typing = next;
+    track();
+  };
+
+  return {
+    setTyping,
+    unsubscribe: () => {
+      if (typingTimer) clearTimeout(typingTimer);
+      void supabase.removeChannel(channel);
+    }
+  };
 };
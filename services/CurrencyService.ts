@@ -0,0 +1,92 @@
+import { supabase } from './supabaseClient';
+import { ExchangeRate } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+
+interface ExchangeRateRow {
+  group_id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number | string;
+  updated_at: string;
+}
+
+const INVALID_RATE_ERROR = 'سعر الصرف يجب أن يكون أكبر من صفر';
+
+const mapExchangeRateRow = (row: ExchangeRateRow): ExchangeRate => ({
+  baseCurrency: row.base_currency,
+  quoteCurrency: row.quote_currency,
+  rate: Number(row.rate),
+  updatedAt: row.updated_at
+});
+
+/** Rates the group has saved against its current base currency */
+export const getExchangeRates = async (groupId: string, baseCurrency: string): Promise<ExchangeRate[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('group_id', groupId)
+      .eq('base_currency', baseCurrency)
+      .order('quote_currency', { ascending: true });
+    if (error) throw error;
+    return ((data || []) as ExchangeRateRow[]).map(mapExchangeRateRow);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل أسعار الصرف');
+  }
+};
+
+/**
+ * Base currency units per 1 unit of `currency`, or null when the group
+ * hasn't saved a rate for it yet.
+ */
+export const getExchangeRate = async (
+  groupId: string,
+  baseCurrency: string,
+  currency: string
+): Promise<number | null> => {
+  if (currency === baseCurrency) return 1;
+
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('rate')
+      .eq('group_id', groupId)
+      .eq('base_currency', baseCurrency)
+      .eq('quote_currency', currency)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? Number(data.rate) : null;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل سعر الصرف');
+  }
+};
+
+/** Remembers a hand-entered rate so the next expense in that currency starts from it */
+export const saveExchangeRate = async (
+  groupId: string,
+  baseCurrency: string,
+  currency: string,
+  rate: number
+): Promise<ExchangeRate> => {
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw createServiceError(new Error(INVALID_RATE_ERROR), 'حفظ سعر الصرف');
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert({
+        group_id: groupId,
+        base_currency: baseCurrency,
+        quote_currency: currency,
+        rate,
+        updated_at: new Date().toISOString()
+      })
+      .select('*')
+      .single();
+    if (error) throw error;
+    return mapExchangeRateRow(data as ExchangeRateRow);
+  } catch (error) {
+    throw createServiceError(error, 'حفظ سعر الصرف');
+  }
+};
@@ -0,0 +1,323 @@
+import { supabase } from './supabaseClient';
+import { Debt, NotificationType, Payment, TransactionStatus } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, formatCurrency } from '../utils/currencyUtils';
+import * as LedgerService from './LedgerService';
+import * as NotificationService from './NotificationService';
+import * as PaymentService from './PaymentService';
+import * as UserService from './UserService';
+
+// ============================================================
+// PERSONAL DEBTS
+// ============================================================
+// One-to-one loans. `from` is the borrower and `to` the lender,
+// the same direction as the payment that settles the debt.
+// ============================================================
+
+export interface CreateDebtInput {
+  from: string;
+  to: string;
+  amount: number;
+  createdBy: string;
+  description?: string;
+  dueDate?: string;
+  /** Omit for a loan outside any group */
+  groupId?: string;
+  /** Personal debts are never counted in group balances */
+  isPersonal?: boolean;
+}
+
+export interface DebtReminderResult {
+  overdue: number;
+  reminders: number;
+}
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+// Postgres unique_violation on debt_reminders (debt_id, kind)
+const DUPLICATE_REMINDER_CODE = '23505';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createId = (prefix: string) => `${prefix}${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+
+const fetchUserName = async (userId: string): Promise<string> => {
+  try {
+    const profile = await UserService.getUserById(userId);
+    return profile?.name || 'عضو';
+  } catch {
+    return 'عضو';
+  }
+};
+
+// Group debts are in the group's base currency; loans outside a group use the default
+const fetchDebtCurrency = async (groupId?: string): Promise<string> => {
+  if (!groupId) return DEFAULT_CURRENCY;
+  try {
+    return await LedgerService.getGroupBaseCurrency(groupId);
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+};
+
+const mapDebtRow = (row: Debt): Debt => ({
+  ...row,
+  amount: Number(row.amount)
+});
+
+/** Every debt the user lent or borrowed, open ones first */
+export const getDebts = async (userId: string): Promise<Debt[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('debts')
+      .select('*')
+      .or(`from.eq.${userId},to.eq.${userId}`)
+      .order('status', { ascending: true })
+      .order('dueDate', { ascending: true, nullsFirst: false });
+    if (error) throw error;
+    return ((data || []) as Debt[]).map(mapDebtRow);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل الديون');
+  }
+};
+
+/** Shared (non-personal) debts recorded in a group */
+export const getGroupDebts = async (groupId: string): Promise<Debt[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('debts')
+      .select('*')
+      .eq('groupId', groupId)
+      .eq('isPersonal', false);
+    if (error) throw error;
+    return ((data || []) as Debt[]).map(mapDebtRow);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل ديون المجموعة');
+  }
+};
+
+export const addDebt = async (input: CreateDebtInput): Promise<Debt> => {
+  const amount = Number(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw createServiceError(new Error('قيمة الدين يجب أن تكون أكبر من صفر'), 'تسجيل الدين');
+  }
+  if (input.from === input.to) {
+    throw createServiceError(new Error('لا يمكن تسجيل دين على نفسك'), 'تسجيل الدين');
+  }
+
+  try {
+    const debt: Debt = {
+      id: createId('d'),
+      from: input.from,
+      to: input.to,
+      amount,
+      description: input.description,
+      dueDate: input.dueDate,
+      groupId: input.groupId,
+      isPersonal: input.isPersonal ?? !input.groupId,
+      status: 'active',
+      createdBy: input.createdBy
+    };
+
+    const { data, error } = await supabase.from('debts').insert(debt).select('*').single();
+    if (error) throw error;
+
+    // Let the other person know the loan was recorded
+    const otherPartyId = input.createdBy === input.from ? input.to : input.from;
+    const [creatorName, currency] = await Promise.all([
+      fetchUserName(input.createdBy),
+      fetchDebtCurrency(input.groupId)
+    ]);
+    const amountText = formatCurrency(amount, currency);
+    const message = input.createdBy === input.to
+      ? `${creatorName} سجّل أنه أقرضك ${amountText}`
+      : `${creatorName} سجّل أنه اقترض منك ${amountText}`;
+    try {
+      await NotificationService.addNotificationToUser(otherPartyId, message, NotificationType.DEBT_REMINDER, {
+        groupId: input.groupId,
+        data: { debtId: debt.id },
+        actionUrl: '/debts'
+      });
+    } catch {
+      // The debt is saved; the notification is non-critical
+    }
+
+    return mapDebtRow(data as Debt);
+  } catch (error) {
+    throw createServiceError(error, 'تسجيل الدين');
+  }
+};
+
+export const updateDebt = async (
+  debtId: string,
+  updates: Partial<Pick<Debt, 'amount' | 'description' | 'dueDate' | 'status'>>
+): Promise<void> => {
+  try {
+    const { error } = await supabase.from('debts').update(updates).eq('id', debtId);
+    if (error) throw error;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحديث الدين');
+  }
+};
+
+/**
+ * Refused while a live payment settles the debt: once the debt is gone
+ * that payment would count as an ordinary group payment. Deleting the
+ * payment first reopens the debt, which can then be deleted.
+ */
+export const deleteDebt = async (debtId: string): Promise<void> => {
+  try {
+    const { count, error: paymentError } = await supabase
+      .from('payments')
+      .select('id', { count: 'exact', head: true })
+      .eq('debtId', debtId)
+      .is('deleted_at', null)
+      .neq('status', TransactionStatus.REJECTED);
+    if (paymentError) throw paymentError;
+    if (count) {
+      throw new Error('احذف عملية السداد المرتبطة بهذا الدين أولاً');
+    }
+
+    const { error } = await supabase.from('debts').delete().eq('id', debtId);
+    if (error) throw error;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر حذف الدين');
+  }
+};
+
+/**
+ * Records the payment that settles a debt. When the lender marks it
+ * settled the payment is confirmed straight away; when the borrower does,
+ * the payment waits for the lender's confirmation like any other payment
+ * and the debt closes once it's confirmed.
+ */
+export const settleDebt = async (debt: Debt, settledBy: string): Promise<Payment> => {
+  if (!debt.id) {
+    throw createServiceError(new Error('معرف الدين مطلوب'), 'سداد الدين');
+  }
+  if (debt.status === 'paid') {
+    throw createServiceError(new Error('تم سداد هذا الدين بالفعل'), 'سداد الدين');
+  }
+  if (debt.paymentId) {
+    throw createServiceError(new Error('يوجد سداد بانتظار التأكيد لهذا الدين'), 'سداد الدين');
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const isLender = settledBy === debt.to;
+    const payment: Payment = {
+      id: createId('p'),
+      from: debt.from,
+      to: debt.to,
+      amount: debt.amount,
+      date: now,
+      status: isLender ? TransactionStatus.CONFIRMED : TransactionStatus.PENDING,
+      notes: debt.description ? `سداد دين: ${debt.description}` : 'سداد دين',
+      groupId: debt.groupId,
+      debtId: debt.id,
+      ...(isLender ? { confirmed_at: now } : {})
+    };
+
+    let saved: Payment;
+    if (isLender) {
+      const { data, error } = await supabase.from('payments').insert(payment).select().single();
+      if (error) throw error;
+      saved = data as Payment;
+    } else {
+      // Goes through PaymentService so the lender is asked to confirm
+      saved = await PaymentService.addPayment(payment);
+    }
+
+    const { error: debtError } = await supabase
+      .from('debts')
+      .update(isLender
+        ? { paymentId: saved.id, status: 'paid', settledAt: now }
+        : { paymentId: saved.id })
+      .eq('id', debt.id);
+    if (debtError) throw debtError;
+
+    if (isLender) {
+      try {
+        const [lenderName, currency] = await Promise.all([fetchUserName(debt.to), fetchDebtCurrency(debt.groupId)]);
+        await NotificationService.addNotificationToUser(
+          debt.from,
+          `${lenderName} أكد سداد دين بقيمة ${formatCurrency(debt.amount, currency)}`,
+          NotificationType.PAYMENT_CONFIRMED,
+          { groupId: debt.groupId, data: { debtId: debt.id }, actionUrl: '/debts' }
+        );
+      } catch {
+        // The settlement is saved; the notification is non-critical
+      }
+    }
+
+    return saved;
+  } catch (error) {
+    throw createServiceError(error, 'سداد الدين');
+  }
+};
+
+// ============================================================
+// REMINDERS
+// ============================================================
+
+const buildDebtReminderMessage = (debt: Debt, kind: 'due' | 'overdue', currency: string) => {
+  const amountText = formatCurrency(debt.amount, currency);
+  const base = kind === 'overdue'
+    ? `دين بقيمة ${amountText} تأخر سداده`
+    : `موعد سداد دين بقيمة ${amountText} يوم ${debt.dueDate?.slice(0, 10)}`;
+  return debt.description ? `${base} (${debt.description})` : base;
+};
+
+// Same rules as process_debt_reminders, for databases without the function
+const processDebtRemindersLocally = async (userId: string): Promise<DebtReminderResult> => {
+  const now = Date.now();
+  const debts = await getDebts(userId);
+  const result: DebtReminderResult = { overdue: 0, reminders: 0 };
+
+  for (const debt of debts) {
+    if (!debt.id || !debt.dueDate || debt.status === 'paid') continue;
+    const dueTime = new Date(debt.dueDate).getTime();
+
+    if (debt.status === 'active' && dueTime < now) {
+      await updateDebt(debt.id, { status: 'overdue' });
+      result.overdue += 1;
+    }
+
+    if (dueTime - DAY_MS > now) continue;
+    const kind = dueTime < now ? 'overdue' : 'due';
+
+    const { error } = await supabase.from('debt_reminders').insert({ debt_id: debt.id, kind });
+    if (error) {
+      if (error.code === DUPLICATE_REMINDER_CODE) continue;
+      throw error;
+    }
+
+    await NotificationService.addNotificationToUser(
+      debt.from,
+      buildDebtReminderMessage(debt, kind, await fetchDebtCurrency(debt.groupId)),
+      NotificationType.DEBT_REMINDER,
+      { groupId: debt.groupId, data: { debtId: debt.id, dueDate: debt.dueDate }, actionUrl: '/debts' }
+    );
+    result.reminders += 1;
+  }
+
+  return result;
+};
+
+/**
+ * Marks overdue debts and reminds borrowers a day before the due date and
+ * again once it has passed. Like bill reminders, the database job normally
+ * handles this and the app runs it on start-up as a fallback.
+ */
+export const processDebtReminders = async (userId: string): Promise<DebtReminderResult> => {
+  try {
+    const { data, error } = await supabase.rpc('process_debt_reminders');
+    if (!error) return data as DebtReminderResult;
+    if (!MISSING_FUNCTION_CODES.has(error.code)) throw error;
+
+    return await processDebtRemindersLocally(userId);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر معالجة تذكيرات الديون');
+  }
+};
@@ -1,6 +1,14 @@
 import { supabase } from './supabaseClient';
-import { Expense, ExpenseCategory, ExpenseCursor, ExpenseSplit, ExpenseWithSplits, PaginatedResult } from '../types';
-import { createServiceError } from '../utils/errorHandler';
+import { Expense, ExpenseCategory, ExpenseCursor, ExpenseSplit, ExpenseWithSplits, Group, NotificationType, PaginatedResult, SplitMode } from '../types';
+import { ConflictError, createServiceError } from '../utils/errorHandler';
+import { calculateSplitShares } from '../utils/splitUtils';
+import { DEFAULT_CURRENCY, formatCurrency, roundCurrency } from '../utils/currencyUtils';
+import * as OfflineService from './offlineService';
+import * as CurrencyService from './CurrencyService';
+import * as LedgerService from './LedgerService';
+import * as TrashService from './TrashService';
+import * as BudgetService from './BudgetService';
+import * as NotificationService from './NotificationService';
 
 export interface CreateExpenseInput {
   groupId: string;
@@ -9,10 +17,20 @@ export interface CreateExpenseInput {
   description: string;
   category: ExpenseCategory;
   participants: string[];
+  /** Defaults to an equal split between participants */
+  splitMode?: SplitMode;
+  /** Per-user values for the split mode, keyed by user id */
+  splitInputs?: Record<string, number>;
+  /** Defaults to the group's base currency */
+  currency?: string;
+  /** Base currency units per 1 unit of `currency`; defaults to the group's saved rate */
+  exchangeRate?: number;
   date?: string;
   notes?: string;
   receiptUrl?: string;
   id?: string;
+  /** false skips budget alerts and the EXPENSE_ADDED notification (see notifyExpenseAdded) */
+  notify?: boolean;
 }
 
 export interface GetExpensesParams {
@@ -25,13 +43,22 @@ export interface UpdateExpenseInput {
   id: string;
   amount: number;
   participants: string[];
+  splitMode?: SplitMode;
+  splitInputs?: Record<string, number>;
+  /** Leave unset to keep the stored currency and rate */
+  currency?: string;
+  exchangeRate?: number;
   description?: string;
   category?: ExpenseCategory;
   date?: string;
   notes?: string;
   receiptUrl?: string;
+  /** Version the edit was based on; a mismatch raises ExpenseConflictError */
+  expectedVersion?: number;
 }
 
+export type ExpenseConflictError = ConflictError<ExpenseWithSplits, UpdateExpenseInput>;
+
 export type ExpensePaginationResult = PaginatedResult<ExpenseWithSplits, ExpenseCursor | null>;
 
 interface ExpenseSplitRow {
@@ -54,8 +81,14 @@ interface ExpenseRow {
   receiptUrl?: string | null;
   splitBetween?: string[] | null;
   splitAmounts?: Record<string, number> | null;
+  splitMode?: SplitMode | null;
+  splitInputs?: Record<string, number> | null;
+  currency?: string | null;
+  exchangeRate?: number | string | null;
   notes?: string | null;
   created_at?: string | null;
+  updated_at?: string | null;
+  version?: number | null;
   expense_splits?: ExpenseSplitRow[];
 }
 
@@ -79,8 +112,14 @@ const EXPENSE_SELECT = `
   "receiptUrl",
   "splitBetween",
   "splitAmounts",
+  "splitMode",
+  "splitInputs",
+  currency,
+  "exchangeRate",
   notes,
   created_at,
+  updated_at,
+  version,
   expense_splits:expense_splits (
     id,
     expense_id,
@@ -92,6 +131,9 @@ const EXPENSE_SELECT = `
 `;
 
 const POSITIVE_AMOUNT_ERROR = 'قيمة المصروف يجب أن تكون أكبر من صفر';
+const INVALID_RATE_ERROR = 'سعر الصرف يجب أن يكون أكبر من صفر';
+const MISSING_RATE_ERROR = 'أدخل سعر الصرف لهذه العملة';
+const VERSION_CONFLICT_ERROR = 'قام عضو آخر بتعديل هذا المصروف، راجع النسختين قبل الحفظ';
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
 
@@ -109,26 +151,42 @@ const ensureParticipants = (participants: string[], payerId: string): string[] =
   return Array.from(unique);
 };
 
-const distributeShares = (total: number, participantIds: string[]): Record<string, number> => {
-  if (participantIds.length === 0) {
-    throw createServiceError(new Error('لا يوجد مشاركين للمصروف'), 'حساب توزيع المصروف');
-  }
-
-  const centsTotal = Math.round(total * 100);
-  const baseShare = Math.floor(centsTotal / participantIds.length);
-  let remainder = centsTotal - baseShare * participantIds.length;
+interface ResolvedSplit {
+  participants: string[];
+  shares: Record<string, number>;
+  splitMode: SplitMode;
+  splitInputs: Record<string, number> | null;
+}
 
-  const shares: Record<string, number> = {};
-  participantIds.forEach((userId, index) => {
-    let shareInCents = baseShare;
-    if (remainder > 0) {
-      shareInCents += 1;
-      remainder -= 1;
-    }
-    shares[userId] = shareInCents / 100;
-  });
+// Equal splits always include the payer; the other modes take the
+// participants as given and drop anyone whose share works out to zero.
+const resolveSplit = (
+  amount: number,
+  participants: string[],
+  payerId: string,
+  splitMode: SplitMode = SplitMode.EQUAL,
+  splitInputs?: Record<string, number> | null,
+  currency?: string | null
+): ResolvedSplit => {
+  const splitCurrency = currency ?? undefined;
+  if (splitMode === SplitMode.EQUAL) {
+    const everyone = ensureParticipants(participants, payerId);
+    return {
+      participants: everyone,
+      shares: calculateSplitShares(amount, everyone, splitMode, {}, splitCurrency),
+      splitMode,
+      splitInputs: null
+    };
+  }
 
-  return shares;
+  const chosen = Array.from(new Set(participants.filter(Boolean)));
+  const shares = calculateSplitShares(amount, chosen, splitMode, splitInputs || {}, splitCurrency);
+  return {
+    participants: chosen.filter(userId => shares[userId] !== undefined),
+    shares,
+    splitMode,
+    splitInputs: splitInputs || {}
+  };
 };
 
 const assertValidAmount = (value: number, context: string): number => {
@@ -139,17 +197,56 @@ const assertValidAmount = (value: number, context: string): number => {
   return numeric;
 };
 
-const mapSplitRow = (row: ExpenseSplitRow): ExpenseSplit => ({
+const assertValidRate = (value: number | undefined, context: string): number => {
+  if (value === undefined) return 1;
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) {
+    throw createServiceError(new Error(INVALID_RATE_ERROR), context);
+  }
+  return numeric;
+};
+
+/**
+ * Rate for an expense in `currency`. Without one given, the base currency
+ * is 1 and any other currency needs the group's saved rate; storing a
+ * foreign amount at 1 would skew every balance.
+ */
+const resolveExchangeRate = async (
+  groupId: string,
+  currency: string | undefined,
+  exchangeRate: number | undefined,
+  context: string
+): Promise<number> => {
+  if (!currency || exchangeRate !== undefined) {
+    return assertValidRate(currency ? exchangeRate : undefined, context);
+  }
+
+  let rate: number | null = null;
+  if (OfflineService.isOnline()) {
+    const baseCurrency = await LedgerService.getGroupBaseCurrency(groupId);
+    rate = await CurrencyService.getExchangeRate(groupId, baseCurrency, currency);
+  } else {
+    const cachedGroup = (await OfflineService.getCachedGroup(groupId)) as Pick<Group, 'baseCurrency'> | null;
+    if (cachedGroup && currency === (cachedGroup.baseCurrency || DEFAULT_CURRENCY)) rate = 1;
+  }
+
+  if (rate === null) {
+    throw createServiceError(new Error(MISSING_RATE_ERROR), context);
+  }
+  return rate;
+};
+
+const mapSplitRow = (row: ExpenseSplitRow, currency?: string | null): ExpenseSplit => ({
   id: row.id,
   expenseId: row.expense_id,
   userId: row.user_id,
-  amount: Number(toNumber(row.amount).toFixed(2)),
+  amount: roundCurrency(toNumber(row.amount), currency),
   paid: row.paid,
   paidAt: row.paid_at ?? null
 });
 
 const mapExpenseRow = (row: ExpenseRow): ExpenseWithSplits => {
-  const splits = (row.expense_splits || []).map(mapSplitRow);
+  const splits = (row.expense_splits || []).map(split => mapSplitRow(split, row.currency));
   const normalizedSplitBetween = splits.length
     ? splits.map(split => split.userId)
     : row.splitBetween || [];
@@ -164,15 +261,21 @@ const mapExpenseRow = (row: ExpenseRow): ExpenseWithSplits => {
     id: row.id,
     groupId: row.groupId,
     payerId: row.payerId,
-    amount: Number(toNumber(row.amount).toFixed(2)),
+    amount: roundCurrency(toNumber(row.amount), row.currency),
     description: row.description,
     category: row.category,
     date: row.date,
     receiptUrl: row.receiptUrl || undefined,
     splitBetween: normalizedSplitBetween,
     splitAmounts: normalizedSplitAmounts,
+    splitMode: row.splitMode || SplitMode.EQUAL,
+    splitInputs: row.splitInputs || undefined,
+    currency: row.currency || undefined,
+    exchangeRate: row.exchangeRate != null ? toNumber(row.exchangeRate) : undefined,
     notes: row.notes || undefined,
     created_at: row.created_at || undefined,
+    updated_at: row.updated_at || undefined,
+    version: row.version ?? undefined,
     splits
   };
 };
@@ -193,14 +296,117 @@ const buildSplitRows = (
   }));
 };
 
+const queueOfflineExpense = async (
+  input: CreateExpenseInput,
+  amount: number,
+  exchangeRate: number
+): Promise<ExpenseWithSplits> => {
+  const { participants, shares, splitMode, splitInputs } = resolveSplit(
+    amount,
+    input.participants,
+    input.payerId,
+    input.splitMode,
+    input.splitInputs,
+    input.currency
+  );
+  const expenseId = input.id ?? createId('exp');
+  const timestamp = input.date ?? new Date().toISOString();
+  const splits = buildSplitRows(expenseId, participants, shares, input.payerId)
+    .map(split => mapSplitRow(split, input.currency));
+
+  const localExpense: ExpenseWithSplits = {
+    id: expenseId,
+    groupId: input.groupId,
+    payerId: input.payerId,
+    amount,
+    description: input.description,
+    category: input.category,
+    date: timestamp,
+    receiptUrl: input.receiptUrl,
+    notes: input.notes,
+    splitBetween: participants,
+    splitAmounts: shares,
+    splitMode,
+    splitInputs: splitInputs ?? undefined,
+    currency: input.currency,
+    exchangeRate,
+    created_at: new Date().toISOString(),
+    splits,
+    pendingSync: true
+  };
+
+  // Replay uses the same id, so the synced row replaces this local copy
+  await OfflineService.savePendingRecord('expenses', localExpense);
+  await OfflineService.addToSyncQueue('create', 'expenses', {
+    ...input,
+    id: expenseId,
+    date: timestamp,
+    exchangeRate
+  });
+
+  return localExpense;
+};
+
+export const getPendingExpenses = async (groupId: string): Promise<ExpenseWithSplits[]> => {
+  try {
+    return await OfflineService.getPendingRecords<ExpenseWithSplits>('expenses', groupId);
+  } catch {
+    return [];
+  }
+};
+
+const buildConflictError = (current: ExpenseWithSplits, attempted: UpdateExpenseInput): ExpenseConflictError =>
+  new ConflictError({
+    message: VERSION_CONFLICT_ERROR,
+    context: 'تعديل المصروف',
+    current,
+    attempted
+  });
+
+const fetchExpenseById = async (expenseId: string): Promise<ExpenseWithSplits> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select(EXPENSE_SELECT)
+    .eq('id', expenseId)
+    .single();
+
+  if (error || !data) {
+    throw error || new Error('لم يتم العثور على المصروف');
+  }
+  return mapExpenseRow(data as ExpenseRow);
+};
+
+/** One expense with its splits, e.g. to expand a realtime change */
+export const getExpenseById = async (expenseId: string): Promise<ExpenseWithSplits> => {
+  try {
+    return await fetchExpenseById(expenseId);
+  } catch (error) {
+    throw createServiceError(error, 'فشل تحميل المصروف');
+  }
+};
+
+// Offline there's only what the last loads cached, newest first and unpaged
+const getCachedExpensePage = async (groupId: string, limit: number): Promise<ExpensePaginationResult> => {
+  const cached = (await OfflineService.getCachedExpenses(groupId)) as ExpenseWithSplits[];
+  const sorted = [...cached].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+  return { items: sorted.slice(0, limit), hasMore: false, nextCursor: null };
+};
+
 export const getExpenses = async (params: GetExpensesParams = {}): Promise<ExpensePaginationResult> => {
   try {
     const limitParam = params.limit ?? DEFAULT_PAGE_SIZE;
     const limit = Math.min(Math.max(limitParam, 1), MAX_PAGE_SIZE);
 
+    if (params.groupId && !OfflineService.isOnline()) {
+      return params.cursor
+        ? { items: [], hasMore: false, nextCursor: null }
+        : await getCachedExpensePage(params.groupId, limit);
+    }
+
     let query = supabase
       .from('expenses')
       .select(EXPENSE_SELECT)
+      .is('deleted_at', null)
       .order('date', { ascending: false })
       .order('id', { ascending: false })
       .limit(limit + 1);
@@ -226,8 +432,20 @@ export const getExpenses = async (params: GetExpensesParams = {}): Promise<Expen
     const trimmed = hasMore ? rows.slice(0, limit) : rows;
     const lastItem = trimmed[trimmed.length - 1];
 
+    // Offline-created expenses are shown on the first page until they sync
+    const serverItems = trimmed.map(mapExpenseRow);
+    if (!params.cursor && params.groupId) {
+      try {
+        await OfflineService.cacheExpenses(params.groupId, serverItems, hasMore ? lastItem?.date : undefined);
+      } catch {
+        // Cache is best-effort
+      }
+    }
+    const pending = !params.cursor && params.groupId ? await getPendingExpenses(params.groupId) : [];
+    const serverIds = new Set(serverItems.map(item => item.id));
+
     return {
-      items: trimmed.map(mapExpenseRow),
+      items: [...pending.filter(item => !serverIds.has(item.id)), ...serverItems],
       hasMore,
       nextCursor:
         hasMore && lastItem
@@ -245,12 +463,39 @@ export const getExpenses = async (params: GetExpensesParams = {}): Promise<Expen
 export const addExpense = async (input: CreateExpenseInput): Promise<ExpenseWithSplits> => {
   const normalizedAmount = assertValidAmount(input.amount, 'إضافة مصروف جديد');
 
+  if (!OfflineService.isOnline()) {
+    try {
+      const exchangeRate = await resolveExchangeRate(input.groupId, input.currency, input.exchangeRate, 'حفظ المصروف بدون اتصال');
+      return await queueOfflineExpense(input, normalizedAmount, exchangeRate);
+    } catch (error) {
+      throw createServiceError(error, 'حفظ المصروف بدون اتصال');
+    }
+  }
+
+  return insertExpense(input);
+};
+
+/**
+ * Writes the expense straight to the server and never queues it, so
+ * replaying the offline queue can't queue the same expense again.
+ */
+export const insertExpense = async (input: CreateExpenseInput): Promise<ExpenseWithSplits> => {
+  const normalizedAmount = assertValidAmount(input.amount, 'إضافة مصروف جديد');
+
   try {
-    const participants = ensureParticipants(input.participants, input.payerId);
-    const shares = distributeShares(normalizedAmount, participants);
+    const exchangeRate = await resolveExchangeRate(input.groupId, input.currency, input.exchangeRate, 'إضافة مصروف جديد');
+    const { participants, shares, splitMode, splitInputs } = resolveSplit(
+      normalizedAmount,
+      input.participants,
+      input.payerId,
+      input.splitMode,
+      input.splitInputs,
+      input.currency
+    );
     const expenseId = input.id ?? createId('exp');
     const timestamp = input.date ?? new Date().toISOString();
 
+    // Without a currency the database fills in the group's base currency
     const expensePayload = {
       id: expenseId,
       groupId: input.groupId,
@@ -262,7 +507,11 @@ export const addExpense = async (input: CreateExpenseInput): Promise<ExpenseWith
       receiptUrl: input.receiptUrl,
       notes: input.notes,
       splitBetween: participants,
-      splitAmounts: shares
+      splitAmounts: shares,
+      splitMode,
+      splitInputs: splitInputs ?? undefined,
+      currency: input.currency,
+      exchangeRate
     } satisfies Partial<Expense> & Record<string, unknown>;
 
     const { data: expenseRow, error: expenseError } = await supabase
@@ -286,29 +535,67 @@ export const addExpense = async (input: CreateExpenseInput): Promise<ExpenseWith
       throw splitsError;
     }
 
-    return mapExpenseRow({
+    const expense = mapExpenseRow({
       ...(expenseRow as ExpenseRow),
       expense_splits: createdSplits as ExpenseSplitRow[]
     });
+
+    if (input.notify !== false) {
+      await notifyExpenseAdded(expense);
+    }
+
+    return expense;
   } catch (error) {
     throw createServiceError(error, 'إضافة مصروف جديد');
   }
 };
 
+/**
+ * Budget alerts and the EXPENSE_ADDED notification for a saved expense.
+ * Callers that add with `notify: false` send them once the expense is
+ * final, if at all. Neither can fail the caller.
+ */
+export const notifyExpenseAdded = async (expense: ExpenseWithSplits): Promise<void> => {
+  try {
+    await BudgetService.checkBudgetAlerts(expense.groupId, expense.category, expense.date);
+  } catch {
+    // Budget alerts are non-critical, the expense is already saved
+  }
+
+  try {
+    await NotificationService.addNotificationToUsers(
+      expense.splitBetween.filter(userId => userId !== expense.payerId),
+      `${expense.description} - ${formatCurrency(expense.amount, expense.currency)}`,
+      NotificationType.EXPENSE_ADDED,
+      { groupId: expense.groupId, data: { expenseId: expense.id }, actionUrl: '/expenses' }
+    );
+  } catch {
+    // Notification failure is non-critical, the expense is already saved
+  }
+};
+
 export const deleteExpense = async (expenseId: string): Promise<void> => {
   if (!expenseId) {
     throw createServiceError(new Error('معرف المصروف مطلوب للحذف'), 'حذف المصروف');
   }
 
+  // Soft delete: the splits stay so restoring brings the expense back whole
   try {
-    await supabase.from('expense_splits').delete().eq('expense_id', expenseId);
-    const { error } = await supabase.from('expenses').delete().eq('id', expenseId);
-    if (error) throw error;
+    await TrashService.softDeleteRecord('expenses', expenseId);
   } catch (error) {
     throw createServiceError(error, 'حذف المصروف');
   }
 };
 
+export const restoreExpense = async (expenseId: string): Promise<ExpenseWithSplits> => {
+  try {
+    await TrashService.restoreRecord('expenses', expenseId);
+    return await fetchExpenseById(expenseId);
+  } catch (error) {
+    throw createServiceError(error, 'استرجاع المصروف');
+  }
+};
+
 export const updateExpense = async (input: UpdateExpenseInput): Promise<ExpenseWithSplits> => {
   if (!input.id) {
     throw createServiceError(new Error('معرف المصروف مطلوب للتعديل'), 'تعديل المصروف');
@@ -326,8 +613,39 @@ export const updateExpense = async (input: UpdateExpenseInput): Promise<ExpenseW
     throw createServiceError(fetchError || new Error('لم يتم العثور على المصروف'), 'تعديل المصروف');
   }
 
-  const participants = ensureParticipants(input.participants, currentExpenseRow.payerId);
-  const shares = distributeShares(normalizedAmount, participants);
+  // Fail fast when the edit was based on an older copy of the expense
+  if (
+    input.expectedVersion !== undefined &&
+    currentExpenseRow.version != null &&
+    currentExpenseRow.version !== input.expectedVersion
+  ) {
+    throw buildConflictError(mapExpenseRow(currentExpenseRow as ExpenseRow), input);
+  }
+
+  let exchangeRate: number | null = null;
+  if (input.currency) {
+    try {
+      exchangeRate = await resolveExchangeRate(currentExpenseRow.groupId, input.currency, input.exchangeRate, 'تعديل المصروف');
+    } catch (error) {
+      throw createServiceError(error, 'تعديل المصروف');
+    }
+  }
+
+  const splitMode = input.splitMode ?? currentExpenseRow.splitMode ?? SplitMode.EQUAL;
+  let resolvedSplit: ResolvedSplit;
+  try {
+    resolvedSplit = resolveSplit(
+      normalizedAmount,
+      input.participants,
+      currentExpenseRow.payerId,
+      splitMode,
+      input.splitInputs ?? currentExpenseRow.splitInputs,
+      input.currency ?? currentExpenseRow.currency
+    );
+  } catch (error) {
+    throw createServiceError(error, 'تعديل المصروف');
+  }
+  const { participants, shares, splitInputs } = resolvedSplit;
 
   const updatedExpensePayload = {
     amount: normalizedAmount,
@@ -354,6 +672,10 @@ export const updateExpense = async (input: UpdateExpenseInput): Promise<ExpenseW
       new_receipt_url: updatedExpensePayload.receiptUrl ?? null,
       new_split_between: participants,
       new_split_amounts: shares,
+      new_split_mode: splitMode,
+      new_split_inputs: splitInputs,
+      new_currency: input.currency ?? null,
+      new_exchange_rate: exchangeRate,
       new_splits: splitRows.map(split => ({
         id: split.id,
         expense_id: split.expense_id,
@@ -361,22 +683,19 @@ export const updateExpense = async (input: UpdateExpenseInput): Promise<ExpenseW
         amount: split.amount,
         paid: split.paid,
         paid_at: split.paid_at
-      }))
+      })),
+      expected_version: input.expectedVersion ?? null
     });
 
-    if (rpcError) throw rpcError;
-
-    const { data: refreshedRow, error: refreshError } = await supabase
-      .from('expenses')
-      .select(EXPENSE_SELECT)
-      .eq('id', input.id)
-      .single();
-
-    if (refreshError || !refreshedRow) {
-      throw refreshError || new Error('فشل في جلب المصروف بعد التحديث');
+    if (rpcError) {
+      // Another member saved between our read and the RPC call
+      if (rpcError.message?.includes('EXPENSE_VERSION_CONFLICT')) {
+        throw buildConflictError(await fetchExpenseById(input.id), input);
+      }
+      throw rpcError;
     }
 
-    return mapExpenseRow(refreshedRow as ExpenseRow);
+    return await fetchExpenseById(input.id);
   } catch (error) {
     throw createServiceError(error, 'تعديل المصروف');
   }
@@ -0,0 +1,282 @@
+import { supabase } from './supabaseClient';
+import { TransactionStatus } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, roundCurrency } from '../utils/currencyUtils';
+import { translateCategory } from '../utils/categoryUtils';
+import { ExportCell, ExportFormat, ExportSheet, toCsv, toXlsx } from '../utils/exportUtils';
+import * as BillService from './BillService';
+import * as LedgerService from './LedgerService';
+
+// ============================================================
+// LEDGER EXPORT
+// ============================================================
+// Expenses (with every member's share), payments, bills and the
+// balance summary as CSV or XLSX, for handing shared costs to a
+// landlord or an employer. The date range and category/member
+// filters apply to expenses and payments; bills are the group's
+// current schedule and balances are always to date.
+// ============================================================
+
+export interface ExportFilter {
+  /** Inclusive ISO start */
+  from?: string;
+  /** Exclusive ISO end */
+  to?: string;
+  category?: string;
+  /** Only rows this member paid, shares in, sent or received */
+  memberId?: string;
+}
+
+export interface LedgerExportFile {
+  filename: string;
+  format: ExportFormat;
+  content: string | Uint8Array;
+}
+
+interface ExportExpenseRow {
+  id: string;
+  date: string;
+  description: string;
+  category: string;
+  payerId: string;
+  amount: number | string;
+  currency?: string | null;
+  exchangeRate?: number | string | null;
+  notes?: string | null;
+  expense_splits: { user_id: string; amount: number | string }[] | null;
+}
+
+interface ExportPaymentRow {
+  id: string;
+  date: string;
+  from: string;
+  to: string;
+  amount: number | string;
+  status: TransactionStatus;
+  notes?: string | null;
+}
+
+const PAYMENT_STATUS_LABELS: Record<TransactionStatus, string> = {
+  [TransactionStatus.PENDING]: 'معلق',
+  [TransactionStatus.COMPLETED]: 'مكتمل',
+  [TransactionStatus.CONFIRMED]: 'مؤكد',
+  [TransactionStatus.REJECTED]: 'مرفوض'
+};
+
+const BILL_PERIOD_LABELS: Record<string, string> = {
+  monthly: 'شهري',
+  quarterly: 'ربع سنوي',
+  yearly: 'سنوي'
+};
+
+const BILL_STATUS_LABELS: Record<string, string> = {
+  pending: 'مستحقة',
+  paid: 'مدفوعة',
+  overdue: 'متأخرة'
+};
+
+const toNumber = (value: number | string | null | undefined): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return 0;
+};
+
+const toDay = (iso?: string | null) => (iso ? iso.slice(0, 10) : '');
+
+const fetchGroupInfo = async (groupId: string) => {
+  const { data, error } = await supabase
+    .from('groups')
+    .select('name, members, "baseCurrency"')
+    .eq('id', groupId)
+    .single();
+  if (error) throw error;
+  return data as { name: string; members: string[] | null; baseCurrency?: string | null };
+};
+
+const fetchMemberNames = async (userIds: string[]): Promise<Map<string, string>> => {
+  if (userIds.length === 0) return new Map();
+  const { data, error } = await supabase.from('profiles').select('id, name').in('id', userIds);
+  if (error) throw error;
+  return new Map(((data || []) as { id: string; name: string }[]).map(profile => [profile.id, profile.name]));
+};
+
+const fetchExpenses = async (groupId: string, filter: ExportFilter): Promise<ExportExpenseRow[]> => {
+  let query = supabase
+    .from('expenses')
+    .select('id, date, description, category, "payerId", amount, currency, "exchangeRate", notes, expense_splits(user_id, amount)')
+    .eq('groupId', groupId)
+    .is('deleted_at', null)
+    .order('date', { ascending: true });
+
+  if (filter.from) query = query.gte('date', filter.from);
+  if (filter.to) query = query.lt('date', filter.to);
+  if (filter.category) query = query.eq('category', filter.category);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as ExportExpenseRow[];
+  if (!filter.memberId) return rows;
+  return rows.filter(row =>
+    row.payerId === filter.memberId ||
+    (row.expense_splits || []).some(split => split.user_id === filter.memberId)
+  );
+};
+
+const fetchPayments = async (groupId: string, filter: ExportFilter): Promise<ExportPaymentRow[]> => {
+  let query = supabase
+    .from('payments')
+    .select('id, date, "from", "to", amount, status, notes')
+    .eq('groupId', groupId)
+    .is('deleted_at', null)
+    .order('date', { ascending: true });
+
+  if (filter.from) query = query.gte('date', filter.from);
+  if (filter.to) query = query.lt('date', filter.to);
+  if (filter.memberId) query = query.or(`from.eq.${filter.memberId},to.eq.${filter.memberId}`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as ExportPaymentRow[];
+};
+
+const buildLedger = async (
+  groupId: string,
+  filter: ExportFilter
+): Promise<{ groupName: string; sheets: ExportSheet[] }> => {
+  try {
+    const [group, expenses, payments, bills, balances] = await Promise.all([
+      fetchGroupInfo(groupId),
+      fetchExpenses(groupId, filter),
+      fetchPayments(groupId, filter),
+      BillService.getBills(groupId),
+      LedgerService.getGroupBalances(groupId)
+    ]);
+
+    const baseCurrency = group.baseCurrency || DEFAULT_CURRENCY;
+    const round = (value: number) => roundCurrency(value, baseCurrency);
+
+    // One share column per member, plus anyone who has left but still has splits
+    const memberIds = Array.from(new Set([
+      ...(group.members || []),
+      ...expenses.flatMap(expense => [expense.payerId, ...(expense.expense_splits || []).map(split => split.user_id)]),
+      ...payments.flatMap(payment => [payment.from, payment.to]),
+      ...balances.map(balance => balance.userId)
+    ]));
+    const names = await fetchMemberNames(memberIds);
+    const nameOf = (id: string) => names.get(id) || 'عضو سابق';
+    const shareColumns = filter.memberId ? [filter.memberId] : memberIds;
+
+    let expensesTotal = 0;
+    const expenseRows: ExportCell[][] = expenses.map(expense => {
+      const rate = expense.exchangeRate == null ? 1 : toNumber(expense.exchangeRate);
+      const amount = toNumber(expense.amount);
+      const baseAmount = round(amount * rate);
+      expensesTotal += baseAmount;
+      const shares = new Map((expense.expense_splits || []).map(split => [split.user_id, toNumber(split.amount)]));
+      return [
+        toDay(expense.date),
+        expense.description,
+        translateCategory(expense.category),
+        nameOf(expense.payerId),
+        amount,
+        expense.currency || baseCurrency,
+        rate,
+        baseAmount,
+        ...shareColumns.map(id => (shares.has(id) ? round((shares.get(id) || 0) * rate) : null)),
+        expense.notes || ''
+      ];
+    });
+
+    const expensesSheet: ExportSheet = {
+      name: 'المصروفات',
+      rows: [
+        [
+          'التاريخ', 'الوصف', 'التصنيف', 'الدافع', 'المبلغ', 'العملة', 'سعر الصرف', `المبلغ (${baseCurrency})`,
+          ...shareColumns.map(id => `حصة ${nameOf(id)}`),
+          'ملاحظات'
+        ],
+        ...expenseRows,
+        ['الإجمالي', '', '', '', null, '', null, round(expensesTotal)]
+      ]
+    };
+
+    const paymentsSheet: ExportSheet = {
+      name: 'المدفوعات',
+      rows: [
+        ['التاريخ', 'من', 'إلى', `المبلغ (${baseCurrency})`, 'الحالة', 'ملاحظات'],
+        ...payments.map(payment => [
+          toDay(payment.date),
+          nameOf(payment.from),
+          nameOf(payment.to),
+          toNumber(payment.amount),
+          PAYMENT_STATUS_LABELS[payment.status] || payment.status,
+          payment.notes || ''
+        ])
+      ]
+    };
+
+    const billsSheet: ExportSheet = {
+      name: 'الفواتير',
+      rows: [
+        ['الاسم', 'التصنيف', 'المبلغ', 'تاريخ الاستحقاق', 'التكرار', 'الحالة', 'آخر دفع'],
+        ...bills
+          .filter(bill => !filter.category || bill.category === filter.category)
+          .map(bill => [
+            bill.name,
+            translateCategory(bill.category),
+            toNumber(bill.amount),
+            toDay(bill.dueDate),
+            bill.recurring ? BILL_PERIOD_LABELS[bill.recurringPeriod || 'monthly'] : 'مرة واحدة',
+            BILL_STATUS_LABELS[bill.status] || bill.status,
+            toDay(bill.lastPaid)
+          ])
+      ]
+    };
+
+    const balancesSheet: ExportSheet = {
+      name: 'ملخص الأرصدة',
+      rows: [
+        ['العضو', 'دفع', 'حصته', 'حوّل', 'استلم', `الرصيد (${baseCurrency})`],
+        ...balances
+          .filter(balance => !filter.memberId || balance.userId === filter.memberId)
+          .map(balance => [
+            nameOf(balance.userId),
+            balance.totalPaid,
+            balance.totalShare,
+            balance.totalSent,
+            balance.totalReceived,
+            balance.balance
+          ])
+      ]
+    };
+
+    return {
+      groupName: group.name,
+      sheets: [expensesSheet, paymentsSheet, billsSheet, balancesSheet]
+    };
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تجهيز ملف التصدير');
+  }
+};
+
+const buildFilename = (groupName: string, filter: ExportFilter, format: ExportFormat) => {
+  const slug = groupName.trim().replace(/[\\/:*?"<>|\s]+/g, '_') || 'group';
+  // `to` is exclusive, so the last day covered is the one before it
+  const lastDay = filter.to ? toDay(new Date(new Date(filter.to).getTime() - 1).toISOString()) : '';
+  const range = filter.from || filter.to ? `_${toDay(filter.from) || 'start'}_${lastDay || 'today'}` : '';
+  return `${slug}${range}.${format}`;
+};
+
+export const exportLedger = async (
+  groupId: string,
+  filter: ExportFilter = {},
+  format: ExportFormat = 'xlsx'
+): Promise<LedgerExportFile> => {
+  const { groupName, sheets } = await buildLedger(groupId, filter);
+  return {
+    filename: buildFilename(groupName, filter, format),
+    format,
+    content: format === 'csv' ? toCsv(sheets) : toXlsx(sheets)
+  };
+};
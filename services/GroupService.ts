@@ -1,6 +1,7 @@
 import { Group, GroupMember, NotificationType } from '../types';
 import { supabase } from './supabaseClient';
 import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY } from '../utils/currencyUtils';
 import * as NotificationService from './NotificationService';
 import * as UserService from './UserService';
 import * as SettlementService from './SettlementService';
@@ -92,7 +93,8 @@ export const getUserGroups = async (userId: string): Promise<Group[]> => {
 export const createGroup = async (
   name: string,
   createdBy: string,
-  password?: string
+  password?: string,
+  baseCurrency: string = DEFAULT_CURRENCY
 ): Promise<Group> => {
   try {
     const groupId = generateGroupId();
@@ -103,6 +105,7 @@ export const createGroup = async (
       name,
       code,
       password,
+      baseCurrency,
       members: [createdBy],
       created_by: createdBy,
       created_at: new Date().toISOString()
@@ -274,6 +277,34 @@ export const updateGroupName = async (groupId: string, newName: string): Promise
   }
 };
 
+// ============================================================
+// Update Base Currency
+// ============================================================
+// Expenses store their rate against the base currency, so it can
+// only change while the group has no expenses yet.
+export const updateGroupBaseCurrency = async (groupId: string, baseCurrency: string): Promise<boolean> => {
+  try {
+    const { count, error: countError } = await supabase
+      .from('expenses')
+      .select('id', { count: 'exact', head: true })
+      .eq('groupId', groupId);
+    if (countError) throw countError;
+    if (count) {
+      throw new Error('لا يمكن تغيير العملة الأساسية بعد تسجيل مصروفات في المجموعة');
+    }
+
+    const { error } = await supabase
+      .from('groups')
+      .update({ baseCurrency })
+      .eq('id', groupId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تغيير العملة الأساسية');
+  }
+};
+
 // ============================================================
 // NEW: Regenerate Invite Code
 // ============================================================
@@ -421,3 +452,30 @@ export const isGroupAdmin = async (groupId: string, userId: string): Promise<boo
     return false;
   }
 };
+
+// ============================================================
+// Active group selection (per user, persisted on this device)
+// ============================================================
+const ACTIVE_GROUP_KEY = 'sha2etna_active_group';
+
+export const getActiveGroupId = (userId: string): string | null => {
+  try {
+    return localStorage.getItem(`${ACTIVE_GROUP_KEY}_${userId}`);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveGroupId = (userId: string, groupId: string) => {
+  try {
+    localStorage.setItem(`${ACTIVE_GROUP_KEY}_${userId}`, groupId);
+  } catch {
+    // localStorage not available (private mode, quota exceeded)
+  }
+};
+
+/** The persisted active group if the user still belongs to it, else their first group */
+export const pickActiveGroup = (userId: string, groups: Group[]): Group | null => {
+  const savedId = getActiveGroupId(userId);
+  return groups.find(group => group.id === savedId) || groups[0] || null;
+};
@@ -0,0 +1,395 @@
+import { supabase } from './supabaseClient';
+import { ExpenseCategory, SplitMode, User } from '../types';
+import { ServiceError, createServiceError } from '../utils/errorHandler';
+import { matchCategory } from '../utils/categoryUtils';
+import { calculateSplitShares } from '../utils/splitUtils';
+import { roundCurrency } from '../utils/currencyUtils';
+import { DateOrder, normalizeText, parseAmount, parseCsv, parseDate } from '../utils/importUtils';
+import * as CurrencyService from './CurrencyService';
+import * as ExpenseService from './ExpenseService';
+import * as OfflineService from './offlineService';
+
+// ============================================================
+// EXPENSE IMPORT
+// ============================================================
+// Brings history over from Splitwise CSV exports and bank
+// statements. Files are turned into drafts the user can review:
+// each draft lists anything that stops it being imported
+// (`issues`) and any expense it looks like a copy of
+// (`duplicateOf`). importExpenses then validates the selected
+// drafts and, unless it's a dry run, adds them one by one through
+// ExpenseService so splits are built exactly like manual entries.
+// ============================================================
+
+export type ImportSource = 'splitwise' | 'bank';
+
+export interface ImportDraft {
+  /** Line in the file, counting the header as 1 */
+  line: number;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  payerId: string | null;
+  participants: string[];
+  splitMode: SplitMode;
+  splitInputs?: Record<string, number>;
+  /** Problems that keep the row from being imported */
+  issues: string[];
+  /** Existing expense with the same date, amount and description */
+  duplicateOf?: string | null;
+  /** Earlier line of the same file with the same date, amount and description */
+  duplicateOfLine?: number | null;
+  selected: boolean;
+}
+
+export interface SplitwiseEntry {
+  line: number;
+  date: string;
+  description: string;
+  category: string;
+  cost: string;
+  currency: string;
+  /** Net per person as Splitwise reports it: paid minus share */
+  balances: Record<string, string>;
+}
+
+export interface SplitwiseFile {
+  /** Person columns, as named in the export */
+  people: string[];
+  entries: SplitwiseEntry[];
+}
+
+export interface BankColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  category?: number | null;
+}
+
+export interface BankImportOptions {
+  mapping: BankColumnMapping;
+  hasHeader: boolean;
+  dateOrder: DateOrder;
+  currency: string;
+  payerId: string;
+  /** Split equally between these members */
+  participants: string[];
+  /** Statements list spending as negative amounts; only import those */
+  debitsOnly: boolean;
+}
+
+export interface ImportOptions {
+  dryRun?: boolean;
+  baseCurrency: string;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  /** Expenses added, or that would be added on a dry run */
+  imported: number;
+  failed: { line: number; message: string }[];
+}
+
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+const SPLITWISE_PAYMENT_CATEGORY = 'payment';
+const SPLITWISE_TOTAL_ROW = 'total balance';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const invalidFile = (message: string) =>
+  new ServiceError({ message, code: 'INVALID_IMPORT_FILE', context: 'استيراد المصروفات' });
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export const parseSplitwiseCsv = (text: string): SplitwiseFile => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(cell => cell.toLowerCase());
+  if (!SPLITWISE_COLUMNS.every((column, index) => columns[index] === column)) {
+    throw invalidFile('الملف ليس تصدير Splitwise (الأعمدة المتوقعة: Date, Description, Category, Cost, Currency)');
+  }
+
+  const people = header.slice(SPLITWISE_COLUMNS.length);
+  const entries = rows
+    .map((cells, index) => ({ cells, line: index + 2 }))
+    .filter(({ cells }) => (cells[1] || '').toLowerCase() !== SPLITWISE_TOTAL_ROW)
+    .map(({ cells, line }) => ({
+      line,
+      date: cells[0] || '',
+      description: cells[1] || '',
+      category: cells[2] || '',
+      cost: cells[3] || '',
+      currency: cells[4] || '',
+      balances: people.reduce<Record<string, string>>((acc, person, i) => {
+        acc[person] = cells[SPLITWISE_COLUMNS.length + i] || '0';
+        return acc;
+      }, {})
+    }));
+
+  return { people, entries };
+};
+
+/** The file as rows of cells, for picking bank columns */
+export const parseBankCsv = (text: string): string[][] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    throw invalidFile('الملف فارغ');
+  }
+  return rows;
+};
+
+const BANK_COLUMN_KEYWORDS: Record<keyof BankColumnMapping, string[]> = {
+  date: ['date', 'تاريخ'],
+  description: ['description', 'details', 'narrative', 'memo', 'payee', 'البيان', 'الوصف', 'التفاصيل'],
+  amount: ['amount', 'debit', 'withdrawal', 'المبلغ', 'مدين', 'سحب'],
+  category: ['category', 'التصنيف', 'الفئة']
+};
+
+/** Guesses the columns from the header row; unmatched ones fall back to the first three */
+export const guessBankMapping = (header: string[]): BankColumnMapping => {
+  const normalized = header.map(normalizeText);
+  const find = (key: keyof BankColumnMapping) =>
+    normalized.findIndex(cell => BANK_COLUMN_KEYWORDS[key].some(keyword => cell.includes(normalizeText(keyword))));
+
+  const date = find('date');
+  const description = find('description');
+  const amount = find('amount');
+  const category = find('category');
+  return {
+    date: date === -1 ? 0 : date,
+    description: description === -1 ? 1 : description,
+    amount: amount === -1 ? 2 : amount,
+    category: category === -1 ? null : category
+  };
+};
+
+/**
+ * Group member for each name in the file: exact match first, then
+ * the first word of the name. Unmatched names map to null.
+ */
+export const matchMembers = (names: string[], members: User[]): Record<string, string | null> => {
+  const byName = members.map(member => ({ id: member.id, name: normalizeText(member.name || '') }));
+  return names.reduce<Record<string, string | null>>((acc, name) => {
+    const target = normalizeText(name);
+    const firstWord = target.split(' ')[0];
+    const match =
+      byName.find(member => member.name === target) ||
+      byName.find(member => member.name.split(' ')[0] === firstWord);
+    acc[name] = match?.id ?? null;
+    return acc;
+  }, {});
+};
+
+// ============================================================
+// Drafts
+// ============================================================
+
+/**
+ * Splitwise stores each person's net for an expense (paid minus
+ * share), so with one payer P: everyone else's share is minus their
+ * net and P's is the cost minus theirs. Expenses with several
+ * payers can't be represented here and are flagged.
+ */
+export const splitwiseToDrafts = (
+  file: SplitwiseFile,
+  nameMap: Record<string, string | null>,
+  baseCurrency: string
+): ImportDraft[] =>
+  file.entries.map(entry => {
+    const issues: string[] = [];
+    const date = parseDate(entry.date, 'ymd');
+    const amount = parseAmount(entry.cost);
+    const currency = (entry.currency || baseCurrency).toUpperCase();
+    if (!date) issues.push('تاريخ غير صالح');
+    if (amount === null || amount <= 0) issues.push('مبلغ غير صالح');
+    if (entry.category.toLowerCase() === SPLITWISE_PAYMENT_CATEGORY) issues.push('تسوية بين أعضاء وليست مصروفًا');
+
+    const nets = file.people
+      .map(person => ({ person, net: parseAmount(entry.balances[person]) ?? 0 }))
+      .filter(({ net }) => Math.abs(net) >= 0.005);
+    const payers = nets.filter(({ net }) => net > 0);
+    if (payers.length === 0) issues.push('لا يوجد دافع');
+    if (payers.length > 1) issues.push('أكثر من دافع');
+
+    const unmatched = nets.filter(({ person }) => !nameMap[person]).map(({ person }) => person);
+    if (unmatched.length > 0) issues.push(`أسماء غير مطابقة: ${unmatched.join('، ')}`);
+
+    const payer = payers.length === 1 ? payers[0] : null;
+    const payerId = payer ? nameMap[payer.person] ?? null : null;
+    const shares: Record<string, number> = {};
+    if (payer && payerId && amount !== null) {
+      nets.forEach(({ person, net }) => {
+        const userId = nameMap[person];
+        if (!userId || person === payer.person) return;
+        shares[userId] = roundCurrency(-net, currency);
+      });
+      const payerShare = roundCurrency(amount - payer.net, currency);
+      if (payerShare > 0) shares[payerId] = payerShare;
+    }
+
+    return {
+      line: entry.line,
+      date: date || '',
+      description: entry.description,
+      amount: amount ?? 0,
+      currency,
+      category: matchCategory(entry.category || entry.description),
+      payerId,
+      participants: Object.keys(shares),
+      splitMode: SplitMode.EXACT,
+      splitInputs: shares,
+      issues,
+      selected: issues.length === 0
+    };
+  });
+
+export const bankToDrafts = (rows: string[][], options: BankImportOptions): ImportDraft[] => {
+  const { mapping } = options;
+  const offset = options.hasHeader ? 1 : 0;
+
+  return rows.slice(offset).map((cells, index) => {
+    const issues: string[] = [];
+    const date = parseDate(cells[mapping.date] || '', options.dateOrder);
+    const rawAmount = parseAmount(cells[mapping.amount] || '');
+    const description = cells[mapping.description] || '';
+    if (!date) issues.push('تاريخ غير صالح');
+    if (rawAmount === null || rawAmount === 0) issues.push('مبلغ غير صالح');
+    if (options.debitsOnly && rawAmount !== null && rawAmount > 0) issues.push('إيداع وليس مصروفًا');
+    if (!options.payerId) issues.push('اختر الدافع');
+    if (options.participants.length === 0) issues.push('اختر المشاركين');
+
+    const categoryText = mapping.category != null ? cells[mapping.category] || '' : '';
+    return {
+      line: index + offset + 1,
+      date: date || '',
+      description,
+      amount: Math.abs(rawAmount ?? 0),
+      currency: options.currency,
+      category: matchCategory(categoryText || description),
+      payerId: options.payerId || null,
+      participants: options.participants,
+      splitMode: SplitMode.EQUAL,
+      issues,
+      selected: issues.length === 0
+    };
+  });
+};
+
+const duplicateKey = (date: string, amount: number, description: string) =>
+  `${date.slice(0, 10)}|${amount.toFixed(2)}|${normalizeText(description)}`;
+
+/**
+ * Marks drafts matching an existing expense (or an earlier draft in
+ * the same file) on date, amount and description, and deselects them.
+ */
+export const flagDuplicates = async (groupId: string, drafts: ImportDraft[]): Promise<ImportDraft[]> => {
+  try {
+    const dates = drafts.map(draft => draft.date).filter(Boolean).sort();
+    const existing = new Map<string, string>();
+
+    if (dates.length > 0) {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select('id, date, amount, description')
+        .eq('groupId', groupId)
+        .is('deleted_at', null)
+        .gte('date', dates[0].slice(0, 10))
+        .lt('date', new Date(new Date(dates[dates.length - 1]).getTime() + DAY_MS).toISOString().slice(0, 10));
+      if (error) throw error;
+
+      ((data || []) as { id: string; date: string; amount: number | string; description: string }[]).forEach(row => {
+        existing.set(duplicateKey(row.date, Number(row.amount), row.description), row.id);
+      });
+    }
+
+    const seen = new Map<string, number>();
+    return drafts.map(draft => {
+      if (!draft.date) return draft;
+      const key = duplicateKey(draft.date, draft.amount, draft.description);
+      const duplicateOf = existing.get(key) ?? null;
+      const duplicateOfLine = seen.get(key) ?? null;
+      if (duplicateOfLine === null) seen.set(key, draft.line);
+      return {
+        ...draft,
+        duplicateOf,
+        duplicateOfLine,
+        selected: draft.selected && !duplicateOf && duplicateOfLine === null
+      };
+    });
+  } catch (error) {
+    throw createServiceError(error, 'فحص المصروفات المكررة');
+  }
+};
+
+// ============================================================
+// Import
+// ============================================================
+
+/**
+ * Validates the selected drafts and adds them, oldest first. A dry
+ * run stops after validation. Rows that fail are reported and the
+ * rest still go in.
+ */
+export const importExpenses = async (
+  groupId: string,
+  drafts: ImportDraft[],
+  { dryRun = false, baseCurrency }: ImportOptions
+): Promise<ImportResult> => {
+  if (!dryRun && !OfflineService.isOnline()) {
+    throw createServiceError(new Error('الاستيراد يحتاج اتصالاً بالإنترنت'), 'استيراد المصروفات');
+  }
+
+  const rates = new Map<string, number | null>();
+  const getRate = async (currency: string) => {
+    if (!rates.has(currency)) {
+      rates.set(currency, await CurrencyService.getExchangeRate(groupId, baseCurrency, currency));
+    }
+    return rates.get(currency) ?? null;
+  };
+
+  const result: ImportResult = { dryRun, imported: 0, failed: [] };
+  const selected = drafts
+    .filter(draft => draft.selected)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.line - b.line);
+
+  for (const draft of selected) {
+    try {
+      if (draft.issues.length > 0) throw new Error(draft.issues.join('، '));
+      if (!draft.payerId) throw new Error('لا يوجد دافع');
+
+      const exchangeRate = await getRate(draft.currency);
+      if (exchangeRate === null) {
+        throw new Error(`لا يوجد سعر صرف محفوظ لـ ${draft.currency}`);
+      }
+      calculateSplitShares(draft.amount, draft.participants, draft.splitMode, draft.splitInputs || {}, draft.currency);
+
+      if (!dryRun) {
+        await ExpenseService.addExpense({
+          groupId,
+          payerId: draft.payerId,
+          amount: draft.amount,
+          description: draft.description,
+          category: draft.category,
+          participants: draft.participants,
+          splitMode: draft.splitMode,
+          splitInputs: draft.splitInputs,
+          currency: draft.currency,
+          exchangeRate,
+          date: draft.date,
+          notify: false
+        });
+      }
+      result.imported += 1;
+    } catch (error) {
+      result.failed.push({
+        line: draft.line,
+        message: error instanceof Error ? error.message : 'تعذر استيراد السطر'
+      });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,276 @@
+import { supabase } from './supabaseClient';
+import { TransactionStatus, UserBalance } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, roundCurrency } from '../utils/currencyUtils';
+
+// ============================================================
+// BALANCE LEDGER
+// ============================================================
+// The one place member balances are worked out. Dashboard, Stats
+// and Settlements all read from here so every screen shows the same
+// number. The database function calculate_group_balances does the
+// maths; the client version below follows the same rules for
+// databases that don't have it yet:
+//   * a member's share of an expense comes only from its
+//     expense_splits row, so new members aren't charged for
+//     expenses from before they joined
+//   * expenses are converted with their stored exchange rate
+//   * balance = (paid - share) + sent - received
+// ============================================================
+
+export interface GroupBalanceOptions {
+  /** Count the group's shared (non-personal) debts and their settlements */
+  includeDebts?: boolean;
+}
+
+interface BalanceRow {
+  user_id: string;
+  total_paid: number | string;
+  total_share: number | string;
+  total_sent: number | string;
+  total_received: number | string;
+  balance: number | string;
+}
+
+interface GroupLedgerRow {
+  baseCurrency?: string | null;
+  members?: string[] | null;
+}
+
+interface ExpenseSummaryRow {
+  id: string;
+  payerId: string;
+  amount: number | string;
+  exchangeRate?: number | string | null;
+}
+
+interface SplitWithRateRow {
+  user_id: string;
+  amount: number | string;
+  expenses: { exchangeRate?: number | string | null } | null;
+}
+
+interface PaymentRow {
+  from: string;
+  to: string;
+  amount: number | string;
+  status: TransactionStatus | string;
+  debtId?: string | null;
+}
+
+interface DebtRow {
+  id: string;
+  from: string;
+  to: string;
+  amount: number | string;
+}
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+const PAYMENT_STATUSES = new Set<TransactionStatus>([
+  TransactionStatus.COMPLETED,
+  TransactionStatus.CONFIRMED
+]);
+
+const toNumber = (value: number | string | null | undefined): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return 0;
+};
+
+const toRate = (value: number | string | null | undefined) => (value == null ? 1 : toNumber(value));
+
+const accumulate = (map: Map<string, number>, key: string, delta: number) => {
+  map.set(key, (map.get(key) || 0) + delta);
+};
+
+const fetchGroupLedgerInfo = async (groupId: string): Promise<{ baseCurrency: string; members: string[] }> => {
+  const { data, error } = await supabase
+    .from('groups')
+    .select('"baseCurrency", members')
+    .eq('id', groupId)
+    .maybeSingle();
+  if (error) throw error;
+  const row = data as GroupLedgerRow | null;
+  return {
+    baseCurrency: row?.baseCurrency || DEFAULT_CURRENCY,
+    members: row?.members || []
+  };
+};
+
+export const getGroupBaseCurrency = async (groupId: string): Promise<string> => {
+  const { baseCurrency } = await fetchGroupLedgerInfo(groupId);
+  return baseCurrency;
+};
+
+const roundBalance = (balance: UserBalance, baseCurrency: string): UserBalance => ({
+  userId: balance.userId,
+  totalPaid: roundCurrency(balance.totalPaid, baseCurrency),
+  totalShare: roundCurrency(balance.totalShare, baseCurrency),
+  totalSent: roundCurrency(balance.totalSent, baseCurrency),
+  totalReceived: roundCurrency(balance.totalReceived, baseCurrency),
+  balance: roundCurrency(balance.balance, baseCurrency)
+});
+
+const mapBalanceRow = (row: BalanceRow): UserBalance => ({
+  userId: row.user_id,
+  totalPaid: toNumber(row.total_paid),
+  totalShare: toNumber(row.total_share),
+  totalSent: toNumber(row.total_sent),
+  totalReceived: toNumber(row.total_received),
+  balance: toNumber(row.balance)
+});
+
+// Shared debts of the group; personal ones never affect group balances
+const fetchGroupDebts = async (groupId: string): Promise<DebtRow[]> => {
+  const { data, error } = await supabase
+    .from('debts')
+    .select('id, "from", "to", amount')
+    .eq('groupId', groupId)
+    .eq('isPersonal', false);
+  if (error) throw error;
+  return (data || []) as DebtRow[];
+};
+
+// Same rules as calculate_group_balances, for databases without the new version
+const calculateBalancesLocally = async (
+  groupId: string,
+  members: string[],
+  includeDebts: boolean
+): Promise<UserBalance[]> => {
+  const [debts, expensesRes, splitsRes, paymentsRes] = await Promise.all([
+    includeDebts ? fetchGroupDebts(groupId) : Promise.resolve([] as DebtRow[]),
+    supabase
+      .from('expenses')
+      .select('id, "payerId", amount, "exchangeRate"')
+      .eq('groupId', groupId)
+      .is('deleted_at', null),
+    supabase
+      .from('expense_splits')
+      .select('user_id, amount, expenses!inner(id, "groupId", "exchangeRate", deleted_at)')
+      .eq('expenses.groupId', groupId)
+      .is('expenses.deleted_at', null),
+    supabase
+      .from('payments')
+      .select('"from", "to", amount, status, "debtId"')
+      .eq('groupId', groupId)
+      .is('deleted_at', null)
+  ]);
+
+  if (expensesRes.error) throw expensesRes.error;
+  if (splitsRes.error) throw splitsRes.error;
+  if (paymentsRes.error) throw paymentsRes.error;
+
+  const paidTotals = new Map<string, number>();
+  (expensesRes.data as ExpenseSummaryRow[]).forEach(expense => {
+    accumulate(paidTotals, expense.payerId, toNumber(expense.amount) * toRate(expense.exchangeRate));
+  });
+
+  const shareTotals = new Map<string, number>();
+  (splitsRes.data as unknown as SplitWithRateRow[]).forEach(split => {
+    accumulate(shareTotals, split.user_id, toNumber(split.amount) * toRate(split.expenses?.exchangeRate));
+  });
+
+  const sentTotals = new Map<string, number>();
+  const receivedTotals = new Map<string, number>();
+
+  // A loan works like a payment from lender to borrower, and its
+  // settlement like the payment back, so the two cancel out once repaid
+  const includedDebtIds = new Set(debts.map(debt => debt.id));
+  debts.forEach(debt => {
+    accumulate(sentTotals, debt.to, toNumber(debt.amount));
+    accumulate(receivedTotals, debt.from, toNumber(debt.amount));
+  });
+
+  (paymentsRes.data as PaymentRow[]).forEach(payment => {
+    if (!PAYMENT_STATUSES.has(payment.status as TransactionStatus)) {
+      return;
+    }
+    // Debt settlements only count alongside the debt they settle
+    if (payment.debtId && !includedDebtIds.has(payment.debtId)) {
+      return;
+    }
+    accumulate(sentTotals, payment.from, toNumber(payment.amount));
+    accumulate(receivedTotals, payment.to, toNumber(payment.amount));
+  });
+
+  const userIds = new Set<string>([
+    ...members,
+    ...paidTotals.keys(),
+    ...shareTotals.keys(),
+    ...sentTotals.keys(),
+    ...receivedTotals.keys()
+  ]);
+
+  return Array.from(userIds).map(userId => {
+    const totalPaid = paidTotals.get(userId) || 0;
+    const totalShare = shareTotals.get(userId) || 0;
+    const totalSent = sentTotals.get(userId) || 0;
+    const totalReceived = receivedTotals.get(userId) || 0;
+
+    // - (totalPaid - totalShare): net credit/debt from expenses alone
+    // - +totalSent: sending money to others INCREASES my credit
+    // - -totalReceived: receiving money DECREASES my credit (debt settled)
+    return {
+      userId,
+      totalPaid,
+      totalShare,
+      totalSent,
+      totalReceived,
+      balance: (totalPaid - totalShare) + totalSent - totalReceived
+    };
+  });
+};
+
+/**
+ * Net balance per member in the group's base currency, highest first.
+ * Every current member is listed, with zeros if they have no activity yet.
+ */
+export const getGroupBalances = async (
+  groupId: string,
+  { includeDebts = false }: GroupBalanceOptions = {}
+): Promise<UserBalance[]> => {
+  if (!groupId) {
+    throw createServiceError(new Error('groupId is required to calculate balances'), 'حساب الأرصدة');
+  }
+
+  try {
+    const [{ baseCurrency, members }, rpc] = await Promise.all([
+      fetchGroupLedgerInfo(groupId),
+      supabase.rpc('calculate_group_balances', { p_group_id: groupId, p_include_debts: includeDebts })
+    ]);
+
+    let balances: UserBalance[];
+    if (!rpc.error) {
+      balances = ((rpc.data || []) as BalanceRow[]).map(mapBalanceRow);
+    } else if (MISSING_FUNCTION_CODES.has(rpc.error.code)) {
+      balances = await calculateBalancesLocally(groupId, members, includeDebts);
+    } else {
+      throw rpc.error;
+    }
+
+    return balances
+      .map(balance => roundBalance(balance, baseCurrency))
+      .sort((a, b) => b.balance - a.balance);
+  } catch (error) {
+    throw createServiceError(error, 'حساب الأرصدة');
+  }
+};
+
+/** One member's entry from getGroupBalances, or zeros if they have none */
+export const getUserBalance = async (
+  groupId: string,
+  userId: string,
+  options: GroupBalanceOptions = {}
+): Promise<UserBalance> => {
+  const balances = await getGroupBalances(groupId, options);
+  return balances.find(balance => balance.userId === userId) || {
+    userId,
+    totalPaid: 0,
+    totalShare: 0,
+    totalSent: 0,
+    totalReceived: 0,
+    balance: 0
+  };
+};
@@ -1,6 +1,7 @@
 import { supabase } from './supabaseClient';
-import { Notification, NotificationType } from '../types';
+import { Notification, NotificationChannel, NotificationPreferences, NotificationType } from '../types';
 import { createServiceError } from '../utils/errorHandler';
+import * as PushService from './PushService';
 
 const getNotificationTitle = (type: NotificationType): string => {
   const titles: Record<NotificationType, string> = {
@@ -10,15 +11,21 @@ const getNotificationTitle = (type: NotificationType): string => {
     [NotificationType.DEBT_REMINDER]: 'تذكير بالدين',
     [NotificationType.BILL_DUE]: 'فاتورة قادمة',
     [NotificationType.NEW_MEMBER]: 'عضو جديد',
-    [NotificationType.CHAT_MESSAGE]: 'رسالة جديدة'
+    [NotificationType.CHAT_MESSAGE]: 'رسالة جديدة',
+    [NotificationType.BUDGET_ALERT]: 'تنبيه الميزانية',
+    [NotificationType.DAILY_DIGEST]: 'ملخص اليوم'
   };
   return titles[type] || 'إشعار';
 };
 
+/** Optional group, payload and deep link attached to a notification */
+export type NotificationExtras = Pick<Notification, 'groupId' | 'data' | 'actionUrl'>;
+
 const buildNotification = (
   userId: string,
   message: string,
-  type: NotificationType
+  type: NotificationType,
+  extras: NotificationExtras = {}
 ): Notification => ({
   id: 'n' + Date.now() + Math.random().toString(36).slice(2, 9),
   userId,
@@ -26,9 +33,173 @@ const buildNotification = (
   title: getNotificationTitle(type),
   message,
   read: false,
-  date: Date.now()
+  date: Date.now(),
+  ...extras
 });
 
+// ============================================================
+// PREFERENCES
+// ============================================================
+// Each user picks push / in-app / off per type, quiet hours that
+// hold back pushes, and a daily digest instead of single pushes
+// (migration 016). The database and the send-push function apply
+// them to every notification, whoever sends it (023, 025, 026).
+// ============================================================
+
+const DEFAULT_CHANNEL: NotificationChannel = 'push';
+const DEFAULT_DIGEST_HOUR = 20;
+
+// PostgREST / Postgres codes for a table or function that isn't deployed yet
+const MISSING_TABLE_CODES = new Set(['PGRST205', '42P01']);
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+interface NotificationPreferencesRow {
+  user_id: string;
+  channels: NotificationPreferences['channels'] | null;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  time_zone: string;
+  daily_digest: boolean;
+  digest_hour: number;
+}
+
+const mapPreferencesRow = (row: NotificationPreferencesRow): NotificationPreferences => ({
+  userId: row.user_id,
+  channels: row.channels ?? {},
+  quietHoursStart: row.quiet_hours_start,
+  quietHoursEnd: row.quiet_hours_end,
+  timeZone: row.time_zone,
+  dailyDigest: row.daily_digest,
+  digestHour: row.digest_hour
+});
+
+export const getDefaultNotificationPreferences = (userId: string): NotificationPreferences => ({
+  userId,
+  channels: {},
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  dailyDigest: false,
+  digestHour: DEFAULT_DIGEST_HOUR
+});
+
+export const getNotificationChannel = (
+  preferences: NotificationPreferences | undefined,
+  type: NotificationType
+): NotificationChannel => preferences?.channels[type] ?? DEFAULT_CHANNEL;
+
+// Minutes after midnight on the wall clock of the given zone
+const minutesInZone = (now: Date, timeZone: string) => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+    const part = (type: string) => Number(parts.find(entry => entry.type === type)?.value ?? 0);
+    return part('hour') * 60 + part('minute');
+  } catch {
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+};
+
+/** Quiet hours may run past midnight, e.g. 23:00-07:00 */
+export const isInQuietHours = (preferences: NotificationPreferences, now: Date = new Date()): boolean => {
+  const { quietHoursStart: start, quietHoursEnd: end } = preferences;
+  if (start === null || end === null || start === end) return false;
+  const minutes = minutesInZone(now, preferences.timeZone);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+// Users without a row (or a database without the table) get the defaults
+const fetchPreferences = async (userIds: string[]): Promise<Map<string, NotificationPreferences>> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .in('user_id', Array.from(new Set(userIds)));
+  if (error) {
+    if (MISSING_TABLE_CODES.has(error.code)) return new Map();
+    throw error;
+  }
+  return new Map(
+    ((data || []) as NotificationPreferencesRow[]).map(row => [row.user_id, mapPreferencesRow(row)])
+  );
+};
+
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  try {
+    const preferences = await fetchPreferences([userId]);
+    return preferences.get(userId) ?? getDefaultNotificationPreferences(userId);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل إعدادات التنبيهات');
+  }
+};
+
+export const saveNotificationPreferences = async (preferences: NotificationPreferences): Promise<void> => {
+  try {
+    const { error } = await supabase.from('notification_preferences').upsert(
+      {
+        user_id: preferences.userId,
+        channels: preferences.channels,
+        quiet_hours_start: preferences.quietHoursStart,
+        quiet_hours_end: preferences.quietHoursEnd,
+        time_zone: preferences.timeZone,
+        daily_digest: preferences.dailyDigest,
+        digest_hour: preferences.digestHour
+      },
+      { onConflict: 'user_id' }
+    );
+    if (error) throw error;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر حفظ إعدادات التنبيهات');
+  }
+};
+
+/** Sends the signed-in user's daily digest if it's due, then any pushes still owed */
+export const processNotificationDigests = async (): Promise<{ digests: number }> => {
+  try {
+    const { data, error } = await supabase.rpc('process_notification_digests');
+    if (error) {
+      // Without migration 016 there are no digests to send
+      if (MISSING_FUNCTION_CODES.has(error.code)) return { digests: 0 };
+      throw error;
+    }
+
+    // The new digest and anything quiet hours held back
+    try {
+      await PushService.sendPendingPushes();
+    } catch {
+      // Still pending; the next run or the scheduler sends them
+    }
+    return { digests: Number((data as { digests?: number } | null)?.digests ?? 0) };
+  } catch (error) {
+    throw createServiceError(error, 'تعذر إرسال ملخص التنبيهات');
+  }
+};
+
+// ============================================================
+// SENDING
+// ============================================================
+
+const pushNotifications = async (notifications: Notification[]) => {
+  try {
+    await PushService.sendPush(notifications);
+  } catch {
+    // Push is best-effort; the notification is saved and the app still shows it
+  }
+};
+
+// Saves the notifications and asks for them to be pushed. The database
+// drops the ones a recipient turned off (016) and decides which pushes
+// are owed (025, 026); send-push holds back those in quiet hours.
+const deliverNotifications = async (notifications: Notification[]) => {
+  if (notifications.length === 0) return;
+  const { error } = await supabase.from('notifications').insert(notifications);
+  if (error) throw error;
+  await pushNotifications(notifications);
+};
+
 export const getNotifications = async (userId?: string): Promise<Notification[]> => {
   try {
     let query = supabase.from('notifications').select('*').order('date', { ascending: false });
@@ -46,12 +217,27 @@ export const getNotifications = async (userId?: string): Promise<Notification[]>
 export const addNotificationToUser = async (
   userId: string,
   message: string,
-  type: NotificationType
+  type: NotificationType,
+  extras?: NotificationExtras
 ): Promise<void> => {
   try {
-    const notification = buildNotification(userId, message, type);
-    const { error } = await supabase.from('notifications').insert(notification);
-    if (error) throw error;
+    await deliverNotifications([buildNotification(userId, message, type, extras)]);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر إرسال الإشعار');
+  }
+};
+
+/** Same notification for several users, e.g. an expense's other participants */
+export const addNotificationToUsers = async (
+  userIds: string[],
+  message: string,
+  type: NotificationType,
+  extras?: NotificationExtras
+): Promise<void> => {
+  try {
+    await deliverNotifications(
+      Array.from(new Set(userIds)).map(userId => buildNotification(userId, message, type, extras))
+    );
   } catch (error) {
     throw createServiceError(error, 'تعذر إرسال الإشعار');
   }
@@ -60,7 +246,8 @@ export const addNotificationToUser = async (
 export const addNotification = async (
   groupIdOrUserId: string,
   message: string,
-  type: NotificationType = NotificationType.EXPENSE_ADDED
+  type: NotificationType = NotificationType.EXPENSE_ADDED,
+  extras?: NotificationExtras
 ): Promise<void> => {
   try {
     const { data: group, error } = await supabase
@@ -72,13 +259,15 @@ export const addNotification = async (
     if (error) throw error;
 
     if (group?.members?.length) {
-      const notifications = group.members.map((memberId: string) => buildNotification(memberId, message, type));
-      const { error: insertError } = await supabase.from('notifications').insert(notifications);
-      if (insertError) throw insertError;
+      await deliverNotifications(
+        group.members.map((memberId: string) =>
+          buildNotification(memberId, message, type, { groupId: group.id, ...extras })
+        )
+      );
       return;
     }
 
-    await addNotificationToUser(groupIdOrUserId, message, type);
+    await addNotificationToUser(groupIdOrUserId, message, type, extras);
   } catch (error) {
     throw createServiceError(error, 'تعذر إرسال الإشعار');
   }
@@ -117,3 +306,22 @@ export const getUnreadNotificationCount = async (userId: string): Promise<number
     throw createServiceError(error, 'تعذر حساب الإشعارات غير المقروءة');
   }
 };
+
+/** Unread counts keyed by group id; account-level notifications are under '' */
+export const getUnreadCountsByGroup = async (userId: string): Promise<Record<string, number>> => {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('"groupId"')
+      .eq('userId', userId)
+      .eq('read', false);
+    if (error) throw error;
+    return ((data || []) as { groupId: string | null }[]).reduce<Record<string, number>>((counts, row) => {
+      const key = row.groupId || '';
+      counts[key] = (counts[key] || 0) + 1;
+      return counts;
+    }, {});
+  } catch (error) {
+    throw createServiceError(error, 'تعذر حساب الإشعارات غير المقروءة');
+  }
+};
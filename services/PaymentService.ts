@@ -1,8 +1,12 @@
 import { supabase } from './supabaseClient';
 import { Payment, TransactionStatus, NotificationType } from '../types';
 import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, formatCurrency } from '../utils/currencyUtils';
+import * as LedgerService from './LedgerService';
 import * as NotificationService from './NotificationService';
 import * as UserService from './UserService';
+import * as TrashService from './TrashService';
+import * as OfflineService from './offlineService';
 
 interface PaymentFilter {
   groupId?: string;
@@ -22,15 +26,47 @@ const fetchUserName = async (userId: string): Promise<string> => {
   }
 };
 
+// Payments are in the group's base currency; ones outside a group
+// (personal debt settlements) use the default
+const formatPaymentAmount = async (payment: Pick<Payment, 'amount' | 'groupId'>): Promise<string> => {
+  let currency = DEFAULT_CURRENCY;
+  if (payment.groupId) {
+    try {
+      currency = await LedgerService.getGroupBaseCurrency(payment.groupId);
+    } catch {
+      // Keep the default rather than fail over a label
+    }
+  }
+  return formatCurrency(Number(payment.amount), currency);
+};
+
 export const getPayments = async (filter?: PaymentFilter): Promise<Payment[]> => {
   try {
-    let query = supabase.from('payments').select('*').order('date', { ascending: false });
+    if (filter?.groupId && !OfflineService.isOnline()) {
+      const cached = (await OfflineService.getCachedPayments(filter.groupId)) as Payment[];
+      return [...cached].sort((a, b) => b.date.localeCompare(a.date));
+    }
+
+    let query = supabase
+      .from('payments')
+      .select('*')
+      .is('deleted_at', null)
+      .order('date', { ascending: false });
     if (filter?.groupId) {
       query = query.eq('groupId', filter.groupId);
     }
     const { data, error } = await query;
     if (error) throw error;
-    return (data || []) as Payment[];
+
+    const payments = (data || []) as Payment[];
+    if (filter?.groupId) {
+      try {
+        await OfflineService.cachePayments(filter.groupId, payments);
+      } catch {
+        // Cache is best-effort
+      }
+    }
+    return payments;
   } catch (error) {
     throw createServiceError(error, 'فشل تحميل المدفوعات');
   }
@@ -42,11 +78,12 @@ export const addPayment = async (payment: Payment): Promise<Payment> => {
     const { data, error } = await supabase.from('payments').insert(payload).select().single();
     if (error) throw error;
 
-    const fromName = await fetchUserName(payment.from);
+    const [fromName, amountText] = await Promise.all([fetchUserName(payment.from), formatPaymentAmount(payment)]);
     await NotificationService.addNotificationToUser(
       payment.to,
-      `${fromName} أرسل لك ${payment.amount} ج.م - في انتظار تأكيدك`,
-      NotificationType.PAYMENT_RECEIVED
+      `${fromName} أرسل لك ${amountText} - في انتظار تأكيدك`,
+      NotificationType.PAYMENT_RECEIVED,
+      { groupId: payment.groupId }
     );
 
     return data as Payment;
@@ -80,12 +117,22 @@ export const confirmPayment = async (paymentId: string): Promise<boolean> => {
 
     if (updateError) throw updateError;
 
+    // A confirmed debt settlement closes the debt
+    if (data?.debtId) {
+      const { error: debtError } = await supabase
+        .from('debts')
+        .update({ status: 'paid', settledAt: new Date().toISOString() })
+        .eq('id', data.debtId);
+      if (debtError) throw debtError;
+    }
+
     if (data) {
-      const receiverName = await fetchUserName(data.to);
+      const [receiverName, amountText] = await Promise.all([fetchUserName(data.to), formatPaymentAmount(data)]);
       await NotificationService.addNotificationToUser(
         data.from,
-        `${receiverName} أكد استلام ${data.amount} ج.م`,
-        NotificationType.PAYMENT_CONFIRMED
+        `${receiverName} أكد استلام ${amountText}`,
+        NotificationType.PAYMENT_CONFIRMED,
+        { groupId: data.groupId }
       );
     }
 
@@ -97,13 +144,79 @@ export const confirmPayment = async (paymentId: string): Promise<boolean> => {
 
 export const rejectPayment = async (paymentId: string): Promise<boolean> => {
   try {
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('payments')
       .update({ status: TransactionStatus.REJECTED })
-      .eq('id', paymentId);
+      .eq('id', paymentId)
+      .select('"debtId"')
+      .maybeSingle();
     if (error) throw error;
+
+    // Reopen the debt so it can be settled again
+    if (data?.debtId) {
+      const { error: debtError } = await supabase
+        .from('debts')
+        .update({ paymentId: null })
+        .eq('id', data.debtId);
+      if (debtError) throw debtError;
+    }
     return true;
   } catch (error) {
     throw createServiceError(error, 'تعذر رفض عملية الدفع');
   }
 };
+
+// A deleted settlement payment no longer settles its debt, so the
+// debt is reopened; restoring the payment links it up again.
+export const deletePayment = async (paymentId: string): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('"debtId"')
+      .eq('id', paymentId)
+      .maybeSingle();
+    if (error) throw error;
+
+    await TrashService.softDeleteRecord('payments', paymentId);
+
+    if (data?.debtId) {
+      const { error: debtError } = await supabase
+        .from('debts')
+        .update({ status: 'active', paymentId: null, settledAt: null })
+        .eq('id', data.debtId)
+        .eq('paymentId', paymentId);
+      if (debtError) throw debtError;
+    }
+    return true;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر حذف عملية الدفع');
+  }
+};
+
+export const restorePayment = async (paymentId: string): Promise<Payment> => {
+  try {
+    await TrashService.restoreRecord('payments', paymentId);
+
+    const { data, error } = await supabase.from('payments').select('*').eq('id', paymentId).single();
+    if (error) throw error;
+    const payment = data as Payment;
+
+    // Only relink if nothing else has settled the debt in the meantime
+    if (payment.debtId && payment.status !== TransactionStatus.REJECTED) {
+      const confirmed = payment.status === TransactionStatus.CONFIRMED;
+      const { error: debtError } = await supabase
+        .from('debts')
+        .update({
+          paymentId,
+          ...(confirmed ? { status: 'paid', settledAt: payment.confirmed_at || new Date().toISOString() } : {})
+        })
+        .eq('id', payment.debtId)
+        .is('paymentId', null);
+      if (debtError) throw debtError;
+    }
+
+    return payment;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر استرجاع عملية الدفع');
+  }
+};
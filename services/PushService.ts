@@ -0,0 +1,263 @@
+import { supabase } from './supabaseClient';
+import { Notification as AppNotification } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+
+// ============================================================
+// WEB PUSH
+// ============================================================
+// Subscribes this browser to VAPID Web Push and keeps the
+// subscription in user_devices (migration 015), and delivers
+// pushes for NotificationService through a pluggable sender:
+//   * edgeFunctionPushSender (default) hands the saved
+//     notifications' ids to the send-push edge function, which
+//     holds the VAPID private key and applies each recipient's
+//     preferences
+//   * localPushSender shows them on this device only, for working
+//     without the edge function (VITE_PUSH_SENDER=local)
+// The service worker (public/push-sw.js) shows the notification
+// and opens its actionUrl when tapped.
+// ============================================================
+
+/** What the service worker gets in each push */
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** Route inside the app, e.g. /bills */
+  url?: string;
+  /** Notifications with the same tag replace each other */
+  tag?: string;
+  notificationId?: string;
+  groupId?: string;
+}
+
+export interface PushSender {
+  /** Pushes notifications that are already saved */
+  send: (notifications: AppNotification[]) => Promise<void>;
+  /** Pushes what the signed-in user is still owed, e.g. once quiet hours end */
+  sendPending: () => Promise<void>;
+}
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+const VAPID_PUBLIC_KEY = (import.meta.env.VITE_VAPID_PUBLIC_KEY as string) || '';
+const PUSH_ICON = '/manifest-icon-192.png';
+
+/** Same payload send-push builds from a notification row */
+export const toPushPayload = (notification: AppNotification): PushPayload => ({
+  title: notification.title,
+  body: notification.message,
+  url: notification.actionUrl,
+  tag: notification.type,
+  notificationId: notification.id,
+  groupId: notification.groupId
+});
+
+export const edgeFunctionPushSender: PushSender = {
+  send: async notifications => {
+    const notificationIds = notifications.map(notification => notification.id);
+    const { error } = await supabase.functions.invoke('send-push', { body: { notificationIds } });
+    if (error) throw error;
+  },
+  sendPending: async () => {
+    const { error } = await supabase.functions.invoke('send-push', { body: { pending: true } });
+    if (error) throw error;
+  }
+};
+
+export const localPushSender: PushSender = {
+  // A fan-out is one message, so it's shown once
+  send: async ([first]) => {
+    if (!first || !isPushSupported() || Notification.permission !== 'granted') return;
+    const payload = toPushPayload(first);
+    const registration = await navigator.serviceWorker.ready;
+    await registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: PUSH_ICON,
+      tag: payload.tag,
+      dir: 'rtl',
+      lang: 'ar',
+      data: { url: payload.url || '/', notificationId: payload.notificationId, groupId: payload.groupId }
+    });
+  },
+  // Held-back pushes only exist on the server
+  sendPending: async () => {}
+};
+
+let activeSender: PushSender =
+  import.meta.env.VITE_PUSH_SENDER === 'local' ? localPushSender : edgeFunctionPushSender;
+
+/** Swaps the sender, e.g. for a stub in development; null turns pushes off */
+export const setPushSender = (sender: PushSender | null) => {
+  activeSender = sender ?? { send: async () => {}, sendPending: async () => {} };
+};
+
+export const sendPush = async (notifications: AppNotification[]): Promise<void> => {
+  if (notifications.length === 0) return;
+  try {
+    await activeSender.send(notifications);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر إرسال الإشعار للأجهزة');
+  }
+};
+
+export const sendPendingPushes = async (): Promise<void> => {
+  try {
+    await activeSender.sendPending();
+  } catch (error) {
+    throw createServiceError(error, 'تعذر إرسال التنبيهات المؤجلة');
+  }
+};
+
+// ------------------------------------------------------------
+// This device's subscription
+// ------------------------------------------------------------
+
+export const isPushSupported = () =>
+  typeof window !== 'undefined'
+  && 'serviceWorker' in navigator
+  && 'PushManager' in window
+  && 'Notification' in window;
+
+export const getPushPermission = (): NotificationPermission | 'unsupported' =>
+  isPushSupported() ? Notification.permission : 'unsupported';
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+const describeDevice = () => {
+  const agent = navigator.userAgent;
+  if (/iPhone|iPad/i.test(agent)) return 'iOS';
+  if (/Android/i.test(agent)) return 'Android';
+  if (/Mac/i.test(agent)) return 'Mac';
+  if (/Windows/i.test(agent)) return 'Windows';
+  return 'Web';
+};
+
+const saveSubscription = async (userId: string, subscription: PushSubscription) => {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error('Push subscription is missing its keys');
+  }
+
+  const { error } = await supabase.rpc('register_push_device', {
+    p_endpoint: endpoint,
+    p_p256dh: keys.p256dh,
+    p_auth: keys.auth,
+    p_device_name: describeDevice()
+  });
+  if (!error) return;
+  if (!MISSING_FUNCTION_CODES.has(error.code)) throw error;
+
+  // Without the function another account may keep this endpoint until it's pruned
+  const { error: upsertError } = await supabase.from('user_devices').upsert(
+    {
+      user_id: userId,
+      device_token: endpoint,
+      device_type: 'web',
+      device_name: describeDevice(),
+      push_p256dh: keys.p256dh,
+      push_auth: keys.auth,
+      is_active: true,
+      last_used_at: new Date().toISOString()
+    },
+    { onConflict: 'user_id,device_token' }
+  );
+  if (upsertError) throw upsertError;
+};
+
+/**
+ * Asks for notification permission (if needed), subscribes this
+ * browser and registers it for the user. Returns false when the user
+ * declines or the browser can't do Web Push.
+ */
+export const enablePush = async (userId: string): Promise<boolean> => {
+  if (!isPushSupported()) return false;
+  try {
+    if (!VAPID_PUBLIC_KEY) {
+      throw new Error('VITE_VAPID_PUBLIC_KEY is not set');
+    }
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return false;
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      ?? await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+      });
+    await saveSubscription(userId, subscription);
+    return true;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تفعيل إشعارات الجهاز');
+  }
+};
+
+// Unlike serviceWorker.ready this doesn't wait forever when no worker is registered
+const getCurrentSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+const deactivateDevice = async (endpoint: string) => {
+  const { error } = await supabase
+    .from('user_devices')
+    .update({ is_active: false })
+    .eq('device_token', endpoint);
+  if (error) throw error;
+};
+
+/** Unsubscribes this browser and stops pushes to it */
+export const disablePush = async (): Promise<void> => {
+  if (!isPushSupported()) return;
+  try {
+    const subscription = await getCurrentSubscription();
+    if (!subscription) return;
+    await deactivateDevice(subscription.endpoint);
+    await subscription.unsubscribe();
+  } catch (error) {
+    throw createServiceError(error, 'تعذر إيقاف إشعارات الجهاز');
+  }
+};
+
+/**
+ * Stops pushes to this browser for the signed-in user but keeps the
+ * subscription, so the next sign-in can pick it up again. Call it
+ * before signing out; the device row is only writable while signed in.
+ */
+export const detachPushDevice = async (): Promise<void> => {
+  if (getPushPermission() !== 'granted') return;
+  try {
+    const subscription = await getCurrentSubscription();
+    if (subscription) await deactivateDevice(subscription.endpoint);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر إيقاف إشعارات الجهاز');
+  }
+};
+
+/** Whether this browser currently has a push subscription */
+export const isPushEnabled = async (): Promise<boolean> => {
+  if (getPushPermission() !== 'granted') return false;
+  return (await getCurrentSubscription()) !== null;
+};
+
+/**
+ * Re-registers an existing subscription on start-up, so the device
+ * follows whoever is signed in and browsers that rotated their
+ * endpoint stay reachable. Never prompts.
+ */
+export const refreshPushSubscription = async (userId: string): Promise<void> => {
+  if (getPushPermission() !== 'granted') return;
+  try {
+    const subscription = await getCurrentSubscription();
+    if (subscription) await saveSubscription(userId, subscription);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحديث إشعارات الجهاز');
+  }
+};
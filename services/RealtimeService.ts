@@ -0,0 +1,162 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import * as OfflineService from './offlineService';
+
+// ============================================================
+// REALTIME
+// ============================================================
+// Postgres change feeds for one table within one group. Every
+// change is mapped to the app's shape, written to the IndexedDB
+// cache and handed over as an upsert or a delete, so pages patch
+// their state instead of reloading. Soft deletes (deleted_at set)
+// arrive as deletes. A channel that errors is reopened with
+// backoff; useRealtimeTable reopens it when the network returns.
+// ============================================================
+
+/** Group-scoped tables with a "groupId" column and an offline store of the same name */
+export type RealtimeTable = 'expenses' | 'payments' | 'shopping_items' | 'bills' | 'chat_messages';
+
+export type RealtimeChange<T> =
+  | { type: 'upsert'; record: T }
+  | { type: 'delete'; id: string };
+
+export type RealtimeRow = Record<string, unknown> & { id?: string; deleted_at?: string | null };
+
+export interface RealtimeSubscriptionOptions<T> {
+  onChange: (change: RealtimeChange<T>) => void;
+  /** Called once a dropped channel is back; changes in between were missed */
+  onResync?: () => void;
+  /** Turns the raw row into the app's shape, e.g. to load related rows */
+  map?: (row: RealtimeRow) => T | Promise<T>;
+}
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+
+let channelCounter = 0;
+
+const toChange = async <T>(
+  payload: RealtimePostgresChangesPayload<RealtimeRow>,
+  map?: RealtimeSubscriptionOptions<T>['map']
+): Promise<RealtimeChange<T> | null> => {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old.id;
+    return id ? { type: 'delete', id: String(id) } : null;
+  }
+
+  const row = payload.new;
+  if (!row.id) return null;
+  if (row.deleted_at) return { type: 'delete', id: String(row.id) };
+  return { type: 'upsert', record: map ? await map(row) : (row as unknown as T) };
+};
+
+// A failed write only leaves the offline copy stale until the next full load
+const patchCache = async <T>(table: RealtimeTable, change: RealtimeChange<T>) => {
+  try {
+    if (change.type === 'delete') {
+      await OfflineService.deleteFromStore(table, change.id);
+    } else {
+      await OfflineService.saveToStore(table, change.record as unknown as { id: string });
+    }
+  } catch {
+    // Cache is best-effort
+  }
+};
+
+/**
+ * Listens to inserts, updates and deletes on a table for one group.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToGroupTable = <T extends { id: string }>(
+  table: RealtimeTable,
+  groupId: string,
+  options: RealtimeSubscriptionOptions<T>
+): (() => void) => {
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let hasConnected = false;
+  let closed = false;
+  // Changes are applied in arrival order, even when mapping one is async
+  let pending = Promise.resolve();
+
+  const handlePayload = (payload: RealtimePostgresChangesPayload<RealtimeRow>) => {
+    pending = pending.then(async () => {
+      try {
+        const change = await toChange(payload, options.map);
+        if (!change || closed) return;
+        await patchCache(table, change);
+        options.onChange(change);
+      } catch (error) {
+        console.error(`Realtime ${table} change failed:`, error);
+      }
+    });
+  };
+
+  const disconnect = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (channel) {
+      void supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+
+  const connect = () => {
+    if (closed) return;
+    channelCounter += 1;
+    channel = supabase
+      .channel(`realtime:${table}:${groupId}:${channelCounter}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table,
+        filter: `groupId=eq.${groupId}`
+      }, handlePayload)
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          if (hasConnected) options.onResync?.();
+          hasConnected = true;
+          attempts = 0;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          scheduleRetry();
+        }
+      });
+  };
+
+  // Offline there's nothing to retry; the hook reconnects once we're back
+  const scheduleRetry = () => {
+    if (closed || retryTimer) return;
+    disconnect();
+    if (!OfflineService.isOnline()) return;
+    const delay = Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+    attempts += 1;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    disconnect();
+  };
+};
+
+/** Applies a change to a list; inserts go first unless `compare` orders the list */
+export const applyRealtimeChange = <T extends { id: string }>(
+  items: T[],
+  change: RealtimeChange<T>,
+  compare?: (a: T, b: T) => number
+): T[] => {
+  if (change.type === 'delete') {
+    return items.filter(item => item.id !== change.id);
+  }
+  const { record } = change;
+  const next = items.some(item => item.id === record.id)
+    ? items.map(item => (item.id === record.id ? record : item))
+    : [record, ...items];
+  return compare ? [...next].sort(compare) : next;
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UserBalance } from '../types';
+import { EXACT_SOLVER_MAX_PARTICIPANTS, simplifyDebts } from './SettlementService';
+
+// simplifyDebts is pure; the client only has to exist for the module to load
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const balancesOf = (amounts: Record<string, number>): UserBalance[] =>
+  Object.entries(amounts).map(([userId, balance]) => ({
+    userId,
+    totalPaid: 0,
+    totalShare: 0,
+    totalSent: 0,
+    totalReceived: 0,
+    balance
+  }));
+
+const netAfterTransfers = (balances: UserBalance[], transfers: ReturnType<typeof simplifyDebts>) => {
+  const net = new Map(balances.map(b => [b.userId, Math.round(b.balance * 100)]));
+  transfers.forEach(transfer => {
+    net.set(transfer.from, (net.get(transfer.from) ?? 0) + Math.round(transfer.amount * 100));
+    net.set(transfer.to, (net.get(transfer.to) ?? 0) - Math.round(transfer.amount * 100));
+  });
+  return net;
+};
+
+// Greedy needs 4 transfers; {a, c, e} and {b, d} settle separately in 3
+const SPLITTABLE = { a: 10, b: 5, c: -7, d: -5, e: -3 };
+
+// SPLITTABLE twice (second copy x10) plus a matched pair: 12 people,
+// optimum 3 + 3 + 1 = 7 transfers, greedy 9
+const TWELVE = {
+  ...SPLITTABLE,
+  a2: 100, b2: 50, c2: -70, d2: -50, e2: -30,
+  p: 200, q: -200
+};
+
+describe('simplifyDebts', () => {
+  it('settles every balance with either strategy', () => {
+    const balances = balancesOf(SPLITTABLE);
+    for (const strategy of ['greedy', 'exact'] as const) {
+      const net = netAfterTransfers(balances, simplifyDebts(balances, { strategy }));
+      expect([...net.values()].every(cents => cents === 0)).toBe(true);
+    }
+  });
+
+  it('uses fewer transfers with the exact solver when the group splits into zero-sum parts', () => {
+    const balances = balancesOf(SPLITTABLE);
+    expect(simplifyDebts(balances, { strategy: 'greedy' })).toHaveLength(4);
+    expect(simplifyDebts(balances, { strategy: 'exact' })).toHaveLength(3);
+  });
+
+  it(`solves exactly for ${EXACT_SOLVER_MAX_PARTICIPANTS} participants`, () => {
+    const balances = balancesOf(TWELVE);
+    expect(balances).toHaveLength(EXACT_SOLVER_MAX_PARTICIPANTS);
+    expect(simplifyDebts(balances, { strategy: 'greedy' })).toHaveLength(9);
+    expect(simplifyDebts(balances, { strategy: 'exact' })).toHaveLength(7);
+  });
+
+  it('falls back to greedy above the exact solver limit', () => {
+    const balances = balancesOf({ ...TWELVE, r: 300, s: -300 });
+    const greedy = simplifyDebts(balances, { strategy: 'greedy' });
+    expect(greedy).toHaveLength(10);
+    expect(simplifyDebts(balances, { strategy: 'exact' })).toEqual(greedy);
+  });
+
+  it('ignores balances within a cent of zero', () => {
+    const transfers = simplifyDebts(balancesOf({ a: 5, b: -5, c: 0.01 }));
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0]).toMatchObject({ from: 'b', to: 'a', amount: 5 });
+  });
+
+  it('trims rounding drift from the largest balance on the heavier side', () => {
+    // Debts add up to a cent more than the credit
+    const transfers = simplifyDebts(balancesOf({ a: 10, b: -4.99, c: -5.02 }));
+    const paid = transfers.reduce((sum, transfer) => sum + Math.round(transfer.amount * 100), 0);
+    expect(paid).toBe(1000);
+    expect(transfers.find(transfer => transfer.from === 'b')?.amount).toBe(4.99);
+    expect(transfers.find(transfer => transfer.from === 'c')?.amount).toBe(5.01);
+  });
+
+  it('explains a transfer with direct shares first, then shares routed through it', () => {
+    // a paid 30 for a, b and c; c paid 12 for b and c
+    const expenses = [
+      {
+        id: 'rent',
+        description: 'Rent',
+        date: '2026-01-01',
+        payerId: 'a',
+        splits: [
+          { userId: 'a', amount: 10 },
+          { userId: 'b', amount: 10 },
+          { userId: 'c', amount: 10 }
+        ]
+      },
+      {
+        id: 'groceries',
+        description: 'Groceries',
+        date: '2026-01-02',
+        payerId: 'c',
+        splits: [
+          { userId: 'b', amount: 6 },
+          { userId: 'c', amount: 6 }
+        ]
+      }
+    ];
+
+    const transfers = simplifyDebts(balancesOf({ a: 20, b: -16, c: -4 }), { expenses });
+    const fromB = transfers.find(transfer => transfer.from === 'b');
+    const fromC = transfers.find(transfer => transfer.from === 'c');
+
+    expect(fromB).toMatchObject({ to: 'a', amount: 16 });
+    expect(fromB?.explanation.direct).toEqual([
+      expect.objectContaining({ expenseId: 'rent', payerId: 'a', amount: 10 })
+    ]);
+    expect(fromB?.explanation.indirect).toEqual([
+      expect.objectContaining({ expenseId: 'groceries', payerId: 'c', amount: 6 })
+    ]);
+
+    expect(fromC).toMatchObject({ to: 'a', amount: 4 });
+    expect(fromC?.explanation.direct).toEqual([
+      expect.objectContaining({ expenseId: 'rent', amount: 4 })
+    ]);
+    expect(fromC?.explanation.indirect).toEqual([]);
+  });
+});
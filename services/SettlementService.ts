@@ -1,29 +1,15 @@
 import { supabase } from './supabaseClient';
-import { TransactionStatus, UserBalance } from '../types';
+import { ExpenseSplit, ExpenseWithSplits, UserBalance } from '../types';
 import { createServiceError } from '../utils/errorHandler';
-
-interface ExpenseSummaryRow {
-  id: string;
-  payerId: string;
-  amount: number | string;
-}
+import { DEFAULT_CURRENCY, fromMinorUnits, toBaseAmount, toMinorUnits } from '../utils/currencyUtils';
+import * as LedgerService from './LedgerService';
 
 interface SplitSummaryRow {
   user_id: string;
   amount: number | string;
 }
 
-interface PaymentRow {
-  from: string;
-  to: string;
-  amount: number | string;
-  status: TransactionStatus | string;
-}
-
-const PAYMENT_STATUSES = new Set<TransactionStatus>([
-  TransactionStatus.COMPLETED,
-  TransactionStatus.CONFIRMED
-]);
+export type GroupBalanceOptions = LedgerService.GroupBalanceOptions;
 
 const toNumber = (value: number | string | null | undefined): number => {
   if (typeof value === 'number') return value;
@@ -31,96 +17,328 @@ const toNumber = (value: number | string | null | undefined): number => {
   return 0;
 };
 
-const accumulate = (map: Map<string, number>, key: string, delta: number) => {
-  map.set(key, Number(((map.get(key) || 0) + delta).toFixed(2)));
+const toRate = (value: number | string | null | undefined) => (value == null ? 1 : toNumber(value));
+
+/**
+ * Net balance per member in the group's base currency. Kept here for
+ * existing callers; the maths lives in LedgerService.
+ */
+export const calculateGroupBalances = LedgerService.getGroupBalances;
+
+export const getBalances = calculateGroupBalances;
+
+// ============================================================
+// DEBT SIMPLIFICATION
+// ============================================================
+// Turns net balances into a list of suggested transfers. Amounts are
+// handled in integer minor units of the base currency ("cents" below)
+// so rounding never leaves a stray 0.01.
+// ============================================================
+
+export type SettlementStrategy = 'greedy' | 'exact';
+
+/** Portion of one expense that a suggested transfer pays back */
+export interface SettlementExpenseShare {
+  expenseId: string;
+  description: string;
+  date: string;
+  payerId: string;
+  amount: number;
+}
+
+export interface SettlementTransfer {
+  from: string;
+  to: string;
+  amount: number;
+  explanation: {
+    /** Expenses paid by `to` that `from` had a share in */
+    direct: SettlementExpenseShare[];
+    /** Expenses paid by other members, routed through this transfer by the simplification */
+    indirect: SettlementExpenseShare[];
+  };
+}
+
+export interface SettlementPlan {
+  strategy: SettlementStrategy;
+  /** Base currency every balance and transfer amount is in */
+  currency: string;
+  balances: UserBalance[];
+  transfers: SettlementTransfer[];
+}
+
+/** The parts of an expense needed to explain a transfer; ExpenseWithSplits fits as-is */
+export type SettlementExpense = Pick<ExpenseWithSplits, 'id' | 'description' | 'date' | 'payerId' | 'exchangeRate'> & {
+  splits: Pick<ExpenseSplit, 'userId' | 'amount'>[];
 };
 
-const roundCurrency = (value: number) => Number(value.toFixed(2));
+export interface SimplifyDebtsOptions {
+  strategy?: SettlementStrategy;
+  /** Group expenses with their splits; enables per-transfer explanations */
+  expenses?: SettlementExpense[];
+  /** Base currency of the balances; sets the rounding unit */
+  currency?: string;
+}
+
+/** Above this many non-zero balances the exact solver falls back to greedy */
+export const EXACT_SOLVER_MAX_PARTICIPANTS = 12;
+
+// Balances within a cent are considered settled
+const SETTLED_THRESHOLD_CENTS = 1;
+
+interface CentBalance {
+  userId: string;
+  cents: number;
+}
+
+interface CentTransfer {
+  from: string;
+  to: string;
+  cents: number;
+}
 
-export const calculateGroupBalances = async (groupId: string): Promise<UserBalance[]> => {
-  if (!groupId) {
-    throw createServiceError(new Error('groupId is required to calculate balances'), 'حساب الأرصدة');
+const toCentBalances = (balances: UserBalance[], currency: string): CentBalance[] => {
+  const entries = balances
+    .map(balance => ({ userId: balance.userId, cents: toMinorUnits(balance.balance, currency) }))
+    .filter(entry => Math.abs(entry.cents) > SETTLED_THRESHOLD_CENTS);
+
+  // Per-user rounding can leave the group a cent or two off zero. Trim the
+  // drift from the largest balance on the heavier side so nobody is overpaid.
+  const drift = entries.reduce((sum, entry) => sum + entry.cents, 0);
+  const heavierSide = entries.filter(entry => Math.sign(entry.cents) === Math.sign(drift));
+  if (drift !== 0 && heavierSide.length > 0) {
+    const largest = heavierSide.reduce((max, entry) => (Math.abs(entry.cents) > Math.abs(max.cents) ? entry : max));
+    largest.cents -= drift;
   }
+  return entries.filter(entry => entry.cents !== 0);
+};
 
-  try {
-    // IMPORTANT: Balance calculation uses ONLY expense_splits rows.
-    // This ensures new members joining the group are NOT retroactively
-    // charged for old expenses they weren't part of.
-    // Only users with an explicit split row in an expense are included in its calculation.
-
-    const [expensesRes, splitsRes, paymentsRes] = await Promise.all([
-    supabase
-      .from('expenses')
-      .select('id, "payerId", amount')
-      .eq('groupId', groupId),
-    supabase
-      .from('expense_splits')
-      .select('user_id, amount, expenses!inner(id, "groupId")')
-      .eq('expenses.groupId', groupId),
-    supabase
-      .from('payments')
-      .select('"from", "to", amount, status')
-      .eq('groupId', groupId)
-  ]);
-
-  if (expensesRes.error) throw expensesRes.error;
-  if (splitsRes.error) throw splitsRes.error;
-  if (paymentsRes.error) throw paymentsRes.error;
-
-  const paidTotals = new Map<string, number>();
-  (expensesRes.data as ExpenseSummaryRow[]).forEach(expense => {
-    accumulate(paidTotals, expense.payerId, toNumber(expense.amount));
-  });
+const settleGreedy = (balances: CentBalance[]): CentTransfer[] => {
+  const byAmount = (a: CentBalance, b: CentBalance) => b.cents - a.cents || a.userId.localeCompare(b.userId);
+  const creditors = balances.filter(b => b.cents > 0).map(b => ({ ...b })).sort(byAmount);
+  const debtors = balances
+    .filter(b => b.cents < 0)
+    .map(b => ({ userId: b.userId, cents: -b.cents }))
+    .sort(byAmount);
 
-  const shareTotals = new Map<string, number>();
-  (splitsRes.data as SplitSummaryRow[]).forEach(split => {
-    accumulate(shareTotals, split.user_id, toNumber(split.amount));
-  });
+  const transfers: CentTransfer[] = [];
+  let debtorIndex = 0;
+  let creditorIndex = 0;
 
-  const sentTotals = new Map<string, number>();
-  const receivedTotals = new Map<string, number>();
-  (paymentsRes.data as PaymentRow[]).forEach(payment => {
-    if (!PAYMENT_STATUSES.has(payment.status as TransactionStatus)) {
-      return;
+  while (debtorIndex < debtors.length && creditorIndex < creditors.length) {
+    const debtor = debtors[debtorIndex];
+    const creditor = creditors[creditorIndex];
+    const cents = Math.min(debtor.cents, creditor.cents);
+
+    if (cents > 0) {
+      transfers.push({ from: debtor.userId, to: creditor.userId, cents });
     }
-    accumulate(sentTotals, payment.from, toNumber(payment.amount));
-    accumulate(receivedTotals, payment.to, toNumber(payment.amount));
-  });
 
-  const userIds = new Set<string>([
-    ...paidTotals.keys(),
-    ...shareTotals.keys(),
-    ...sentTotals.keys(),
-    ...receivedTotals.keys()
-  ]);
-
-  const balances: UserBalance[] = Array.from(userIds).map(userId => {
-    const totalPaid = paidTotals.get(userId) || 0;
-    const totalShare = shareTotals.get(userId) || 0;
-    const totalSent = sentTotals.get(userId) || 0;
-    const totalReceived = receivedTotals.get(userId) || 0;
-
-    // Correct balance formula:
-    // - (totalPaid - totalShare): net credit/debt from expenses alone
-    // - +totalSent: sending money to others INCREASES my credit (they owe me less, or I prepaid)
-    // - -totalReceived: receiving money DECREASES my credit (debt settled)
-    // Final: Net = (totalPaid - totalShare) + totalSent - totalReceived
-    const balance = (totalPaid - totalShare) + totalSent - totalReceived;
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+
+    if (debtor.cents === 0) debtorIndex++;
+    if (creditor.cents === 0) creditorIndex++;
+  }
+
+  return transfers;
+};
+
+/**
+ * Minimum number of transfers. A set of k people whose balances sum to
+ * zero can always settle in k - 1 transfers, so the optimum is
+ * n - (max number of disjoint zero-sum subsets). Found with a DP over
+ * bitmasks, then each subset is settled greedily.
+ */
+const settleExact = (balances: CentBalance[]): CentTransfer[] => {
+  const n = balances.length;
+  const size = 1 << n;
+  const sums = new Array<number>(size).fill(0);
+  const best = new Array<number>(size).fill(0);
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + balances[lowest].cents;
+
+    let value = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) {
+        value = Math.max(value, best[mask ^ (1 << i)]);
+      }
+    }
+    best[mask] = value + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk the DP back from the full set; every zero-sum mask on the way closes a group
+  const groups: CentBalance[][] = [];
+  let current: CentBalance[] = [];
+  let mask = size - 1;
+  while (mask) {
+    const gain = sums[mask] === 0 ? 1 : 0;
+    let removed = -1;
+    for (let i = 0; i < n; i++) {
+      if ((mask & (1 << i)) && best[mask ^ (1 << i)] + gain === best[mask]) {
+        removed = i;
+        break;
+      }
+    }
+    current.push(balances[removed]);
+    mask ^= 1 << removed;
+    if (sums[mask] === 0) {
+      groups.push(current);
+      current = [];
+    }
+  }
+
+  return groups.flatMap(settleGreedy);
+};
+
+// ------------------------------------------------------------
+// Explanations
+// ------------------------------------------------------------
+
+interface DebtEdge {
+  debtor: string;
+  share: SettlementExpenseShare;
+  remainingCents: number;
+}
+
+const buildDebtEdges = (expenses: SettlementExpense[], currency: string): DebtEdge[] =>
+  [...expenses]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .flatMap(expense =>
+      (expense.splits || [])
+        .filter(split => split.userId !== expense.payerId && split.amount > 0)
+        .map(split => {
+          const amount = toBaseAmount(split.amount, expense.exchangeRate, currency);
+          return {
+            debtor: split.userId,
+            share: {
+              expenseId: expense.id,
+              description: expense.description,
+              date: expense.date,
+              payerId: expense.payerId,
+              amount
+            },
+            remainingCents: toMinorUnits(amount, currency)
+          };
+        })
+    );
+
+// Consume up to `cents` from the matching edges, oldest expense first
+const takeFromEdges = (
+  edges: DebtEdge[],
+  cents: number,
+  currency: string
+): { shares: SettlementExpenseShare[]; left: number } => {
+  const shares: SettlementExpenseShare[] = [];
+  let left = cents;
+  for (const edge of edges) {
+    if (left <= 0) break;
+    if (edge.remainingCents <= 0) continue;
+    const used = Math.min(edge.remainingCents, left);
+    edge.remainingCents -= used;
+    left -= used;
+    shares.push({ ...edge.share, amount: fromMinorUnits(used, currency) });
+  }
+  return { shares, left };
+};
+
+const explainTransfers = (
+  transfers: CentTransfer[],
+  expenses: SettlementExpense[],
+  currency: string
+): SettlementTransfer[] => {
+  const edges = buildDebtEdges(expenses, currency);
+
+  // Direct debts first across all transfers, so routing never steals them
+  const directResults = transfers.map(transfer =>
+    takeFromEdges(
+      edges.filter(edge => edge.debtor === transfer.from && edge.share.payerId === transfer.to),
+      transfer.cents,
+      currency
+    )
+  );
+
+  return transfers.map((transfer, index) => {
+    const { shares: direct, left } = directResults[index];
+    const { shares: indirect } = left > 0
+      ? takeFromEdges(edges.filter(edge => edge.debtor === transfer.from), left, currency)
+      : { shares: [] };
 
     return {
-      userId,
-      totalPaid: roundCurrency(totalPaid),
-      totalShare: roundCurrency(totalShare),
-      totalSent: roundCurrency(totalSent),
-      totalReceived: roundCurrency(totalReceived),
-      balance: roundCurrency(balance)
+      from: transfer.from,
+      to: transfer.to,
+      amount: fromMinorUnits(transfer.cents, currency),
+      explanation: { direct, indirect }
     };
   });
+};
+
+/**
+ * Suggests the transfers that settle every balance in the group.
+ * `exact` minimises the number of transfers for up to
+ * EXACT_SOLVER_MAX_PARTICIPANTS people and falls back to `greedy` beyond that.
+ */
+export const simplifyDebts = (
+  balances: UserBalance[],
+  { strategy = 'greedy', expenses = [], currency = DEFAULT_CURRENCY }: SimplifyDebtsOptions = {}
+): SettlementTransfer[] => {
+  const centBalances = toCentBalances(balances, currency);
+  const useExact = strategy === 'exact' && centBalances.length <= EXACT_SOLVER_MAX_PARTICIPANTS;
+  const transfers = useExact ? settleExact(centBalances) : settleGreedy(centBalances);
+  return explainTransfers(transfers, expenses, currency);
+};
+
+interface SettlementExpenseRow {
+  id: string;
+  description: string;
+  date: string;
+  payerId: string;
+  exchangeRate?: number | string | null;
+  expense_splits: SplitSummaryRow[] | null;
+}
+
+const fetchSettlementExpenses = async (groupId: string): Promise<SettlementExpense[]> => {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('id, description, date, "payerId", "exchangeRate", expense_splits(user_id, amount)')
+    .eq('groupId', groupId)
+    .is('deleted_at', null);
+
+  if (error) throw error;
+
+  return ((data || []) as SettlementExpenseRow[]).map(row => ({
+    id: row.id,
+    description: row.description,
+    date: row.date,
+    payerId: row.payerId,
+    exchangeRate: toRate(row.exchangeRate),
+    splits: (row.expense_splits || []).map(split => ({
+      userId: split.user_id,
+      amount: toNumber(split.amount)
+    }))
+  }));
+};
 
-    return balances.sort((a, b) => b.balance - a.balance);
+/** Balances plus suggested transfers for SettlementsPage, in one call other screens can reuse */
+export const getSettlementPlan = async (
+  groupId: string,
+  strategy: SettlementStrategy = 'greedy',
+  options: GroupBalanceOptions = {}
+): Promise<SettlementPlan> => {
+  try {
+    const [currency, balances, expenses] = await Promise.all([
+      LedgerService.getGroupBaseCurrency(groupId),
+      calculateGroupBalances(groupId, options),
+      fetchSettlementExpenses(groupId)
+    ]);
+    return {
+      strategy,
+      currency,
+      balances,
+      transfers: simplifyDebts(balances, { strategy, expenses, currency })
+    };
   } catch (error) {
-    throw createServiceError(error, 'حساب الأرصدة');
+    throw createServiceError(error, 'حساب التسويات');
   }
 };
-
-export const getBalances = calculateGroupBalances;
@@ -1,24 +1,76 @@
 import { ShoppingItem } from '../types';
 import { supabase } from './supabaseClient';
 import { createServiceError } from '../utils/errorHandler';
+import * as OfflineService from './offlineService';
+import * as TrashService from './TrashService';
+
+const getPendingShoppingItems = async (groupId?: string): Promise<ShoppingItem[]> => {
+  try {
+    return await OfflineService.getPendingRecords<ShoppingItem>('shopping_items', groupId);
+  } catch {
+    return [];
+  }
+};
 
 export const getShoppingList = async (groupId?: string): Promise<ShoppingItem[]> => {
   try {
-    let query = supabase.from('shopping_items').select('*').order('created_at', { ascending: false });
+    if (groupId && !OfflineService.isOnline()) {
+      // The cache holds the last loaded list plus items added offline
+      const cached = (await OfflineService.getCachedShoppingItems(groupId)) as ShoppingItem[];
+      return [...cached].sort(
+        (a, b) => Number(!!b.pendingSync) - Number(!!a.pendingSync) || (b.created_at || '').localeCompare(a.created_at || '')
+      );
+    }
+
+    let query = supabase
+      .from('shopping_items')
+      .select('*')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
     if (groupId) {
       query = query.eq('groupId', groupId);
     }
     const { data, error } = await query;
     if (error) throw error;
-    return (data || []) as ShoppingItem[];
+
+    // Items added while offline stay visible until the sync queue replays them
+    const serverItems = (data || []) as ShoppingItem[];
+    if (groupId) {
+      try {
+        await OfflineService.cacheShoppingItems(groupId, serverItems);
+      } catch {
+        // Cache is best-effort
+      }
+    }
+    const serverIds = new Set(serverItems.map(item => item.id));
+    const pending = await getPendingShoppingItems(groupId);
+    return [...pending.filter(item => !serverIds.has(item.id)), ...serverItems];
   } catch (error) {
     throw createServiceError(error, 'فشل تحميل قائمة التسوق');
   }
 };
 
 export const addShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
+  const payload = { ...item, id: item.id || `item_${Date.now()}` };
+
+  if (!OfflineService.isOnline()) {
+    try {
+      await OfflineService.savePendingRecord('shopping_items', payload);
+      await OfflineService.addToSyncQueue('create', 'shopping_items', { ...payload });
+      return { ...payload, pendingSync: true };
+    } catch (error) {
+      throw createServiceError(error, 'حفظ عنصر التسوق بدون اتصال');
+    }
+  }
+
+  return insertShoppingItem(payload);
+};
+
+/** Writes the item straight to the server; the sync replay uses this so it never re-queues */
+export const insertShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
+  const payload = { ...item, id: item.id || `item_${Date.now()}` };
+
   try {
-    const payload = { ...item, id: item.id || `item_${Date.now()}` };
     const { data, error } = await supabase.from('shopping_items').insert(payload).select('*').single();
     if (error) throw error;
     return data as ShoppingItem;
@@ -57,14 +109,22 @@ export const toggleShoppingItem = async (
 
 export const deleteShoppingItem = async (id: string): Promise<boolean> => {
   try {
-    const { error } = await supabase.from('shopping_items').delete().eq('id', id);
-    if (error) throw error;
+    await TrashService.softDeleteRecord('shopping_items', id);
     return true;
   } catch (error) {
     throw createServiceError(error, 'تعذر حذف عنصر التسوق');
   }
 };
 
+export const restoreShoppingItem = async (id: string): Promise<boolean> => {
+  try {
+    await TrashService.restoreRecord('shopping_items', id);
+    return true;
+  } catch (error) {
+    throw createServiceError(error, 'تعذر استرجاع عنصر التسوق');
+  }
+};
+
 export const updateShoppingList = async (items: ShoppingItem[]): Promise<boolean> => {
   if (items.length === 0) {
     return true;
@@ -0,0 +1,275 @@
+import { supabase } from './supabaseClient';
+import { MemberStatement, StatementLine, TransactionStatus } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+import { DEFAULT_CURRENCY, roundCurrency } from '../utils/currencyUtils';
+
+// ============================================================
+// MEMBER STATEMENTS
+// ============================================================
+// A month of one member's ledger: the balance they started with,
+// each expense they paid for or share in, payments they sent or
+// received, and where they ended up. Uses the same rules as
+// LedgerService (shares from expense_splits, stored exchange
+// rates, only completed/confirmed payments, debts left out), so
+// the closing balance matches the one on the dashboard for the
+// current month. Months are in UTC, like the stats.
+// ============================================================
+
+interface StatementExpenseRow {
+  id: string;
+  date: string;
+  description: string;
+  payerId: string;
+  amount: number | string;
+  exchangeRate?: number | string | null;
+}
+
+interface StatementSplitRow {
+  amount: number | string;
+  expenses: StatementExpenseRow | null;
+}
+
+interface StatementPaymentRow {
+  id: string;
+  date: string;
+  from: string;
+  to: string;
+  amount: number | string;
+  notes?: string | null;
+}
+
+const PAYMENT_STATUSES = [TransactionStatus.COMPLETED, TransactionStatus.CONFIRMED];
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+const toNumber = (value: number | string | null | undefined): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return 0;
+};
+
+const toRate = (value: number | string | null | undefined) => (value == null ? 1 : toNumber(value));
+
+/** YYYY-MM of a date, in UTC */
+export const toStatementMonth = (date: Date = new Date()): string =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+/** Inclusive start and exclusive end of a YYYY-MM month */
+export const getMonthRange = (month: string): { from: string; to: string } => {
+  const match = MONTH_PATTERN.exec(month);
+  if (!match) {
+    throw new Error(`Invalid statement month: ${month}`);
+  }
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  return {
+    from: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+    to: new Date(Date.UTC(year, monthIndex + 1, 1)).toISOString()
+  };
+};
+
+interface StatementGroupInfo {
+  name: string;
+  members: string[];
+  baseCurrency: string;
+}
+
+const fetchGroupInfo = async (groupId: string): Promise<StatementGroupInfo> => {
+  const { data, error } = await supabase
+    .from('groups')
+    .select('name, members, "baseCurrency"')
+    .eq('id', groupId)
+    .single();
+  if (error) throw error;
+  const row = data as { name: string; members: string[] | null; baseCurrency?: string | null };
+  return {
+    name: row.name,
+    members: row.members || [],
+    baseCurrency: row.baseCurrency || DEFAULT_CURRENCY
+  };
+};
+
+const fetchMemberNames = async (userIds: string[]): Promise<Map<string, string>> => {
+  if (userIds.length === 0) return new Map();
+  const { data, error } = await supabase.from('profiles').select('id, name').in('id', userIds);
+  if (error) throw error;
+  return new Map(((data || []) as { id: string; name: string }[]).map(profile => [profile.id, profile.name]));
+};
+
+// Everything up to the end of the month; what falls before it makes up the opening balance
+const fetchStatementRows = async (groupId: string, userId: string, to: string) => {
+  const [paidRes, splitsRes, paymentsRes] = await Promise.all([
+    supabase
+      .from('expenses')
+      .select('id, date, description, "payerId", amount, "exchangeRate"')
+      .eq('groupId', groupId)
+      .eq('payerId', userId)
+      .is('deleted_at', null)
+      .lt('date', to),
+    supabase
+      .from('expense_splits')
+      .select('amount, expenses!inner(id, date, description, "payerId", amount, "exchangeRate", "groupId", deleted_at)')
+      .eq('user_id', userId)
+      .eq('expenses.groupId', groupId)
+      .is('expenses.deleted_at', null)
+      .lt('expenses.date', to),
+    // Debt settlements belong to the debts ledger, not group balances
+    supabase
+      .from('payments')
+      .select('id, date, "from", "to", amount, notes')
+      .eq('groupId', groupId)
+      .or(`from.eq.${userId},to.eq.${userId}`)
+      .in('status', PAYMENT_STATUSES)
+      .is('debtId', null)
+      .is('deleted_at', null)
+      .lt('date', to)
+  ]);
+
+  if (paidRes.error) throw paidRes.error;
+  if (splitsRes.error) throw splitsRes.error;
+  if (paymentsRes.error) throw paymentsRes.error;
+
+  return {
+    paid: (paidRes.data || []) as StatementExpenseRow[],
+    splits: (splitsRes.data || []) as unknown as StatementSplitRow[],
+    payments: (paymentsRes.data || []) as StatementPaymentRow[]
+  };
+};
+
+/** Lines without running balances, oldest first */
+const buildLines = (
+  userId: string,
+  rows: Awaited<ReturnType<typeof fetchStatementRows>>
+): StatementLine[] => {
+  const expenseLines = new Map<string, StatementLine>();
+  const expenseLine = (expense: StatementExpenseRow): StatementLine => {
+    let line = expenseLines.get(expense.id);
+    if (!line) {
+      line = {
+        id: expense.id,
+        type: 'expense',
+        date: expense.date,
+        description: expense.description,
+        counterpartyId: expense.payerId,
+        credit: 0,
+        debit: 0,
+        balance: 0
+      };
+      expenseLines.set(expense.id, line);
+    }
+    return line;
+  };
+
+  rows.paid.forEach(expense => {
+    expenseLine(expense).credit += toNumber(expense.amount) * toRate(expense.exchangeRate);
+  });
+  rows.splits.forEach(split => {
+    if (!split.expenses) return;
+    expenseLine(split.expenses).debit += toNumber(split.amount) * toRate(split.expenses.exchangeRate);
+  });
+
+  const paymentLines: StatementLine[] = rows.payments.map(payment => {
+    const sent = payment.from === userId;
+    const amount = toNumber(payment.amount);
+    return {
+      id: payment.id,
+      type: sent ? 'payment_sent' : 'payment_received',
+      date: payment.date,
+      description: payment.notes || '',
+      counterpartyId: sent ? payment.to : payment.from,
+      credit: sent ? amount : 0,
+      debit: sent ? 0 : amount,
+      balance: 0
+    };
+  });
+
+  return [...expenseLines.values(), ...paymentLines].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.id.localeCompare(b.id)
+  );
+};
+
+const buildStatement = async (
+  groupId: string,
+  group: StatementGroupInfo,
+  userId: string,
+  memberName: string,
+  month: string
+): Promise<MemberStatement> => {
+  const { from, to } = getMonthRange(month);
+  const rows = await fetchStatementRows(groupId, userId, to);
+  const round = (value: number) => roundCurrency(value, group.baseCurrency);
+  const fromTime = new Date(from).getTime();
+
+  let openingBalance = 0;
+  const monthLines: StatementLine[] = [];
+  buildLines(userId, rows).forEach(line => {
+    if (new Date(line.date).getTime() < fromTime) {
+      openingBalance += line.credit - line.debit;
+    } else {
+      monthLines.push(line);
+    }
+  });
+
+  let running = openingBalance;
+  const totals = { paid: 0, share: 0, sent: 0, received: 0 };
+  const lines = monthLines.map(line => {
+    running += line.credit - line.debit;
+    if (line.type === 'expense') {
+      totals.paid += line.credit;
+      totals.share += line.debit;
+    } else if (line.type === 'payment_sent') {
+      totals.sent += line.credit;
+    } else {
+      totals.received += line.debit;
+    }
+    return { ...line, credit: round(line.credit), debit: round(line.debit), balance: round(running) };
+  });
+
+  return {
+    groupId,
+    groupName: group.name,
+    userId,
+    memberName,
+    month,
+    from,
+    to,
+    baseCurrency: group.baseCurrency,
+    openingBalance: round(openingBalance),
+    totalPaid: round(totals.paid),
+    totalShare: round(totals.share),
+    totalSent: round(totals.sent),
+    totalReceived: round(totals.received),
+    closingBalance: round(running),
+    lines
+  };
+};
+
+/**
+ * Statement of one member for a YYYY-MM month. Opening balance is
+ * everything before the month; each line carries the balance after it.
+ */
+export const getMemberStatement = async (
+  groupId: string,
+  userId: string,
+  month: string
+): Promise<MemberStatement> => {
+  try {
+    const [group, names] = await Promise.all([fetchGroupInfo(groupId), fetchMemberNames([userId])]);
+    return await buildStatement(groupId, group, userId, names.get(userId) || '', month);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تجهيز كشف الحساب');
+  }
+};
+
+/** Statements of every current member of the group for the month */
+export const getGroupStatements = async (groupId: string, month: string): Promise<MemberStatement[]> => {
+  try {
+    const group = await fetchGroupInfo(groupId);
+    const names = await fetchMemberNames(group.members);
+    return await Promise.all(
+      group.members.map(userId => buildStatement(groupId, group, userId, names.get(userId) || '', month))
+    );
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تجهيز كشف الحساب');
+  }
+};
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { supabase, getGroup } = vi.hoisted(() => ({
+  supabase: { from: vi.fn() },
+  getGroup: vi.fn()
+}));
+vi.mock('./supabaseClient', () => ({ supabase }));
+vi.mock('./GroupService', () => ({ getGroup }));
+
+import { ANOMALY_RATIO, getSpendingInsights } from './StatsService';
+
+// Middle of March: 15 of its 31 days have passed
+const NOW = new Date('2024-03-16T00:00:00Z');
+
+interface Row {
+  id: string;
+  category: string;
+  date: string;
+  amount: number;
+  exchangeRate?: number;
+}
+
+const row = (id: string, category: string, date: string, amount: number, exchangeRate?: number): Row =>
+  ({ id, category, date: `${date}T12:00:00Z`, amount, exchangeRate });
+
+// select(...).eq(...).is(...).gte(...).lt(...) resolving to the rows
+const mockExpenses = (rows: Row[]) => {
+  const query = {
+    select: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    is: vi.fn(() => query),
+    gte: vi.fn(() => query),
+    lt: vi.fn().mockResolvedValue({ data: rows.map(r => ({ payerId: 'u1', description: r.id, ...r })), error: null })
+  };
+  supabase.from.mockReturnValue(query);
+  return query;
+};
+
+// Rent on the 1st and food twice a month, for December to February
+const HISTORY: Row[] = ['2023-12', '2024-01', '2024-02'].flatMap(month => [
+  row(`rent-${month}`, 'Rent', `${month}-01`, 1000),
+  row(`food-${month}-a`, 'Food', `${month}-05`, 100),
+  row(`food-${month}-b`, 'Food', `${month}-25`, 200)
+]);
+
+describe('getSpendingInsights', () => {
+  beforeEach(() => {
+    supabase.from.mockReset();
+    getGroup.mockReset();
+    getGroup.mockResolvedValue({ id: 'g1', baseCurrency: 'EGP' });
+  });
+
+  describe('forecast', () => {
+    it('adds what earlier months spent in the rest of the month', async () => {
+      mockExpenses([
+        ...HISTORY,
+        row('rent-2024-03', 'Rent', '2024-03-01', 1000),
+        row('food-2024-03', 'Food', '2024-03-05', 150)
+      ]);
+
+      const { forecast } = await getSpendingInsights('g1', NOW);
+
+      expect(forecast.monthStart).toBe('2024-03-01T00:00:00.000Z');
+      expect(forecast.elapsed).toBeCloseTo(15 / 31, 6);
+      // Rent was paid on the 1st so nothing more is expected; food usually
+      // adds 200 late in the month
+      expect(forecast.categories).toEqual([
+        { category: 'Rent', spent: 1000, projected: 1000, baseline: 1000 },
+        { category: 'Food', spent: 150, projected: 350, baseline: 300 }
+      ]);
+      expect(forecast).toMatchObject({ spent: 1150, projected: 1350, baseline: 1300 });
+    });
+
+    it('extends the daily rate when the group has no history', async () => {
+      mockExpenses([row('food', 'Food', '2024-03-05', 150)]);
+
+      const { forecast } = await getSpendingInsights('g1', NOW);
+
+      expect(forecast.categories).toEqual([{ category: 'Food', spent: 150, projected: 310, baseline: 0 }]);
+      expect(forecast.projected).toBe(310);
+    });
+
+    it('values expenses in the base currency', async () => {
+      mockExpenses([row('food', 'Food', '2024-03-05', 10, 48.35)]);
+
+      const { forecast } = await getSpendingInsights('g1', NOW);
+
+      expect(forecast.spent).toBe(483.5);
+      expect(forecast.projected).toBe(999.23);
+    });
+  });
+
+  describe('anomalies', () => {
+    it(`flags recent expenses at least ${ANOMALY_RATIO}x the rolling average`, async () => {
+      mockExpenses([
+        ...HISTORY,
+        row('food-2024-03', 'Food', '2024-03-05', 150),
+        row('feast', 'Food', '2024-03-10', 450)
+      ]);
+
+      const { anomalies } = await getSpendingInsights('g1', NOW);
+
+      // The six earlier food expenses average 950 / 6
+      expect(anomalies).toEqual([{
+        expenseId: 'feast',
+        description: 'feast',
+        category: 'Food',
+        date: '2024-03-10T12:00:00Z',
+        amount: 450,
+        average: 158.33,
+        ratio: 2.8
+      }]);
+    });
+
+    it('flags an expense at exactly the ratio but not just under it', async () => {
+      const earlier = ['2024-01-10', '2024-02-10', '2024-02-20'].map((date, index) =>
+        row(`taxi-${index}`, 'Transport', date, 50)
+      );
+
+      mockExpenses([...earlier, row('under', 'Transport', '2024-03-10', 99.99)]);
+      expect((await getSpendingInsights('g1', NOW)).anomalies).toEqual([]);
+
+      mockExpenses([...earlier, row('at', 'Transport', '2024-03-10', 100)]);
+      expect((await getSpendingInsights('g1', NOW)).anomalies).toMatchObject([{ expenseId: 'at', ratio: 2 }]);
+    });
+
+    it('skips categories with too few earlier expenses and old or future expenses', async () => {
+      mockExpenses([
+        row('gift-1', 'Gifts', '2024-01-10', 50),
+        row('gift-2', 'Gifts', '2024-02-10', 50),
+        row('gift-3', 'Gifts', '2024-03-10', 500),
+        row('fuel-1', 'Transport', '2023-12-10', 50),
+        row('fuel-2', 'Transport', '2023-12-20', 50),
+        row('fuel-3', 'Transport', '2024-01-05', 50),
+        row('old', 'Transport', '2024-01-20', 500),
+        row('booked', 'Transport', '2024-03-20', 5000)
+      ]);
+
+      expect((await getSpendingInsights('g1', NOW)).anomalies).toEqual([]);
+    });
+  });
+
+  it('fails when the group is missing', async () => {
+    getGroup.mockResolvedValue(null);
+    await expect(getSpendingInsights('g1', NOW)).rejects.toThrow('لم يتم العثور على المجموعة');
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
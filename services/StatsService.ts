@@ -1,189 +1,559 @@
 import { supabase } from './supabaseClient';
-import { GroupStats, UserStats, Expense, TransactionStatus } from '../types';
+import {
+  CategoryForecast,
+  GroupStats,
+  SpendingAnomaly,
+  SpendingForecast,
+  SpendingInsights,
+  StatsTrendPoint,
+  TransactionStatus,
+  UserStats
+} from '../types';
 import { createServiceError } from '../utils/errorHandler';
+import { roundCurrency } from '../utils/currencyUtils';
 import * as GroupService from './GroupService';
-import * as UserService from './UserService';
-import * as PaymentService from './PaymentService';
+import * as LedgerService from './LedgerService';
 
-const fetchGroupExpenses = async (groupId: string): Promise<Expense[]> => {
+// ============================================================
+// STATISTICS
+// ============================================================
+// Aggregated in SQL by get_group_statistics / get_expense_trend
+// (migration 011) so the page doesn't download the group's whole
+// history. The local versions below follow the same rules for
+// databases without those functions. Buckets are in UTC, like
+// date_trunc on the server.
+// ============================================================
+
+export type StatsBucket = 'week' | 'month' | 'custom';
+
+export interface StatsQuery {
+  /** Inclusive start (ISO); defaults to the first day of the month five months ago */
+  from?: string;
+  /** Exclusive end (ISO); defaults to now */
+  to?: string;
+  bucket?: StatsBucket;
+  /** Bucket length in days, required for `custom` */
+  bucketDays?: number;
+}
+
+/** Same cap as the SQL functions, keeps charts readable */
+export const MAX_STATS_BUCKETS = 366;
+
+interface ResolvedStatsQuery {
+  from: Date;
+  to: Date;
+  bucket: StatsBucket;
+  bucketDays: number | null;
+}
+
+interface TrendRow {
+  bucket_start: string;
+  amount: number | string;
+  expense_count: number;
+}
+
+interface StatisticsResult {
+  total_expenses: number | string;
+  expense_count: number;
+  current_month_total: number | string;
+  total_payments: number | string;
+  payment_count: number;
+  pending_payments: number;
+  member_count: number;
+  categories: { category: string; amount: number | string }[];
+  members: { user_id: string; paid: number | string; share: number | string; expense_count: number }[];
+  trend: TrendRow[];
+}
+
+interface ExpenseStatsRow {
+  id: string;
+  payerId: string;
+  category: string;
+  description?: string;
+  date: string;
+  amount: number | string;
+  exchangeRate?: number | string | null;
+  expense_splits?: { user_id: string; amount: number | string }[] | null;
+}
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toNumber = (value: number | string | null | undefined): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return parseFloat(value);
+  return 0;
+};
+
+const startOfMonthUtc = (date: Date, monthOffset = 0) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + monthOffset, 1));
+
+// ISO weeks start on Monday, like date_trunc('week')
+const startOfWeekUtc = (date: Date) => {
+  const day = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - day));
+};
+
+const resolveQuery = ({ from, to, bucket = 'month', bucketDays }: StatsQuery): ResolvedStatsQuery => {
+  const now = new Date();
+  const resolved: ResolvedStatsQuery = {
+    from: from ? new Date(from) : startOfMonthUtc(now, -5),
+    to: to ? new Date(to) : now,
+    bucket,
+    bucketDays: bucket === 'custom' ? Math.floor(Number(bucketDays)) : null
+  };
+
+  if (Number.isNaN(resolved.from.getTime()) || Number.isNaN(resolved.to.getTime()) || resolved.to <= resolved.from) {
+    throw new Error('نطاق التاريخ غير صالح');
+  }
+  if (bucket === 'custom' && !(resolved.bucketDays && resolved.bucketDays >= 1)) {
+    throw new Error('مدة الفترة يجب أن تكون يوماً واحداً على الأقل');
+  }
+  if (getBucketStarts(resolved).length > MAX_STATS_BUCKETS) {
+    throw new Error('النطاق المختار طويل جداً لهذا التقسيم');
+  }
+  return resolved;
+};
+
+const firstBucketStart = ({ from, bucket }: ResolvedStatsQuery) => {
+  if (bucket === 'month') return startOfMonthUtc(from);
+  if (bucket === 'week') return startOfWeekUtc(from);
+  return from;
+};
+
+const nextBucketStart = (start: Date, { bucket, bucketDays }: ResolvedStatsQuery) => {
+  if (bucket === 'month') return startOfMonthUtc(start, 1);
+  return new Date(start.getTime() + (bucket === 'week' ? 7 : bucketDays!) * DAY_MS);
+};
+
+// Stops one past the cap so resolveQuery can reject huge ranges cheaply
+const getBucketStarts = (query: ResolvedStatsQuery): Date[] => {
+  const starts: Date[] = [];
+  for (let start = firstBucketStart(query); start < query.to; start = nextBucketStart(start, query)) {
+    starts.push(start);
+    if (starts.length > MAX_STATS_BUCKETS) break;
+  }
+  return starts;
+};
+
+const getBucketStart = (date: Date, query: ResolvedStatsQuery) => {
+  if (query.bucket === 'month') return startOfMonthUtc(date);
+  if (query.bucket === 'week') return startOfWeekUtc(date);
+  const step = query.bucketDays! * DAY_MS;
+  return new Date(query.from.getTime() + Math.floor((date.getTime() - query.from.getTime()) / step) * step);
+};
+
+const formatBucketLabel = (start: Date, bucket: StatsBucket) =>
+  start.toLocaleDateString('ar-EG', bucket === 'month'
+    ? { month: 'short', timeZone: 'UTC' }
+    : { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const toRpcParams = (groupId: string, query: ResolvedStatsQuery, userId?: string) => ({
+  p_group_id: groupId,
+  p_from: query.from.toISOString(),
+  p_to: query.to.toISOString(),
+  p_bucket: query.bucket,
+  p_bucket_days: query.bucketDays,
+  p_user_id: userId ?? null
+});
+
+const mapTrend = (rows: TrendRow[], bucket: StatsBucket, baseCurrency?: string): StatsTrendPoint[] =>
+  rows.map(row => {
+    const start = new Date(row.bucket_start);
+    return {
+      start: start.toISOString(),
+      label: formatBucketLabel(start, bucket),
+      amount: roundCurrency(toNumber(row.amount), baseCurrency),
+      count: Number(row.expense_count)
+    };
+  });
+
+// ------------------------------------------------------------
+// Local fallback
+// ------------------------------------------------------------
+
+// Expense value in the base currency, or the user's share of it when scoped
+const getScopedValue = (row: ExpenseStatsRow, userId?: string): number | null => {
+  const rate = row.exchangeRate == null ? 1 : toNumber(row.exchangeRate);
+  if (!userId) return toNumber(row.amount) * rate;
+  const split = (row.expense_splits || []).find(entry => entry.user_id === userId);
+  return split ? toNumber(split.amount) * rate : null;
+};
+
+const fetchExpenseRows = async (groupId: string, from: Date, to: Date): Promise<ExpenseStatsRow[]> => {
   const { data, error } = await supabase
     .from('expenses')
-    .select('*')
+    .select('id, "payerId", category, description, date, amount, "exchangeRate", expense_splits(user_id, amount)')
     .eq('groupId', groupId)
-    .order('date', { ascending: false });
+    .is('deleted_at', null)
+    .gte('date', from.toISOString())
+    .lt('date', to.toISOString());
   if (error) throw error;
-  return (data || []) as Expense[];
+  return (data || []) as ExpenseStatsRow[];
 };
 
-export const getUserStats = async (userId: string, groupId: string): Promise<UserStats> => {
-  try {
-    const [group, expenses, payments] = await Promise.all([
-      GroupService.getGroup(groupId),
-      fetchGroupExpenses(groupId),
-      PaymentService.getPayments({ groupId })
-    ]);
+const buildTrendLocally = (rows: ExpenseStatsRow[], query: ResolvedStatsQuery, userId?: string): TrendRow[] => {
+  const buckets = new Map<number, TrendRow>(
+    getBucketStarts(query).map(start => [
+      start.getTime(),
+      { bucket_start: start.toISOString(), amount: 0, expense_count: 0 }
+    ])
+  );
 
-    if (!group) {
-      throw new Error('لم يتم العثور على المجموعة');
-    }
+  rows.forEach(row => {
+    const date = new Date(row.date);
+    const value = getScopedValue(row, userId);
+    if (value === null || date < query.from || date >= query.to) return;
+    const bucket = buckets.get(getBucketStart(date, query).getTime());
+    if (!bucket) return;
+    bucket.amount = toNumber(bucket.amount) + value;
+    bucket.expense_count += 1;
+  });
 
-    const totalPaid = expenses
-      .filter(expense => expense.payerId === userId)
-      .reduce((sum, expense) => sum + expense.amount, 0);
-
-    let totalOwed = 0;
-    let totalOwing = 0;
-
-    expenses.forEach(expense => {
-      const splitMembers = expense.splitBetween?.length ? expense.splitBetween : group.members;
-      const perPersonShare = expense.amount / splitMembers.length;
-
-      if (expense.payerId === userId) {
-        splitMembers.forEach(memberId => {
-          if (memberId !== userId) {
-            totalOwed += perPersonShare;
-          }
-        });
-      } else if (splitMembers.includes(userId)) {
-        totalOwing += perPersonShare;
-      }
-    });
+  return Array.from(buckets.values());
+};
 
-    payments
-      .filter(payment => payment.status === TransactionStatus.CONFIRMED)
-      .forEach(payment => {
-        if (payment.from === userId) {
-          totalOwing = Math.max(0, totalOwing - payment.amount);
-        } else if (payment.to === userId) {
-          totalOwed = Math.max(0, totalOwed - payment.amount);
-        }
-      });
+// Same shape as get_group_statistics
+const getStatisticsLocally = async (
+  groupId: string,
+  members: string[],
+  query: ResolvedStatsQuery,
+  userId?: string
+): Promise<StatisticsResult> => {
+  const monthStart = startOfMonthUtc(new Date());
+  const earliest = query.from < monthStart ? query.from : monthStart;
 
-    const monthlyExpenses: { month: string; amount: number }[] = [];
-    const lastSixMonths = Array.from({ length: 6 }, (_, idx) => {
-      const date = new Date();
-      date.setMonth(date.getMonth() - idx);
-      return date.toISOString().slice(0, 7);
-    }).reverse();
-
-    lastSixMonths.forEach(month => {
-      const monthTotal = expenses
-        .filter(exp => exp.date.startsWith(month))
-        .reduce((sum, exp) => {
-          const splitMembers = exp.splitBetween?.length ? exp.splitBetween : group.members;
-          if (!splitMembers.includes(userId)) {
-            return sum;
-          }
-          return sum + exp.amount / splitMembers.length;
-        }, 0);
-
-      monthlyExpenses.push({
-        month: new Date(`${month}-01`).toLocaleDateString('ar-EG', { month: 'short' }),
-        amount: Math.round(monthTotal)
-      });
-    });
+  const [rows, paymentsRes] = await Promise.all([
+    fetchExpenseRows(groupId, earliest, query.to > new Date() ? query.to : new Date()),
+    supabase
+      .from('payments')
+      .select('amount, status, date')
+      .eq('groupId', groupId)
+      .is('deleted_at', null)
+  ]);
+  if (paymentsRes.error) throw paymentsRes.error;
 
-    const categoryTotals: Record<string, number> = {};
-    expenses.forEach(expense => {
-      const splitMembers = expense.splitBetween?.length ? expense.splitBetween : group.members;
-      if (splitMembers.includes(userId)) {
-        const share = expense.amount / splitMembers.length;
-        categoryTotals[expense.category] = (categoryTotals[expense.category] || 0) + share;
-      }
+  const inRange = (date: string) => new Date(date) >= query.from && new Date(date) < query.to;
+  const rangeRows = rows.filter(row => inRange(row.date));
+
+  let totalExpenses = 0;
+  let expenseCount = 0;
+  let currentMonthTotal = 0;
+  const categoryTotals = new Map<string, number>();
+  rows.forEach(row => {
+    const value = getScopedValue(row, userId);
+    if (value === null) return;
+    if (new Date(row.date) >= monthStart) currentMonthTotal += value;
+    if (!inRange(row.date)) return;
+    totalExpenses += value;
+    expenseCount += 1;
+    categoryTotals.set(row.category, (categoryTotals.get(row.category) || 0) + value);
+  });
+
+  const memberTotals = new Map<string, { paid: number; share: number; count: number }>();
+  const memberEntry = (uid: string) => {
+    if (!memberTotals.has(uid)) memberTotals.set(uid, { paid: 0, share: 0, count: 0 });
+    return memberTotals.get(uid)!;
+  };
+  rangeRows.forEach(row => {
+    const rate = row.exchangeRate == null ? 1 : toNumber(row.exchangeRate);
+    const payer = memberEntry(row.payerId);
+    payer.paid += toNumber(row.amount) * rate;
+    payer.count += 1;
+    (row.expense_splits || []).forEach(split => {
+      memberEntry(split.user_id).share += toNumber(split.amount) * rate;
     });
+  });
 
-    const categoryBreakdown = Object.entries(categoryTotals).map(([category, amount]) => ({
-      category,
-      amount: Math.round(amount)
-    }));
+  const payments = (paymentsRes.data || []) as { amount: number | string; status: string; date: string }[];
+  const settled = payments.filter(payment =>
+    inRange(payment.date)
+    && (payment.status === TransactionStatus.CONFIRMED || payment.status === TransactionStatus.COMPLETED));
 
-    return {
-      totalPaid: Math.round(totalPaid),
-      totalOwed: Math.round(Math.max(0, totalOwed)),
-      totalOwing: Math.round(Math.max(0, totalOwing)),
-      balance: Math.round(totalOwed - totalOwing),
-      monthlyExpenses,
-      categoryBreakdown
-    };
-  } catch (error) {
-    throw createServiceError(error, 'تعذر تحميل إحصاءات المستخدم');
-  }
+  return {
+    total_expenses: totalExpenses,
+    expense_count: expenseCount,
+    current_month_total: currentMonthTotal,
+    total_payments: settled.reduce((sum, payment) => sum + toNumber(payment.amount), 0),
+    payment_count: settled.length,
+    pending_payments: payments.filter(payment => payment.status === TransactionStatus.PENDING).length,
+    member_count: members.length,
+    categories: Array.from(categoryTotals, ([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount),
+    members: Array.from(memberTotals, ([uid, totals]) => ({
+      user_id: uid,
+      paid: totals.paid,
+      share: totals.share,
+      expense_count: totals.count
+    })).sort((a, b) => b.paid - a.paid),
+    trend: buildTrendLocally(rows, query, userId)
+  };
 };
 
-export const getGroupStats = async (groupId: string): Promise<GroupStats> => {
-  try {
-    const [group, expenses, users] = await Promise.all([
-      GroupService.getGroup(groupId),
-      fetchGroupExpenses(groupId),
-      UserService.getUsers()
-    ]);
+const fetchStatistics = async (
+  groupId: string,
+  members: string[],
+  query: ResolvedStatsQuery,
+  userId?: string
+): Promise<StatisticsResult> => {
+  const { data, error } = await supabase.rpc('get_group_statistics', toRpcParams(groupId, query, userId));
+  if (!error) return data as StatisticsResult;
+  if (!MISSING_FUNCTION_CODES.has(error.code)) throw error;
+  return getStatisticsLocally(groupId, members, query, userId);
+};
 
-    if (!group) {
-      throw new Error('لم يتم العثور على المجموعة');
+// ------------------------------------------------------------
+// Insights
+// ------------------------------------------------------------
+// Worked out on the device from recent expenses, with fixed rules
+// so the same data always gives the same answer:
+//   * forecast: this month so far, plus what the last few months
+//     spent in the part of the month still to come (so rent paid on
+//     the 1st isn't projected again); a group without history falls
+//     back to the current daily rate
+//   * anomalies: recent expenses at least ANOMALY_RATIO times the
+//     average of the category's previous expenses
+// ------------------------------------------------------------
+
+/** Full months before the current one that make up the forecast baseline */
+const FORECAST_HISTORY_MONTHS = 3;
+/** Months of expenses loaded for the anomaly averages */
+const ANOMALY_HISTORY_MONTHS = 6;
+/** Earlier expenses of the same category in the rolling average */
+const ANOMALY_WINDOW = 6;
+/** A category needs this many earlier expenses before anything stands out */
+const ANOMALY_MIN_SAMPLES = 3;
+/** Only expenses this recent are flagged */
+const ANOMALY_LOOKBACK_DAYS = 30;
+/** How many times the rolling average counts as unusual */
+export const ANOMALY_RATIO = 2;
+
+interface ValuedExpense {
+  row: ExpenseStatsRow;
+  /** Base currency */
+  value: number;
+  time: number;
+}
+
+const sumValues = (expenses: ValuedExpense[]) => expenses.reduce((sum, expense) => sum + expense.value, 0);
+
+const buildForecast = (expenses: ValuedExpense[], now: Date, baseCurrency?: string): SpendingForecast => {
+  const round = (value: number) => roundCurrency(value, baseCurrency);
+  const monthStart = startOfMonthUtc(now).getTime();
+  const monthEnd = startOfMonthUtc(now, 1).getTime();
+  const elapsed = (now.getTime() - monthStart) / (monthEnd - monthStart);
+
+  // Months without any expense aren't averaged in, so a new group isn't pulled towards zero
+  const history = Array.from({ length: FORECAST_HISTORY_MONTHS }, (_, index) => {
+    const start = startOfMonthUtc(now, -(index + 1)).getTime();
+    const end = startOfMonthUtc(now, -index).getTime();
+    return { start, end, cutoff: start + elapsed * (end - start) };
+  }).filter(month => expenses.some(expense => expense.time >= month.start && expense.time < month.end));
+
+  const byCategory = new Map<string, ValuedExpense[]>();
+  expenses.forEach(expense => {
+    if (expense.time < (history[history.length - 1]?.start ?? monthStart)) return;
+    const list = byCategory.get(expense.row.category) || [];
+    list.push(expense);
+    byCategory.set(expense.row.category, list);
+  });
+
+  const categories: CategoryForecast[] = Array.from(byCategory, ([category, list]) => {
+    const spent = sumValues(list.filter(expense => expense.time >= monthStart));
+    let baseline = 0;
+    let remaining: number;
+    if (history.length > 0) {
+      const past = list.filter(expense => expense.time < monthStart);
+      baseline = sumValues(past) / history.length;
+      remaining = sumValues(past.filter(expense =>
+        history.some(month => expense.time >= month.cutoff && expense.time < month.end)
+      )) / history.length;
+    } else {
+      remaining = elapsed > 0 ? (spent / elapsed) * (1 - elapsed) : 0;
     }
+    return { category, spent: round(spent), projected: round(spent + remaining), baseline: round(baseline) };
+  })
+    .filter(forecast => forecast.projected > 0 || forecast.baseline > 0)
+    .sort((a, b) => b.projected - a.projected);
 
-    const groupUsers = users.filter(user => group.members.includes(user.id));
-    const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  return {
+    monthStart: new Date(monthStart).toISOString(),
+    elapsed,
+    spent: round(categories.reduce((sum, forecast) => sum + forecast.spent, 0)),
+    projected: round(categories.reduce((sum, forecast) => sum + forecast.projected, 0)),
+    baseline: round(categories.reduce((sum, forecast) => sum + forecast.baseline, 0)),
+    categories
+  };
+};
 
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const monthlyTotal = expenses
-      .filter(expense => expense.date.startsWith(currentMonth))
-      .reduce((sum, expense) => sum + expense.amount, 0);
+const findAnomalies = (expenses: ValuedExpense[], now: Date, baseCurrency?: string): SpendingAnomaly[] => {
+  const since = now.getTime() - ANOMALY_LOOKBACK_DAYS * DAY_MS;
+  const byCategory = new Map<string, ValuedExpense[]>();
+  expenses.forEach(expense => {
+    const list = byCategory.get(expense.row.category) || [];
+    list.push(expense);
+    byCategory.set(expense.row.category, list);
+  });
 
-    const spenderTotals: Record<string, number> = {};
-    expenses.forEach(expense => {
-      spenderTotals[expense.payerId] = (spenderTotals[expense.payerId] || 0) + expense.amount;
+  const anomalies: SpendingAnomaly[] = [];
+  byCategory.forEach(list => {
+    list.sort((a, b) => a.time - b.time || a.row.id.localeCompare(b.row.id));
+    list.forEach((expense, index) => {
+      if (expense.time < since || expense.time > now.getTime()) return;
+      const earlier = list.slice(Math.max(0, index - ANOMALY_WINDOW), index);
+      if (earlier.length < ANOMALY_MIN_SAMPLES) return;
+      const average = sumValues(earlier) / earlier.length;
+      if (average <= 0 || expense.value < average * ANOMALY_RATIO) return;
+      anomalies.push({
+        expenseId: expense.row.id,
+        description: expense.row.description || '',
+        category: expense.row.category,
+        date: expense.row.date,
+        amount: roundCurrency(expense.value, baseCurrency),
+        average: roundCurrency(average, baseCurrency),
+        ratio: Math.round((expense.value / average) * 10) / 10
+      });
     });
+  });
 
-    const [highestSpenderUserId, highestSpenderAmount] = Object.entries(spenderTotals)
-      .sort(([, a], [, b]) => b - a)[0] || ['', 0];
+  return anomalies.sort((a, b) => b.ratio - a.ratio);
+};
 
-    const categoryTotals: Record<string, number> = {};
-    expenses.forEach(expense => {
-      categoryTotals[expense.category] = (categoryTotals[expense.category] || 0) + expense.amount;
-    });
+// ------------------------------------------------------------
+// Public API
+// ------------------------------------------------------------
 
-    const categoryDistribution = Object.entries(categoryTotals).map(([category, amount]) => ({
-      category,
-      amount,
-      percentage: totalExpenses > 0 ? Math.round((amount / totalExpenses) * 100) : 0
-    }));
+/** Group spending per bucket, e.g. this month against last month on the Dashboard */
+export const getExpenseTrend = async (groupId: string, query: StatsQuery = {}): Promise<StatsTrendPoint[]> => {
+  try {
+    const resolved = resolveQuery(query);
+    const [group, rpc] = await Promise.all([
+      GroupService.getGroup(groupId),
+      supabase.rpc('get_expense_trend', toRpcParams(groupId, resolved))
+    ]);
 
-    const lastSixMonths = Array.from({ length: 6 }, (_, idx) => {
-      const date = new Date();
-      date.setMonth(date.getMonth() - idx);
-      return date.toISOString().slice(0, 7);
-    }).reverse();
+    let rows: TrendRow[];
+    if (!rpc.error) {
+      rows = (rpc.data || []) as TrendRow[];
+    } else if (MISSING_FUNCTION_CODES.has(rpc.error.code)) {
+      rows = buildTrendLocally(await fetchExpenseRows(groupId, resolved.from, resolved.to), resolved);
+    } else {
+      throw rpc.error;
+    }
 
-    const monthlyTrend = lastSixMonths.map(month => {
-      const monthTotal = expenses
-        .filter(expense => expense.date.startsWith(month))
-        .reduce((sum, expense) => sum + expense.amount, 0);
+    return mapTrend(rows, resolved.bucket, group.baseCurrency);
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل المصروفات حسب الفترة');
+  }
+};
 
-      return {
-        month: new Date(`${month}-01`).toLocaleDateString('ar-EG', { month: 'short' }),
-        amount: Math.round(monthTotal)
-      };
-    });
+/**
+ * Personal stats for the range: the user's share per bucket and per
+ * category. Paid/owed/owing and the balance are all-time figures from
+ * the balance ledger, so they match Dashboard and Settlements.
+ */
+export const getUserStats = async (userId: string, groupId: string, query: StatsQuery = {}): Promise<UserStats> => {
+  try {
+    const resolved = resolveQuery(query);
+    const group = await GroupService.getGroup(groupId);
+    if (!group) {
+      throw new Error('لم يتم العثور على المجموعة');
+    }
 
-    const memberContributions = groupUsers.map(user => {
-      const amount = spenderTotals[user.id] || 0;
+    const [stats, ledger] = await Promise.all([
+      fetchStatistics(groupId, group.members || [], resolved, userId),
+      LedgerService.getUserBalance(groupId, userId)
+    ]);
+
+    return {
+      totalPaid: ledger.totalPaid,
+      totalOwed: Math.max(0, ledger.balance),
+      totalOwing: Math.max(0, -ledger.balance),
+      balance: ledger.balance,
+      trend: mapTrend(stats.trend, resolved.bucket, group.baseCurrency),
+      categoryBreakdown: stats.categories.map(({ category, amount }) => ({
+        category,
+        amount: roundCurrency(toNumber(amount), group.baseCurrency)
+      }))
+    };
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل إحصاءات المستخدم');
+  }
+};
+
+export const getGroupStats = async (groupId: string, query: StatsQuery = {}): Promise<GroupStats> => {
+  try {
+    const resolved = resolveQuery(query);
+    const group = await GroupService.getGroup(groupId);
+    if (!group) {
+      throw new Error('لم يتم العثور على المجموعة');
+    }
+
+    const stats = await fetchStatistics(groupId, group.members || [], resolved);
+    const totalExpenses = toNumber(stats.total_expenses);
+    const toPercentage = (amount: number) => (totalExpenses > 0 ? Math.round((amount / totalExpenses) * 100) : 0);
+
+    // Current members first, then anyone who has left but paid within the range
+    const memberStats = new Map(stats.members.map(member => [member.user_id, member]));
+    const memberIds = Array.from(new Set([...(group.members || []), ...memberStats.keys()]));
+    const memberContributions = memberIds.map(userId => {
+      const member = memberStats.get(userId);
+      const amount = roundCurrency(toNumber(member?.paid), group.baseCurrency);
       return {
-        userId: user.id,
+        userId,
         amount,
-        percentage: totalExpenses > 0 ? Math.round((amount / totalExpenses) * 100) : 0
+        share: roundCurrency(toNumber(member?.share), group.baseCurrency),
+        percentage: toPercentage(amount)
       };
     });
 
+    const topSpender = stats.members.find(member => toNumber(member.paid) > 0);
+
     return {
-      totalExpenses: Math.round(totalExpenses),
-      monthlyTotal: Math.round(monthlyTotal),
-      highestSpender: { userId: highestSpenderUserId, amount: highestSpenderAmount },
-      categoryDistribution,
-      monthlyTrend,
+      totalExpenses: roundCurrency(totalExpenses, group.baseCurrency),
+      expenseCount: Number(stats.expense_count),
+      monthlyTotal: roundCurrency(toNumber(stats.current_month_total), group.baseCurrency),
+      highestSpender: topSpender
+        ? { userId: topSpender.user_id, amount: roundCurrency(toNumber(topSpender.paid), group.baseCurrency) }
+        : { userId: '', amount: 0 },
+      categoryDistribution: stats.categories.map(({ category, amount }) => ({
+        category,
+        amount: roundCurrency(toNumber(amount), group.baseCurrency),
+        percentage: toPercentage(toNumber(amount))
+      })),
+      trend: mapTrend(stats.trend, resolved.bucket, group.baseCurrency),
       memberContributions
     };
   } catch (error) {
     throw createServiceError(error, 'تعذر تحميل إحصاءات المجموعة');
   }
 };
+
+/**
+ * End-of-month forecast per category and for the whole group, and
+ * recent expenses that are unusually large for their category.
+ */
+export const getSpendingInsights = async (groupId: string, now: Date = new Date()): Promise<SpendingInsights> => {
+  try {
+    const group = await GroupService.getGroup(groupId);
+    if (!group) {
+      throw new Error('لم يتم العثور على المجموعة');
+    }
+
+    const rows = await fetchExpenseRows(groupId, startOfMonthUtc(now, -ANOMALY_HISTORY_MONTHS), startOfMonthUtc(now, 1));
+    const expenses: ValuedExpense[] = rows.map(row => ({
+      row,
+      value: getScopedValue(row) ?? 0,
+      time: new Date(row.date).getTime()
+    }));
+
+    return {
+      forecast: buildForecast(expenses, now, group.baseCurrency),
+      anomalies: findAnomalies(expenses, now, group.baseCurrency)
+    };
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحليل المصروفات');
+  }
+};
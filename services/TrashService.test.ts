@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { supabase } = vi.hoisted(() => ({
+  supabase: { rpc: vi.fn(), from: vi.fn() }
+}));
+vi.mock('./supabaseClient', () => ({ supabase }));
+
+import { restoreRecord } from './TrashService';
+
+// update(...).eq(...) resolving to `result`
+const mockUpdate = (result: { error: unknown }) => {
+  const eq = vi.fn().mockResolvedValue(result);
+  const update = vi.fn(() => ({ eq }));
+  supabase.from.mockReturnValue({ update });
+  return { update, eq };
+};
+
+describe('restoreRecord', () => {
+  beforeEach(() => {
+    supabase.rpc.mockReset();
+    supabase.from.mockReset();
+  });
+
+  it('restores through restore_deleted_record', async () => {
+    supabase.rpc.mockResolvedValue({ error: null });
+
+    await expect(restoreRecord('expenses', 'e1')).resolves.toBeUndefined();
+    expect(supabase.rpc).toHaveBeenCalledWith('restore_deleted_record', { p_table: 'expenses', p_id: 'e1' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('shows the Arabic message for a known function error', async () => {
+    supabase.rpc.mockResolvedValue({ error: { code: 'P0002', message: 'NOT_FOUND' } });
+    await expect(restoreRecord('payments', 'p1')).rejects.toThrow('العنصر غير موجود في المحذوفات');
+
+    supabase.rpc.mockResolvedValue({ error: { code: '42501', message: 'NOT_AUTHORIZED' } });
+    await expect(restoreRecord('payments', 'p1')).rejects.toThrow('الاسترجاع متاح لمدير المجموعة');
+  });
+
+  it('passes other errors through unchanged', async () => {
+    const error = { code: '08006', message: 'connection failure' };
+    supabase.rpc.mockResolvedValue({ error });
+    await expect(restoreRecord('shopping_items', 's1')).rejects.toBe(error);
+  });
+
+  it('clears deleted_at directly when the function is not deployed', async () => {
+    supabase.rpc.mockResolvedValue({ error: { code: 'PGRST202', message: 'not found' } });
+    const { update, eq } = mockUpdate({ error: null });
+
+    await restoreRecord('shopping_items', 's1');
+    expect(supabase.from).toHaveBeenCalledWith('shopping_items');
+    expect(update).toHaveBeenCalledWith({ deleted_at: null });
+    expect(eq).toHaveBeenCalledWith('id', 's1');
+  });
+
+  it('fails when the fallback update fails', async () => {
+    supabase.rpc.mockResolvedValue({ error: { code: '42883', message: 'missing' } });
+    const error = { code: '42501', message: 'permission denied' };
+    mockUpdate({ error });
+
+    await expect(restoreRecord('expenses', 'e1')).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,145 @@
+import { supabase } from './supabaseClient';
+import { DeletedItem } from '../types';
+import { createServiceError } from '../utils/errorHandler';
+
+// ============================================================
+// RECENTLY DELETED
+// ============================================================
+// Expenses, payments and shopping items are soft deleted: the row
+// keeps everything and only gets deleted_at (migration 013). Every
+// other read filters on deleted_at IS NULL, so this is the one
+// module that looks at deleted rows. The services call the
+// helpers below from their own delete/restore functions.
+// ============================================================
+
+export type SoftDeleteTable = 'expenses' | 'payments' | 'shopping_items';
+
+/** How far back the "recently deleted" bin goes */
+export const RECENTLY_DELETED_DAYS = 30;
+
+// PostgREST / Postgres codes for a function that isn't deployed yet
+const MISSING_FUNCTION_CODES = new Set(['PGRST202', '42883']);
+
+const RESTORE_ERROR_MESSAGES: Record<string, string> = {
+  NOT_FOUND: 'العنصر غير موجود في المحذوفات',
+  NOT_AUTHORIZED: 'الاسترجاع متاح لمدير المجموعة أو لمن قام بالحذف فقط'
+};
+
+interface DeletedExpenseRow {
+  id: string;
+  groupId: string;
+  description: string;
+  amount: number | string;
+  currency?: string | null;
+  deleted_at: string;
+  deleted_by?: string | null;
+}
+
+interface DeletedPaymentRow {
+  id: string;
+  groupId: string;
+  from: string;
+  to: string;
+  amount: number | string;
+  deleted_at: string;
+  deleted_by?: string | null;
+}
+
+interface DeletedShoppingItemRow {
+  id: string;
+  groupId: string;
+  text: string;
+  deleted_at: string;
+  deleted_by?: string | null;
+}
+
+/** Marks a row deleted; deleted_by is stamped by the database */
+export const softDeleteRecord = async (table: SoftDeleteTable, id: string): Promise<void> => {
+  const { error } = await supabase
+    .from(table)
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('deleted_at', null);
+  if (error) throw error;
+};
+
+/** Clears deleted_at, if the caller is the group admin or the one who deleted it */
+export const restoreRecord = async (table: SoftDeleteTable, id: string): Promise<void> => {
+  const { error } = await supabase.rpc('restore_deleted_record', { p_table: table, p_id: id });
+  if (!error) return;
+
+  if (MISSING_FUNCTION_CODES.has(error.code)) {
+    // Without 013 there is no admin check to go through; RLS decides
+    const { error: updateError } = await supabase.from(table).update({ deleted_at: null }).eq('id', id);
+    if (updateError) throw updateError;
+    return;
+  }
+
+  const code = Object.keys(RESTORE_ERROR_MESSAGES).find(key => (error.message || '').includes(key));
+  throw code ? new Error(RESTORE_ERROR_MESSAGES[code]) : error;
+};
+
+/** Everything deleted in the group over the last RECENTLY_DELETED_DAYS, newest first */
+export const getRecentlyDeleted = async (groupId: string): Promise<DeletedItem[]> => {
+  try {
+    const since = new Date(Date.now() - RECENTLY_DELETED_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [expensesRes, paymentsRes, shoppingRes] = await Promise.all([
+      supabase
+        .from('expenses')
+        .select('id, "groupId", description, amount, currency, deleted_at, deleted_by')
+        .eq('groupId', groupId)
+        .gte('deleted_at', since),
+      supabase
+        .from('payments')
+        .select('id, "groupId", "from", "to", amount, deleted_at, deleted_by')
+        .eq('groupId', groupId)
+        .gte('deleted_at', since),
+      supabase
+        .from('shopping_items')
+        .select('id, "groupId", text, deleted_at, deleted_by')
+        .eq('groupId', groupId)
+        .gte('deleted_at', since)
+    ]);
+
+    if (expensesRes.error) throw expensesRes.error;
+    if (paymentsRes.error) throw paymentsRes.error;
+    if (shoppingRes.error) throw shoppingRes.error;
+
+    const items: DeletedItem[] = [
+      ...((expensesRes.data || []) as DeletedExpenseRow[]).map(row => ({
+        id: row.id,
+        type: 'expense' as const,
+        groupId: row.groupId,
+        title: row.description,
+        amount: Number(row.amount),
+        currency: row.currency ?? undefined,
+        deletedAt: row.deleted_at,
+        deletedBy: row.deleted_by ?? null
+      })),
+      ...((paymentsRes.data || []) as DeletedPaymentRow[]).map(row => ({
+        id: row.id,
+        type: 'payment' as const,
+        groupId: row.groupId,
+        title: '',
+        amount: Number(row.amount),
+        from: row.from,
+        to: row.to,
+        deletedAt: row.deleted_at,
+        deletedBy: row.deleted_by ?? null
+      })),
+      ...((shoppingRes.data || []) as DeletedShoppingItemRow[]).map(row => ({
+        id: row.id,
+        type: 'shopping_item' as const,
+        groupId: row.groupId,
+        title: row.text,
+        deletedAt: row.deleted_at,
+        deletedBy: row.deleted_by ?? null
+      }))
+    ];
+
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  } catch (error) {
+    throw createServiceError(error, 'تعذر تحميل المحذوفات');
+  }
+};
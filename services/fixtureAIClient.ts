@@ -0,0 +1,50 @@
+// ============================================================
+// FIXTURE AI CLIENT - Deterministic stand-in for Gemini
+// ============================================================
+// Returns the same canned results for every call so receipt and
+// voice flows can be exercised without an API key or network:
+//
+//   GeminiService.setAIClient(createFixtureAIClient());
+// ============================================================
+
+import type { AIClient, ItemizedReceipt, ReceiptData } from './geminiService';
+
+export interface AIFixtures {
+  receipt?: ReceiptData | null;
+  itemizedReceipt?: ItemizedReceipt | null;
+  transcript?: string;
+}
+
+export const DEFAULT_AI_FIXTURES: Required<AIFixtures> = {
+  receipt: {
+    amount: 482.5,
+    vendor: 'كارفور',
+    date: '2024-01-15',
+    category: 'Groceries'
+  },
+  itemizedReceipt: {
+    amount: 563.5,
+    vendor: 'مطعم أبو شقرة',
+    date: '2024-01-15',
+    category: 'Food',
+    items: [
+      { name: 'كباب وكفتة', quantity: 1, price: 210 },
+      { name: 'فتة', quantity: 1, price: 95 },
+      { name: 'سلطات', quantity: 2, price: 60 },
+      { name: 'مشروبات غازية', quantity: 4, price: 80 }
+    ],
+    tax: 62.3,
+    serviceCharge: 56.2,
+    tip: 0
+  },
+  transcript: 'عشاء مع الشباب'
+};
+
+export const createFixtureAIClient = (fixtures: AIFixtures = {}): AIClient => {
+  const resolved = { ...DEFAULT_AI_FIXTURES, ...fixtures };
+  return {
+    scanReceipt: async () => resolved.receipt,
+    scanReceiptItems: async () => resolved.itemizedReceipt,
+    transcribeAudio: async () => resolved.transcript
+  };
+};
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { allocateReceiptItems } from '../utils/splitUtils';
+import { createFixtureAIClient, DEFAULT_AI_FIXTURES } from './fixtureAIClient';
+import { scanReceiptItems, setAIClient } from './geminiService';
+
+const { itemizedReceipt } = DEFAULT_AI_FIXTURES;
+
+describe('scanReceiptItems with the fixture client', () => {
+  afterEach(() => {
+    setAIClient(null);
+  });
+
+  it('splits the scanned receipt total by claimed items', async () => {
+    setAIClient(createFixtureAIClient());
+    const receipt = await scanReceiptItems('image');
+    expect(receipt).toEqual(itemizedReceipt);
+
+    // Kebab for a, fatta for b, salads shared by a and b, drinks by everyone
+    const shares = allocateReceiptItems(receipt!, { 0: ['a'], 1: ['b'], 2: ['a', 'b'], 3: ['a', 'b', 'c'] });
+
+    // Tax and service are spread with the items, and the cents still add up to the total
+    expect(shares).toEqual({ a: 337.68, b: 192.05, c: 33.77 });
+    expect(Object.values(shares).reduce((sum, share) => sum + share, 0)).toBeCloseTo(itemizedReceipt!.amount, 2);
+  });
+
+  it('rejects a receipt with an unclaimed item', async () => {
+    setAIClient(createFixtureAIClient());
+    const receipt = await scanReceiptItems('image');
+
+    expect(() => allocateReceiptItems(receipt!, { 0: ['a'], 1: ['b'], 2: ['a'] })).toThrow('يوجد 1 صنف بدون صاحب');
+  });
+
+  it('returns null when no items were read', async () => {
+    setAIClient(createFixtureAIClient({ itemizedReceipt: { ...itemizedReceipt!, items: [] } }));
+    await expect(scanReceiptItems('image')).resolves.toBeNull();
+  });
+
+  it('returns null without a client', async () => {
+    await expect(scanReceiptItems('image')).resolves.toBeNull();
+  });
+});
@@ -2,16 +2,8 @@ import { GoogleGenAI, Type } from "@google/genai";
 
 // Vite exposes env vars via import.meta.env, not process.env
 const apiKey = (import.meta.env.VITE_GEMINI_API_KEY as string) || '';
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
-const ensureAI = (): GoogleGenAI => {
-  if (!ai) {
-    throw new Error('Gemini API key is not configured. Set VITE_GEMINI_API_KEY in your .env file.');
-  }
-  return ai;
-};
-
-interface ReceiptData {
+export interface ReceiptData {
   amount: number;
   vendor: string;
   date: string;
@@ -19,28 +11,59 @@ interface ReceiptData {
   notes?: string;
 }
 
-export const scanReceipt = async (base64Image: string): Promise<ReceiptData | null> => {
-  try {
-    const response = await ensureAI().models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/jpeg",
-              data: base64Image
-            }
-          },
-          {
-            text: `قم بتحليل هذا الإيصال/الفاتورة بدقة واستخرج المعلومات التالية:
+export interface ReceiptLineItem {
+  name: string;
+  /** Line total after quantity, before tax and service */
+  price: number;
+  quantity?: number;
+}
+
+export interface ItemizedReceipt extends ReceiptData {
+  items: ReceiptLineItem[];
+  tax: number;
+  serviceCharge: number;
+  tip: number;
+}
+
+/**
+ * Everything the app asks of the AI model. The Gemini implementation is the
+ * default; swap in a fake with setAIClient to return fixed fixtures.
+ */
+export interface AIClient {
+  scanReceipt(base64Image: string): Promise<ReceiptData | null>;
+  scanReceiptItems(base64Image: string): Promise<ItemizedReceipt | null>;
+  transcribeAudio(base64Audio: string): Promise<string>;
+}
+
+const RECEIPT_CATEGORIES = 'Rent, Utilities, Groceries, Internet, Electricity, Water, Gas, Entertainment, Food, Transportation, Maintenance, Other';
+
+const RECEIPT_PROMPT = `قم بتحليل هذا الإيصال/الفاتورة بدقة واستخرج المعلومات التالية:
 1. المبلغ الإجمالي (رقم فقط)
 2. اسم المتجر أو البائع أو نوع الخدمة
 3. التاريخ بصيغة YYYY-MM-DD (إذا غير موجود استخدم تاريخ اليوم)
-4. صنف المصروف إلى واحدة من الفئات التالية بالإنجليزية: Rent, Utilities, Groceries, Internet, Electricity, Water, Gas, Entertainment, Food, Transportation, Maintenance, Other
+4. صنف المصروف إلى واحدة من الفئات التالية بالإنجليزية: ${RECEIPT_CATEGORIES}
 5. أي ملاحظات مهمة (مثل رقم الفاتورة أو تفاصيل إضافية)
 
-أعد النتيجة كملف JSON.`
-          }
+أعد النتيجة كملف JSON.`;
+
+const ITEMIZED_RECEIPT_PROMPT = `قم بتحليل هذا الإيصال/الفاتورة بدقة واستخرج:
+1. المبلغ الإجمالي النهائي (رقم فقط)
+2. اسم المتجر أو البائع
+3. التاريخ بصيغة YYYY-MM-DD (إذا غير موجود استخدم تاريخ اليوم)
+4. صنف المصروف إلى واحدة من الفئات التالية بالإنجليزية: ${RECEIPT_CATEGORIES}
+5. قائمة بكل صنف: الاسم كما هو مكتوب، والكمية، والسعر الإجمالي للسطر قبل الضريبة والخدمة
+6. قيمة الضريبة، ورسوم الخدمة، والإكرامية (0 إذا غير موجودة)
+
+أعد النتيجة كملف JSON.`;
+
+const createGeminiClient = (ai: GoogleGenAI): AIClient => ({
+  scanReceipt: async (base64Image) => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+          { text: RECEIPT_PROMPT }
         ]
       },
       config: {
@@ -60,34 +83,109 @@ export const scanReceipt = async (base64Image: string): Promise<ReceiptData | nu
     });
 
     const text = response.text;
-    if (!text) return null;
-    return JSON.parse(text) as ReceiptData;
-
-  } catch {
-    return null;
-  }
-};
+    return text ? (JSON.parse(text) as ReceiptData) : null;
+  },
 
-export const transcribeAudio = async (base64Audio: string): Promise<string> => {
-  try {
-    const response = await ensureAI().models.generateContent({
+  scanReceiptItems: async (base64Image) => {
+    const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
       contents: {
         parts: [
-          {
-            inlineData: {
-              mimeType: "audio/webm",
-              data: base64Audio
-            }
+          { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+          { text: ITEMIZED_RECEIPT_PROMPT }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            amount: { type: Type.NUMBER },
+            vendor: { type: Type.STRING },
+            date: { type: Type.STRING },
+            category: { type: Type.STRING },
+            items: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  quantity: { type: Type.NUMBER },
+                  price: { type: Type.NUMBER }
+                },
+                required: ["name", "price"]
+              }
+            },
+            tax: { type: Type.NUMBER },
+            serviceCharge: { type: Type.NUMBER },
+            tip: { type: Type.NUMBER }
           },
-          {
-            text: "قم بتحويل هذا الصوت إلى نص باللغة العربية. اكتب بالضبط ما يُقال."
-          }
+          required: ["amount", "vendor", "category", "items"]
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) return null;
+    const parsed = JSON.parse(text) as Partial<ItemizedReceipt> & ReceiptData;
+    return {
+      ...parsed,
+      items: (parsed.items || []).filter(item => item.name && item.price > 0),
+      tax: parsed.tax || 0,
+      serviceCharge: parsed.serviceCharge || 0,
+      tip: parsed.tip || 0
+    };
+  },
+
+  transcribeAudio: async (base64Audio) => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          { inlineData: { mimeType: "audio/webm", data: base64Audio } },
+          { text: "قم بتحويل هذا الصوت إلى نص باللغة العربية. اكتب بالضبط ما يُقال." }
         ]
       }
     });
     return response.text || "";
+  }
+});
+
+let client: AIClient | null = apiKey ? createGeminiClient(new GoogleGenAI({ apiKey })) : null;
+
+/** Replaces the AI backend, e.g. with createFixtureAIClient for local runs */
+export const setAIClient = (next: AIClient | null) => {
+  client = next;
+};
+
+const ensureAI = (): AIClient => {
+  if (!client) {
+    throw new Error('Gemini API key is not configured. Set VITE_GEMINI_API_KEY in your .env file.');
+  }
+  return client;
+};
+
+export const scanReceipt = async (base64Image: string): Promise<ReceiptData | null> => {
+  try {
+    return await ensureAI().scanReceipt(base64Image);
+  } catch {
+    return null;
+  }
+};
+
+export const scanReceiptItems = async (base64Image: string): Promise<ItemizedReceipt | null> => {
+  try {
+    const receipt = await ensureAI().scanReceiptItems(base64Image);
+    return receipt && receipt.items.length > 0 ? receipt : null;
+  } catch {
+    return null;
+  }
+};
+
+export const transcribeAudio = async (base64Audio: string): Promise<string> => {
+  try {
+    return await ensureAI().transcribeAudio(base64Audio);
   } catch {
     return "";
   }
-};
\ No newline at end of file
+};
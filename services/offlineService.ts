@@ -5,18 +5,22 @@
 // ============================================================
 
 const DB_NAME = 'sha2etna_offline';
-const DB_VERSION = 2; // Bumped to fix meta store keyPath issue
+const DB_VERSION = 3; // Bumped to add the sync dead-letter store
+const MAX_SYNC_RETRIES = 3;
 
-interface SyncQueueItem {
+export interface SyncQueueItem {
   id: string;
   action: 'create' | 'update' | 'delete';
   table: string;
   data: Record<string, unknown>;
   timestamp: number;
   retries: number;
+  lastError?: string;
+  failedAt?: number;
 }
 
 let db: IDBDatabase | null = null;
+const syncQueueListeners = new Set<() => void>();
 
 // ============================================================
 // DATABASE INITIALIZATION
@@ -72,6 +76,12 @@ export const initOfflineDB = (): Promise<IDBDatabase> => {
         syncStore.createIndex('timestamp', 'timestamp', { unique: false });
       }
 
+      // Dead-letter store for queued actions that kept failing
+      if (!database.objectStoreNames.contains('sync_dead_letter')) {
+        const deadLetterStore = database.createObjectStore('sync_dead_letter', { keyPath: 'id' });
+        deadLetterStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
       // Last sync timestamp
       if (!database.objectStoreNames.contains('meta')) {
         database.createObjectStore('meta', { keyPath: 'key' });
@@ -169,6 +179,14 @@ export const addToSyncQueue = async (
   };
   
   await saveToStore('sync_queue', item);
+  syncQueueListeners.forEach(listener => listener());
+};
+
+export const onSyncQueueChange = (listener: () => void) => {
+  syncQueueListeners.add(listener);
+  return () => {
+    syncQueueListeners.delete(listener);
+  };
 };
 
 export const getSyncQueue = async (): Promise<SyncQueueItem[]> => {
@@ -183,6 +201,43 @@ export const updateSyncQueueItem = async (item: SyncQueueItem): Promise<void> =>
   await saveToStore('sync_queue', item);
 };
 
+// ============================================================
+// DEAD-LETTER OPERATIONS
+// ============================================================
+const moveToDeadLetter = async (item: SyncQueueItem): Promise<void> => {
+  await saveToStore('sync_dead_letter', { ...item, failedAt: Date.now() });
+  await removeFromSyncQueue(item.id);
+
+  // The create won't replay on its own any more, so stop showing it as
+  // pending; retrying from the dead-letter store brings the server row
+  const id = item.data.id;
+  if (item.action !== 'create' || typeof id !== 'string') return;
+  try {
+    const local = await getByIdFromStore<PendingRecord>(item.table, id);
+    if (local?.pendingSync) {
+      await deleteFromStore(item.table, id);
+    }
+  } catch {
+    // Not every queued table has a local store
+  }
+};
+
+export const getDeadLetterQueue = async (): Promise<SyncQueueItem[]> => {
+  return getFromStore<SyncQueueItem>('sync_dead_letter');
+};
+
+export const removeFromDeadLetter = async (id: string): Promise<void> => {
+  await deleteFromStore('sync_dead_letter', id);
+};
+
+export const requeueDeadLetterItem = async (id: string): Promise<void> => {
+  const item = await getByIdFromStore<SyncQueueItem>('sync_dead_letter', id);
+  if (!item) return;
+
+  await saveToStore('sync_queue', { ...item, retries: 0, failedAt: undefined });
+  await removeFromDeadLetter(id);
+};
+
 // ============================================================
 // META OPERATIONS (Last Sync, etc.)
 // ============================================================
@@ -225,64 +280,104 @@ export const getMeta = async <T>(key: string): Promise<T | null> => {
 // ============================================================
 // CACHE HELPERS
 // ============================================================
-export const cacheExpenses = async (expenses: unknown[]): Promise<void> => {
-  await clearStore('expenses');
-  if (expenses.length > 0) {
-    await saveToStore('expenses', expenses as { id: string }[]);
+// Group data is cached per group so switching groups offline shows
+// the right rows. Pending (not yet synced) rows are never dropped.
+// The services write here after every successful load and read from
+// here while offline.
+interface GroupScopedRecord {
+  id: string;
+  groupId?: string;
+  pendingSync?: boolean;
+  date?: string;
+}
+
+const replaceGroupRecords = async (
+  storeName: string,
+  groupId: string,
+  records: unknown[],
+  covers: (record: GroupScopedRecord) => boolean = () => true
+): Promise<void> => {
+  const existing = await getFromStore<GroupScopedRecord>(storeName);
+  const stale = existing.filter(record => record.groupId === groupId && !record.pendingSync && covers(record));
+  for (const record of stale) {
+    await deleteFromStore(storeName, record.id);
+  }
+  if (records.length > 0) {
+    await saveToStore(storeName, records as GroupScopedRecord[]);
   }
-  await setMeta('lastExpensesSync', Date.now());
 };
 
-export const getCachedExpenses = async (): Promise<unknown[]> => {
-  return getFromStore('expenses');
+const getGroupRecords = async (storeName: string, groupId: string): Promise<unknown[]> => {
+  const records = await getFromStore<GroupScopedRecord>(storeName);
+  return records.filter(record => record.groupId === groupId);
 };
 
-export const cachePayments = async (payments: unknown[]): Promise<void> => {
-  await clearStore('payments');
-  if (payments.length > 0) {
-    await saveToStore('payments', payments as { id: string }[]);
-  }
-  await setMeta('lastPaymentsSync', Date.now());
+/**
+ * Caches the newest page of a group's expenses. For a partial list pass
+ * the oldest date on it; cached expenses older than that are kept.
+ */
+export const cacheExpenses = async (groupId: string, expenses: unknown[], oldestDate?: string): Promise<void> => {
+  const oldest = oldestDate ? new Date(oldestDate).getTime() : null;
+  await replaceGroupRecords('expenses', groupId, expenses, record =>
+    oldest === null || !record.date || new Date(record.date).getTime() >= oldest
+  );
+  await setMeta(`lastExpensesSync:${groupId}`, Date.now());
 };
 
-export const getCachedPayments = async (): Promise<unknown[]> => {
-  return getFromStore('payments');
+export const getCachedExpenses = async (groupId: string): Promise<unknown[]> => {
+  return getGroupRecords('expenses', groupId);
 };
 
-export const cacheShoppingItems = async (items: unknown[]): Promise<void> => {
-  await clearStore('shopping_items');
-  if (items.length > 0) {
-    await saveToStore('shopping_items', items as { id: string }[]);
-  }
-  await setMeta('lastShoppingSync', Date.now());
+export const cachePayments = async (groupId: string, payments: unknown[]): Promise<void> => {
+  await replaceGroupRecords('payments', groupId, payments);
+  await setMeta(`lastPaymentsSync:${groupId}`, Date.now());
+};
+
+export const getCachedPayments = async (groupId: string): Promise<unknown[]> => {
+  return getGroupRecords('payments', groupId);
 };
 
-export const getCachedShoppingItems = async (): Promise<unknown[]> => {
-  return getFromStore('shopping_items');
+export const cacheShoppingItems = async (groupId: string, items: unknown[]): Promise<void> => {
+  await replaceGroupRecords('shopping_items', groupId, items);
+  await setMeta(`lastShoppingSync:${groupId}`, Date.now());
 };
 
-export const cacheChatMessages = async (messages: unknown[]): Promise<void> => {
+export const getCachedShoppingItems = async (groupId: string): Promise<unknown[]> => {
+  return getGroupRecords('shopping_items', groupId);
+};
+
+export const cacheChatMessages = async (groupId: string, messages: unknown[]): Promise<void> => {
   // Don't clear - append new messages
   if (messages.length > 0) {
     await saveToStore('chat_messages', messages as { id: string }[]);
   }
-  await setMeta('lastChatSync', Date.now());
+  await setMeta(`lastChatSync:${groupId}`, Date.now());
+};
+
+export const getCachedChatMessages = async (groupId: string): Promise<unknown[]> => {
+  return getGroupRecords('chat_messages', groupId);
 };
 
-export const getCachedChatMessages = async (): Promise<unknown[]> => {
-  return getFromStore('chat_messages');
+export const cacheBills = async (groupId: string, bills: unknown[]): Promise<void> => {
+  await replaceGroupRecords('bills', groupId, bills);
+  await setMeta(`lastBillsSync:${groupId}`, Date.now());
 };
 
-export const cacheBills = async (bills: unknown[]): Promise<void> => {
-  await clearStore('bills');
-  if (bills.length > 0) {
-    await saveToStore('bills', bills as { id: string }[]);
+export const getCachedBills = async (groupId: string): Promise<unknown[]> => {
+  return getGroupRecords('bills', groupId);
+};
+
+/** Replaces the cached list of the user's groups */
+export const cacheGroups = async (groups: { id: string }[]): Promise<void> => {
+  await clearStore('group');
+  if (groups.length > 0) {
+    await saveToStore('group', groups);
   }
-  await setMeta('lastBillsSync', Date.now());
+  await setMeta('lastGroupSync', Date.now());
 };
 
-export const getCachedBills = async (): Promise<unknown[]> => {
-  return getFromStore('bills');
+export const getCachedGroups = async (): Promise<unknown[]> => {
+  return getFromStore('group');
 };
 
 export const cacheGroup = async (group: unknown): Promise<void> => {
@@ -290,7 +385,10 @@ export const cacheGroup = async (group: unknown): Promise<void> => {
   await setMeta('lastGroupSync', Date.now());
 };
 
-export const getCachedGroup = async (): Promise<unknown | null> => {
+export const getCachedGroup = async (groupId?: string): Promise<unknown | null> => {
+  if (groupId) {
+    return getByIdFromStore('group', groupId);
+  }
   const groups = await getFromStore('group');
   return groups[0] || null;
 };
@@ -307,6 +405,45 @@ export const getCachedUsers = async (): Promise<unknown[]> => {
   return getFromStore('users');
 };
 
+// ============================================================
+// PENDING (NOT YET SYNCED) RECORDS
+// ============================================================
+interface PendingRecord {
+  id: string;
+  groupId?: string;
+  pendingSync?: boolean;
+}
+
+export const savePendingRecord = async <T extends PendingRecord>(
+  storeName: string,
+  record: T
+): Promise<void> => {
+  await saveToStore(storeName, { ...record, pendingSync: true });
+};
+
+export const getPendingRecords = async <T extends PendingRecord>(
+  storeName: string,
+  groupId?: string
+): Promise<T[]> => {
+  const records = await getFromStore<T>(storeName);
+  return records.filter(record => record.pendingSync && (!groupId || record.groupId === groupId));
+};
+
+/**
+ * Clears the pending flag once the server has the record, keeping the
+ * server's version of the row when one is available.
+ */
+export const markRecordSynced = async <T extends PendingRecord>(
+  storeName: string,
+  id: string,
+  serverRecord?: T | null
+): Promise<void> => {
+  const local = await getByIdFromStore<T>(storeName, id);
+  const merged = serverRecord ?? local;
+  if (!merged) return;
+  await saveToStore(storeName, { ...merged, pendingSync: false });
+};
+
 // ============================================================
 // NETWORK STATUS
 // ============================================================
@@ -328,6 +465,18 @@ export const processSyncQueue = async (
   let success = 0;
   let failed = 0;
 
+  const registerFailure = async (item: SyncQueueItem, reason: string) => {
+    item.retries++;
+    item.lastError = reason;
+    if (item.retries >= MAX_SYNC_RETRIES) {
+      // Keep the action around so it can be inspected or retried later
+      await moveToDeadLetter(item);
+      failed++;
+    } else {
+      await updateSyncQueueItem(item);
+    }
+  };
+
   for (const item of queue.sort((a, b) => a.timestamp - b.timestamp)) {
     try {
       const result = await syncHandler(item);
@@ -335,22 +484,10 @@ export const processSyncQueue = async (
         await removeFromSyncQueue(item.id);
         success++;
       } else {
-        item.retries++;
-        if (item.retries >= 3) {
-          await removeFromSyncQueue(item.id);
-          failed++;
-        } else {
-          await updateSyncQueueItem(item);
-        }
-      }
-    } catch {
-      item.retries++;
-      if (item.retries >= 3) {
-        await removeFromSyncQueue(item.id);
-        failed++;
-      } else {
-        await updateSyncQueueItem(item);
+        await registerFailure(item, 'sync handler rejected the item');
       }
+    } catch (error) {
+      await registerFailure(item, error instanceof Error ? error.message : String(error));
     }
   }
 
@@ -0,0 +1,196 @@
+// ============================================================
+// SYNC SERVICE - Replays the offline queue against Supabase
+// ============================================================
+// Each queued action is dispatched to the service that owns its
+// table. Creates reuse the client-generated id, so replaying an
+// action that already reached the server is treated as success.
+// Services queue their own offline writes (addToSyncQueue); replay
+// calls their direct server paths so nothing is queued twice.
+// ============================================================
+
+import * as ExpenseService from './ExpenseService';
+import * as PaymentService from './PaymentService';
+import * as ShoppingService from './ShoppingService';
+import * as BillService from './BillService';
+import * as ChatService from './ChatService';
+import * as OfflineService from './offlineService';
+import type { SyncQueueItem } from './offlineService';
+import { Bill, Payment, ShoppingItem } from '../types';
+import { ServiceError, createServiceError } from '../utils/errorHandler';
+
+type SyncAction = SyncQueueItem['action'];
+type SyncHandler = (data: Record<string, unknown>) => Promise<unknown>;
+
+export type SyncPhase = 'idle' | 'syncing' | 'done';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  pending: number;
+  deadLetter: number;
+  lastResult: { success: number; failed: number } | null;
+  lastSyncedAt: number | null;
+}
+
+// Postgres unique_violation: the row with this client id already exists
+const DUPLICATE_KEY_CODE = '23505';
+
+const requireId = (data: Record<string, unknown>): string => {
+  const id = data.id;
+  if (typeof id !== 'string' || !id) {
+    throw createServiceError(new Error('العنصر المؤجل لا يحتوي على معرف'), 'مزامنة البيانات');
+  }
+  return id;
+};
+
+const SYNC_HANDLERS: Record<string, Partial<Record<SyncAction, SyncHandler>>> = {
+  expenses: {
+    create: data => ExpenseService.insertExpense(data as unknown as ExpenseService.CreateExpenseInput),
+    update: data => ExpenseService.updateExpense(data as unknown as ExpenseService.UpdateExpenseInput),
+    delete: data => ExpenseService.deleteExpense(requireId(data))
+  },
+  payments: {
+    create: data => PaymentService.addPayment(data as unknown as Payment),
+    update: data => PaymentService.updatePayment(data as unknown as Payment)
+  },
+  shopping_items: {
+    create: data => ShoppingService.insertShoppingItem(data as unknown as ShoppingItem),
+    update: data => {
+      const { id, ...updates } = data as unknown as ShoppingItem;
+      return ShoppingService.updateShoppingItem(id, updates);
+    },
+    delete: data => ShoppingService.deleteShoppingItem(requireId(data))
+  },
+  bills: {
+    create: data => BillService.addBill(data as unknown as Bill),
+    update: data => {
+      const { id, ...updates } = data as unknown as Bill;
+      return BillService.updateBill(id, updates);
+    }
+  },
+  chat_messages: {
+    create: data => ChatService.sendMessage(data as unknown as ChatService.SendMessageInput)
+  }
+};
+
+// Tables whose offline creates are mirrored in IndexedDB as pending rows
+const PENDING_RECORD_TABLES = new Set(['expenses', 'shopping_items']);
+
+const reconcilePendingRecord = async (item: SyncQueueItem, serverRow: unknown) => {
+  if (item.action !== 'create' || !PENDING_RECORD_TABLES.has(item.table)) return;
+  const row = serverRow && typeof serverRow === 'object' ? (serverRow as { id: string }) : null;
+  await OfflineService.markRecordSynced(item.table, requireId(item.data), row);
+};
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  error instanceof ServiceError && error.code === DUPLICATE_KEY_CODE;
+
+export const syncQueueItem = async (item: SyncQueueItem): Promise<boolean> => {
+  const handler = SYNC_HANDLERS[item.table]?.[item.action];
+  if (!handler) {
+    throw createServiceError(
+      new Error(`لا يمكن مزامنة ${item.action} على ${item.table}`),
+      'مزامنة البيانات'
+    );
+  }
+
+  try {
+    const serverRow = await handler(item.data);
+    await reconcilePendingRecord(item, serverRow);
+    return true;
+  } catch (error) {
+    if (item.action === 'create' && isDuplicateKeyError(error)) {
+      await reconcilePendingRecord(item, null);
+      return true;
+    }
+    throw error;
+  }
+};
+
+// ============================================================
+// STATUS TRACKING
+// ============================================================
+let status: SyncStatus = {
+  phase: 'idle',
+  pending: 0,
+  deadLetter: 0,
+  lastResult: null,
+  lastSyncedAt: null
+};
+
+const listeners = new Set<(status: SyncStatus) => void>();
+let activeRun: Promise<SyncStatus> | null = null;
+
+const setStatus = (updates: Partial<SyncStatus>) => {
+  status = { ...status, ...updates };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const refreshSyncCounts = async (): Promise<void> => {
+  const [queue, deadLetter] = await Promise.all([
+    OfflineService.getSyncQueue(),
+    OfflineService.getDeadLetterQueue()
+  ]);
+  setStatus({ pending: queue.length, deadLetter: deadLetter.length });
+};
+
+// Keep the pending counter in step with writes queued by any service
+OfflineService.onSyncQueueChange(() => {
+  refreshSyncCounts().catch(() => {});
+});
+
+const runSync = async (): Promise<SyncStatus> => {
+  const queue = await OfflineService.getSyncQueue();
+  if (queue.length === 0) {
+    await refreshSyncCounts();
+    return status;
+  }
+
+  setStatus({ phase: 'syncing', pending: queue.length });
+  try {
+    const result = await OfflineService.processSyncQueue(syncQueueItem);
+    setStatus({ phase: 'done', lastResult: result, lastSyncedAt: Date.now() });
+  } catch (error) {
+    setStatus({ phase: 'idle' });
+    throw createServiceError(error, 'مزامنة البيانات');
+  } finally {
+    await refreshSyncCounts();
+  }
+  return status;
+};
+
+/**
+ * Replays every queued offline action. Concurrent calls share one run
+ * so an `online` event and an app start can't double-submit the queue.
+ */
+export const syncPendingChanges = async (): Promise<SyncStatus> => {
+  if (!activeRun) {
+    activeRun = runSync().finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+};
+
+export const retryDeadLetter = async (): Promise<SyncStatus> => {
+  const items = await OfflineService.getDeadLetterQueue();
+  for (const item of items) {
+    await OfflineService.requeueDeadLetterItem(item.id);
+  }
+  return syncPendingChanges();
+};
+
+export const acknowledgeSyncResult = () => {
+  if (status.phase === 'done') {
+    setStatus({ phase: 'idle' });
+  }
+};
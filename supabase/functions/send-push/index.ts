@@ -0,0 +1,140 @@
+// ============================================================
+// SEND-PUSH EDGE FUNCTION
+// ============================================================
+// Pushes saved notifications to every active web device of their
+// recipients, signed with the VAPID keys. Callers send ids, never
+// content: only rows claim_pending_pushes hands out are pushed,
+// so each recipient's channel, digest and quiet hours apply
+// (migrations 023, 025, 026), and each row is pushed once.
+//   {"notificationIds": [...]} - ones the caller just saved, for
+//       people they share a group with
+//   {"pending": true}          - what the caller is still owed;
+//       with the service role key (the scheduler, e.g. every 15
+//       minutes), what everyone is owed
+// Endpoints the push service reports as gone are deactivated.
+// Secrets: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT
+// ============================================================
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@sha2etna.app',
+  Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+  Deno.env.get('VAPID_PRIVATE_KEY') ?? ''
+);
+
+type AdminClient = ReturnType<typeof createClient>;
+
+// Sends one payload to every active web device of the recipients
+const sendToUsers = async (admin: AdminClient, recipients: string[], payload: unknown) => {
+  const { data: devices } = await admin
+    .from('user_devices')
+    .select('id, device_token, push_p256dh, push_auth')
+    .eq('device_type', 'web')
+    .eq('is_active', true)
+    .in('user_id', recipients)
+    .not('push_p256dh', 'is', null);
+
+  const body = JSON.stringify(payload);
+  const gone: string[] = [];
+  let sent = 0;
+
+  await Promise.all((devices ?? []).map(async device => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: device.device_token, keys: { p256dh: device.push_p256dh, auth: device.push_auth } },
+        body
+      );
+      sent++;
+    } catch (error) {
+      const status = (error as { statusCode?: number }).statusCode;
+      if (status === 404 || status === 410) gone.push(device.id);
+    }
+  }));
+
+  if (gone.length > 0) {
+    await admin.from('user_devices').update({ is_active: false }).in('id', gone);
+  }
+
+  return { sent, deactivated: gone.length };
+};
+
+// Claims the pushes that may go out now and sends each to its recipient
+const sendClaimed = async (admin: AdminClient, claim: { p_user_id?: string; p_ids?: string[] }) => {
+  const { data: claimed, error } = await admin.rpc('claim_pending_pushes', claim);
+  if (error) return json({ error: error.message }, 500);
+
+  let sent = 0;
+  let deactivated = 0;
+  for (const notification of claimed ?? []) {
+    const result = await sendToUsers(admin, [notification.userId], {
+      title: notification.title,
+      body: notification.message,
+      url: notification.actionUrl,
+      tag: notification.type,
+      notificationId: notification.id,
+      groupId: notification.groupId
+    });
+    sent += result.sent;
+    deactivated += result.deactivated;
+  }
+  return json({ sent, deactivated });
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+  const request = await req.json();
+
+  if (request?.pending === true && token === serviceRoleKey) return sendClaimed(admin, {});
+
+  const { data: { user } } = await admin.auth.getUser(token);
+  if (!user) return json({ error: 'NOT_AUTHENTICATED' }, 401);
+
+  if (request?.pending === true) return sendClaimed(admin, { p_user_id: user.id });
+
+  const { notificationIds } = request ?? {};
+  if (!Array.isArray(notificationIds) || notificationIds.length === 0) {
+    return json({ error: 'INVALID_PAYLOAD' }, 400);
+  }
+
+  const { data: notifications } = await admin
+    .from('notifications')
+    .select('id, "userId"')
+    .in('id', notificationIds);
+  const userIds = Array.from(new Set((notifications ?? []).map(row => row.userId)));
+  if (userIds.length === 0) return json({ sent: 0 });
+
+  // Only people in one of the caller's groups
+  const { data: callerGroups } = await admin
+    .from('group_members')
+    .select('group_id')
+    .eq('user_id', user.id)
+    .is('left_at', null);
+  const groupIds = (callerGroups ?? []).map(row => row.group_id);
+  if (groupIds.length === 0) return json({ sent: 0 });
+
+  const { data: members } = await admin
+    .from('group_members')
+    .select('user_id')
+    .in('group_id', groupIds)
+    .in('user_id', userIds)
+    .is('left_at', null);
+  const recipients = new Set((members ?? []).map(row => row.user_id));
+  const allowed = (notifications ?? []).filter(row => recipients.has(row.userId)).map(row => row.id);
+  if (allowed.length === 0) return json({ sent: 0 });
+
+  return sendClaimed(admin, { p_ids: allowed });
+});
@@ -0,0 +1,119 @@
+-- ============================================================
+-- SHA2ETNA - Expense Split Modes
+-- ============================================================
+-- Records how each expense was split (equal, exact amounts,
+-- percentages, shares or adjustments) together with the raw
+-- per-user inputs, so the split can be edited later.
+-- Run this AFTER 003_expense_versioning.sql
+-- ============================================================
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS "splitMode" TEXT NOT NULL DEFAULT 'equal'
+  CHECK ("splitMode" IN ('equal', 'exact', 'percentage', 'shares', 'adjustment'));
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS "splitInputs" JSONB;
+
+-- The signature changes again, so drop the versioned overload first
+DROP FUNCTION IF EXISTS public.update_expense_with_splits(
+  TEXT, DECIMAL, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, TEXT, UUID[], JSONB, JSONB, INTEGER
+);
+
+-- ============================================================
+-- FUNCTION: Atomic expense update with version check and split mode
+-- ============================================================
+-- new_split_mode = NULL keeps the stored mode and inputs.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.update_expense_with_splits(
+  expense_id TEXT,
+  new_amount DECIMAL,
+  new_title TEXT,
+  new_category TEXT,
+  new_payer_id UUID,
+  new_date TIMESTAMPTZ,
+  new_notes TEXT,
+  new_receipt_url TEXT,
+  new_split_between UUID[],
+  new_split_amounts JSONB,
+  new_splits JSONB,
+  expected_version INTEGER DEFAULT NULL,
+  new_split_mode TEXT DEFAULT NULL,
+  new_split_inputs JSONB DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_version INTEGER;
+BEGIN
+  SELECT version INTO v_current_version
+  FROM expenses
+  WHERE id = update_expense_with_splits.expense_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EXPENSE_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF expected_version IS NOT NULL AND v_current_version <> expected_version THEN
+    RAISE EXCEPTION 'EXPENSE_VERSION_CONFLICT' USING ERRCODE = 'P0004';
+  END IF;
+
+  UPDATE expenses
+  SET amount = new_amount,
+      description = new_title,
+      category = new_category,
+      "payerId" = new_payer_id,
+      date = new_date,
+      notes = new_notes,
+      "receiptUrl" = new_receipt_url,
+      "splitBetween" = COALESCE(new_split_between, '{}'::UUID[]),
+      "splitAmounts" = COALESCE(new_split_amounts, '{}'::JSONB),
+      "splitMode" = COALESCE(new_split_mode, "splitMode"),
+      "splitInputs" = CASE WHEN new_split_mode IS NULL THEN "splitInputs" ELSE new_split_inputs END,
+      version = v_current_version + 1
+  WHERE id = update_expense_with_splits.expense_id;
+
+  DELETE FROM expense_splits WHERE expense_splits.expense_id = update_expense_with_splits.expense_id;
+
+  IF new_splits IS NOT NULL AND jsonb_typeof(new_splits) = 'array' THEN
+    INSERT INTO expense_splits (id, expense_id, user_id, amount, paid, paid_at)
+    SELECT
+      split_data.id,
+      split_data.expense_id,
+      split_data.user_id,
+      split_data.amount,
+      split_data.paid,
+      split_data.paid_at
+    FROM jsonb_to_recordset(new_splits) AS split_data(
+      id TEXT,
+      expense_id TEXT,
+      user_id UUID,
+      amount DECIMAL,
+      paid BOOLEAN,
+      paid_at TIMESTAMPTZ
+    );
+  END IF;
+
+  RETURN v_current_version + 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_expense_with_splits(
+  TEXT,
+  DECIMAL,
+  TEXT,
+  TEXT,
+  UUID,
+  TIMESTAMPTZ,
+  TEXT,
+  TEXT,
+  UUID[],
+  JSONB,
+  JSONB,
+  INTEGER,
+  TEXT,
+  JSONB
+) TO authenticated;
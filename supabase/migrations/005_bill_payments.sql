@@ -0,0 +1,40 @@
+-- ============================================================
+-- SHA2ETNA - Bill Payment History
+-- ============================================================
+-- One row per paid bill cycle, linked to the expense that was
+-- created for it. The unique (bill_id, period_due_date) key
+-- stops the same cycle from being paid twice.
+-- Run this AFTER 004_expense_split_modes.sql
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS bill_payments (
+  id TEXT PRIMARY KEY,
+  bill_id TEXT NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  payer_id UUID NOT NULL REFERENCES profiles(id),
+  expense_id TEXT REFERENCES expenses(id) ON DELETE SET NULL,
+  amount DECIMAL NOT NULL CHECK (amount > 0),
+  period_due_date TIMESTAMPTZ NOT NULL,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (bill_id, period_due_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_payments_bill ON bill_payments(bill_id, paid_at DESC);
+CREATE INDEX IF NOT EXISTS idx_bill_payments_group ON bill_payments(group_id, paid_at DESC);
+
+ALTER TABLE bill_payments ENABLE ROW LEVEL SECURITY;
+
+-- Bill payments - group members can view and record
+CREATE POLICY "bill_payments_members_policy" ON bill_payments
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = bill_payments.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = bill_payments.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
@@ -0,0 +1,116 @@
+-- ============================================================
+-- SHA2ETNA - Scheduled Bill Reminders
+-- ============================================================
+-- Flags overdue bills and sends BILL_DUE notifications
+-- "reminderDays" before each due date. bill_reminders records
+-- what was sent per bill cycle so nothing goes out twice.
+-- Run this AFTER 005_bill_payments.sql
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS bill_reminders (
+  bill_id TEXT NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+  period_due_date TIMESTAMPTZ NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('reminder', 'overdue')),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (bill_id, period_due_date, kind)
+);
+
+ALTER TABLE bill_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Bill reminders - group members can view and record
+CREATE POLICY "bill_reminders_members_policy" ON bill_reminders
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM bills b
+    JOIN group_members gm ON gm.group_id = b."groupId"
+    WHERE b.id = bill_reminders.bill_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+-- ============================================================
+-- FUNCTION: Process overdue bills and due reminders
+-- ============================================================
+-- p_group_id = NULL processes every group (scheduler only).
+-- Signed-in callers must pass a group they belong to.
+-- Returns {"overdue": n, "reminders": n}.
+-- ============================================================
+CREATE OR REPLACE FUNCTION process_bill_reminders(p_group_id TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_overdue INTEGER := 0;
+  v_reminders INTEGER := 0;
+  v_bill RECORD;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF p_group_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  UPDATE bills
+  SET status = 'overdue'
+  WHERE status = 'pending'
+    AND "dueDate" < NOW()
+    AND deleted_at IS NULL
+    AND (p_group_id IS NULL OR "groupId" = p_group_id);
+  GET DIAGNOSTICS v_overdue = ROW_COUNT;
+
+  FOR v_bill IN
+    SELECT b.id, b."groupId", b.name, b.amount, b."dueDate"
+    FROM bills b
+    WHERE b.reminder = TRUE
+      AND b.status IN ('pending', 'overdue')
+      AND b.deleted_at IS NULL
+      AND (p_group_id IS NULL OR b."groupId" = p_group_id)
+      AND b."dueDate" - make_interval(days => COALESCE(b."reminderDays", 3)) <= NOW()
+  LOOP
+    -- Claim this cycle; a row that already exists means we reminded before
+    INSERT INTO bill_reminders (bill_id, period_due_date, kind)
+    VALUES (v_bill.id, v_bill."dueDate", 'reminder')
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO notifications (id, "userId", type, title, message, read, date, data, "actionUrl")
+      SELECT
+        'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || member_id::TEXT), 1, 7),
+        member_id,
+        'BILL_DUE',
+        'فاتورة قادمة',
+        CASE
+          WHEN v_bill."dueDate" < NOW() THEN 'فاتورة ' || v_bill.name || ' متأخرة عن موعدها (' || v_bill.amount || ' ج.م)'
+          ELSE 'موعد فاتورة ' || v_bill.name || ' يوم ' || to_char(v_bill."dueDate", 'YYYY-MM-DD') || ' (' || v_bill.amount || ' ج.م)'
+        END,
+        FALSE,
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        jsonb_build_object('billId', v_bill.id, 'dueDate', v_bill."dueDate"),
+        '/bills'
+      FROM groups g, unnest(g.members) AS member_id
+      WHERE g.id = v_bill."groupId";
+
+      v_reminders := v_reminders + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('overdue', v_overdue, 'reminders', v_reminders);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_bill_reminders(TEXT) TO authenticated;
+
+-- ============================================================
+-- SCHEDULE: hourly run when pg_cron is available
+-- ============================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-bill-reminders', '0 * * * *', 'SELECT process_bill_reminders()');
+  END IF;
+END;
+$$;
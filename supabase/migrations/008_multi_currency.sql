@@ -0,0 +1,190 @@
+-- ============================================================
+-- SHA2ETNA - Multi-currency Expenses
+-- ============================================================
+-- Groups get a base currency. Each expense keeps the currency it
+-- was paid in plus the exchange rate to the base currency at the
+-- time it was recorded, so later rate changes never move old
+-- balances. exchange_rates holds the last rate each group used.
+-- Run this AFTER 007_notification_groups.sql
+-- ============================================================
+
+ALTER TABLE groups
+ADD COLUMN IF NOT EXISTS "baseCurrency" TEXT NOT NULL DEFAULT 'EGP';
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS "currency" TEXT;
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS "exchangeRate" DECIMAL(20, 10) NOT NULL DEFAULT 1
+  CHECK ("exchangeRate" > 0);
+
+-- Existing expenses were recorded in their group's currency
+UPDATE expenses e
+SET "currency" = g."baseCurrency"
+FROM groups g
+WHERE g.id = e."groupId" AND e."currency" IS NULL;
+
+-- ============================================================
+-- TRIGGER: Default new expenses to the group's base currency
+-- ============================================================
+CREATE OR REPLACE FUNCTION set_expense_currency()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW."currency" IS NULL THEN
+    SELECT "baseCurrency" INTO NEW."currency" FROM groups WHERE id = NEW."groupId";
+    NEW."exchangeRate" := 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS expenses_set_currency ON expenses;
+CREATE TRIGGER expenses_set_currency
+BEFORE INSERT ON expenses
+FOR EACH ROW EXECUTE FUNCTION set_expense_currency();
+
+-- ============================================================
+-- TABLE: Exchange rates per group
+-- ============================================================
+-- rate = units of base_currency per 1 unit of quote_currency.
+-- Keyed by base_currency too, so rates saved before a base
+-- currency change are simply never matched again.
+-- ============================================================
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate DECIMAL(20, 10) NOT NULL CHECK (rate > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (group_id, base_currency, quote_currency)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Exchange rates - group members can view and update
+CREATE POLICY "exchange_rates_members_policy" ON exchange_rates
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = exchange_rates.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = exchange_rates.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+-- The signature changes again, so drop the split-mode overload first
+DROP FUNCTION IF EXISTS public.update_expense_with_splits(
+  TEXT, DECIMAL, TEXT, TEXT, UUID, TIMESTAMPTZ, TEXT, TEXT, UUID[], JSONB, JSONB, INTEGER, TEXT, JSONB
+);
+
+-- ============================================================
+-- FUNCTION: Atomic expense update with version check, split mode and currency
+-- ============================================================
+-- new_split_mode = NULL keeps the stored mode and inputs.
+-- new_currency = NULL keeps the stored currency and rate.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.update_expense_with_splits(
+  expense_id TEXT,
+  new_amount DECIMAL,
+  new_title TEXT,
+  new_category TEXT,
+  new_payer_id UUID,
+  new_date TIMESTAMPTZ,
+  new_notes TEXT,
+  new_receipt_url TEXT,
+  new_split_between UUID[],
+  new_split_amounts JSONB,
+  new_splits JSONB,
+  expected_version INTEGER DEFAULT NULL,
+  new_split_mode TEXT DEFAULT NULL,
+  new_split_inputs JSONB DEFAULT NULL,
+  new_currency TEXT DEFAULT NULL,
+  new_exchange_rate DECIMAL DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_version INTEGER;
+BEGIN
+  SELECT version INTO v_current_version
+  FROM expenses
+  WHERE id = update_expense_with_splits.expense_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'EXPENSE_NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF expected_version IS NOT NULL AND v_current_version <> expected_version THEN
+    RAISE EXCEPTION 'EXPENSE_VERSION_CONFLICT' USING ERRCODE = 'P0004';
+  END IF;
+
+  UPDATE expenses
+  SET amount = new_amount,
+      description = new_title,
+      category = new_category,
+      "payerId" = new_payer_id,
+      date = new_date,
+      notes = new_notes,
+      "receiptUrl" = new_receipt_url,
+      "splitBetween" = COALESCE(new_split_between, '{}'::UUID[]),
+      "splitAmounts" = COALESCE(new_split_amounts, '{}'::JSONB),
+      "splitMode" = COALESCE(new_split_mode, "splitMode"),
+      "splitInputs" = CASE WHEN new_split_mode IS NULL THEN "splitInputs" ELSE new_split_inputs END,
+      "currency" = COALESCE(new_currency, "currency"),
+      "exchangeRate" = CASE WHEN new_currency IS NULL THEN "exchangeRate" ELSE COALESCE(new_exchange_rate, 1) END,
+      version = v_current_version + 1
+  WHERE id = update_expense_with_splits.expense_id;
+
+  DELETE FROM expense_splits WHERE expense_splits.expense_id = update_expense_with_splits.expense_id;
+
+  IF new_splits IS NOT NULL AND jsonb_typeof(new_splits) = 'array' THEN
+    INSERT INTO expense_splits (id, expense_id, user_id, amount, paid, paid_at)
+    SELECT
+      split_data.id,
+      split_data.expense_id,
+      split_data.user_id,
+      split_data.amount,
+      split_data.paid,
+      split_data.paid_at
+    FROM jsonb_to_recordset(new_splits) AS split_data(
+      id TEXT,
+      expense_id TEXT,
+      user_id UUID,
+      amount DECIMAL,
+      paid BOOLEAN,
+      paid_at TIMESTAMPTZ
+    );
+  END IF;
+
+  RETURN v_current_version + 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_expense_with_splits(
+  TEXT,
+  DECIMAL,
+  TEXT,
+  TEXT,
+  UUID,
+  TIMESTAMPTZ,
+  TEXT,
+  TEXT,
+  UUID[],
+  JSONB,
+  JSONB,
+  INTEGER,
+  TEXT,
+  JSONB,
+  TEXT,
+  DECIMAL
+) TO authenticated;
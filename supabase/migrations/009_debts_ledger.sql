@@ -0,0 +1,148 @@
+-- ============================================================
+-- SHA2ETNA - Personal Debts Ledger
+-- ============================================================
+-- One-to-one loans between two people, inside a group or not.
+-- "from" is the borrower and "to" the lender, matching the
+-- direction of the payment that settles the debt.
+-- Settlement payments carry "debtId" so group balances can
+-- leave them out unless debts are included too.
+-- Run this AFTER 008_multi_currency.sql
+-- ============================================================
+
+ALTER TABLE debts
+ADD COLUMN IF NOT EXISTS "createdBy" UUID REFERENCES profiles(id);
+
+ALTER TABLE debts
+ADD COLUMN IF NOT EXISTS "paymentId" TEXT REFERENCES payments(id) ON DELETE SET NULL;
+
+ALTER TABLE debts
+ADD COLUMN IF NOT EXISTS "settledAt" TIMESTAMPTZ;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS "debtId" TEXT REFERENCES debts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_debts_group ON debts("groupId") WHERE "groupId" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_debts_due_active ON debts("dueDate") WHERE status <> 'paid';
+
+ALTER TABLE debts ENABLE ROW LEVEL SECURITY;
+
+-- Debts - the two people involved can do everything
+DROP POLICY IF EXISTS "debts_parties_policy" ON debts;
+CREATE POLICY "debts_parties_policy" ON debts
+FOR ALL USING (auth.uid() IN ("from", "to"))
+WITH CHECK (auth.uid() IN ("from", "to"));
+
+-- Debts - group members can see the group's shared (non-personal) debts
+DROP POLICY IF EXISTS "debts_group_members_select" ON debts;
+CREATE POLICY "debts_group_members_select" ON debts
+FOR SELECT USING (
+  "groupId" IS NOT NULL
+  AND COALESCE("isPersonal", FALSE) = FALSE
+  AND EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = debts."groupId" AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+-- ============================================================
+-- TABLE: Debt reminders already sent
+-- ============================================================
+-- kind = 'due' (the day before) or 'overdue'; the primary key
+-- makes each reminder go out once per debt.
+-- ============================================================
+CREATE TABLE IF NOT EXISTS debt_reminders (
+  debt_id TEXT NOT NULL REFERENCES debts(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('due', 'overdue')),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (debt_id, kind)
+);
+
+ALTER TABLE debt_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "debt_reminders_parties_policy" ON debt_reminders
+FOR ALL USING (
+  EXISTS (SELECT 1 FROM debts d WHERE d.id = debt_reminders.debt_id AND auth.uid() IN (d."from", d."to"))
+)
+WITH CHECK (
+  EXISTS (SELECT 1 FROM debts d WHERE d.id = debt_reminders.debt_id AND auth.uid() IN (d."from", d."to"))
+);
+
+-- ============================================================
+-- FUNCTION: Process overdue debts and due reminders
+-- ============================================================
+-- Signed-in callers only process debts they are part of; the
+-- scheduler (no auth.uid()) processes everything.
+-- Returns {"overdue": n, "reminders": n}.
+-- ============================================================
+CREATE OR REPLACE FUNCTION process_debt_reminders()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_overdue INTEGER := 0;
+  v_reminders INTEGER := 0;
+  v_uid UUID := auth.uid();
+  v_debt RECORD;
+  v_kind TEXT;
+BEGIN
+  UPDATE debts
+  SET status = 'overdue'
+  WHERE status = 'active'
+    AND "dueDate" < NOW()
+    AND (v_uid IS NULL OR v_uid IN ("from", "to"));
+  GET DIAGNOSTICS v_overdue = ROW_COUNT;
+
+  FOR v_debt IN
+    SELECT d.id, d."from", d."to", d.amount, d.description, d."dueDate", d."groupId"
+    FROM debts d
+    WHERE d.status IN ('active', 'overdue')
+      AND d."dueDate" IS NOT NULL
+      AND d."dueDate" - INTERVAL '1 day' <= NOW()
+      AND (v_uid IS NULL OR v_uid IN (d."from", d."to"))
+  LOOP
+    v_kind := CASE WHEN v_debt."dueDate" < NOW() THEN 'overdue' ELSE 'due' END;
+
+    INSERT INTO debt_reminders (debt_id, kind)
+    VALUES (v_debt.id, v_kind)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO notifications (id, "userId", type, title, message, read, date, data, "actionUrl", "groupId")
+      VALUES (
+        'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || v_debt.id), 1, 7),
+        v_debt."from",
+        'DEBT_REMINDER',
+        'تذكير بالدين',
+        CASE
+          WHEN v_kind = 'overdue' THEN 'دين بقيمة ' || v_debt.amount || ' تأخر سداده'
+          ELSE 'موعد سداد دين بقيمة ' || v_debt.amount || ' يوم ' || to_char(v_debt."dueDate", 'YYYY-MM-DD')
+        END || COALESCE(' (' || v_debt.description || ')', ''),
+        FALSE,
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        jsonb_build_object('debtId', v_debt.id, 'dueDate', v_debt."dueDate"),
+        '/debts',
+        v_debt."groupId"
+      );
+
+      v_reminders := v_reminders + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('overdue', v_overdue, 'reminders', v_reminders);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_debt_reminders() TO authenticated;
+
+-- ============================================================
+-- SCHEDULE: hourly run when pg_cron is available
+-- ============================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-debt-reminders', '15 * * * *', 'SELECT process_debt_reminders()');
+  END IF;
+END;
+$$;
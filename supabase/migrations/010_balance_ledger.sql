@@ -0,0 +1,99 @@
+-- ============================================================
+-- SHA2ETNA - Unified Balance Ledger
+-- ============================================================
+-- calculate_group_balances becomes the single source of truth
+-- for member balances (Dashboard, Stats and Settlements all read
+-- it through LedgerService):
+--   * shares come only from expense_splits, so members who join
+--     later are never charged for older expenses
+--   * expenses are converted with their stored "exchangeRate"
+--   * debt settlement payments only count alongside their debt,
+--     and shared debts are counted when p_include_debts is set
+--   * the paid/share/sent/received totals are returned too
+-- remove_group_member, leave_group and delete_group keep calling
+-- it with the group id only and still read user_id / balance.
+-- Run this AFTER 009_debts_ledger.sql
+-- ============================================================
+
+DROP FUNCTION IF EXISTS calculate_group_balances(TEXT);
+
+CREATE OR REPLACE FUNCTION calculate_group_balances(
+  p_group_id TEXT,
+  p_include_debts BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE(
+  user_id UUID,
+  total_paid DECIMAL,
+  total_share DECIMAL,
+  total_sent DECIMAL,
+  total_received DECIMAL,
+  balance DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH group_expenses AS (
+    SELECT e.id, e."payerId", e.amount, COALESCE(e."exchangeRate", 1) AS rate
+    FROM expenses e
+    WHERE e."groupId" = p_group_id AND e.deleted_at IS NULL
+  ),
+  paid AS (
+    SELECT ge."payerId" AS uid, SUM(ge.amount * ge.rate) AS amount
+    FROM group_expenses ge
+    GROUP BY ge."payerId"
+  ),
+  shares AS (
+    SELECT es.user_id AS uid, SUM(es.amount * ge.rate) AS amount
+    FROM expense_splits es
+    JOIN group_expenses ge ON ge.id = es.expense_id
+    GROUP BY es.user_id
+  ),
+  -- Shared debts, counted as a payment from lender ("to") to borrower ("from")
+  included_debts AS (
+    SELECT d.id, d."from", d."to", d.amount
+    FROM debts d
+    WHERE p_include_debts
+      AND d."groupId" = p_group_id
+      AND COALESCE(d."isPersonal", FALSE) = FALSE
+  ),
+  transfers AS (
+    SELECT p."from" AS sender, p."to" AS receiver, p.amount
+    FROM payments p
+    WHERE p."groupId" = p_group_id
+      AND p.status IN ('CONFIRMED', 'COMPLETED')
+      AND p.deleted_at IS NULL
+      AND (p."debtId" IS NULL OR p."debtId" IN (SELECT id FROM included_debts))
+    UNION ALL
+    SELECT d."to", d."from", d.amount
+    FROM included_debts d
+  ),
+  sent AS (
+    SELECT t.sender AS uid, SUM(t.amount) AS amount FROM transfers t GROUP BY t.sender
+  ),
+  received AS (
+    SELECT t.receiver AS uid, SUM(t.amount) AS amount FROM transfers t GROUP BY t.receiver
+  ),
+  participants AS (
+    SELECT unnest(g.members) AS uid FROM groups g WHERE g.id = p_group_id
+    UNION SELECT uid FROM paid
+    UNION SELECT uid FROM shares
+    UNION SELECT uid FROM sent
+    UNION SELECT uid FROM received
+  )
+  SELECT
+    pt.uid,
+    COALESCE(pd.amount, 0),
+    COALESCE(sh.amount, 0),
+    COALESCE(st.amount, 0),
+    COALESCE(rc.amount, 0),
+    COALESCE(pd.amount, 0) - COALESCE(sh.amount, 0) + COALESCE(st.amount, 0) - COALESCE(rc.amount, 0)
+  FROM participants pt
+  LEFT JOIN paid pd ON pd.uid = pt.uid
+  LEFT JOIN shares sh ON sh.uid = pt.uid
+  LEFT JOIN sent st ON st.uid = pt.uid
+  LEFT JOIN received rc ON rc.uid = pt.uid
+  WHERE pt.uid IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_group_balances(TEXT, BOOLEAN) TO authenticated;
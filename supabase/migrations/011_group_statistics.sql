@@ -0,0 +1,223 @@
+-- ============================================================
+-- SHA2ETNA - Server-side Statistics
+-- ============================================================
+-- Stats used to be aggregated in the browser from every expense
+-- of the group. These functions do it in SQL for a date range:
+--   * get_expense_trend: spending per bucket (month, week, or a
+--     custom number of days), empty buckets included
+--   * get_group_statistics: totals, categories, per-member
+--     contribution and the trend, in one round trip
+-- Amounts are in the group's base currency, converted with each
+-- expense's stored "exchangeRate". Passing p_user_id scopes the
+-- amounts to that member's share (from expense_splits).
+-- The range is [p_from, p_to) and defaults to the last 6 months.
+-- Run this AFTER 010_balance_ledger.sql
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_expenses_group_date ON expenses("groupId", date DESC);
+
+-- ============================================================
+-- FUNCTION: Spending per bucket
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_expense_trend(
+  p_group_id TEXT,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_bucket TEXT DEFAULT 'month',
+  p_bucket_days INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE(bucket_start TIMESTAMPTZ, amount DECIMAL, expense_count INTEGER)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_from TIMESTAMPTZ := COALESCE(p_from, date_trunc('month', NOW()) - INTERVAL '5 months');
+  v_to TIMESTAMPTZ := COALESCE(p_to, NOW());
+  v_first TIMESTAMPTZ;
+  v_step INTERVAL;
+BEGIN
+  IF v_to <= v_from THEN
+    RAISE EXCEPTION 'INVALID_RANGE' USING ERRCODE = '22023';
+  END IF;
+
+  CASE p_bucket
+    WHEN 'month' THEN
+      v_first := date_trunc('month', v_from);
+      v_step := INTERVAL '1 month';
+    WHEN 'week' THEN
+      v_first := date_trunc('week', v_from);
+      v_step := INTERVAL '1 week';
+    WHEN 'custom' THEN
+      IF p_bucket_days IS NULL OR p_bucket_days < 1 THEN
+        RAISE EXCEPTION 'INVALID_BUCKET' USING ERRCODE = '22023';
+      END IF;
+      v_first := v_from;
+      v_step := make_interval(days => p_bucket_days);
+    ELSE
+      RAISE EXCEPTION 'INVALID_BUCKET' USING ERRCODE = '22023';
+  END CASE;
+
+  IF (SELECT COUNT(*) FROM generate_series(v_first, v_to - INTERVAL '1 microsecond', v_step)) > 366 THEN
+    RAISE EXCEPTION 'TOO_MANY_BUCKETS' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH buckets AS (
+    SELECT gs AS start
+    FROM generate_series(v_first, v_to - INTERVAL '1 microsecond', v_step) gs
+  ),
+  scoped AS (
+    SELECT
+      e.date,
+      (CASE WHEN p_user_id IS NULL THEN e.amount ELSE es.amount END) * COALESCE(e."exchangeRate", 1) AS value
+    FROM expenses e
+    LEFT JOIN expense_splits es ON es.expense_id = e.id AND es.user_id = p_user_id
+    WHERE e."groupId" = p_group_id
+      AND e.deleted_at IS NULL
+      AND e.date >= v_from
+      AND e.date < v_to
+      AND (p_user_id IS NULL OR es.user_id IS NOT NULL)
+  ),
+  bucketed AS (
+    SELECT
+      CASE
+        WHEN p_bucket = 'custom'
+          THEN v_first + floor(EXTRACT(EPOCH FROM s.date - v_first) / EXTRACT(EPOCH FROM v_step))::INTEGER * v_step
+        ELSE date_trunc(p_bucket, s.date)
+      END AS start,
+      s.value
+    FROM scoped s
+  )
+  SELECT b.start, COALESCE(SUM(x.value), 0)::DECIMAL, COUNT(x.value)::INTEGER
+  FROM buckets b
+  LEFT JOIN bucketed x ON x.start = b.start
+  GROUP BY b.start
+  ORDER BY b.start;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Group statistics for a date range
+-- ============================================================
+-- Replaces the 002 version (whole history, no currency
+-- conversion). "categories", "members" and "trend" are arrays;
+-- "members" is always group-wide, even with p_user_id.
+-- ============================================================
+DROP FUNCTION IF EXISTS get_group_statistics(TEXT);
+
+CREATE OR REPLACE FUNCTION get_group_statistics(
+  p_group_id TEXT,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_bucket TEXT DEFAULT 'month',
+  p_bucket_days INTEGER DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_from TIMESTAMPTZ := COALESCE(p_from, date_trunc('month', NOW()) - INTERVAL '5 months');
+  v_to TIMESTAMPTZ := COALESCE(p_to, NOW());
+  v_month_start TIMESTAMPTZ := date_trunc('month', NOW());
+  v_result JSONB;
+BEGIN
+  WITH scoped AS (
+    SELECT
+      e.date,
+      e.category,
+      (CASE WHEN p_user_id IS NULL THEN e.amount ELSE es.amount END) * COALESCE(e."exchangeRate", 1) AS value
+    FROM expenses e
+    LEFT JOIN expense_splits es ON es.expense_id = e.id AND es.user_id = p_user_id
+    WHERE e."groupId" = p_group_id
+      AND e.deleted_at IS NULL
+      AND e.date >= LEAST(v_from, v_month_start)
+      AND (p_user_id IS NULL OR es.user_id IS NOT NULL)
+  ),
+  in_range AS (
+    SELECT * FROM scoped WHERE date >= v_from AND date < v_to
+  ),
+  range_expenses AS (
+    SELECT e.id, e."payerId", e.amount * COALESCE(e."exchangeRate", 1) AS value, COALESCE(e."exchangeRate", 1) AS rate
+    FROM expenses e
+    WHERE e."groupId" = p_group_id
+      AND e.deleted_at IS NULL
+      AND e.date >= v_from
+      AND e.date < v_to
+  ),
+  member_rows AS (
+    SELECT re."payerId" AS uid, re.value AS paid, 0::DECIMAL AS share, 1 AS paid_count
+    FROM range_expenses re
+    UNION ALL
+    SELECT es.user_id, 0::DECIMAL, es.amount * re.rate, 0
+    FROM expense_splits es
+    JOIN range_expenses re ON re.id = es.expense_id
+  ),
+  range_payments AS (
+    SELECT p.amount, p.status
+    FROM payments p
+    WHERE p."groupId" = p_group_id
+      AND p.deleted_at IS NULL
+      AND p.date >= v_from
+      AND p.date < v_to
+  )
+  SELECT jsonb_build_object(
+    'from', v_from,
+    'to', v_to,
+    'total_expenses', (SELECT COALESCE(SUM(value), 0) FROM in_range),
+    'expense_count', (SELECT COUNT(*) FROM in_range),
+    'current_month_total', (SELECT COALESCE(SUM(value), 0) FROM scoped WHERE date >= v_month_start),
+    'total_payments', (
+      SELECT COALESCE(SUM(amount), 0) FROM range_payments WHERE status IN ('CONFIRMED', 'COMPLETED')
+    ),
+    'payment_count', (
+      SELECT COUNT(*) FROM range_payments WHERE status IN ('CONFIRMED', 'COMPLETED')
+    ),
+    'pending_payments', (
+      SELECT COUNT(*)
+      FROM payments
+      WHERE "groupId" = p_group_id AND status = 'PENDING' AND deleted_at IS NULL
+    ),
+    'member_count', (
+      SELECT COALESCE(array_length(members, 1), 0) FROM groups WHERE id = p_group_id
+    ),
+    'categories', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('category', c.category, 'amount', c.amount) ORDER BY c.amount DESC), '[]'::JSONB)
+      FROM (
+        SELECT category, SUM(value) AS amount FROM in_range GROUP BY category
+      ) c
+    ),
+    'members', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'user_id', m.uid,
+        'paid', m.paid,
+        'share', m.share,
+        'expense_count', m.paid_count
+      ) ORDER BY m.paid DESC), '[]'::JSONB)
+      FROM (
+        SELECT uid, SUM(paid) AS paid, SUM(share) AS share, SUM(paid_count) AS paid_count
+        FROM member_rows
+        GROUP BY uid
+      ) m
+    ),
+    'trend', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'bucket_start', t.bucket_start,
+        'amount', t.amount,
+        'expense_count', t.expense_count
+      ) ORDER BY t.bucket_start), '[]'::JSONB)
+      FROM get_expense_trend(p_group_id, v_from, v_to, p_bucket, p_bucket_days, p_user_id) t
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_expense_trend(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_group_statistics(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, UUID) TO authenticated;
@@ -0,0 +1,296 @@
+-- ============================================================
+-- SHA2ETNA - Activity Feed
+-- ============================================================
+-- Fills activity_log (created in 002) for everything the group
+-- argues about: expenses, payments, bills, members and the invite
+-- code. Edits store the fields that changed as
+--   details.changes = { field: { "before": x, "after": y } }
+-- The actor is the signed-in user; background jobs fall back to
+-- the row's owner.
+-- Triggers run as SECURITY DEFINER because activity_log only has
+-- a SELECT policy, so members can read it but never write it.
+-- Run this AFTER 011_group_statistics.sql
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_activity_group_created ON activity_log(group_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_target ON activity_log(target_type, target_id);
+
+-- ============================================================
+-- HELPERS
+-- ============================================================
+
+-- Fields in p_fields whose value differs between the two rows
+CREATE OR REPLACE FUNCTION activity_diff(p_old JSONB, p_new JSONB, p_fields TEXT[])
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(f, jsonb_build_object('before', p_old -> f, 'after', p_new -> f)),
+    '{}'::JSONB
+  )
+  FROM unnest(p_fields) AS f
+  WHERE (p_old -> f) IS DISTINCT FROM (p_new -> f);
+$$;
+
+-- The 002 functions (remove_group_member, leave_group,
+-- regenerate_invite_code) still log by hand after their update
+-- has already been logged by the triggers below. Drop those
+-- repeats: same group, action and target within one transaction.
+CREATE OR REPLACE FUNCTION skip_duplicate_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM activity_log a
+    WHERE a.group_id = NEW.group_id
+      AND a.action = NEW.action
+      AND a.created_at = NEW.created_at
+      AND (NEW.target_id IS NULL OR a.target_id = NEW.target_id)
+  ) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS skip_duplicate_activity ON activity_log;
+CREATE TRIGGER skip_duplicate_activity
+  BEFORE INSERT ON activity_log
+  FOR EACH ROW
+  EXECUTE FUNCTION skip_duplicate_activity();
+
+-- ============================================================
+-- TRIGGER: Expenses
+-- ============================================================
+CREATE OR REPLACE FUNCTION log_expense_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."payerId"), 'expense_added', 'expense', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'currency', NEW.currency,
+        'description', NEW.description, 'category', NEW.category));
+
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (OLD."groupId", COALESCE(auth.uid(), OLD."payerId"), 'expense_deleted', 'expense', OLD.id,
+      jsonb_build_object('amount', OLD.amount, 'currency', OLD.currency, 'description', OLD.description));
+    RETURN OLD;
+
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."payerId"), 'expense_deleted', 'expense', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'currency', NEW.currency, 'description', NEW.description));
+
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."payerId"), 'expense_restored', 'expense', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'currency', NEW.currency, 'description', NEW.description));
+
+  ELSE
+    v_changes := activity_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY[
+      'amount', 'currency', 'exchangeRate', 'description', 'category', 'payerId',
+      'date', 'splitBetween', 'splitAmounts', 'splitMode', 'notes'
+    ]);
+    IF v_changes <> '{}'::JSONB THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."payerId"), 'expense_updated', 'expense', NEW.id,
+        jsonb_build_object('description', NEW.description, 'changes', v_changes));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_expense_changes ON expenses;
+CREATE TRIGGER log_expense_changes
+  AFTER INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION log_expense_activity();
+
+-- ============================================================
+-- TRIGGER: Payments
+-- ============================================================
+CREATE OR REPLACE FUNCTION log_payment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD."groupId" IS NOT NULL THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (OLD."groupId", COALESCE(auth.uid(), OLD."from"), 'payment_deleted', 'payment', OLD.id,
+        jsonb_build_object('amount', OLD.amount, 'from', OLD."from"::TEXT, 'to', OLD."to"::TEXT));
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- Personal payments (no group) have no feed to show up in
+  IF NEW."groupId" IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_initiated', 'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_deleted', 'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSIF OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('CONFIRMED', 'REJECTED') THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."to"),
+      CASE WHEN NEW.status = 'CONFIRMED' THEN 'payment_confirmed' ELSE 'payment_rejected' END,
+      'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSE
+    v_changes := activity_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY['amount', 'from', 'to', 'date', 'notes']);
+    IF v_changes <> '{}'::JSONB THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_updated', 'payment', NEW.id,
+        jsonb_build_object('amount', NEW.amount, 'changes', v_changes));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_payment_changes ON payments;
+CREATE TRIGGER log_payment_changes
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_payment_activity();
+
+-- ============================================================
+-- TRIGGER: Bills
+-- ============================================================
+-- Paying a bill rolls "dueDate" and sets "lastPaid" (005), so
+-- that shows up as bill_paid rather than an edit.
+-- ============================================================
+CREATE OR REPLACE FUNCTION log_bill_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes JSONB;
+  v_actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF v_actor IS NOT NULL THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (NEW."groupId", v_actor, 'bill_added', 'bill', NEW.id,
+        jsonb_build_object('name', NEW.name, 'amount', NEW.amount, 'dueDate', NEW."dueDate"));
+    END IF;
+
+  ELSIF TG_OP = 'DELETE' THEN
+    IF v_actor IS NOT NULL THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (OLD."groupId", v_actor, 'bill_deleted', 'bill', OLD.id,
+        jsonb_build_object('name', OLD.name, 'amount', OLD.amount));
+    END IF;
+    RETURN OLD;
+
+  -- Scheduled jobs (overdue flags, reminders) have no user and aren't worth a feed entry
+  ELSIF v_actor IS NULL THEN
+    RETURN NEW;
+
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", v_actor, 'bill_deleted', 'bill', NEW.id,
+      jsonb_build_object('name', NEW.name, 'amount', NEW.amount));
+
+  ELSE
+    v_changes := activity_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY[
+      'name', 'amount', 'category', 'dueDate', 'recurring', 'recurringPeriod', 'status'
+    ]);
+    IF OLD."lastPaid" IS DISTINCT FROM NEW."lastPaid" THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (NEW."groupId", v_actor, 'bill_paid', 'bill', NEW.id,
+        jsonb_build_object('name', NEW.name, 'amount', OLD.amount, 'changes', v_changes));
+    ELSIF v_changes <> '{}'::JSONB THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (NEW."groupId", v_actor, 'bill_updated', 'bill', NEW.id,
+        jsonb_build_object('name', NEW.name, 'changes', v_changes));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_bill_changes ON bills;
+CREATE TRIGGER log_bill_changes
+  AFTER INSERT OR UPDATE OR DELETE ON bills
+  FOR EACH ROW
+  EXECUTE FUNCTION log_bill_activity();
+
+-- ============================================================
+-- TRIGGER: Members and invite code
+-- ============================================================
+-- groups.members is the list the app reads, so membership is
+-- logged from changes to it. Someone adding or removing
+-- themselves joined or left; anyone else was added or removed.
+-- ============================================================
+CREATE OR REPLACE FUNCTION log_group_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(auth.uid(), NEW.created_by);
+  v_member UUID;
+BEGIN
+  FOR v_member IN
+    SELECT unnest(COALESCE(NEW.members, '{}')) EXCEPT SELECT unnest(COALESCE(OLD.members, '{}'))
+  LOOP
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW.id, COALESCE(v_actor, v_member),
+      CASE WHEN v_actor IS NULL OR v_actor = v_member THEN 'member_joined' ELSE 'member_added' END,
+      'member', v_member::TEXT, '{}');
+  END LOOP;
+
+  FOR v_member IN
+    SELECT unnest(COALESCE(OLD.members, '{}')) EXCEPT SELECT unnest(COALESCE(NEW.members, '{}'))
+  LOOP
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW.id, COALESCE(v_actor, v_member),
+      CASE WHEN v_actor IS NULL OR v_actor = v_member THEN 'member_left' ELSE 'member_removed' END,
+      'member', v_member::TEXT, '{}');
+  END LOOP;
+
+  IF OLD.code IS DISTINCT FROM NEW.code AND v_actor IS NOT NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW.id, v_actor, 'invite_code_regenerated', 'group', NEW.id,
+      jsonb_build_object('changes', activity_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY['code'])));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_group_changes ON groups;
+CREATE TRIGGER log_group_changes
+  AFTER UPDATE OF members, code ON groups
+  FOR EACH ROW
+  EXECUTE FUNCTION log_group_activity();
@@ -0,0 +1,172 @@
+-- ============================================================
+-- SHA2ETNA - Soft Delete & Restore
+-- ============================================================
+-- Expenses, payments and shopping items are no longer removed
+-- when deleted: the app sets deleted_at (added in 002) and the
+-- row stays, with its expense_splits, until someone restores it.
+-- Balances (010) and statistics (011) already skip rows with
+-- deleted_at set.
+-- Restoring goes through restore_deleted_record so that only the
+-- group admin, or whoever deleted the row (the undo toast), can
+-- bring it back.
+-- Run this AFTER 012_activity_log.sql
+-- ============================================================
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) DEFAULT NULL;
+
+ALTER TABLE payments
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) DEFAULT NULL;
+
+ALTER TABLE shopping_items
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES profiles(id) DEFAULT NULL;
+
+-- The "recently deleted" bin lists a group's deleted rows newest first
+CREATE INDEX IF NOT EXISTS idx_expenses_deleted ON expenses("groupId", deleted_at DESC) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payments_deleted ON payments("groupId", deleted_at DESC) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_shopping_items_deleted ON shopping_items("groupId", deleted_at DESC) WHERE deleted_at IS NOT NULL;
+
+-- ============================================================
+-- TRIGGER: Stamp who deleted a row
+-- ============================================================
+-- The client only sets deleted_at; deleted_by always comes from
+-- the session so it can't be forged, and is cleared on restore.
+-- ============================================================
+CREATE OR REPLACE FUNCTION stamp_deleted_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL THEN
+    NEW.deleted_by := NULL;
+  ELSIF OLD.deleted_at IS NULL THEN
+    NEW.deleted_by := auth.uid();
+  ELSE
+    NEW.deleted_by := OLD.deleted_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_expense_deleted_by ON expenses;
+CREATE TRIGGER stamp_expense_deleted_by
+  BEFORE UPDATE OF deleted_at ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_deleted_by();
+
+DROP TRIGGER IF EXISTS stamp_payment_deleted_by ON payments;
+CREATE TRIGGER stamp_payment_deleted_by
+  BEFORE UPDATE OF deleted_at ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_deleted_by();
+
+DROP TRIGGER IF EXISTS stamp_shopping_item_deleted_by ON shopping_items;
+CREATE TRIGGER stamp_shopping_item_deleted_by
+  BEFORE UPDATE OF deleted_at ON shopping_items
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_deleted_by();
+
+-- ============================================================
+-- FUNCTION: Restore a soft-deleted row
+-- ============================================================
+-- Errors:
+--   UNSUPPORTED_TABLE - p_table isn't expenses/payments/shopping_items
+--   NOT_FOUND         - no deleted row with that id
+--   NOT_AUTHORIZED    - caller is neither the admin nor the deleter
+-- ============================================================
+CREATE OR REPLACE FUNCTION restore_deleted_record(p_table TEXT, p_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id TEXT;
+  v_deleted_by UUID;
+  v_admin_id UUID;
+BEGIN
+  IF p_table NOT IN ('expenses', 'payments', 'shopping_items') THEN
+    RAISE EXCEPTION 'UNSUPPORTED_TABLE' USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT "groupId", deleted_by FROM %I WHERE id = $1 AND deleted_at IS NOT NULL', p_table)
+    INTO v_group_id, v_deleted_by
+    USING p_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT created_by INTO v_admin_id FROM groups WHERE id = v_group_id;
+
+  IF auth.uid() IS NULL
+     OR (auth.uid() IS DISTINCT FROM v_admin_id AND auth.uid() IS DISTINCT FROM v_deleted_by) THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = '42501';
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = NULL WHERE id = $1', p_table) USING p_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_deleted_record(TEXT, TEXT) TO authenticated;
+
+-- ============================================================
+-- TRIGGER: Payments (adds payment_restored to the 012 version)
+-- ============================================================
+CREATE OR REPLACE FUNCTION log_payment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD."groupId" IS NOT NULL THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (OLD."groupId", COALESCE(auth.uid(), OLD."from"), 'payment_deleted', 'payment', OLD.id,
+        jsonb_build_object('amount', OLD.amount, 'from', OLD."from"::TEXT, 'to', OLD."to"::TEXT));
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- Personal payments (no group) have no feed to show up in
+  IF NEW."groupId" IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_initiated', 'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_deleted', 'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_restored', 'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSIF OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('CONFIRMED', 'REJECTED') THEN
+    INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+    VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."to"),
+      CASE WHEN NEW.status = 'CONFIRMED' THEN 'payment_confirmed' ELSE 'payment_rejected' END,
+      'payment', NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'from', NEW."from"::TEXT, 'to', NEW."to"::TEXT));
+
+  ELSE
+    v_changes := activity_diff(to_jsonb(OLD), to_jsonb(NEW), ARRAY['amount', 'from', 'to', 'date', 'notes']);
+    IF v_changes <> '{}'::JSONB THEN
+      INSERT INTO activity_log (group_id, user_id, action, target_type, target_id, details)
+      VALUES (NEW."groupId", COALESCE(auth.uid(), NEW."from"), 'payment_updated', 'payment', NEW.id,
+        jsonb_build_object('amount', NEW.amount, 'changes', v_changes));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
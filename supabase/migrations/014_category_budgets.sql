@@ -0,0 +1,200 @@
+-- ============================================================
+-- SHA2ETNA - Category Budgets
+-- ============================================================
+-- A monthly target per group and expense category, in the
+-- group's base currency ("Groceries: 3000 a month").
+-- check_budget_alerts runs after an expense is added and sends
+-- BUDGET_ALERT notifications the first time a category's spending
+-- in that month reaches 80% and 100% of its budget. budget_alerts
+-- records what was sent per budget and month so nothing goes out
+-- twice. Months are UTC, like the statistics (011).
+-- Run this AFTER 013_soft_delete.sql
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS category_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  created_by UUID REFERENCES profiles(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (group_id, category)
+);
+
+CREATE TABLE IF NOT EXISTS budget_alerts (
+  budget_id UUID NOT NULL REFERENCES category_budgets(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  threshold INTEGER NOT NULL CHECK (threshold IN (80, 100)),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (budget_id, period_start, threshold)
+);
+
+-- Month-to-date spending per category
+CREATE INDEX IF NOT EXISTS idx_expenses_group_category_date
+  ON expenses("groupId", category, date) WHERE deleted_at IS NULL;
+
+ALTER TABLE category_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Category budgets - any current member can view and set them
+DROP POLICY IF EXISTS "category_budgets_members_policy" ON category_budgets;
+CREATE POLICY "category_budgets_members_policy" ON category_budgets
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = category_budgets.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = category_budgets.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+-- Budget alerts - group members can view and record
+DROP POLICY IF EXISTS "budget_alerts_members_policy" ON budget_alerts;
+CREATE POLICY "budget_alerts_members_policy" ON budget_alerts
+FOR ALL USING (
+  EXISTS (
+    SELECT 1 FROM category_budgets b
+    JOIN group_members gm ON gm.group_id = b.group_id
+    WHERE b.id = budget_alerts.budget_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+DROP TRIGGER IF EXISTS update_category_budgets_updated_at ON category_budgets;
+CREATE TRIGGER update_category_budgets_updated_at
+  BEFORE UPDATE ON category_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- FUNCTION: Arabic category name for notification text
+-- ============================================================
+-- Same labels as translateCategory in utils/categoryUtils.ts
+CREATE OR REPLACE FUNCTION category_label_ar(p_category TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_category
+    WHEN 'Rent' THEN 'إيجار'
+    WHEN 'Utilities' THEN 'فواتير'
+    WHEN 'Groceries' THEN 'مقاضي'
+    WHEN 'Internet' THEN 'إنترنت'
+    WHEN 'Electricity' THEN 'كهرباء'
+    WHEN 'Water' THEN 'مياه'
+    WHEN 'Gas' THEN 'غاز'
+    WHEN 'Entertainment' THEN 'ترفيه'
+    WHEN 'Food' THEN 'طعام'
+    WHEN 'Transportation' THEN 'مواصلات'
+    WHEN 'Maintenance' THEN 'صيانة'
+    WHEN 'Other' THEN 'أخرى'
+    ELSE p_category
+  END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Send budget alerts for one category and month
+-- ============================================================
+-- p_date is any moment in the month to check (usually the new
+-- expense's date). Spending is converted with each expense's
+-- stored exchange rate. When one expense crosses both thresholds
+-- only the 100% alert is sent, but both are recorded.
+-- Returns {"alerts": n} with the number of notifications sent.
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_budget_alerts(
+  p_group_id TEXT,
+  p_category TEXT,
+  p_date TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget RECORD;
+  v_month_start TIMESTAMPTZ := date_trunc('month', p_date AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_spent NUMERIC;
+  v_currency TEXT;
+  v_threshold INTEGER;
+  v_claimed INTEGER[] := ARRAY[]::INTEGER[];
+  v_message TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT id, amount INTO v_budget
+  FROM category_budgets
+  WHERE group_id = p_group_id AND category = p_category;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  SELECT COALESCE(SUM(e.amount * COALESCE(e."exchangeRate", 1)), 0) INTO v_spent
+  FROM expenses e
+  WHERE e."groupId" = p_group_id
+    AND e.category = p_category
+    AND e.deleted_at IS NULL
+    AND e.date >= v_month_start
+    AND e.date < v_month_start + INTERVAL '1 month';
+
+  FOREACH v_threshold IN ARRAY ARRAY[80, 100] LOOP
+    IF v_spent >= v_budget.amount * v_threshold / 100 THEN
+      -- Claim this month's alert; an existing row means it went out before
+      INSERT INTO budget_alerts (budget_id, period_start, threshold)
+      VALUES (v_budget.id, v_month_start::DATE, v_threshold)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        v_claimed := v_claimed || v_threshold;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF array_length(v_claimed, 1) IS NULL THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  v_threshold := (SELECT MAX(t) FROM unnest(v_claimed) AS t);
+  SELECT COALESCE("baseCurrency", 'EGP') INTO v_currency FROM groups WHERE id = p_group_id;
+
+  v_message := CASE
+    WHEN v_threshold = 100 THEN 'تجاوزت مصروفات ' || category_label_ar(p_category) || ' ميزانية الشهر'
+    ELSE 'مصروفات ' || category_label_ar(p_category) || ' وصلت 80% من ميزانية الشهر'
+  END || ' (' || ROUND(v_spent, 2) || ' من ' || v_budget.amount || ' ' || v_currency || ')';
+
+  INSERT INTO notifications (id, "userId", "groupId", type, title, message, read, date, data, "actionUrl")
+  SELECT
+    'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || member_id::TEXT), 1, 7),
+    member_id,
+    p_group_id,
+    'BUDGET_ALERT',
+    'تنبيه الميزانية',
+    v_message,
+    FALSE,
+    (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    jsonb_build_object(
+      'budgetId', v_budget.id,
+      'category', p_category,
+      'threshold', v_threshold,
+      'spent', ROUND(v_spent, 2),
+      'budget', v_budget.amount
+    ),
+    '/stats'
+  FROM groups g, unnest(g.members) AS member_id
+  WHERE g.id = p_group_id;
+
+  RETURN jsonb_build_object('alerts', 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_budget_alerts(TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,60 @@
+-- ============================================================
+-- SHA2ETNA - Web Push Devices
+-- ============================================================
+-- Browsers subscribed to Web Push are stored in user_devices
+-- (created in 002) with device_type 'web': device_token is the
+-- push endpoint and the two new columns hold the subscription
+-- keys the payload is encrypted with. The send-push edge
+-- function reads them with the service role.
+-- A browser belongs to whoever signed in last, so registering an
+-- endpoint takes it away from any other account.
+-- Run this AFTER 014_category_budgets.sql
+-- ============================================================
+
+ALTER TABLE user_devices
+ADD COLUMN IF NOT EXISTS push_p256dh TEXT DEFAULT NULL;
+
+ALTER TABLE user_devices
+ADD COLUMN IF NOT EXISTS push_auth TEXT DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_token ON user_devices(device_token);
+
+-- ============================================================
+-- FUNCTION: Register this browser's push subscription
+-- ============================================================
+CREATE OR REPLACE FUNCTION register_push_device(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_device_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED' USING ERRCODE = 'P0001';
+  END IF;
+
+  DELETE FROM user_devices
+  WHERE device_token = p_endpoint AND user_id <> auth.uid();
+
+  INSERT INTO user_devices (user_id, device_token, device_type, device_name, push_p256dh, push_auth, is_active, last_used_at)
+  VALUES (auth.uid(), p_endpoint, 'web', p_device_name, p_p256dh, p_auth, TRUE, NOW())
+  ON CONFLICT (user_id, device_token) DO UPDATE
+  SET push_p256dh = EXCLUDED.push_p256dh,
+      push_auth = EXCLUDED.push_auth,
+      device_name = COALESCE(EXCLUDED.device_name, user_devices.device_name),
+      is_active = TRUE,
+      last_used_at = NOW()
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_push_device(TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,175 @@
+-- ============================================================
+-- SHA2ETNA - Notification Preferences
+-- ============================================================
+-- One row per user. channels maps a notification type to
+-- 'push' (saved and pushed), 'in_app' (saved only) or 'off';
+-- types that aren't listed default to 'push'. Quiet hours are
+-- minutes after local midnight in the user's time zone and only
+-- hold back pushes. With daily_digest on, pushes wait and one
+-- DAILY_DIGEST notification summarises the day at digest_hour.
+-- NotificationService applies all of this when sending; the
+-- trigger below also drops 'off' rows written by the database
+-- functions (bill, debt and budget reminders).
+-- Run this AFTER 015_web_push.sql
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  channels JSONB NOT NULL DEFAULT '{}',
+  quiet_hours_start SMALLINT DEFAULT NULL CHECK (quiet_hours_start BETWEEN 0 AND 1439),
+  quiet_hours_end SMALLINT DEFAULT NULL CHECK (quiet_hours_end BETWEEN 0 AND 1439),
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  daily_digest BOOLEAN NOT NULL DEFAULT FALSE,
+  digest_hour SMALLINT NOT NULL DEFAULT 20 CHECK (digest_hour BETWEEN 0 AND 23),
+  last_digest_at TIMESTAMPTZ DEFAULT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Own preferences - full access
+DROP POLICY IF EXISTS "notification_preferences_user_policy" ON notification_preferences;
+CREATE POLICY "notification_preferences_user_policy" ON notification_preferences
+FOR ALL USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Group mates can read them, since the sender decides who gets what
+DROP POLICY IF EXISTS "notification_preferences_members_read" ON notification_preferences;
+CREATE POLICY "notification_preferences_members_read" ON notification_preferences
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM group_members mine
+    JOIN group_members theirs ON theirs.group_id = mine.group_id
+    WHERE mine.user_id = auth.uid() AND mine.left_at IS NULL
+      AND theirs.user_id = notification_preferences.user_id AND theirs.left_at IS NULL
+  )
+);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- FUNCTION: Channel a user picked for a notification type
+-- ============================================================
+CREATE OR REPLACE FUNCTION notification_channel(p_user_id UUID, p_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT channels ->> p_type FROM notification_preferences WHERE user_id = p_user_id),
+    'push'
+  );
+$$;
+
+-- ============================================================
+-- TRIGGER: Drop notifications the recipient turned off
+-- ============================================================
+CREATE OR REPLACE FUNCTION skip_muted_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF notification_channel(NEW."userId", NEW.type) = 'off' THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS skip_muted_notifications ON notifications;
+CREATE TRIGGER skip_muted_notifications
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION skip_muted_notifications();
+
+-- ============================================================
+-- FUNCTION: Send due daily digests
+-- ============================================================
+-- A digest is due once the user's local clock passes digest_hour
+-- and none went out earlier that local day. It counts the unread
+-- notifications since the previous digest (or the last day).
+-- Signed-in callers only process themselves; the scheduler
+-- (no auth.uid()) processes everyone.
+-- Returns {"digests": n}.
+-- ============================================================
+CREATE OR REPLACE FUNCTION process_notification_digests()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_digests INTEGER := 0;
+  v_pref RECORD;
+  v_since TIMESTAMPTZ;
+  v_total INTEGER;
+  v_summary TEXT;
+BEGIN
+  FOR v_pref IN
+    SELECT p.user_id, p.time_zone, p.digest_hour, p.last_digest_at
+    FROM notification_preferences p
+    WHERE p.daily_digest = TRUE
+      AND (v_uid IS NULL OR p.user_id = v_uid)
+      AND EXTRACT(HOUR FROM NOW() AT TIME ZONE p.time_zone) >= p.digest_hour
+      AND (
+        p.last_digest_at IS NULL
+        OR (p.last_digest_at AT TIME ZONE p.time_zone)::DATE < (NOW() AT TIME ZONE p.time_zone)::DATE
+      )
+    FOR UPDATE
+  LOOP
+    v_since := COALESCE(v_pref.last_digest_at, NOW() - INTERVAL '1 day');
+
+    SELECT SUM(cnt), string_agg(title || ' (' || cnt || ')', '، ' ORDER BY cnt DESC)
+    INTO v_total, v_summary
+    FROM (
+      SELECT n.title, COUNT(*) AS cnt
+      FROM notifications n
+      WHERE n."userId" = v_pref.user_id
+        AND n.read = FALSE
+        AND n.type <> 'DAILY_DIGEST'
+        AND n.date >= (EXTRACT(EPOCH FROM v_since) * 1000)::BIGINT
+      GROUP BY n.title
+    ) counts;
+
+    UPDATE notification_preferences SET last_digest_at = NOW() WHERE user_id = v_pref.user_id;
+
+    IF COALESCE(v_total, 0) > 0 THEN
+      INSERT INTO notifications (id, "userId", type, title, message, read, date, data, "actionUrl")
+      VALUES (
+        'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || v_pref.user_id::TEXT), 1, 7),
+        v_pref.user_id,
+        'DAILY_DIGEST',
+        'ملخص اليوم',
+        'عندك ' || v_total || ' تنبيه جديد: ' || v_summary,
+        FALSE,
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        jsonb_build_object('count', v_total, 'since', v_since),
+        '/profile'
+      );
+      v_digests := v_digests + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('digests', v_digests);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_notification_digests() TO authenticated;
+
+-- ============================================================
+-- SCHEDULE: hourly run when pg_cron is available
+-- ============================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-notification-digests', '30 * * * *', 'SELECT process_notification_digests()');
+  END IF;
+END;
+$$;
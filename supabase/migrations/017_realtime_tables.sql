@@ -0,0 +1,28 @@
+-- ============================================================
+-- SHA2ETNA - Realtime Tables
+-- ============================================================
+-- Publishes the group-scoped tables the app listens to through
+-- RealtimeService, so roommates' changes reach open pages.
+-- Deletes are soft (deleted_at), so they arrive as updates and
+-- pass the "groupId" filter.
+-- Run this AFTER 016_notification_preferences.sql
+-- ============================================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    RETURN;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['expenses', 'payments', 'shopping_items', 'bills'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- ============================================================
+-- SHA2ETNA - Chat Read Receipts
+-- ============================================================
+-- How far each member has read a group's chat, as the timestamp
+-- (ms, like chat_messages.timestamp) of the newest message they
+-- have seen. Gives "seen by" on messages and the unread chat
+-- count on the bottom navigation. Who is online and typing is
+-- Realtime presence only and isn't stored.
+-- Run this AFTER 017_realtime_tables.sql
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS chat_reads (
+  group_id TEXT NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  last_read_at BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (group_id, user_id)
+);
+
+-- Unread messages for one member: newer than their last read
+CREATE INDEX IF NOT EXISTS idx_chat_group_timestamp ON chat_messages("groupId", timestamp);
+
+ALTER TABLE chat_reads ENABLE ROW LEVEL SECURITY;
+
+-- Chat reads - group members can view everyone's
+DROP POLICY IF EXISTS "chat_reads_members_read" ON chat_reads;
+CREATE POLICY "chat_reads_members_read" ON chat_reads
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = chat_reads.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+-- Chat reads - members record their own
+DROP POLICY IF EXISTS "chat_reads_own_write" ON chat_reads;
+CREATE POLICY "chat_reads_own_write" ON chat_reads
+FOR ALL USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = chat_reads.group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  )
+);
+
+DROP TRIGGER IF EXISTS update_chat_reads_updated_at ON chat_reads;
+CREATE TRIGGER update_chat_reads_updated_at
+  BEFORE UPDATE ON chat_reads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- FUNCTION: Mark a group's chat read up to a message
+-- ============================================================
+-- Never moves backwards, so an older tab can't undo a newer read.
+CREATE OR REPLACE FUNCTION mark_chat_read(p_group_id TEXT, p_last_read_at BIGINT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_last_read BIGINT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO chat_reads (group_id, user_id, last_read_at)
+  VALUES (p_group_id, auth.uid(), p_last_read_at)
+  ON CONFLICT (group_id, user_id) DO UPDATE
+  SET last_read_at = GREATEST(chat_reads.last_read_at, EXCLUDED.last_read_at)
+  RETURNING last_read_at INTO v_last_read;
+
+  RETURN v_last_read;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_chat_read(TEXT, BIGINT) TO authenticated;
+
+-- ============================================================
+-- REALTIME: new messages and reads reach open chats
+-- ============================================================
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    RETURN;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['chat_messages', 'chat_reads'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,164 @@
+-- ============================================================
+-- SHA2ETNA - Chat Replies, Reactions, Edit & Delete
+-- ============================================================
+-- Uses the chat_messages columns added in 002:
+--   reply_to   - id of the quoted message
+--   reactions  - {"👍": ["<user id>", ...]} per emoji
+--   edited_at  - set when the author changes the text
+--   deleted_at - deleted for everyone; the row stays so replies
+--                still point somewhere, but its content is wiped
+-- All three actions are functions so that only the author can
+-- edit or delete, and concurrent reactions don't overwrite each
+-- other. The rows are already published (018), so every change
+-- reaches open chats as an UPDATE.
+-- Run this AFTER 018_chat_reads.sql
+-- ============================================================
+
+-- A reply loses its quote, not itself, when the original goes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'chat_messages_reply_to_fkey'
+  ) THEN
+    ALTER TABLE chat_messages
+    ADD CONSTRAINT chat_messages_reply_to_fkey
+    FOREIGN KEY (reply_to) REFERENCES chat_messages(id) ON DELETE SET NULL;
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Toggle the caller's reaction on a message
+-- ============================================================
+-- Returns the message's reactions after the change.
+CREATE OR REPLACE FUNCTION toggle_chat_reaction(p_message_id TEXT, p_emoji TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message chat_messages%ROWTYPE;
+  v_user TEXT := auth.uid()::TEXT;
+  v_reactions JSONB;
+  v_users JSONB;
+BEGIN
+  IF p_emoji IS NULL OR char_length(p_emoji) NOT BETWEEN 1 AND 16 THEN
+    RAISE EXCEPTION 'INVALID_REACTION' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_message FROM chat_messages WHERE id = p_message_id FOR UPDATE;
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = v_message."groupId" AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_reactions := COALESCE(v_message.reactions, '{}'::JSONB);
+  v_users := COALESCE(v_reactions -> p_emoji, '[]'::JSONB);
+
+  IF v_users ? v_user THEN
+    v_users := v_users - v_user;
+  ELSE
+    v_users := v_users || to_jsonb(v_user);
+  END IF;
+
+  IF jsonb_array_length(v_users) = 0 THEN
+    v_reactions := v_reactions - p_emoji;
+  ELSE
+    v_reactions := jsonb_set(v_reactions, ARRAY[p_emoji], v_users);
+  END IF;
+
+  UPDATE chat_messages SET reactions = v_reactions WHERE id = p_message_id;
+
+  RETURN v_reactions;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION toggle_chat_reaction(TEXT, TEXT) TO authenticated;
+
+-- ============================================================
+-- FUNCTION: Edit a message
+-- ============================================================
+-- Author only, text messages only. edited_at drives the
+-- "edited" marker.
+CREATE OR REPLACE FUNCTION edit_chat_message(p_message_id TEXT, p_text TEXT)
+RETURNS chat_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message chat_messages%ROWTYPE;
+  v_text TEXT := btrim(COALESCE(p_text, ''));
+BEGIN
+  IF v_text = '' THEN
+    RAISE EXCEPTION 'EMPTY_MESSAGE' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_message FROM chat_messages WHERE id = p_message_id FOR UPDATE;
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_message."userId" IS DISTINCT FROM auth.uid() OR COALESCE(v_message.type, 'text') <> 'text' THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_message.text = v_text THEN
+    RETURN v_message;
+  END IF;
+
+  UPDATE chat_messages
+  SET text = v_text, edited_at = NOW()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION edit_chat_message(TEXT, TEXT) TO authenticated;
+
+-- ============================================================
+-- FUNCTION: Delete a message for everyone
+-- ============================================================
+-- Author only, within 15 minutes of sending (timestamp is ms).
+-- Keep in step with CHAT_DELETE_WINDOW_MINUTES in ChatService.
+CREATE OR REPLACE FUNCTION delete_chat_message(p_message_id TEXT)
+RETURNS chat_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message chat_messages%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message FROM chat_messages WHERE id = p_message_id FOR UPDATE;
+  IF NOT FOUND OR v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_message."userId" IS DISTINCT FROM auth.uid() OR COALESCE(v_message.type, 'text') = 'system' THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_message.timestamp < (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT - 15 * 60 * 1000 THEN
+    RAISE EXCEPTION 'DELETE_WINDOW_PASSED' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE chat_messages
+  SET deleted_at = NOW(), text = '', "imageUrl" = NULL, reactions = '{}'::JSONB
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_chat_message(TEXT) TO authenticated;
@@ -0,0 +1,126 @@
+-- ============================================================
+-- SHA2ETNA - Currency-aware Bill Reminders
+-- ============================================================
+-- Bill reminders (006, re-created in 007) wrote every amount as
+-- "<amount> ج.م". Bills are kept in the group's base currency
+-- (008), so the text now uses that currency's label and decimal
+-- places, the same way formatCurrency does in the app.
+-- Run this AFTER 019_chat_message_actions.sql
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: Amount with its currency label for notification text
+-- ============================================================
+-- Same labels and decimals as CURRENCIES in utils/currencyUtils.ts
+CREATE OR REPLACE FUNCTION format_currency(p_amount NUMERIC, p_currency TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND(
+    p_amount,
+    CASE UPPER(COALESCE(p_currency, 'EGP'))
+      WHEN 'KWD' THEN 3
+      WHEN 'BHD' THEN 3
+      WHEN 'OMR' THEN 3
+      WHEN 'JOD' THEN 3
+      WHEN 'JPY' THEN 0
+      ELSE 2
+    END
+  )::TEXT || ' ' || CASE UPPER(COALESCE(p_currency, 'EGP'))
+    WHEN 'EGP' THEN 'ج.م'
+    WHEN 'SAR' THEN 'ر.س'
+    WHEN 'AED' THEN 'د.إ'
+    WHEN 'QAR' THEN 'ر.ق'
+    WHEN 'KWD' THEN 'د.ك'
+    WHEN 'BHD' THEN 'د.ب'
+    WHEN 'OMR' THEN 'ر.ع'
+    WHEN 'JOD' THEN 'د.أ'
+    WHEN 'USD' THEN '$'
+    WHEN 'EUR' THEN '€'
+    WHEN 'GBP' THEN '£'
+    WHEN 'TRY' THEN '₺'
+    WHEN 'JPY' THEN '¥'
+    ELSE UPPER(p_currency)
+  END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Process overdue bills and due reminders
+-- ============================================================
+-- p_group_id = NULL processes every group (scheduler only).
+-- Signed-in callers must pass a group they belong to.
+-- Returns {"overdue": n, "reminders": n}.
+-- ============================================================
+CREATE OR REPLACE FUNCTION process_bill_reminders(p_group_id TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_overdue INTEGER := 0;
+  v_reminders INTEGER := 0;
+  v_bill RECORD;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF p_group_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM group_members gm
+      WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  UPDATE bills
+  SET status = 'overdue'
+  WHERE status = 'pending'
+    AND "dueDate" < NOW()
+    AND deleted_at IS NULL
+    AND (p_group_id IS NULL OR "groupId" = p_group_id);
+  GET DIAGNOSTICS v_overdue = ROW_COUNT;
+
+  FOR v_bill IN
+    SELECT b.id, b."groupId", b.name, b.amount, b."dueDate",
+      format_currency(b.amount, g."baseCurrency") AS amount_text
+    FROM bills b
+    JOIN groups g ON g.id = b."groupId"
+    WHERE b.reminder = TRUE
+      AND b.status IN ('pending', 'overdue')
+      AND b.deleted_at IS NULL
+      AND (p_group_id IS NULL OR b."groupId" = p_group_id)
+      AND b."dueDate" - make_interval(days => COALESCE(b."reminderDays", 3)) <= NOW()
+  LOOP
+    -- Claim this cycle; a row that already exists means we reminded before
+    INSERT INTO bill_reminders (bill_id, period_due_date, kind)
+    VALUES (v_bill.id, v_bill."dueDate", 'reminder')
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO notifications (id, "userId", "groupId", type, title, message, read, date, data, "actionUrl")
+      SELECT
+        'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || member_id::TEXT), 1, 7),
+        member_id,
+        v_bill."groupId",
+        'BILL_DUE',
+        'فاتورة قادمة',
+        CASE
+          WHEN v_bill."dueDate" < NOW() THEN 'فاتورة ' || v_bill.name || ' متأخرة عن موعدها (' || v_bill.amount_text || ')'
+          ELSE 'موعد فاتورة ' || v_bill.name || ' يوم ' || to_char(v_bill."dueDate", 'YYYY-MM-DD') || ' (' || v_bill.amount_text || ')'
+        END,
+        FALSE,
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        jsonb_build_object('billId', v_bill.id, 'dueDate', v_bill."dueDate"),
+        '/bills'
+      FROM groups g, unnest(g.members) AS member_id
+      WHERE g.id = v_bill."groupId";
+
+      v_reminders := v_reminders + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('overdue', v_overdue, 'reminders', v_reminders);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_bill_reminders(TEXT) TO authenticated;
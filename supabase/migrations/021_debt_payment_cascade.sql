@@ -0,0 +1,17 @@
+-- ============================================================
+-- SHA2ETNA - Settlement Payments Go With Their Debt
+-- ============================================================
+-- 009 made payments."debtId" ON DELETE SET NULL, so deleting a
+-- debt turned its settlement payment into an ordinary group
+-- payment that group balances then counted. The app refuses to
+-- delete a debt while a live payment settles it; rejected and
+-- trashed settlement payments are now removed with the debt.
+-- Run this AFTER 020_bill_reminder_currency.sql
+-- ============================================================
+
+ALTER TABLE payments
+DROP CONSTRAINT IF EXISTS "payments_debtId_fkey";
+
+ALTER TABLE payments
+ADD CONSTRAINT "payments_debtId_fkey"
+FOREIGN KEY ("debtId") REFERENCES debts(id) ON DELETE CASCADE;
@@ -0,0 +1,118 @@
+-- ============================================================
+-- SHA2ETNA - Budget Alerts for the Current Month Only
+-- ============================================================
+-- check_budget_alerts (014) alerted for whatever month p_date
+-- fell in, so back-dating an expense into an earlier month could
+-- announce that a finished month went over budget. It now only
+-- alerts while p_date is in the current UTC month.
+-- Run this AFTER 021_debt_payment_cascade.sql
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: Send budget alerts for one category and month
+-- ============================================================
+-- p_date is any moment in the month to check (usually the new
+-- expense's date); outside the current UTC month nothing is sent.
+-- Spending is converted with each expense's stored exchange
+-- rate. When one expense crosses both thresholds only the 100%
+-- alert is sent, but both are recorded.
+-- Returns {"alerts": n} with the number of notifications sent.
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_budget_alerts(
+  p_group_id TEXT,
+  p_category TEXT,
+  p_date TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget RECORD;
+  v_month_start TIMESTAMPTZ := date_trunc('month', p_date AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_spent NUMERIC;
+  v_currency TEXT;
+  v_threshold INTEGER;
+  v_claimed INTEGER[] := ARRAY[]::INTEGER[];
+  v_message TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Back-dated expenses would alert about a month that's over
+  IF v_month_start <> date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  SELECT id, amount INTO v_budget
+  FROM category_budgets
+  WHERE group_id = p_group_id AND category = p_category;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  SELECT COALESCE(SUM(e.amount * COALESCE(e."exchangeRate", 1)), 0) INTO v_spent
+  FROM expenses e
+  WHERE e."groupId" = p_group_id
+    AND e.category = p_category
+    AND e.deleted_at IS NULL
+    AND e.date >= v_month_start
+    AND e.date < v_month_start + INTERVAL '1 month';
+
+  FOREACH v_threshold IN ARRAY ARRAY[80, 100] LOOP
+    IF v_spent >= v_budget.amount * v_threshold / 100 THEN
+      -- Claim this month's alert; an existing row means it went out before
+      INSERT INTO budget_alerts (budget_id, period_start, threshold)
+      VALUES (v_budget.id, v_month_start::DATE, v_threshold)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        v_claimed := v_claimed || v_threshold;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF array_length(v_claimed, 1) IS NULL THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  v_threshold := (SELECT MAX(t) FROM unnest(v_claimed) AS t);
+  SELECT COALESCE("baseCurrency", 'EGP') INTO v_currency FROM groups WHERE id = p_group_id;
+
+  v_message := CASE
+    WHEN v_threshold = 100 THEN 'تجاوزت مصروفات ' || category_label_ar(p_category) || ' ميزانية الشهر'
+    ELSE 'مصروفات ' || category_label_ar(p_category) || ' وصلت 80% من ميزانية الشهر'
+  END || ' (' || ROUND(v_spent, 2) || ' من ' || v_budget.amount || ' ' || v_currency || ')';
+
+  INSERT INTO notifications (id, "userId", "groupId", type, title, message, read, date, data, "actionUrl")
+  SELECT
+    'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || member_id::TEXT), 1, 7),
+    member_id,
+    p_group_id,
+    'BUDGET_ALERT',
+    'تنبيه الميزانية',
+    v_message,
+    FALSE,
+    (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    jsonb_build_object(
+      'budgetId', v_budget.id,
+      'category', p_category,
+      'threshold', v_threshold,
+      'spent', ROUND(v_spent, 2),
+      'budget', v_budget.amount
+    ),
+    '/stats'
+  FROM groups g, unnest(g.members) AS member_id
+  WHERE g.id = p_group_id;
+
+  RETURN jsonb_build_object('alerts', 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_budget_alerts(TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,152 @@
+-- ============================================================
+-- SHA2ETNA - Held-back Pushes
+-- ============================================================
+-- Notification preferences (016) saved notifications during
+-- quiet hours without ever pushing them, and the daily digest
+-- was only ever saved. push_pending marks a notification whose
+-- push is still owed; claim_pending_pushes returns the ones that
+-- may go out now (quiet hours over) and clears the flag, so each
+-- is pushed once. NotificationService claims the signed-in
+-- user's on start-up and the send-push function claims everyone's
+-- when the scheduler calls it.
+-- Run this AFTER 022_budget_alerts_current_month.sql
+-- ============================================================
+
+ALTER TABLE notifications
+ADD COLUMN IF NOT EXISTS push_pending BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_push_pending
+  ON notifications("userId") WHERE push_pending = TRUE;
+
+-- ============================================================
+-- FUNCTION: Whether a user's quiet hours are on right now
+-- ============================================================
+-- Same rules as isInQuietHours in NotificationService: no quiet
+-- hours while either end is NULL, and they may run past midnight.
+CREATE OR REPLACE FUNCTION in_quiet_hours(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN p.quiet_hours_start IS NULL OR p.quiet_hours_end IS NULL
+        OR p.quiet_hours_start = p.quiet_hours_end THEN FALSE
+      WHEN p.quiet_hours_start < p.quiet_hours_end
+        THEN local.minutes >= p.quiet_hours_start AND local.minutes < p.quiet_hours_end
+      ELSE local.minutes >= p.quiet_hours_start OR local.minutes < p.quiet_hours_end
+    END
+    FROM notification_preferences p,
+      LATERAL (
+        SELECT (EXTRACT(HOUR FROM NOW() AT TIME ZONE p.time_zone) * 60
+          + EXTRACT(MINUTE FROM NOW() AT TIME ZONE p.time_zone))::INTEGER AS minutes
+      ) local
+    WHERE p.user_id = p_user_id
+  ), FALSE);
+$$;
+
+-- ============================================================
+-- FUNCTION: Claim the pushes that may go out now
+-- ============================================================
+-- Signed-in callers only claim their own; the scheduler (no
+-- auth.uid()) claims everyone's. Notifications read in the
+-- meantime are cleared without being returned.
+-- ============================================================
+CREATE OR REPLACE FUNCTION claim_pending_pushes()
+RETURNS SETOF notifications
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE notifications n
+    SET push_pending = FALSE
+    WHERE n.push_pending = TRUE
+      AND (auth.uid() IS NULL OR n."userId" = auth.uid())
+      AND NOT in_quiet_hours(n."userId")
+    RETURNING n.*
+  )
+  SELECT * FROM claimed WHERE read = FALSE ORDER BY date;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_pending_pushes() TO authenticated;
+
+-- ============================================================
+-- FUNCTION: Send due daily digests
+-- ============================================================
+-- A digest is due once the user's local clock passes digest_hour
+-- and none went out earlier that local day. It counts the unread
+-- notifications since the previous digest (or the last day).
+-- The digest is saved with push_pending when its channel is
+-- 'push', so claim_pending_pushes hands it to send-push.
+-- Signed-in callers only process themselves; the scheduler
+-- (no auth.uid()) processes everyone.
+-- Returns {"digests": n}.
+-- ============================================================
+CREATE OR REPLACE FUNCTION process_notification_digests()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_digests INTEGER := 0;
+  v_pref RECORD;
+  v_since TIMESTAMPTZ;
+  v_total INTEGER;
+  v_summary TEXT;
+BEGIN
+  FOR v_pref IN
+    SELECT p.user_id, p.time_zone, p.digest_hour, p.last_digest_at
+    FROM notification_preferences p
+    WHERE p.daily_digest = TRUE
+      AND (v_uid IS NULL OR p.user_id = v_uid)
+      AND EXTRACT(HOUR FROM NOW() AT TIME ZONE p.time_zone) >= p.digest_hour
+      AND (
+        p.last_digest_at IS NULL
+        OR (p.last_digest_at AT TIME ZONE p.time_zone)::DATE < (NOW() AT TIME ZONE p.time_zone)::DATE
+      )
+    FOR UPDATE
+  LOOP
+    v_since := COALESCE(v_pref.last_digest_at, NOW() - INTERVAL '1 day');
+
+    SELECT SUM(cnt), string_agg(title || ' (' || cnt || ')', '، ' ORDER BY cnt DESC)
+    INTO v_total, v_summary
+    FROM (
+      SELECT n.title, COUNT(*) AS cnt
+      FROM notifications n
+      WHERE n."userId" = v_pref.user_id
+        AND n.read = FALSE
+        AND n.type <> 'DAILY_DIGEST'
+        AND n.date >= (EXTRACT(EPOCH FROM v_since) * 1000)::BIGINT
+      GROUP BY n.title
+    ) counts;
+
+    UPDATE notification_preferences SET last_digest_at = NOW() WHERE user_id = v_pref.user_id;
+
+    IF COALESCE(v_total, 0) > 0 THEN
+      INSERT INTO notifications (id, "userId", type, title, message, read, date, data, "actionUrl", push_pending)
+      VALUES (
+        'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || v_pref.user_id::TEXT), 1, 7),
+        v_pref.user_id,
+        'DAILY_DIGEST',
+        'ملخص اليوم',
+        'عندك ' || v_total || ' تنبيه جديد: ' || v_summary,
+        FALSE,
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        jsonb_build_object('count', v_total, 'since', v_since),
+        '/profile',
+        notification_channel(v_pref.user_id, 'DAILY_DIGEST') = 'push'
+      );
+      v_digests := v_digests + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('digests', v_digests);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_notification_digests() TO authenticated;
@@ -0,0 +1,56 @@
+-- ============================================================
+-- SHA2ETNA - Restore Works Again
+-- ============================================================
+-- restore_deleted_record (013) checked FOUND after a dynamic
+-- EXECUTE ... INTO, which never sets FOUND, so every restore
+-- failed with NOT_FOUND. It now checks the row count instead
+-- ("groupId" can't be used, payments outside a group have none).
+-- Run this AFTER 023_notification_push_queue.sql
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: Restore a soft-deleted row
+-- ============================================================
+-- Errors:
+--   UNSUPPORTED_TABLE - p_table isn't expenses/payments/shopping_items
+--   NOT_FOUND         - no deleted row with that id
+--   NOT_AUTHORIZED    - caller is neither the admin nor the deleter
+-- ============================================================
+CREATE OR REPLACE FUNCTION restore_deleted_record(p_table TEXT, p_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id TEXT;
+  v_deleted_by UUID;
+  v_admin_id UUID;
+  v_rows INTEGER;
+BEGIN
+  IF p_table NOT IN ('expenses', 'payments', 'shopping_items') THEN
+    RAISE EXCEPTION 'UNSUPPORTED_TABLE' USING ERRCODE = '22023';
+  END IF;
+
+  EXECUTE format('SELECT "groupId", deleted_by FROM %I WHERE id = $1 AND deleted_at IS NOT NULL', p_table)
+    INTO v_group_id, v_deleted_by
+    USING p_id;
+
+  -- EXECUTE doesn't set FOUND
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows = 0 THEN
+    RAISE EXCEPTION 'NOT_FOUND' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT created_by INTO v_admin_id FROM groups WHERE id = v_group_id;
+
+  IF auth.uid() IS NULL
+     OR (auth.uid() IS DISTINCT FROM v_admin_id AND auth.uid() IS DISTINCT FROM v_deleted_by) THEN
+    RAISE EXCEPTION 'NOT_AUTHORIZED' USING ERRCODE = '42501';
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = NULL WHERE id = $1', p_table) USING p_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restore_deleted_record(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,57 @@
+-- ============================================================
+-- SHA2ETNA - Pushes for Database-written Notifications
+-- ============================================================
+-- Bill, debt and budget reminders are written by database
+-- functions (process_bill_reminders, process_debt_reminders,
+-- check_budget_alerts), which never reach PushService, and the
+-- push_pending default (023) left them unpushed. push_pending now
+-- defaults to NULL, meaning "not decided": NotificationService
+-- always sets it, and the trigger below decides for every other
+-- insert from the recipient's preferences, so
+-- claim_pending_pushes and send-push deliver them.
+-- Run this AFTER 024_restore_found_check.sql
+-- ============================================================
+
+ALTER TABLE notifications ALTER COLUMN push_pending DROP NOT NULL;
+ALTER TABLE notifications ALTER COLUMN push_pending SET DEFAULT NULL;
+
+-- ============================================================
+-- FUNCTION: Whether a notification type is pushed to a user
+-- ============================================================
+-- Same rules as getPushTiming in NotificationService, less quiet
+-- hours, which claim_pending_pushes waits out: the channel must
+-- be 'push', and digest users only get the digest pushed.
+CREATE OR REPLACE FUNCTION owes_push(p_user_id UUID, p_type TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT notification_channel(p_user_id, p_type) = 'push'
+    AND (
+      p_type = 'DAILY_DIGEST'
+      OR NOT COALESCE((SELECT daily_digest FROM notification_preferences WHERE user_id = p_user_id), FALSE)
+    );
+$$;
+
+-- ============================================================
+-- TRIGGER: Queue the push for notifications nobody pushed
+-- ============================================================
+CREATE OR REPLACE FUNCTION queue_notification_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.push_pending IS NULL THEN
+    NEW.push_pending := owes_push(NEW."userId", NEW.type);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_notification_push ON notifications;
+CREATE TRIGGER queue_notification_push
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_notification_push();
@@ -0,0 +1,55 @@
+-- ============================================================
+-- SHA2ETNA - Push Rules Enforced on the Server
+-- ============================================================
+-- The sender's browser used to decide who got pushed, and
+-- send-push pushed whatever it was given, so a client could skip
+-- a recipient's 'off', quiet hours or digest choice. Now every
+-- inserted notification gets push_pending from the recipient's
+-- preferences (whatever the client sent), and send-push only
+-- pushes rows it can claim here, which leaves quiet hours for
+-- later. Claiming is for send-push (service role) only.
+-- Run this AFTER 025_database_notification_pushes.sql
+-- ============================================================
+
+-- ============================================================
+-- TRIGGER: Decide every notification's push
+-- ============================================================
+CREATE OR REPLACE FUNCTION queue_notification_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.push_pending := owes_push(NEW."userId", NEW.type);
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Claim the pushes that may go out now
+-- ============================================================
+-- p_user_id limits the claim to one recipient, p_ids to the given
+-- notifications; with neither it claims everyone's (scheduler).
+-- Notifications read in the meantime are cleared without being
+-- returned.
+-- ============================================================
+DROP FUNCTION IF EXISTS claim_pending_pushes();
+
+CREATE OR REPLACE FUNCTION claim_pending_pushes(p_user_id UUID DEFAULT NULL, p_ids TEXT[] DEFAULT NULL)
+RETURNS SETOF notifications
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE notifications n
+    SET push_pending = FALSE
+    WHERE n.push_pending = TRUE
+      AND (p_user_id IS NULL OR n."userId" = p_user_id)
+      AND (p_ids IS NULL OR n.id = ANY(p_ids))
+      AND NOT in_quiet_hours(n."userId")
+    RETURNING n.*
+  )
+  SELECT * FROM claimed WHERE read = FALSE ORDER BY date;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_pushes(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
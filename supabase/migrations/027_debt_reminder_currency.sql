@@ -0,0 +1,80 @@
+-- ============================================================
+-- SHA2ETNA - Currency-aware Debt Reminders
+-- ============================================================
+-- Debt reminders (009) wrote the bare amount. They now use the
+-- debt's group base currency, or the default (EGP) for loans
+-- outside a group, with format_currency (020) so the text
+-- matches formatCurrency in DebtService.
+-- Run this AFTER 026_server_side_push_rules.sql
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: Process overdue debts and due reminders
+-- ============================================================
+-- Signed-in callers only process debts they are part of; the
+-- scheduler (no auth.uid()) processes everything.
+-- Returns {"overdue": n, "reminders": n}.
+-- ============================================================
+CREATE OR REPLACE FUNCTION process_debt_reminders()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_overdue INTEGER := 0;
+  v_reminders INTEGER := 0;
+  v_uid UUID := auth.uid();
+  v_debt RECORD;
+  v_kind TEXT;
+BEGIN
+  UPDATE debts
+  SET status = 'overdue'
+  WHERE status = 'active'
+    AND "dueDate" < NOW()
+    AND (v_uid IS NULL OR v_uid IN ("from", "to"));
+  GET DIAGNOSTICS v_overdue = ROW_COUNT;
+
+  FOR v_debt IN
+    SELECT d.id, d."from", d."to", d.amount, d.description, d."dueDate", d."groupId",
+      format_currency(d.amount, g."baseCurrency") AS amount_text
+    FROM debts d
+    LEFT JOIN groups g ON g.id = d."groupId"
+    WHERE d.status IN ('active', 'overdue')
+      AND d."dueDate" IS NOT NULL
+      AND d."dueDate" - INTERVAL '1 day' <= NOW()
+      AND (v_uid IS NULL OR v_uid IN (d."from", d."to"))
+  LOOP
+    v_kind := CASE WHEN v_debt."dueDate" < NOW() THEN 'overdue' ELSE 'due' END;
+
+    INSERT INTO debt_reminders (debt_id, kind)
+    VALUES (v_debt.id, v_kind)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO notifications (id, "userId", type, title, message, read, date, data, "actionUrl", "groupId")
+      VALUES (
+        'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || v_debt.id), 1, 7),
+        v_debt."from",
+        'DEBT_REMINDER',
+        'تذكير بالدين',
+        CASE
+          WHEN v_kind = 'overdue' THEN 'دين بقيمة ' || v_debt.amount_text || ' تأخر سداده'
+          ELSE 'موعد سداد دين بقيمة ' || v_debt.amount_text || ' يوم ' || to_char(v_debt."dueDate", 'YYYY-MM-DD')
+        END || COALESCE(' (' || v_debt.description || ')', ''),
+        FALSE,
+        (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        jsonb_build_object('debtId', v_debt.id, 'dueDate', v_debt."dueDate"),
+        '/debts',
+        v_debt."groupId"
+      );
+
+      v_reminders := v_reminders + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('overdue', v_overdue, 'reminders', v_reminders);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_debt_reminders() TO authenticated;
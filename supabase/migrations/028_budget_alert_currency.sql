@@ -0,0 +1,170 @@
+-- ============================================================
+-- SHA2ETNA - Budget Alert Amounts in the Group's Currency
+-- ============================================================
+-- check_budget_alerts (014, 022) rounded amounts to 2 places and
+-- put the bare currency code after them, so its text differed
+-- from the app's fallback and 3-decimal currencies (KWD, BHD...)
+-- were rounded wrongly. It now rounds with currency_decimals and
+-- writes amounts with format_currency (020), the same decimals
+-- and labels as roundCurrency and formatCurrency.
+-- Run this AFTER 027_debt_reminder_currency.sql
+-- ============================================================
+
+-- ============================================================
+-- FUNCTION: Decimal places of a currency
+-- ============================================================
+-- Same decimals as CURRENCIES in utils/currencyUtils.ts
+CREATE OR REPLACE FUNCTION currency_decimals(p_currency TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE UPPER(COALESCE(p_currency, 'EGP'))
+    WHEN 'KWD' THEN 3
+    WHEN 'BHD' THEN 3
+    WHEN 'OMR' THEN 3
+    WHEN 'JOD' THEN 3
+    WHEN 'JPY' THEN 0
+    ELSE 2
+  END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Amount with its currency label for notification text
+-- ============================================================
+-- Re-created from 020 to share currency_decimals
+CREATE OR REPLACE FUNCTION format_currency(p_amount NUMERIC, p_currency TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND(p_amount, currency_decimals(p_currency))::TEXT || ' ' || CASE UPPER(COALESCE(p_currency, 'EGP'))
+    WHEN 'EGP' THEN 'ج.م'
+    WHEN 'SAR' THEN 'ر.س'
+    WHEN 'AED' THEN 'د.إ'
+    WHEN 'QAR' THEN 'ر.ق'
+    WHEN 'KWD' THEN 'د.ك'
+    WHEN 'BHD' THEN 'د.ب'
+    WHEN 'OMR' THEN 'ر.ع'
+    WHEN 'JOD' THEN 'د.أ'
+    WHEN 'USD' THEN '$'
+    WHEN 'EUR' THEN '€'
+    WHEN 'GBP' THEN '£'
+    WHEN 'TRY' THEN '₺'
+    WHEN 'JPY' THEN '¥'
+    ELSE UPPER(p_currency)
+  END;
+$$;
+
+-- ============================================================
+-- FUNCTION: Send budget alerts for one category and month
+-- ============================================================
+-- p_date is any moment in the month to check (usually the new
+-- expense's date); outside the current UTC month nothing is sent.
+-- Spending is converted with each expense's stored exchange
+-- rate. When one expense crosses both thresholds only the 100%
+-- alert is sent, but both are recorded.
+-- Returns {"alerts": n} with the number of notifications sent.
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_budget_alerts(
+  p_group_id TEXT,
+  p_category TEXT,
+  p_date TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget RECORD;
+  v_month_start TIMESTAMPTZ := date_trunc('month', p_date AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_spent NUMERIC;
+  v_currency TEXT;
+  v_threshold INTEGER;
+  v_claimed INTEGER[] := ARRAY[]::INTEGER[];
+  v_message TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members gm
+    WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid() AND gm.left_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'NOT_GROUP_MEMBER' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Back-dated expenses would alert about a month that's over
+  IF v_month_start <> date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  SELECT id, amount INTO v_budget
+  FROM category_budgets
+  WHERE group_id = p_group_id AND category = p_category;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  SELECT COALESCE(SUM(e.amount * COALESCE(e."exchangeRate", 1)), 0) INTO v_spent
+  FROM expenses e
+  WHERE e."groupId" = p_group_id
+    AND e.category = p_category
+    AND e.deleted_at IS NULL
+    AND e.date >= v_month_start
+    AND e.date < v_month_start + INTERVAL '1 month';
+
+  -- Rounded like roundCurrency, before comparing with the thresholds
+  SELECT COALESCE("baseCurrency", 'EGP') INTO v_currency FROM groups WHERE id = p_group_id;
+  v_spent := ROUND(v_spent, currency_decimals(v_currency));
+
+  FOREACH v_threshold IN ARRAY ARRAY[80, 100] LOOP
+    IF v_spent >= v_budget.amount * v_threshold / 100 THEN
+      -- Claim this month's alert; an existing row means it went out before
+      INSERT INTO budget_alerts (budget_id, period_start, threshold)
+      VALUES (v_budget.id, v_month_start::DATE, v_threshold)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        v_claimed := v_claimed || v_threshold;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF array_length(v_claimed, 1) IS NULL THEN
+    RETURN jsonb_build_object('alerts', 0);
+  END IF;
+
+  v_threshold := (SELECT MAX(t) FROM unnest(v_claimed) AS t);
+
+  -- Same text as buildBudgetAlertMessage in BudgetService
+  v_message := CASE
+    WHEN v_threshold = 100 THEN 'تجاوزت مصروفات ' || category_label_ar(p_category) || ' ميزانية الشهر'
+    ELSE 'مصروفات ' || category_label_ar(p_category) || ' وصلت 80% من ميزانية الشهر'
+  END || ' (' || format_currency(v_spent, v_currency) || ' من ' || format_currency(v_budget.amount, v_currency) || ')';
+
+  INSERT INTO notifications (id, "userId", "groupId", type, title, message, read, date, data, "actionUrl")
+  SELECT
+    'n' || (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT || substr(md5(random()::TEXT || member_id::TEXT), 1, 7),
+    member_id,
+    p_group_id,
+    'BUDGET_ALERT',
+    'تنبيه الميزانية',
+    v_message,
+    FALSE,
+    (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    jsonb_build_object(
+      'budgetId', v_budget.id,
+      'category', p_category,
+      'threshold', v_threshold,
+      'spent', v_spent,
+      'budget', v_budget.amount
+    ),
+    '/stats'
+  FROM groups g, unnest(g.members) AS member_id
+  WHERE g.id = p_group_id;
+
+  RETURN jsonb_build_object('alerts', 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_budget_alerts(TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
@@ -27,7 +27,17 @@ export enum NotificationType {
   DEBT_REMINDER = 'DEBT_REMINDER',
   BILL_DUE = 'BILL_DUE',
   NEW_MEMBER = 'NEW_MEMBER',
-  CHAT_MESSAGE = 'CHAT_MESSAGE'
+  CHAT_MESSAGE = 'CHAT_MESSAGE',
+  BUDGET_ALERT = 'BUDGET_ALERT',
+  DAILY_DIGEST = 'DAILY_DIGEST'
+}
+
+export enum SplitMode {
+  EQUAL = 'equal',
+  EXACT = 'exact',
+  PERCENTAGE = 'percentage',
+  SHARES = 'shares',
+  ADJUSTMENT = 'adjustment'
 }
 
 export interface User {
@@ -46,6 +56,8 @@ export interface Group {
   code: string;
   password?: string;
   members: string[];
+  /** ISO 4217 code that balances and stats are reported in */
+  baseCurrency?: string;
   created_by?: string;
   created_at?: string;
 }
@@ -69,8 +81,18 @@ export interface Expense {
   receiptUrl?: string;
   splitBetween: string[];
   splitAmounts?: { [userId: string]: number };
+  splitMode?: SplitMode;
+  /** Raw per-user values for the split mode: amounts, percentages, share weights or adjustments */
+  splitInputs?: { [userId: string]: number };
+  /** ISO 4217 code the amount and splits are recorded in */
+  currency?: string;
+  /** Group base currency units per 1 unit of `currency`, fixed when recorded */
+  exchangeRate?: number;
   notes?: string;
   created_at?: string;
+  updated_at?: string;
+  version?: number;
+  pendingSync?: boolean;
 }
 
 export interface Debt {
@@ -83,6 +105,10 @@ export interface Debt {
   isPersonal?: boolean;
   groupId?: string;
   status?: 'active' | 'paid' | 'overdue';
+  createdBy?: string;
+  /** Payment that settled (or is settling) the debt */
+  paymentId?: string;
+  settledAt?: string;
   created_at?: string;
 }
 
@@ -95,6 +121,8 @@ export interface Payment {
   status: TransactionStatus;
   notes?: string;
   groupId?: string;
+  /** Set when the payment settles a personal debt */
+  debtId?: string;
   confirmed_at?: string;
 }
 
@@ -106,6 +134,28 @@ export interface ChatMessage {
   timestamp: number;
   type?: 'text' | 'image' | 'system';
   imageUrl?: string;
+  /** Id of the message this one quotes */
+  reply_to?: string | null;
+  /** Emoji -> ids of the members who reacted with it */
+  reactions?: Record<string, string[]> | null;
+  edited_at?: string | null;
+  /** Deleted for everyone; text is blanked */
+  deleted_at?: string | null;
+}
+
+/** How far a member has read a group's chat */
+export interface ChatReadReceipt {
+  groupId: string;
+  userId: string;
+  /** Timestamp of the newest message they've seen */
+  lastReadAt: number;
+}
+
+/** A member with the chat open right now (Realtime presence) */
+export interface ChatPresenceMember {
+  userId: string;
+  typing: boolean;
+  onlineAt: number;
 }
 
 export interface ShoppingItem {
@@ -118,11 +168,14 @@ export interface ShoppingItem {
   priority?: 'low' | 'medium' | 'high';
   quantity?: number;
   created_at?: string;
+  pendingSync?: boolean;
 }
 
 export interface Notification {
   id: string;
   userId: string;
+  /** Group the event happened in; absent for account-level notifications */
+  groupId?: string;
   type: NotificationType;
   title: string;
   message: string;
@@ -130,6 +183,25 @@ export interface Notification {
   date: number;
   data?: Record<string, unknown>;
   actionUrl?: string;
+  /** Push held back by quiet hours, sent once they end */
+  push_pending?: boolean;
+}
+
+/** push: saved and pushed, in_app: saved only, off: not sent */
+export type NotificationChannel = 'push' | 'in_app' | 'off';
+
+export interface NotificationPreferences {
+  userId: string;
+  /** Types that aren't listed use 'push' */
+  channels: Partial<Record<NotificationType, NotificationChannel>>;
+  /** Minutes after local midnight; no quiet hours while either is null */
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  /** IANA time zone quiet hours and the digest hour are in */
+  timeZone: string;
+  /** Holds pushes back and sends one summary a day at digestHour */
+  dailyDigest: boolean;
+  digestHour: number;
 }
 
 export interface Bill {
@@ -147,6 +219,26 @@ export interface Bill {
   status: 'pending' | 'paid' | 'overdue';
 }
 
+export interface BillPayment {
+  id: string;
+  billId: string;
+  groupId: string;
+  payerId: string;
+  expenseId: string | null;
+  amount: number;
+  /** Due date of the cycle this payment covered */
+  periodDueDate: string;
+  paidAt: string;
+}
+
+export interface ExchangeRate {
+  baseCurrency: string;
+  quoteCurrency: string;
+  /** Units of baseCurrency per 1 unit of quoteCurrency */
+  rate: number;
+  updatedAt: string;
+}
+
 export interface ExpenseSplit {
   id: string;
   expenseId: string;
@@ -165,22 +257,139 @@ export interface ExpenseCursor {
   date: string;
 }
 
+export type ActivityTargetType = 'expense' | 'payment' | 'bill' | 'member' | 'group';
+
+export interface ActivityFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/** Snapshot of the target; edits also carry `changes` */
+export interface ActivityDetails {
+  changes?: Record<string, ActivityFieldChange>;
+  [key: string]: unknown;
+}
+
+export interface ActivityEntry {
+  id: string;
+  groupId: string;
+  /** Who did it */
+  userId: string;
+  /** e.g. expense_added, expense_updated, payment_confirmed, member_removed */
+  action: string;
+  targetType: ActivityTargetType;
+  targetId?: string | null;
+  details: ActivityDetails;
+  createdAt: string;
+}
+
+export interface ActivityCursor {
+  id: string;
+  createdAt: string;
+}
+
+export type DeletedItemType = 'expense' | 'payment' | 'shopping_item';
+
+/** A soft-deleted row as listed in the "recently deleted" bin */
+export interface DeletedItem {
+  id: string;
+  type: DeletedItemType;
+  groupId: string;
+  /** Expense description or shopping item text; empty for payments */
+  title: string;
+  amount?: number;
+  currency?: string;
+  /** Payment sender and receiver */
+  from?: string;
+  to?: string;
+  deletedAt: string;
+  deletedBy?: string | null;
+}
+
+/** Monthly spending target for one category, in the group's base currency */
+export interface CategoryBudget {
+  id: string;
+  groupId: string;
+  category: ExpenseCategory;
+  amount: number;
+  updatedAt?: string;
+}
+
+export interface BudgetProgress {
+  budget: CategoryBudget;
+  /** Spent this month, in the base currency */
+  spent: number;
+  /** spent / amount * 100, not capped */
+  percentage: number;
+}
+
+/** One bucket of a spending chart; `start` is the bucket's ISO start (UTC) */
+export interface StatsTrendPoint {
+  start: string;
+  label: string;
+  amount: number;
+  count: number;
+}
+
 export interface UserStats {
   totalPaid: number;
   totalOwed: number;
   totalOwing: number;
   balance: number;
-  monthlyExpenses: { month: string; amount: number }[];
+  /** The user's share of expenses per bucket */
+  trend: StatsTrendPoint[];
   categoryBreakdown: { category: string; amount: number }[];
 }
 
 export interface GroupStats {
   totalExpenses: number;
+  expenseCount: number;
   monthlyTotal: number;
   highestSpender: { userId: string; amount: number };
   categoryDistribution: { category: string; amount: number; percentage: number }[];
-  monthlyTrend: { month: string; amount: number }[];
-  memberContributions: { userId: string; amount: number; percentage: number }[];
+  trend: StatsTrendPoint[];
+  /** `amount` is what the member paid, `share` what they were charged */
+  memberContributions: { userId: string; amount: number; share: number; percentage: number }[];
+}
+
+export interface CategoryForecast {
+  category: string;
+  /** Spent so far this month */
+  spent: number;
+  /** Expected total by the end of the month */
+  projected: number;
+  /** Average full month over the history window; 0 without history */
+  baseline: number;
+}
+
+/** End-of-month projection for the current (UTC) month, in the base currency */
+export interface SpendingForecast {
+  monthStart: string;
+  /** Share of the month already gone, 0 to 1 */
+  elapsed: number;
+  spent: number;
+  projected: number;
+  baseline: number;
+  categories: CategoryForecast[];
+}
+
+/** A recent expense far above the usual amount for its category */
+export interface SpendingAnomaly {
+  expenseId: string;
+  description: string;
+  category: string;
+  date: string;
+  /** In the base currency */
+  amount: number;
+  /** Rolling average of the category's earlier expenses */
+  average: number;
+  /** amount / average */
+  ratio: number;
+}
+
+export interface SpendingInsights {
+  forecast: SpendingForecast;
+  anomalies: SpendingAnomaly[];
 }
 
 export interface UserBalance {
@@ -192,6 +401,45 @@ export interface UserBalance {
   balance: number;
 }
 
+export type StatementLineType = 'expense' | 'payment_sent' | 'payment_received';
+
+/** One row of a member statement, in the group's base currency */
+export interface StatementLine {
+  id: string;
+  type: StatementLineType;
+  date: string;
+  description: string;
+  /** Expense payer, or the other side of a payment */
+  counterpartyId: string;
+  /** Raises the balance: what they paid for an expense, or a payment they sent */
+  credit: number;
+  /** Lowers the balance: their share of an expense, or a payment they received */
+  debit: number;
+  /** Running balance after this line */
+  balance: number;
+}
+
+export interface MemberStatement {
+  groupId: string;
+  groupName: string;
+  userId: string;
+  memberName: string;
+  /** YYYY-MM */
+  month: string;
+  /** Inclusive ISO start of the month (UTC) */
+  from: string;
+  /** Exclusive ISO end of the month (UTC) */
+  to: string;
+  baseCurrency: string;
+  openingBalance: number;
+  totalPaid: number;
+  totalShare: number;
+  totalSent: number;
+  totalReceived: number;
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
 export interface PaginatedResult<T, Cursor = string | number | null> {
   items: T[];
   nextCursor?: Cursor | null;
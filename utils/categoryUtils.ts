@@ -1,3 +1,5 @@
+import { ExpenseCategory } from '../types';
+
 export const CATEGORY_TRANSLATIONS: Record<string, string> = {
   'Rent': 'إيجار',
   'Utilities': 'فواتير',
@@ -29,3 +31,34 @@ export const translateCategory = (cat: string): string => {
 export const translateCategoryFull = (cat: string): string => {
   return CATEGORY_TRANSLATIONS_FULL[cat] || cat;
 };
+
+// Keywords (English, as in Splitwise and bank exports, and Arabic) per category.
+// Checked in order, so the specific utilities come before the generic ones.
+const CATEGORY_KEYWORDS: [ExpenseCategory, string[]][] = [
+  [ExpenseCategory.RENT, ['rent', 'mortgage', 'إيجار', 'ايجار']],
+  [ExpenseCategory.ELECTRICITY, ['electric', 'كهرباء']],
+  [ExpenseCategory.WATER, ['water', 'مياه', 'مياة']],
+  [ExpenseCategory.GAS, ['heat/gas', 'heating', 'natural gas', 'غاز']],
+  [ExpenseCategory.INTERNET, ['internet', 'tv/phone', 'phone', 'wifi', 'إنترنت', 'انترنت']],
+  [ExpenseCategory.UTILITIES, ['utilities', 'cleaning', 'trash', 'فواتير', 'مرافق']],
+  [ExpenseCategory.GROCERIES, ['groceries', 'grocery', 'supermarket', 'household supplies', 'مقاضي', 'سوبر ماركت', 'بقالة']],
+  [ExpenseCategory.FOOD, ['dining', 'restaurant', 'food', 'liquor', 'cafe', 'مطعم', 'طعام', 'أكل', 'اكل']],
+  [ExpenseCategory.TRANSPORTATION, ['taxi', 'uber', 'careem', 'train', 'gas/fuel', 'fuel', 'parking', 'plane', 'مواصلات', 'بنزين', 'تاكسي']],
+  [ExpenseCategory.ENTERTAINMENT, ['entertainment', 'movies', 'games', 'music', 'sports', 'ترفيه', 'سينما']],
+  [ExpenseCategory.MAINTENANCE, ['maintenance', 'services', 'furniture', 'electronics', 'repair', 'صيانة', 'تصليح']]
+];
+
+/** Best-guess ExpenseCategory for a free-text category name or description */
+export const matchCategory = (text: string): ExpenseCategory => {
+  const value = text.trim().toLowerCase();
+  if (!value) return ExpenseCategory.OTHER;
+
+  const exact = Object.values(ExpenseCategory).find(category => category.toLowerCase() === value);
+  if (exact) return exact;
+
+  const translated = Object.entries(CATEGORY_TRANSLATIONS).find(([, label]) => label === value);
+  if (translated) return translated[0] as ExpenseCategory;
+
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => value.includes(keyword)));
+  return match ? match[0] : ExpenseCategory.OTHER;
+};
@@ -0,0 +1,67 @@
+// ============================================================
+// Currency helpers
+// ============================================================
+// Amounts are stored as decimals in their own currency. Rounding and
+// integer maths go through the currency's minor unit, so currencies
+// with 0 (JPY) or 3 (KWD, BHD, OMR, JOD) decimal places stay exact.
+// ============================================================
+
+export interface CurrencyInfo {
+  code: string;
+  label: string;
+  decimals: number;
+}
+
+export const DEFAULT_CURRENCY = 'EGP';
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  EGP: { code: 'EGP', label: 'ج.م', decimals: 2 },
+  SAR: { code: 'SAR', label: 'ر.س', decimals: 2 },
+  AED: { code: 'AED', label: 'د.إ', decimals: 2 },
+  QAR: { code: 'QAR', label: 'ر.ق', decimals: 2 },
+  KWD: { code: 'KWD', label: 'د.ك', decimals: 3 },
+  BHD: { code: 'BHD', label: 'د.ب', decimals: 3 },
+  OMR: { code: 'OMR', label: 'ر.ع', decimals: 3 },
+  JOD: { code: 'JOD', label: 'د.أ', decimals: 3 },
+  USD: { code: 'USD', label: '$', decimals: 2 },
+  EUR: { code: 'EUR', label: '€', decimals: 2 },
+  GBP: { code: 'GBP', label: '£', decimals: 2 },
+  TRY: { code: 'TRY', label: '₺', decimals: 2 },
+  JPY: { code: 'JPY', label: '¥', decimals: 0 }
+};
+
+export const getCurrencyInfo = (code?: string | null): CurrencyInfo => {
+  const normalized = (code || DEFAULT_CURRENCY).toUpperCase();
+  return CURRENCIES[normalized] || { code: normalized, label: normalized, decimals: 2 };
+};
+
+export const getCurrencyDecimals = (code?: string | null) => getCurrencyInfo(code).decimals;
+
+export const getCurrencyLabel = (code?: string | null) => getCurrencyInfo(code).label;
+
+const minorUnitFactor = (code?: string | null) => 10 ** getCurrencyDecimals(code);
+
+/** Converts an amount into integer minor units (cents, fils, yen…) */
+export const toMinorUnits = (value: number, code?: string | null) => Math.round(value * minorUnitFactor(code));
+
+export const fromMinorUnits = (units: number, code?: string | null) => units / minorUnitFactor(code);
+
+export const roundCurrency = (value: number, code?: string | null) =>
+  fromMinorUnits(toMinorUnits(value, code), code);
+
+/** Fixed-decimal text for an amount, without the currency label */
+export const formatAmount = (value: number, code?: string | null) =>
+  value.toFixed(getCurrencyDecimals(code));
+
+export const formatCurrency = (value: number, code?: string | null) =>
+  `${formatAmount(value, code)} ${getCurrencyLabel(code)}`;
+
+/**
+ * An expense amount in the group's base currency, using the rate stored
+ * on the expense when it was recorded (base units per 1 unit of its currency).
+ */
+export const toBaseAmount = (
+  amount: number,
+  exchangeRate: number | null | undefined,
+  baseCurrency?: string | null
+) => roundCurrency(amount * (exchangeRate ?? 1), baseCurrency);
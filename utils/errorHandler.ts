@@ -19,6 +19,32 @@ export class ServiceError extends Error {
   }
 }
 
+export const CONFLICT_ERROR_CODE = 'CONFLICT';
+
+/**
+ * Raised when a write was based on a stale copy of a record.
+ * `current` is the server's latest version, `attempted` is what the user tried to save.
+ */
+export class ConflictError<T = unknown, A = unknown> extends ServiceError {
+  current: T;
+  attempted: A;
+
+  constructor({ message, context, current, attempted }: {
+    message: string;
+    context?: string;
+    current: T;
+    attempted: A;
+  }) {
+    super({ message, code: CONFLICT_ERROR_CODE, context });
+    this.name = 'ConflictError';
+    this.current = current;
+    this.attempted = attempted;
+  }
+}
+
+export const isConflictError = <T = unknown, A = unknown>(error: unknown): error is ConflictError<T, A> =>
+  error instanceof ConflictError;
+
 const extractErrorProps = (error: unknown) => {
   if (error instanceof ServiceError) {
     return error;
@@ -0,0 +1,131 @@
+// ============================================================
+// FILE IMPORT
+// ============================================================
+// Parsing helpers for CSV files from other apps and banks: the
+// table itself, amounts written in local formats, dates in either
+// day or month order, and names compared loosely.
+// ============================================================
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+// Arabic-Indic (U+0660) and Persian (U+06F0) digits
+const ARABIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+const toLatinDigits = (text: string) =>
+  text.replace(ARABIC_DIGITS, digit => String(digit.charCodeAt(0) & 0xf));
+
+const detectDelimiter = (firstLine: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Rows of cells. Handles quoted cells (with "" escapes and line
+ * breaks), CRLF, a leading BOM, and comma, semicolon or tab
+ * delimiters. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map(cells => cells.map(value => value.trim()))
+    .filter(cells => cells.some(value => value !== ''));
+};
+
+/**
+ * Number from a bank or app export: "1,234.50", "1.234,50",
+ * "(45.00)", "45.00-", "EGP -12", Arabic-Indic digits.
+ * Returns null when there's no number in it.
+ */
+export const parseAmount = (raw: string): number | null => {
+  // U+066C / U+066B are the Arabic thousands and decimal separators
+  const signed = toLatinDigits(raw).replace('\u066B', '.').replace(/[^\d.,()-]/g, '');
+  const negative = /^\(.*\)$/.test(signed) || /^-|-$/.test(signed);
+  let text = signed.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Whichever comes last is the decimal separator
+    text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    // "12,50" is a decimal comma; "1,250" and "1,250,000" are thousands
+    text = /^\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, '');
+  }
+
+  const value = parseFloat(text);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+};
+
+/**
+ * ISO timestamp (noon UTC, so the day doesn't shift in any timezone)
+ * for dates like 2024-03-07, 07/03/2024 or 3/7/24. Returns null if
+ * the text isn't a valid date in the given order.
+ */
+export const parseDate = (raw: string, order: DateOrder = 'ymd'): string | null => {
+  const parts = toLatinDigits(raw).trim().split(/[^\d]+/).filter(Boolean).slice(0, 3).map(Number);
+  if (parts.length < 3) return null;
+
+  // A four-digit first part is always a year, whatever the order says
+  const [year, month, day] = String(parts[0]).length === 4 || order === 'ymd'
+    ? parts
+    : order === 'dmy'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+  const fullYear = year < 100 ? 2000 + year : year;
+
+  const date = new Date(Date.UTC(fullYear, month - 1, day, 12));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString();
+};
+
+/** Lowercased, without Arabic diacritics/tatweel and with alef/yaa/taa marbuta unified */
+export const normalizeText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[\u064B-\u0652\u0640]/g, '')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ى/g, 'ي')
+    .replace(/ة/g, 'ه')
+    .replace(/\s+/g, ' ')
+    .trim();
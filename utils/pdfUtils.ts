@@ -0,0 +1,139 @@
+// ============================================================
+// PDF
+// ============================================================
+// Small PDF writer for printable documents. Pages are drawn on a
+// canvas and embedded as JPEG images, so the browser's own text
+// engine does the Arabic shaping and right-to-left ordering; PDF
+// fonts would need a shaping library and an embedded Arabic font.
+// The catch is that the text isn't selectable in the file.
+// ============================================================
+
+/** A4 in PDF points */
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+/** Canvas pixels per point; 2 keeps text crisp when printed */
+const PDF_RENDER_SCALE = 2;
+const JPEG_QUALITY = 0.92;
+
+export interface PdfPage {
+  canvas: HTMLCanvasElement;
+  /** Already scaled, so drawing is in points from the top-left corner */
+  ctx: CanvasRenderingContext2D;
+}
+
+export const createPdfPage = (): PdfPage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(PDF_PAGE_WIDTH * PDF_RENDER_SCALE);
+  canvas.height = Math.round(PDF_PAGE_HEIGHT * PDF_RENDER_SCALE);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  ctx.scale(PDF_RENDER_SCALE, PDF_RENDER_SCALE);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT);
+  ctx.direction = 'rtl';
+  ctx.textBaseline = 'middle';
+  return { canvas, ctx };
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => {
+        if (!blob) {
+          reject(new Error('Could not encode PDF page'));
+          return;
+        }
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      },
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+
+// PDF text strings outside Latin-1 are written as UTF-16BE hex with a BOM
+const toPdfTextString = (text: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+/**
+ * PDF file with one A4 page per canvas. `title` goes in the
+ * document info, where viewers show it instead of the file name.
+ */
+export const pagesToPdf = async (pages: PdfPage[], title = ''): Promise<Uint8Array> => {
+  const images = await Promise.all(pages.map(page => canvasToJpeg(page.canvas)));
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, 3 info, then page / image / content per page
+  const pageId = (index: number) => 4 + index * 3;
+  const objectCount = 3 + pages.length * 3;
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, index) => `${pageId(index)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write(`<< /Title ${toPdfTextString(title)} /Producer (Sha2etna) >>\nendobj\n`);
+
+  images.forEach((jpeg, index) => {
+    const id = pageId(index);
+    const { width, height } = pages[index].canvas;
+    const drawing = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Im0 Do Q\n`;
+
+    beginObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>\nendobj\n`
+    );
+
+    beginObject(id + 1);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+      `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+    );
+    write(jpeg);
+    write('\nendstream\nendobj\n');
+
+    beginObject(id + 2);
+    write(`<< /Length ${drawing.length} >>\nstream\n${drawing}endstream\nendobj\n`);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { SplitMode } from '../types';
+import {
+  allocateReceiptItems,
+  calculateSplitShares,
+  getSplitValidationError,
+  INVALID_SPLIT_ERROR_CODE
+} from './splitUtils';
+
+const PEOPLE = ['a', 'b', 'c'];
+
+const sumOf = (shares: Record<string, number>) =>
+  Object.values(shares).reduce((sum, share) => sum + share, 0);
+
+// Runs the split and returns the ServiceError it throws
+const splitError = (...args: Parameters<typeof calculateSplitShares>) => {
+  try {
+    calculateSplitShares(...args);
+  } catch (error) {
+    return error;
+  }
+  throw new Error('expected the split to be rejected');
+};
+
+describe('calculateSplitShares', () => {
+  describe('equal', () => {
+    it('gives the leftover cent to the first participant', () => {
+      expect(calculateSplitShares(100, PEOPLE)).toEqual({ a: 33.34, b: 33.33, c: 33.33 });
+      expect(calculateSplitShares(0.05, PEOPLE)).toEqual({ a: 0.02, b: 0.02, c: 0.01 });
+    });
+
+    it("rounds to the currency's minor unit", () => {
+      expect(calculateSplitShares(10, PEOPLE, SplitMode.EQUAL, {}, 'KWD')).toEqual({ a: 3.334, b: 3.333, c: 3.333 });
+      expect(calculateSplitShares(1000, PEOPLE, SplitMode.EQUAL, {}, 'JPY')).toEqual({ a: 334, b: 333, c: 333 });
+    });
+
+    it('leaves out participants whose share is zero', () => {
+      expect(calculateSplitShares(0.01, PEOPLE)).toEqual({ a: 0.01 });
+    });
+  });
+
+  describe('exact', () => {
+    it('keeps amounts that add up to the total', () => {
+      expect(calculateSplitShares(100, PEOPLE, SplitMode.EXACT, { a: 60.5, b: 39.5 }))
+        .toEqual({ a: 60.5, b: 39.5 });
+    });
+
+    it('reports how far the amounts are from the total', () => {
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.EXACT, { a: 60, b: 30 }))
+        .toBe('مجموع المبالغ أقل من الإجمالي بـ 10.00');
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.EXACT, { a: 60, b: 50.005 }, 'KWD'))
+        .toBe('مجموع المبالغ أكبر من الإجمالي بـ 10.005');
+    });
+
+    it('rejects negative amounts', () => {
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.EXACT, { a: 120, b: -20 }))
+        .toBe('لا يمكن أن يكون نصيب أحد المشاركين بالسالب');
+    });
+  });
+
+  describe('percentage', () => {
+    it('splits by percentage with cents that add up', () => {
+      expect(calculateSplitShares(200, PEOPLE, SplitMode.PERCENTAGE, { a: 50, b: 25, c: 25 }))
+        .toEqual({ a: 100, b: 50, c: 50 });
+
+      const shares = calculateSplitShares(99.99, PEOPLE, SplitMode.PERCENTAGE, { a: 33.33, b: 33.33, c: 33.34 });
+      expect(shares).toEqual({ a: 33.33, b: 33.33, c: 33.33 });
+      expect(sumOf(shares)).toBeCloseTo(99.99, 2);
+    });
+
+    it('needs the percentages to add up to 100', () => {
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.PERCENTAGE, { a: 50, b: 40 }))
+        .toBe('مجموع النسب يجب أن يكون 100% (الحالي 90.00%)');
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.PERCENTAGE, { a: 120, b: -20 }))
+        .toBe('لا يمكن أن تكون النسبة بالسالب');
+    });
+  });
+
+  describe('shares', () => {
+    it('splits by weight, leftover cents going to the largest fraction', () => {
+      expect(calculateSplitShares(1000, PEOPLE, SplitMode.SHARES, { a: 2, b: 1, c: 1 }))
+        .toEqual({ a: 500, b: 250, c: 250 });
+      expect(calculateSplitShares(100, PEOPLE, SplitMode.SHARES, { a: 1, b: 2 }))
+        .toEqual({ a: 33.33, b: 66.67 });
+    });
+
+    it('rejects negative or all-zero shares', () => {
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.SHARES, { a: 2, b: -1 }))
+        .toBe('لا يمكن أن تكون الحصة بالسالب');
+      expect(getSplitValidationError(100, PEOPLE, SplitMode.SHARES, {}))
+        .toBe('حدد حصة واحدة على الأقل');
+    });
+  });
+
+  describe('adjustment', () => {
+    it('splits what is left after the adjustments equally', () => {
+      expect(calculateSplitShares(100, PEOPLE, SplitMode.ADJUSTMENT, { a: 10 }))
+        .toEqual({ a: 40, b: 30, c: 30 });
+
+      const shares = calculateSplitShares(100, PEOPLE, SplitMode.ADJUSTMENT, { a: -10 });
+      expect(shares).toEqual({ a: 26.67, b: 36.67, c: 36.66 });
+      expect(sumOf(shares)).toBeCloseTo(100, 2);
+    });
+
+    it('rejects adjustments that leave someone owing less than nothing', () => {
+      expect(getSplitValidationError(20, ['a', 'b'], SplitMode.ADJUSTMENT, { a: -50 }))
+        .toBe('التعديلات تجعل نصيب أحد المشاركين بالسالب');
+    });
+  });
+
+  it('rejects a split without participants', () => {
+    expect(splitError(100, [])).toMatchObject({
+      code: INVALID_SPLIT_ERROR_CODE,
+      message: 'لا يوجد مشاركين للمصروف'
+    });
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(splitError(100, PEOPLE, SplitMode.SHARES, { a: Number.NaN })).toMatchObject({
+      code: INVALID_SPLIT_ERROR_CODE,
+      message: 'قيمة غير صالحة في توزيع المصروف'
+    });
+  });
+});
+
+describe('allocateReceiptItems', () => {
+  const receipt = { amount: 115, items: [{ price: 60 }, { price: 40 }] };
+
+  it('spreads the total by each person’s item subtotal', () => {
+    // a: 60 + 20 = 80, b: 20 of 100 in items
+    expect(allocateReceiptItems(receipt, { 0: ['a'], 1: ['a', 'b'] })).toEqual({ a: 92, b: 23 });
+  });
+
+  it('rejects unclaimed items and receipts without a priced item', () => {
+    expect(() => allocateReceiptItems(receipt, { 0: ['a'] })).toThrow('يوجد 1 صنف بدون صاحب');
+    expect(() => allocateReceiptItems({ amount: 10, items: [{ price: 0 }] }, { 0: ['a'] }))
+      .toThrow('لا توجد أصناف بسعر صالح');
+  });
+});
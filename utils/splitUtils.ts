@@ -0,0 +1,189 @@
+import { SplitMode } from '../types';
+import { ServiceError } from './errorHandler';
+import { formatAmount, fromMinorUnits, toMinorUnits } from './currencyUtils';
+
+export const INVALID_SPLIT_ERROR_CODE = 'INVALID_SPLIT';
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  [SplitMode.EQUAL]: 'بالتساوي',
+  [SplitMode.EXACT]: 'مبالغ محددة',
+  [SplitMode.PERCENTAGE]: 'نسب مئوية',
+  [SplitMode.SHARES]: 'حصص',
+  [SplitMode.ADJUSTMENT]: 'تعديل'
+};
+
+const SPLIT_CONTEXT = 'حساب توزيع المصروف';
+
+const invalidSplit = (message: string) =>
+  new ServiceError({ message, code: INVALID_SPLIT_ERROR_CODE, context: SPLIT_CONTEXT });
+
+const readInput = (inputs: Record<string, number>, userId: string): number => {
+  const value = Number(inputs[userId] ?? 0);
+  if (!Number.isFinite(value)) {
+    throw invalidSplit('قيمة غير صالحة في توزيع المصروف');
+  }
+  return value;
+};
+
+/**
+ * Splits `totalCents` (minor units of any currency) by weight using the largest-remainder method, so the
+ * parts always add up to the total and leftover cents go to the largest
+ * fractions (ties keep participant order).
+ */
+const allocateByWeight = (totalCents: number, participants: string[], weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => (totalCents * weight) / weightSum);
+  const allocated = exact.map(Math.floor);
+  let remainder = totalCents - allocated.reduce((sum, cents) => sum + cents, 0);
+
+  const byFraction = participants
+    .map((_, index) => index)
+    .sort((a, b) => (exact[b] - allocated[b]) - (exact[a] - allocated[a]) || a - b);
+
+  for (const index of byFraction) {
+    if (remainder <= 0) break;
+    allocated[index] += 1;
+    remainder -= 1;
+  }
+  return allocated;
+};
+
+const splitEqually = (totalCents: number, participants: string[]): number[] =>
+  allocateByWeight(totalCents, participants, participants.map(() => 1));
+
+/**
+ * Turns the amount and the per-user split inputs into exact per-user shares,
+ * rounded to the currency's minor unit.
+ * Participants whose share works out to zero are left out of the result.
+ * Throws a ServiceError with code INVALID_SPLIT when the parts don't add up.
+ */
+export const calculateSplitShares = (
+  total: number,
+  participants: string[],
+  mode: SplitMode = SplitMode.EQUAL,
+  inputs: Record<string, number> = {},
+  currency?: string
+): Record<string, number> => {
+  if (participants.length === 0) {
+    throw invalidSplit('لا يوجد مشاركين للمصروف');
+  }
+
+  const toCents = (value: number) => toMinorUnits(value, currency);
+  const totalCents = toCents(total);
+  let cents: number[];
+
+  switch (mode) {
+    case SplitMode.EXACT: {
+      cents = participants.map(userId => toCents(readInput(inputs, userId)));
+      if (cents.some(value => value < 0)) {
+        throw invalidSplit('لا يمكن أن يكون نصيب أحد المشاركين بالسالب');
+      }
+      const difference = totalCents - cents.reduce((sum, value) => sum + value, 0);
+      if (difference !== 0) {
+        throw invalidSplit(
+          difference > 0
+            ? `مجموع المبالغ أقل من الإجمالي بـ ${formatAmount(fromMinorUnits(difference, currency), currency)}`
+            : `مجموع المبالغ أكبر من الإجمالي بـ ${formatAmount(fromMinorUnits(-difference, currency), currency)}`
+        );
+      }
+      break;
+    }
+    case SplitMode.PERCENTAGE: {
+      const percentages = participants.map(userId => readInput(inputs, userId));
+      if (percentages.some(value => value < 0)) {
+        throw invalidSplit('لا يمكن أن تكون النسبة بالسالب');
+      }
+      // Compare in hundredths of a percent to dodge float noise
+      const percentTotal = Math.round(percentages.reduce((sum, value) => sum + value, 0) * 100);
+      if (percentTotal !== 10000) {
+        throw invalidSplit(`مجموع النسب يجب أن يكون 100% (الحالي ${(percentTotal / 100).toFixed(2)}%)`);
+      }
+      cents = allocateByWeight(totalCents, participants, percentages);
+      break;
+    }
+    case SplitMode.SHARES: {
+      const weights = participants.map(userId => readInput(inputs, userId));
+      if (weights.some(value => value < 0)) {
+        throw invalidSplit('لا يمكن أن تكون الحصة بالسالب');
+      }
+      if (weights.every(value => value === 0)) {
+        throw invalidSplit('حدد حصة واحدة على الأقل');
+      }
+      cents = allocateByWeight(totalCents, participants, weights);
+      break;
+    }
+    case SplitMode.ADJUSTMENT: {
+      // Each person pays an equal part of whatever is left after the adjustments
+      const adjustments = participants.map(userId => toCents(readInput(inputs, userId)));
+      const baseCents = totalCents - adjustments.reduce((sum, value) => sum + value, 0);
+      cents = splitEqually(baseCents, participants).map((value, index) => value + adjustments[index]);
+      if (cents.some(value => value < 0)) {
+        throw invalidSplit('التعديلات تجعل نصيب أحد المشاركين بالسالب');
+      }
+      break;
+    }
+    case SplitMode.EQUAL:
+    default:
+      cents = splitEqually(totalCents, participants);
+  }
+
+  return participants.reduce<Record<string, number>>((shares, userId, index) => {
+    if (cents[index] > 0) {
+      shares[userId] = fromMinorUnits(cents[index], currency);
+    }
+    return shares;
+  }, {});
+};
+
+/** Same rules as calculateSplitShares, returned as a message for live form validation */
+export const getSplitValidationError = (
+  total: number,
+  participants: string[],
+  mode: SplitMode,
+  inputs: Record<string, number>,
+  currency?: string
+): string | null => {
+  try {
+    calculateSplitShares(total, participants, mode, inputs, currency);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'توزيع غير صالح';
+  }
+};
+
+/**
+ * Works out what each person owes for an itemized receipt. Shared items are
+ * split evenly between the people who claimed them, then the receipt total
+ * is spread by each person's item subtotal, so tax, service and tip land in
+ * proportion to what they ordered.
+ */
+export const allocateReceiptItems = (
+  receipt: { amount: number; items: { price: number }[] },
+  claims: Record<number, string[]>,
+  currency?: string
+): Record<string, number> => {
+  const unclaimed = receipt.items.filter((_, index) => !claims[index]?.length);
+  if (unclaimed.length > 0) {
+    throw invalidSplit(`يوجد ${unclaimed.length} صنف بدون صاحب`);
+  }
+
+  const subtotals = new Map<string, number>();
+  receipt.items.forEach((item, index) => {
+    const owners = claims[index];
+    owners.forEach(userId => {
+      subtotals.set(userId, (subtotals.get(userId) || 0) + item.price / owners.length);
+    });
+  });
+
+  const participants = Array.from(subtotals.keys());
+  const weights = participants.map(userId => subtotals.get(userId) || 0);
+  if (weights.every(weight => weight <= 0)) {
+    throw invalidSplit('لا توجد أصناف بسعر صالح');
+  }
+  const cents = allocateByWeight(toMinorUnits(receipt.amount, currency), participants, weights);
+
+  return participants.reduce<Record<string, number>>((shares, userId, index) => {
+    shares[userId] = fromMinorUnits(cents[index], currency);
+    return shares;
+  }, {});
+};
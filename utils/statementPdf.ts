@@ -0,0 +1,289 @@
+import { MemberStatement, StatementLine } from '../types';
+import { formatAmount, getCurrencyLabel } from './currencyUtils';
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfPage, createPdfPage, pagesToPdf } from './pdfUtils';
+
+// ============================================================
+// STATEMENT PDF
+// ============================================================
+// Lays out member statements on A4 pages, right to left: a header,
+// the month's totals, then one table row per line with the running
+// balance. Each statement starts on a new page and long ones carry
+// on with the table header repeated.
+// ============================================================
+
+const FONT_FAMILY = "'Tajawal', sans-serif";
+const MARGIN = 40;
+const ROW_HEIGHT = 20;
+const FOOTER_HEIGHT = 40;
+const CONTENT_RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  border: '#e2e8f0',
+  stripe: '#f8fafc',
+  header: '#ecfdf5',
+  primary: '#059669',
+  positive: '#059669',
+  negative: '#e11d48'
+};
+
+interface Column {
+  key: 'date' | 'description' | 'credit' | 'debit' | 'balance';
+  label: string;
+  width: number;
+  numeric?: boolean;
+}
+
+const NUMBER_COLUMN_WIDTH = 78;
+const DATE_COLUMN_WIDTH = 62;
+
+// Right to left, as they appear on the page
+const COLUMNS: Column[] = [
+  { key: 'date', label: 'التاريخ', width: DATE_COLUMN_WIDTH },
+  { key: 'description', label: 'البيان', width: CONTENT_WIDTH - DATE_COLUMN_WIDTH - NUMBER_COLUMN_WIDTH * 3 },
+  { key: 'credit', label: 'له', width: NUMBER_COLUMN_WIDTH, numeric: true },
+  { key: 'debit', label: 'عليه', width: NUMBER_COLUMN_WIDTH, numeric: true },
+  { key: 'balance', label: 'الرصيد', width: NUMBER_COLUMN_WIDTH, numeric: true }
+];
+
+type TextAlign = 'left' | 'right' | 'center';
+
+const setFont = (ctx: CanvasRenderingContext2D, size: number, bold = false) => {
+  ctx.font = `${bold ? 700 : 400} ${size}px ${FONT_FAMILY}`;
+};
+
+const drawText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  { align = 'right', color = COLORS.text, ltr = false }: { align?: TextAlign; color?: string; ltr?: boolean } = {}
+) => {
+  // Amounts are drawn left to right so a minus sign stays in front of the number
+  ctx.direction = ltr ? 'ltr' : 'rtl';
+  ctx.textAlign = align;
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+};
+
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+const formatMonth = (statement: MemberStatement) =>
+  new Date(statement.from).toLocaleDateString('ar-EG', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('ar-EG', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+const balanceColor = (value: number) => (value > 0 ? COLORS.positive : value < 0 ? COLORS.negative : COLORS.text);
+
+const describeLine = (line: StatementLine, userId: string, nameOf: (id: string) => string) => {
+  const note = line.description ? ` - ${line.description}` : '';
+  if (line.type === 'payment_sent') return `دفعة إلى ${nameOf(line.counterpartyId)}${note}`;
+  if (line.type === 'payment_received') return `دفعة من ${nameOf(line.counterpartyId)}${note}`;
+  return line.counterpartyId === userId
+    ? line.description
+    : `${line.description} (دفع ${nameOf(line.counterpartyId)})`;
+};
+
+const drawTableHeader = (ctx: CanvasRenderingContext2D, y: number) => {
+  ctx.fillStyle = COLORS.header;
+  ctx.fillRect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT);
+  setFont(ctx, 9, true);
+  let right = CONTENT_RIGHT;
+  COLUMNS.forEach(column => {
+    drawText(ctx, column.label, right - 6, y + ROW_HEIGHT / 2, { color: COLORS.primary });
+    right -= column.width;
+  });
+  return y + ROW_HEIGHT;
+};
+
+const drawRow = (
+  ctx: CanvasRenderingContext2D,
+  y: number,
+  cells: Record<Column['key'], string>,
+  { striped = false, bold = false, balance }: { striped?: boolean; bold?: boolean; balance?: number } = {}
+) => {
+  if (striped) {
+    ctx.fillStyle = COLORS.stripe;
+    ctx.fillRect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT);
+  }
+  ctx.strokeStyle = COLORS.border;
+  ctx.lineWidth = 0.5;
+  ctx.beginPath();
+  ctx.moveTo(MARGIN, y + ROW_HEIGHT);
+  ctx.lineTo(CONTENT_RIGHT, y + ROW_HEIGHT);
+  ctx.stroke();
+
+  setFont(ctx, 9, bold);
+  let right = CONTENT_RIGHT;
+  COLUMNS.forEach(column => {
+    const text = cells[column.key];
+    if (text) {
+      const color = column.key === 'balance' && balance !== undefined ? balanceColor(balance) : COLORS.text;
+      drawText(ctx, fitText(ctx, text, column.width - 12), right - 6, y + ROW_HEIGHT / 2, {
+        color,
+        ltr: column.numeric
+      });
+    }
+    right -= column.width;
+  });
+  return y + ROW_HEIGHT;
+};
+
+const drawHeader = (ctx: CanvasRenderingContext2D, statement: MemberStatement) => {
+  setFont(ctx, 18, true);
+  drawText(ctx, 'كشف حساب شهري', CONTENT_RIGHT, MARGIN + 10);
+  setFont(ctx, 11);
+  drawText(ctx, `${statement.groupName} · ${formatMonth(statement)}`, CONTENT_RIGHT, MARGIN + 32, { color: COLORS.muted });
+  setFont(ctx, 14, true);
+  drawText(ctx, statement.memberName, MARGIN, MARGIN + 10, { align: 'left', color: COLORS.primary });
+  setFont(ctx, 9);
+  drawText(ctx, `المبالغ بـ${getCurrencyLabel(statement.baseCurrency)}`, MARGIN, MARGIN + 32, { align: 'left', color: COLORS.muted });
+
+  ctx.strokeStyle = COLORS.primary;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(MARGIN, MARGIN + 48);
+  ctx.lineTo(CONTENT_RIGHT, MARGIN + 48);
+  ctx.stroke();
+  return MARGIN + 62;
+};
+
+const drawSummary = (ctx: CanvasRenderingContext2D, statement: MemberStatement, top: number) => {
+  const amount = (value: number) => formatAmount(value, statement.baseCurrency);
+  const items: { label: string; value: number; highlight?: boolean }[] = [
+    { label: 'رصيد أول الشهر', value: statement.openingBalance, highlight: true },
+    { label: 'دفع في مصروفات', value: statement.totalPaid },
+    { label: 'حصته من المصروفات', value: statement.totalShare },
+    { label: 'دفعات أرسلها', value: statement.totalSent },
+    { label: 'دفعات استلمها', value: statement.totalReceived },
+    { label: 'رصيد آخر الشهر', value: statement.closingBalance, highlight: true }
+  ];
+  const boxWidth = CONTENT_WIDTH / 3;
+  const boxHeight = 42;
+
+  items.forEach((item, index) => {
+    const right = CONTENT_RIGHT - (index % 3) * boxWidth;
+    const y = top + Math.floor(index / 3) * (boxHeight + 6);
+    ctx.fillStyle = item.highlight ? COLORS.header : COLORS.stripe;
+    ctx.fillRect(right - boxWidth + 4, y, boxWidth - 4, boxHeight);
+    setFont(ctx, 9);
+    drawText(ctx, item.label, right - 10, y + 13, { color: COLORS.muted });
+    setFont(ctx, 13, true);
+    drawText(ctx, amount(item.value), right - 10, y + 30, {
+      color: item.highlight ? balanceColor(item.value) : COLORS.text,
+      ltr: true
+    });
+  });
+  return top + (boxHeight + 6) * 2 + 12;
+};
+
+// Pages are numbered within each member's statement, not across the file
+const drawFooters = (pages: { page: PdfPage; statement: MemberStatement }[]) => {
+  const pageCounts = new Map<MemberStatement, number>();
+  pages.forEach(({ statement }) => pageCounts.set(statement, (pageCounts.get(statement) ?? 0) + 1));
+  const pageNumbers = new Map<MemberStatement, number>();
+
+  pages.forEach(({ page, statement }) => {
+    const pageNumber = (pageNumbers.get(statement) ?? 0) + 1;
+    pageNumbers.set(statement, pageNumber);
+    const y = PDF_PAGE_HEIGHT - MARGIN / 2 - 6;
+    setFont(page.ctx, 8);
+    drawText(page.ctx, 'الرصيد الموجب يعني أن للعضو مبلغًا عند المجموعة، والسالب أن عليه مبلغًا لها', CONTENT_RIGHT, y, {
+      color: COLORS.muted
+    });
+    drawText(page.ctx, `${statement.memberName} · صفحة ${pageNumber} من ${pageCounts.get(statement)}`, MARGIN, y, {
+      align: 'left',
+      color: COLORS.muted
+    });
+  });
+};
+
+const ensureFontsLoaded = async () => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await Promise.all([
+      document.fonts.load(`400 12px ${FONT_FAMILY}`),
+      document.fonts.load(`700 12px ${FONT_FAMILY}`)
+    ]);
+  } catch {
+    // Falls back to the system Arabic font
+  }
+};
+
+/**
+ * One PDF with the given statements, each starting on its own page.
+ * `nameOf` resolves member ids for payment and payer labels.
+ */
+export const renderStatementsPdf = async (
+  statements: MemberStatement[],
+  nameOf: (userId: string) => string
+): Promise<Uint8Array> => {
+  await ensureFontsLoaded();
+  const pages: { page: PdfPage; statement: MemberStatement }[] = [];
+  const bottom = PDF_PAGE_HEIGHT - FOOTER_HEIGHT - ROW_HEIGHT;
+
+  statements.forEach(statement => {
+    const amount = (value: number) => (value ? formatAmount(value, statement.baseCurrency) : '');
+    let page = createPdfPage();
+    pages.push({ page, statement });
+
+    let y = drawHeader(page.ctx, statement);
+    y = drawSummary(page.ctx, statement, y);
+    y = drawTableHeader(page.ctx, y);
+
+    const rows: { cells: Record<Column['key'], string>; balance: number; bold?: boolean }[] = [
+      {
+        cells: { date: formatDay(statement.from), description: 'رصيد أول الشهر', credit: '', debit: '', balance: formatAmount(statement.openingBalance, statement.baseCurrency) },
+        balance: statement.openingBalance,
+        bold: true
+      },
+      ...statement.lines.map(line => ({
+        cells: {
+          date: formatDay(line.date),
+          description: describeLine(line, statement.userId, nameOf),
+          credit: amount(line.credit),
+          debit: amount(line.debit),
+          balance: formatAmount(line.balance, statement.baseCurrency)
+        },
+        balance: line.balance
+      })),
+      {
+        cells: { date: '', description: 'رصيد آخر الشهر', credit: '', debit: '', balance: formatAmount(statement.closingBalance, statement.baseCurrency) },
+        balance: statement.closingBalance,
+        bold: true
+      }
+    ];
+
+    if (statement.lines.length === 0) {
+      rows.splice(1, 0, {
+        cells: { date: '', description: 'لا توجد حركات هذا الشهر', credit: '', debit: '', balance: '' },
+        balance: 0
+      });
+    }
+
+    rows.forEach((row, index) => {
+      if (y > bottom) {
+        page = createPdfPage();
+        pages.push({ page, statement });
+        y = drawTableHeader(page.ctx, MARGIN);
+      }
+      y = drawRow(page.ctx, y, row.cells, { striped: index % 2 === 1, bold: row.bold, balance: row.balance });
+    });
+  });
+
+  drawFooters(pages);
+  const title = statements.length === 1
+    ? `كشف حساب ${statements[0].memberName} - ${statements[0].month}`
+    : `كشف حساب ${statements[0]?.groupName || ''} - ${statements[0]?.month || ''}`;
+  return pagesToPdf(pages.map(({ page }) => page), title);
+};
@@ -68,6 +68,9 @@ export default defineConfig(({ mode }) => {
             // Claim all clients immediately
             clientsClaim: true,
             
+            // Web Push: show notifications and open their actionUrl
+            importScripts: ['push-sw.js'],
+            
             // =============================================================
             // 🔄 RUNTIME CACHING STRATEGIES
             // =============================================================